@@ -7,7 +7,8 @@
 --
 -- Notes:
 -- - We identify attacker txs by `fhe_events.args_json.caller == $callerLower`.
--- - This stays L1-log-only; tx.from is NOT stored in DB.
+-- - This stays L1-log-only; tx.from is only available in `tx_receipts.from_address`
+--   once `bun run enrich:receipts` has run.
 --
 WITH attacker_txs AS (
   SELECT DISTINCT tx_hash AS txHash
@@ -1,10 +1,7 @@
 import { DatabaseSync } from "node:sqlite";
 import fs from "node:fs/promises";
-import { createPublicClient, http } from "viem";
-import { sepolia } from "viem/chains";
 
 const dbPath = process.env.DB_PATH ?? "data/fhevm_stats.sqlite";
-const rpcUrl = process.env.SEPOLIA_ETH_RPC_URL ?? "https://sepolia.drpc.org";
 const chainId = Number(process.env.CHAIN_ID ?? 11155111);
 
 const callerLower = String(
@@ -15,34 +12,32 @@ const hoursBack = Number(process.env.HOURS_BACK ?? 17);
 const explicitStart = process.env.START_BLOCK ? Number(process.env.START_BLOCK) : null;
 const explicitEnd = process.env.END_BLOCK ? Number(process.env.END_BLOCK) : null;
 
-const client = createPublicClient({ chain: sepolia, transport: http(rpcUrl, { timeout: 30_000 }) });
-const tip = Number(await client.getBlockNumber());
-
 const now = Math.floor(Date.now() / 1000);
 const startTs = now - hoursBack * 3600;
 
-async function blockForTs(target) {
-  let lo = 0n;
-  let hi = await client.getBlockNumber();
-  while (lo < hi) {
-    const mid = (lo + hi) / 2n;
-    const b = await client.getBlock({ blockNumber: mid });
-    const ts = Number(b.timestamp);
-    if (ts >= target) hi = mid;
-    else lo = mid + 1n;
+const db = new DatabaseSync(dbPath, { readonly: true });
+
+// Block times come from the ingestor's blocks table (see `bun run backfill:blocks`).
+function blockForTs(target) {
+  const row = db
+    .prepare(`SELECT MIN(number) AS number FROM blocks WHERE chain_id = ? AND timestamp >= ?`)
+    .get(chainId, target);
+  if (row?.number === null || row?.number === undefined) {
+    db.close();
+    throw new Error(
+      `No stored block at or after ${new Date(target * 1000).toISOString()} for chain_id=${chainId}. Run backfill:blocks or set START_BLOCK.`,
+    );
   }
-  return Number(lo);
+  return Number(row.number);
 }
 
-const db = new DatabaseSync(dbPath, { readonly: true });
-
 const dbMaxRow = db
   .prepare(`SELECT MAX(block_number) AS maxBlock FROM fhe_events WHERE chain_id = ?`)
   .get(chainId);
 const dbMaxBlock = Number(dbMaxRow?.maxBlock ?? 0);
 
-const startBlock = explicitStart ?? (await blockForTs(startTs));
-const endBlock = Math.min(explicitEnd ?? tip, dbMaxBlock);
+const startBlock = explicitStart ?? blockForTs(startTs);
+const endBlock = Math.min(explicitEnd ?? dbMaxBlock, dbMaxBlock);
 
 if (endBlock <= 0) {
   db.close();
@@ -185,9 +180,9 @@ db.close();
 const report = {
   generatedAt: new Date().toISOString(),
   dbPath,
-  rpcUrl,
+  blockTimesFrom: "blocks",
   chainId,
-  range: { startBlock, endBlock, hoursBack, tip, dbMaxBlock },
+  range: { startBlock, endBlock, hoursBack, dbMaxBlock },
   caller: callerLower,
   attackerTxCount,
   signatureCount: signatureRows.length,
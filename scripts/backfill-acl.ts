@@ -0,0 +1,84 @@
+import { loadConfig, openStorage } from "../src/app.ts";
+
+// ACL events are fetched with every ingested range, so history from before ACL ingestion
+// was enabled has none. This records that history as ingestion gaps; the streamer
+// re-ingests them (events are deduplicated, ACL grants are added) at
+// GAP_FILL_BLOCKS_PER_POLL and rewinds the DFG build checkpoint once each gap is filled.
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const env = { ...Bun.env } as Record<string, string | undefined>;
+const config = loadConfig(env);
+const chainId = config.chainId;
+if (chainId === undefined) {
+  throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
+}
+if (!config.aclAddress) {
+  throw new Error("ACL_CONTRACT_ADDRESS is required (or set NETWORK to sepolia).");
+}
+const gapBlocks = parseNumber(env.ACL_BACKFILL_GAP_BLOCKS) ?? 100_000;
+
+const storage = await openStorage(config);
+
+const eventRange = (await storage
+  .prepare("SELECT MIN(block_number) AS minBlock FROM fhe_events WHERE chain_id = ?")
+  .get(chainId)) as { minBlock: number | null };
+const aclRange = (await storage
+  .prepare("SELECT MIN(block_number) AS minBlock FROM acl_events WHERE chain_id = ?")
+  .get(chainId)) as { minBlock: number | null };
+const checkpoint = (await storage
+  .prepare("SELECT last_block AS lastBlock FROM checkpoints WHERE chain_id = ?")
+  .get(chainId)) as { lastBlock: number } | undefined;
+
+// Default: from the first ingested event up to where ACL ingestion took over.
+const fromBlock = parseNumber(env.START_BLOCK) ?? eventRange.minBlock;
+const toBlock =
+  parseNumber(env.END_BLOCK) ??
+  (aclRange.minBlock !== null ? aclRange.minBlock - 1 : checkpoint?.lastBlock);
+
+const insertGap = storage.prepare(
+  `INSERT INTO ingestion_gaps (chain_id, from_block, to_block, next_block)
+   VALUES ($chainId, $fromBlock, $toBlock, $fromBlock)`,
+);
+
+let gaps = 0;
+if (
+  fromBlock !== null &&
+  fromBlock !== undefined &&
+  toBlock !== undefined &&
+  fromBlock <= toBlock
+) {
+  // Several smaller gaps let the DFG rebuild start before the whole history is done.
+  await storage.transaction(async () => {
+    for (let start = fromBlock; start <= toBlock; start += gapBlocks) {
+      await insertGap.run({
+        $chainId: chainId,
+        $fromBlock: start,
+        $toBlock: Math.min(start + gapBlocks - 1, toBlock),
+      });
+      gaps += 1;
+    }
+  });
+}
+
+console.log(
+  JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      dbPath: config.dbPath,
+      chainId,
+      aclAddress: config.aclAddress,
+      fromBlock: fromBlock ?? null,
+      toBlock: toBlock ?? null,
+      gapsRecorded: gaps,
+    },
+    null,
+    2,
+  ),
+);
+
+await storage.close();
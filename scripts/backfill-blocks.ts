@@ -0,0 +1,98 @@
+import { fetchBlockHeaders, loadConfig, openStorage } from "../src/app.ts";
+import { createRpcPool } from "../src/rpc-pool.ts";
+
+// Fills the blocks table for events ingested before block headers were stored, so
+// time-bucketed rollups and time-range filters can run without RPC access.
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const env = { ...Bun.env } as Record<string, string | undefined>;
+const config = loadConfig(env);
+const chainId = config.chainId;
+if (chainId === undefined) {
+  throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
+}
+const batchSize = parseNumber(env.BLOCKS_BACKFILL_BATCH) ?? 500;
+
+const storage = await openStorage(config);
+const rpc = createRpcPool(config.rpcUrls, chainId);
+
+const selectMissing = storage.prepare(`
+  SELECT DISTINCT e.block_number AS blockNumber
+  FROM fhe_events e
+  LEFT JOIN blocks b ON b.chain_id = e.chain_id AND b.number = e.block_number
+  WHERE e.chain_id = $chainId AND b.number IS NULL AND e.block_number > $after
+  ORDER BY e.block_number
+  LIMIT $limit
+`);
+const upsertBlock = storage.prepare(`
+  INSERT INTO blocks (chain_id, number, hash, timestamp, parent_hash)
+  VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT(chain_id, number) DO UPDATE SET
+    hash = excluded.hash,
+    timestamp = excluded.timestamp,
+    parent_hash = excluded.parent_hash
+`);
+
+let after = -1;
+let fetched = 0;
+for (;;) {
+  const rows = (await selectMissing.all({
+    $chainId: chainId,
+    $after: after,
+    $limit: batchSize,
+  })) as Array<{ blockNumber: number }>;
+  if (rows.length === 0) break;
+
+  const headers = await fetchBlockHeaders(
+    rpc,
+    rows.map((row) => row.blockNumber),
+  );
+  await storage.transaction(async () => {
+    for (const header of headers) {
+      await upsertBlock.run(
+        chainId,
+        header.number,
+        header.hash,
+        header.timestamp,
+        header.parentHash,
+      );
+    }
+  });
+  fetched += headers.length;
+  after = rows[rows.length - 1]?.blockNumber ?? after;
+  console.error("backfill-blocks: progress", { chainId, throughBlock: after, fetched });
+}
+
+const missingRow = (await storage
+  .prepare(
+    `SELECT COUNT(DISTINCT e.block_number) AS count
+     FROM fhe_events e
+     LEFT JOIN blocks b ON b.chain_id = e.chain_id AND b.number = e.block_number
+     WHERE e.chain_id = ? AND b.number IS NULL`,
+  )
+  .get(chainId)) as { count: number };
+const totalRow = (await storage
+  .prepare("SELECT COUNT(*) AS count FROM blocks WHERE chain_id = ?")
+  .get(chainId)) as { count: number };
+
+console.log(
+  JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      dbPath: config.dbPath,
+      chainId,
+      headersFetched: fetched,
+      blocksTotal: totalRow.count,
+      eventBlocksMissing: missingRow.count,
+    },
+    null,
+    2,
+  ),
+);
+
+await storage.close();
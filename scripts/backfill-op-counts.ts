@@ -1,33 +1,30 @@
-import { initDatabase } from "../src/app.ts";
+import { openStorage } from "../src/app.ts";
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
 const dbPath = Bun.env.DB_PATH ?? DEFAULT_DB_PATH;
 
-const db = initDatabase(dbPath);
+const storage = await openStorage({ dbPath, databaseUrl: Bun.env.DATABASE_URL || undefined });
 
-db.exec("BEGIN");
-try {
-  db.exec("DELETE FROM op_counts");
-  db.exec(`
-    INSERT INTO op_counts (chain_id, event_name, count)
-    SELECT chain_id, event_name, COUNT(*) AS count
-    FROM fhe_events
-    GROUP BY chain_id, event_name
-  `);
-  db.exec("COMMIT");
-} catch (err) {
-  db.exec("ROLLBACK");
-  throw err;
-}
+await storage.transaction(async () => {
+  await storage.prepare("DELETE FROM op_counts").run();
+  await storage
+    .prepare(
+      `INSERT INTO op_counts (chain_id, event_name, count)
+       SELECT chain_id, event_name, COUNT(*) AS count
+       FROM fhe_events
+       GROUP BY chain_id, event_name`,
+    )
+    .run();
+});
 
-const totals = db
+const totals = (await storage
   .prepare(
     `SELECT chain_id AS chainId, SUM(count) AS total, COUNT(*) AS eventTypes
      FROM op_counts
      GROUP BY chain_id
      ORDER BY chain_id`,
   )
-  .all() as Array<{ chainId: number; total: number; eventTypes: number }>;
+  .all()) as Array<{ chainId: number; total: number; eventTypes: number }>;
 
 console.log(
   JSON.stringify(
@@ -41,4 +38,4 @@ console.log(
   ),
 );
 
-db.close();
+await storage.close();
@@ -1,39 +1,39 @@
-import { initDatabase } from "../src/app.ts";
+import { openStorage } from "../src/app.ts";
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
 const dbPath = Bun.env.DB_PATH ?? DEFAULT_DB_PATH;
 
-const db = initDatabase(dbPath);
+const storage = await openStorage({ dbPath, databaseUrl: Bun.env.DATABASE_URL || undefined });
 
-db.exec("BEGIN");
-try {
-  db.exec("DELETE FROM tx_seen");
-  db.exec("DELETE FROM tx_counts");
-  db.exec(`
-    INSERT OR IGNORE INTO tx_seen (chain_id, tx_hash)
-    SELECT chain_id, tx_hash
-    FROM fhe_events
-    GROUP BY chain_id, tx_hash
-  `);
-  db.exec(`
-    INSERT INTO tx_counts (chain_id, count)
-    SELECT chain_id, COUNT(*) AS count
-    FROM tx_seen
-    GROUP BY chain_id
-  `);
-  db.exec("COMMIT");
-} catch (err) {
-  db.exec("ROLLBACK");
-  throw err;
-}
+await storage.transaction(async () => {
+  await storage.prepare("DELETE FROM tx_seen").run();
+  await storage.prepare("DELETE FROM tx_counts").run();
+  await storage
+    .prepare(
+      `INSERT INTO tx_seen (chain_id, tx_hash)
+       SELECT chain_id, tx_hash
+       FROM fhe_events
+       GROUP BY chain_id, tx_hash
+       ON CONFLICT DO NOTHING`,
+    )
+    .run();
+  await storage
+    .prepare(
+      `INSERT INTO tx_counts (chain_id, count)
+       SELECT chain_id, COUNT(*) AS count
+       FROM tx_seen
+       GROUP BY chain_id`,
+    )
+    .run();
+});
 
-const totals = db
+const totals = (await storage
   .prepare(
     `SELECT chain_id AS chainId, count AS total
      FROM tx_counts
      ORDER BY chain_id`,
   )
-  .all() as Array<{ chainId: number; total: number }>;
+  .all()) as Array<{ chainId: number; total: number }>;
 
 console.log(
   JSON.stringify(
@@ -47,4 +47,4 @@ console.log(
   ),
 );
 
-db.close();
+await storage.close();
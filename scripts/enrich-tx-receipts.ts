@@ -0,0 +1,57 @@
+import { loadConfig, openStorage } from "../src/app.ts";
+import { createRpcPool } from "../src/rpc-pool.ts";
+import { enrichTxReceiptsOnce } from "../src/tx-receipts.ts";
+
+// Stores sender, recipient, gas used, effective gas price and status for every tx in
+// `tx_seen` that has no receipt yet. The ingestor does the same incrementally when
+// TX_RECEIPTS_PER_POLL is set.
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const env = { ...Bun.env } as Record<string, string | undefined>;
+const config = loadConfig(env);
+const chainId = config.chainId;
+if (chainId === undefined) {
+  throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
+}
+const batchSize = parseNumber(env.TX_RECEIPTS_BATCH) ?? 200;
+
+const storage = await openStorage(config);
+const rpc = createRpcPool(config.rpcUrls, chainId);
+
+let fetched = 0;
+for (;;) {
+  const result = await enrichTxReceiptsOnce(rpc, storage, chainId, batchSize);
+  fetched += result.fetched;
+  // Misses are deferred until their retry time, so an empty batch means nothing is due.
+  if (result.fetched === 0 && result.missing === 0) break;
+  console.error("enrich-tx-receipts: progress", { chainId, fetched, missing: result.missing });
+}
+
+const totalRow = (await storage
+  .prepare("SELECT COUNT(*) AS count FROM tx_receipts WHERE chain_id = ?")
+  .get(chainId)) as { count: number };
+const missingRow = (await storage
+  .prepare("SELECT COUNT(*) AS count FROM tx_receipt_misses WHERE chain_id = ?")
+  .get(chainId)) as { count: number };
+
+console.log(
+  JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      dbPath: config.dbPath,
+      chainId,
+      receiptsFetched: fetched,
+      receiptsTotal: totalRow.count,
+      receiptsUnavailable: missingRow.count,
+    },
+    null,
+    2,
+  ),
+);
+
+await storage.close();
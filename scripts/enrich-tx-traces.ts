@@ -0,0 +1,66 @@
+import { loadConfig, openStorage } from "../src/app.ts";
+import { createRpcPool } from "../src/rpc-pool.ts";
+import { enrichTxTracesOnce } from "../src/tx-traces.ts";
+
+// Traces every tx in `tx_seen` that has not been traced yet (`debug_traceTransaction`,
+// callTracer) and attributes its FHE events to the calling contract and function. Needs
+// an RPC with the debug namespace (an archive node for old txs). The ingestor does the
+// same incrementally when TX_TRACES_PER_POLL is set; rebuild the DFG afterwards to carry
+// the calls onto txs built before they were traced.
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const env = { ...Bun.env } as Record<string, string | undefined>;
+const config = loadConfig(env);
+const chainId = config.chainId;
+if (chainId === undefined) {
+  throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
+}
+const batchSize = parseNumber(env.TX_TRACES_BATCH) ?? 100;
+
+const storage = await openStorage(config);
+const rpc = createRpcPool(config.rpcUrls, chainId);
+
+let traced = 0;
+let mismatched = 0;
+for (;;) {
+  const result = await enrichTxTracesOnce(rpc, storage, chainId, batchSize);
+  traced += result.traced;
+  mismatched += result.mismatched;
+  // Untraceable txs are deferred until their retry time, so an empty batch means nothing
+  // is due.
+  if (result.traced === 0 && result.missing === 0) break;
+  console.error("enrich-tx-traces: progress", { chainId, traced, missing: result.missing });
+}
+
+const totals = (await storage
+  .prepare(
+    `SELECT SUM(CASE WHEN status = 'unavailable' THEN 0 ELSE 1 END) AS txs,
+            SUM(CASE WHEN status = 'unavailable' THEN 1 ELSE 0 END) AS unavailable,
+            COALESCE(SUM(attributed_events), 0) AS events
+     FROM tx_traces WHERE chain_id = ?`,
+  )
+  .get(chainId)) as { txs: number | null; unavailable: number | null; events: number };
+
+console.log(
+  JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      dbPath: config.dbPath,
+      chainId,
+      tracesFetched: traced,
+      tracesMismatched: mismatched,
+      tracesTotal: totals.txs ?? 0,
+      eventsAttributed: totals.events,
+      tracesUnavailable: totals.unavailable ?? 0,
+    },
+    null,
+    2,
+  ),
+);
+
+await storage.close();
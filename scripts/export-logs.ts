@@ -0,0 +1,47 @@
+import { writeFileSync } from "node:fs";
+import { loadConfig, openStorage } from "../src/app.ts";
+import { exportLogArchive } from "../src/log-archive.ts";
+
+// Exports `fhe_events` as a raw log archive that `MODE=replay` ingests, plus a manifest
+// (`<archive>.manifest.json`) with the executors, ABI versions and checksums, so a
+// dataset can be rebuilt exactly elsewhere.
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const env = { ...Bun.env } as Record<string, string | undefined>;
+// Replay mode: an export never needs an RPC URL.
+const config = loadConfig({ ...env, MODE: "replay" });
+const chainId = config.chainId;
+if (chainId === undefined) {
+  throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
+}
+const fromBlock = parseNumber(env.START_BLOCK);
+const toBlock = parseNumber(env.END_BLOCK);
+const address = env.EXPORT_ADDRESS || undefined;
+const path =
+  env.EXPORT_PATH ||
+  `data/exports/fhe-logs-${chainId}-${fromBlock ?? "first"}-${toBlock ?? "last"}.jsonl.gz`;
+
+const storage = await openStorage(config);
+const manifest = await exportLogArchive(storage, path, { chainId, fromBlock, toBlock, address });
+const manifestPath = `${path}.manifest.json`;
+writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+
+console.log(
+  JSON.stringify(
+    {
+      dbPath: config.dbPath,
+      path,
+      manifestPath,
+      ...manifest,
+    },
+    null,
+    2,
+  ),
+);
+
+await storage.close();
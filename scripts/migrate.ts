@@ -1,18 +1,25 @@
-import { initDatabase } from "../src/app.ts";
+import { connectStorage } from "../src/app.ts";
+import { migrateSchema } from "../src/schema.ts";
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
 
 const dbPath = Bun.env.DB_PATH ?? DEFAULT_DB_PATH;
-const db = initDatabase(dbPath);
-db.close();
+const dryRun = Bun.env.MIGRATE_DRY_RUN === "1";
+const storage = connectStorage({ dbPath, databaseUrl: Bun.env.DATABASE_URL || undefined });
 
-console.log(
-  JSON.stringify(
-    {
-      migratedAt: new Date().toISOString(),
-      dbPath,
-    },
-    null,
-    2,
-  ),
-);
+try {
+  const result = await migrateSchema(storage, { dryRun });
+  console.log(
+    JSON.stringify(
+      {
+        migratedAt: new Date().toISOString(),
+        dbPath: storage.location,
+        ...result,
+      },
+      null,
+      2,
+    ),
+  );
+} finally {
+  await storage.close();
+}
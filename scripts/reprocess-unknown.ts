@@ -0,0 +1,83 @@
+import { TransactionReceiptNotFoundError } from "viem";
+import { loadConfig, openStorage } from "../src/app.ts";
+import { reprocessUnknownEvents, type TopicsLookup } from "../src/reprocess.ts";
+import { createRpcPool } from "../src/rpc-pool.ts";
+
+// Re-decodes events stored as `Unknown` with the ABI registry in src/abi-registry.ts.
+// Rows ingested before raw topics were kept get their topics from the tx receipt, so an
+// RPC is only needed for those.
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const env = { ...Bun.env } as Record<string, string | undefined>;
+const config = loadConfig(env);
+const chainId = config.chainId;
+if (chainId === undefined) {
+  throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
+}
+const batchSize = parseNumber(env.REPROCESS_BATCH) ?? 500;
+
+const storage = await openStorage(config);
+const rpc = env.REPROCESS_FETCH_TOPICS === "0" ? null : createRpcPool(config.rpcUrls, chainId);
+
+const receiptTopics = new Map<string, Map<number, readonly `0x${string}`[]>>();
+const lookupTopics: TopicsLookup | undefined = rpc
+  ? async (txHash, logIndex) => {
+      let byIndex = receiptTopics.get(txHash);
+      if (!byIndex) {
+        const receipt = await rpc.request(async (client) => {
+          try {
+            return await client.getTransactionReceipt({ hash: txHash as `0x${string}` });
+          } catch (err) {
+            if (err instanceof TransactionReceiptNotFoundError) return null;
+            throw err;
+          }
+        });
+        byIndex = new Map(receipt?.logs.map((log) => [Number(log.logIndex), log.topics]) ?? []);
+        receiptTopics.set(txHash, byIndex);
+      }
+      return byIndex.get(logIndex) ?? null;
+    }
+  : undefined;
+
+const totals = { scanned: 0, decoded: 0, stillUnknown: 0, missingTopics: 0 };
+const byEvent: Record<string, number> = {};
+let afterId = 0;
+for (;;) {
+  const result = await reprocessUnknownEvents(storage, chainId, {
+    limit: batchSize,
+    afterId,
+    lookupTopics,
+  });
+  if (result.lastId === null) break;
+  afterId = result.lastId;
+  receiptTopics.clear();
+  totals.scanned += result.scanned;
+  totals.decoded += result.decoded;
+  totals.stillUnknown += result.stillUnknown;
+  totals.missingTopics += result.missingTopics;
+  for (const [eventName, count] of Object.entries(result.byEvent)) {
+    byEvent[eventName] = (byEvent[eventName] ?? 0) + count;
+  }
+  console.error("reprocess-unknown: progress", { chainId, afterId, decoded: totals.decoded });
+}
+
+console.log(
+  JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      dbPath: config.dbPath,
+      chainId,
+      ...totals,
+      byEvent,
+    },
+    null,
+    2,
+  ),
+);
+
+await storage.close();
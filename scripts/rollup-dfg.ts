@@ -1,6 +1,8 @@
-import { initDatabase } from "../src/app.ts";
+import { openStorage } from "../src/app.ts";
+import { computeOpNgrams, NGRAM_SEPARATOR } from "../src/dfg-motifs.ts";
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
+const NGRAM_BATCH = 500;
 
 type Rollup = {
   opCounts: Record<string, number>;
@@ -127,18 +129,20 @@ const chainId = parseNumber(Bun.env.CHAIN_ID);
 const fullRollup = Bun.env.DFG_ROLLUP_FULL === "1" || Bun.env.DFG_ROLLUP_FULL === "true";
 const depsEnabled = Bun.env.DFG_DEPS_ROLLUP !== "0" && Bun.env.DFG_DEPS_ROLLUP !== "false";
 const depsForce = Bun.env.DFG_DEPS_FORCE === "1" || Bun.env.DFG_DEPS_FORCE === "true";
+const motifsEnabled = Bun.env.DFG_MOTIFS_ROLLUP !== "0" && Bun.env.DFG_MOTIFS_ROLLUP !== "false";
+const ngramsEnabled = Bun.env.DFG_NGRAMS_ROLLUP !== "0" && Bun.env.DFG_NGRAMS_ROLLUP !== "false";
 
-const db = initDatabase(dbPath);
+const storage = await openStorage({ dbPath, databaseUrl: Bun.env.DATABASE_URL || undefined });
 
 const chains = chainId
   ? [chainId]
   : (
-      db
+      (await storage
         .prepare("SELECT DISTINCT chain_id AS chainId FROM dfg_txs ORDER BY chain_id")
-        .all() as Array<{ chainId: number }>
+        .all()) as Array<{ chainId: number }>
     ).map((row) => row.chainId);
 
-const statsStmt = db.prepare(
+const statsStmt = storage.prepare(
   `SELECT block_number AS blockNumber, tx_hash AS txHash, stats_json AS statsJson
    FROM dfg_txs
    WHERE chain_id = $chainId
@@ -150,47 +154,49 @@ const statsStmt = db.prepare(
      )
    ORDER BY block_number, tx_hash`,
 );
-const countStmt = db.prepare("SELECT COUNT(*) AS count FROM dfg_txs WHERE chain_id = $chainId");
-const checkpointStmt = db.prepare(
+const countStmt = storage.prepare(
+  "SELECT COUNT(*) AS count FROM dfg_txs WHERE chain_id = $chainId",
+);
+const checkpointStmt = storage.prepare(
   `SELECT last_block AS lastBlock, last_tx_hash AS lastTxHash
    FROM dfg_rollup_checkpoints
    WHERE chain_id = $chainId`,
 );
-const deleteCheckpointStmt = db.prepare(
+const deleteCheckpointStmt = storage.prepare(
   "DELETE FROM dfg_rollup_checkpoints WHERE chain_id = $chainId",
 );
-const upsertCheckpointStmt = db.prepare(
+const upsertCheckpointStmt = storage.prepare(
   `INSERT INTO dfg_rollup_checkpoints (chain_id, last_block, last_tx_hash)
    VALUES ($chainId, $lastBlock, $lastTxHash)
    ON CONFLICT(chain_id) DO UPDATE
      SET last_block = excluded.last_block,
          last_tx_hash = excluded.last_tx_hash,
-         updated_at = datetime('now')`,
+         updated_at = ${storage.sql.now}`,
 );
-const existingRollupStmt = db.prepare(
+const existingRollupStmt = storage.prepare(
   "SELECT stats_json AS statsJson FROM dfg_rollups WHERE chain_id = $chainId",
 );
-const existingDepRollupStmt = db.prepare(
+const existingDepRollupStmt = storage.prepare(
   "SELECT dfg_tx_count AS dfgTxCount, stats_json AS statsJson FROM dfg_dep_rollups WHERE chain_id = $chainId",
 );
 
-const upsertStmt = db.prepare(
+const upsertStmt = storage.prepare(
   `INSERT INTO dfg_rollups (chain_id, dfg_tx_count, stats_json)
    VALUES ($chainId, $dfgTxCount, $statsJson)
    ON CONFLICT(chain_id) DO UPDATE
      SET dfg_tx_count = excluded.dfg_tx_count,
          stats_json = excluded.stats_json,
-         updated_at = datetime('now')`,
+         updated_at = ${storage.sql.now}`,
 );
-const upsertDepStmt = db.prepare(
+const upsertDepStmt = storage.prepare(
   `INSERT INTO dfg_dep_rollups (chain_id, dfg_tx_count, stats_json)
    VALUES ($chainId, $dfgTxCount, $statsJson)
    ON CONFLICT(chain_id) DO UPDATE
      SET dfg_tx_count = excluded.dfg_tx_count,
          stats_json = excluded.stats_json,
-         updated_at = datetime('now')`,
+         updated_at = ${storage.sql.now}`,
 );
-const depFullStmt = db.prepare(
+const depFullStmt = storage.prepare(
   `SELECT
      COUNT(*) AS totalTxs,
      SUM(CASE WHEN upstream_txs > 0 THEN 1 ELSE 0 END) AS dependentTxs,
@@ -203,19 +209,19 @@ const depFullStmt = db.prepare(
    FROM dfg_tx_deps
    WHERE chain_id = $chainId`,
 );
-const chainDepthDistributionStmt = db.prepare(
+const chainDepthDistributionStmt = storage.prepare(
   `SELECT chain_depth AS chainDepth, COUNT(*) AS count
    FROM dfg_tx_deps
    WHERE chain_id = $chainId
    GROUP BY chain_depth`,
 );
-const totalDepthDistributionStmt = db.prepare(
+const totalDepthDistributionStmt = storage.prepare(
   `SELECT total_depth AS totalDepth, COUNT(*) AS count
    FROM dfg_tx_deps
    WHERE chain_id = $chainId
    GROUP BY total_depth`,
 );
-const depIncrementalStmt = db.prepare(
+const depIncrementalStmt = storage.prepare(
   `SELECT upstream_txs AS upstreamTxs, handle_links AS handleLinks, chain_depth AS chainDepth, total_depth AS totalDepth
    FROM dfg_tx_deps
    WHERE chain_id = $chainId
@@ -226,15 +232,141 @@ const depIncrementalStmt = db.prepare(
      )
    ORDER BY block_number, tx_hash`,
 );
+const deleteMotifsStmt = storage.prepare("DELETE FROM dfg_motif_rollups WHERE chain_id = $chainId");
+const insertMotifsStmt = storage.prepare(
+  `INSERT INTO dfg_motif_rollups (chain_id, hops, hash, op, node_count, tx_count, last_block)
+   SELECT chain_id, hops, hash, MIN(op), COUNT(*), COUNT(DISTINCT tx_hash), MAX(block_number)
+   FROM dfg_node_hashes
+   WHERE chain_id = $chainId
+   GROUP BY chain_id, hops, hash`,
+);
+const ngramCheckpointStmt = storage.prepare(
+  `SELECT last_block AS lastBlock, last_tx_hash AS lastTxHash, tx_count AS txCount
+   FROM dfg_ngram_checkpoints
+   WHERE chain_id = $chainId`,
+);
+const deleteNgramsStmt = storage.prepare("DELETE FROM dfg_ngram_rollups WHERE chain_id = $chainId");
+const deleteNgramCheckpointStmt = storage.prepare(
+  "DELETE FROM dfg_ngram_checkpoints WHERE chain_id = $chainId",
+);
+const ngramTxsStmt = storage.prepare(
+  `SELECT block_number AS blockNumber, tx_hash AS txHash
+   FROM dfg_txs
+   WHERE chain_id = $chainId
+     AND (
+       $lastBlock IS NULL
+       OR block_number > $lastBlock
+       OR (block_number = $lastBlock AND tx_hash > $lastTxHash)
+     )
+   ORDER BY block_number, tx_hash
+   LIMIT $limit`,
+);
+const ngramNodesStmt = storage.prepare(
+  "SELECT node_id AS nodeId, op FROM dfg_nodes WHERE chain_id = $chainId AND tx_hash = $txHash",
+);
+const ngramEdgesStmt = storage.prepare(
+  `SELECT from_node_id AS fromNodeId, to_node_id AS toNodeId
+   FROM dfg_edges
+   WHERE chain_id = $chainId AND tx_hash = $txHash`,
+);
+const upsertNgramStmt = storage.prepare(
+  `INSERT INTO dfg_ngram_rollups (chain_id, n, ops, occurrences, tx_count)
+   VALUES ($chainId, $n, $ops, $occurrences, $txCount)
+   ON CONFLICT(chain_id, n, ops) DO UPDATE
+     SET occurrences = dfg_ngram_rollups.occurrences + excluded.occurrences,
+         tx_count = dfg_ngram_rollups.tx_count + excluded.tx_count,
+         updated_at = ${storage.sql.now}`,
+);
+const upsertNgramCheckpointStmt = storage.prepare(
+  `INSERT INTO dfg_ngram_checkpoints (chain_id, last_block, last_tx_hash, tx_count)
+   VALUES ($chainId, $lastBlock, $lastTxHash, $txCount)
+   ON CONFLICT(chain_id) DO UPDATE
+     SET last_block = excluded.last_block,
+         last_tx_hash = excluded.last_tx_hash,
+         tx_count = excluded.tx_count,
+         updated_at = ${storage.sql.now}`,
+);
+
+// Counts the op n-grams of DFG txs past the chain's n-gram checkpoint, one batch per
+// transaction with the checkpoint, so an interrupted run resumes. Without a checkpoint
+// (first run, DFG_ROLLUP_FULL=1, or dropped by a reorg or a DFG rebuild) the counts start over.
+async function rollupNgrams(id: number): Promise<number> {
+  const checkpoint = fullRollup
+    ? undefined
+    : ((await ngramCheckpointStmt.get({ $chainId: id })) as
+        | { lastBlock: number | null; lastTxHash: string | null; txCount: number }
+        | undefined);
+  if (!checkpoint) {
+    await storage.transaction(async () => {
+      await deleteNgramsStmt.run({ $chainId: id });
+      await deleteNgramCheckpointStmt.run({ $chainId: id });
+    });
+  }
+  let lastBlock = checkpoint?.lastBlock ?? null;
+  let lastTxHash = checkpoint?.lastTxHash ?? "";
+  let txCount = checkpoint?.txCount ?? 0;
+  let counted = 0;
+  for (;;) {
+    const txs = (await ngramTxsStmt.all({
+      $chainId: id,
+      $lastBlock: lastBlock,
+      $lastTxHash: lastTxHash,
+      $limit: NGRAM_BATCH,
+    })) as Array<{ blockNumber: number; txHash: string }>;
+    const last = txs[txs.length - 1];
+    if (!last) return counted;
 
-const results: Array<{ chainId: number; dfgTxCount: number }> = [];
+    const batch = new Map<string, { occurrences: number; txCount: number }>();
+    for (const tx of txs) {
+      const params = { $chainId: id, $txHash: tx.txHash };
+      const ngrams = computeOpNgrams(
+        (await ngramNodesStmt.all(params)) as Array<{ nodeId: number; op: string }>,
+        (await ngramEdgesStmt.all(params)) as Array<{ fromNodeId: number; toNodeId: number }>,
+      );
+      for (const [ops, occurrences] of ngrams) {
+        const entry = batch.get(ops) ?? { occurrences: 0, txCount: 0 };
+        entry.occurrences += occurrences;
+        entry.txCount += 1;
+        batch.set(ops, entry);
+      }
+    }
+    txCount += txs.length;
+    counted += txs.length;
+    await storage.transaction(async () => {
+      for (const [ops, entry] of batch) {
+        await upsertNgramStmt.run({
+          $chainId: id,
+          $n: ops.split(NGRAM_SEPARATOR).length,
+          $ops: ops,
+          $occurrences: entry.occurrences,
+          $txCount: entry.txCount,
+        });
+      }
+      await upsertNgramCheckpointStmt.run({
+        $chainId: id,
+        $lastBlock: last.blockNumber,
+        $lastTxHash: last.txHash,
+        $txCount: txCount,
+      });
+    });
+    lastBlock = last.blockNumber;
+    lastTxHash = last.txHash;
+  }
+}
+
+const results: Array<{
+  chainId: number;
+  dfgTxCount: number;
+  motifCount?: number;
+  ngramTxCount?: number;
+}> = [];
 let usedFullRollup = fullRollup;
 const fallbackChains: number[] = [];
 
 for (const id of chains) {
   const checkpoint = fullRollup
     ? undefined
-    : (checkpointStmt.get({ $chainId: id }) as
+    : ((await checkpointStmt.get({ $chainId: id })) as
         | { lastBlock: number | null; lastTxHash: string | null }
         | undefined);
   const checkpointMissing = !fullRollup && !checkpoint;
@@ -253,8 +385,11 @@ for (const id of chains) {
         typeCounts: {},
       }
     : (parseJson(
-        (existingRollupStmt.get({ $chainId: id }) as { statsJson: string | null } | undefined)
-          ?.statsJson ?? null,
+        (
+          (await existingRollupStmt.get({ $chainId: id })) as
+            | { statsJson: string | null }
+            | undefined
+        )?.statsJson ?? null,
       ) ?? {
         opCounts: {},
         inputKinds: {},
@@ -264,11 +399,11 @@ for (const id of chains) {
   const lastBlock = effectiveFullRollup ? null : (checkpoint?.lastBlock ?? null);
   const lastTxHash = effectiveFullRollup ? "" : (checkpoint?.lastTxHash ?? "");
 
-  const rows = statsStmt.all({
+  const rows = (await statsStmt.all({
     $chainId: id,
     $lastBlock: lastBlock,
     $lastTxHash: lastTxHash,
-  }) as Array<{ blockNumber: number; txHash: string; statsJson: string }>;
+  })) as Array<{ blockNumber: number; txHash: string; statsJson: string }>;
   for (const row of rows) {
     const stats = parseJson(row.statsJson);
     if (!stats) continue;
@@ -280,12 +415,17 @@ for (const id of chains) {
     mergeTypeCounts(rollup.typeCounts, stats.typeCounts ?? {});
   }
 
-  const dfgTxCount = (countStmt.get({ $chainId: id }) as { count: number }).count;
-  upsertStmt.run({ $chainId: id, $dfgTxCount: dfgTxCount, $statsJson: JSON.stringify(rollup) });
-  results.push({ chainId: id, dfgTxCount });
+  const dfgTxCount = ((await countStmt.get({ $chainId: id })) as { count: number }).count;
+  await upsertStmt.run({
+    $chainId: id,
+    $dfgTxCount: dfgTxCount,
+    $statsJson: JSON.stringify(rollup),
+  });
+  const result: (typeof results)[number] = { chainId: id, dfgTxCount };
+  results.push(result);
 
   if (depsEnabled) {
-    const existingDeps = existingDepRollupStmt.get({ $chainId: id }) as
+    const existingDeps = (await existingDepRollupStmt.get({ $chainId: id })) as
       | { dfgTxCount: number; statsJson: string }
       | undefined;
     const shouldComputeDeps =
@@ -306,7 +446,7 @@ for (const id of chains) {
       };
 
       if (effectiveFullRollup || depsForce || !existingDeps) {
-        const depRow = depFullStmt.get({ $chainId: id }) as {
+        const depRow = (await depFullStmt.get({ $chainId: id })) as {
           totalTxs: number;
           dependentTxs: number;
           sumUpstreamTxs: number;
@@ -326,7 +466,7 @@ for (const id of chains) {
         depState.maxTotalDepth = depRow?.maxTotalDepth ?? 0;
 
         // Get chain_depth distribution
-        const distRows = chainDepthDistributionStmt.all({ $chainId: id }) as Array<{
+        const distRows = (await chainDepthDistributionStmt.all({ $chainId: id })) as Array<{
           chainDepth: number;
           count: number;
         }>;
@@ -336,7 +476,7 @@ for (const id of chains) {
         }
 
         // Get total_depth distribution
-        const totalDistRows = totalDepthDistributionStmt.all({ $chainId: id }) as Array<{
+        const totalDistRows = (await totalDepthDistributionStmt.all({ $chainId: id })) as Array<{
           totalDepth: number;
           count: number;
         }>;
@@ -345,11 +485,11 @@ for (const id of chains) {
           depState.totalDepthDistribution[distRow.totalDepth] = distRow.count;
         }
       } else {
-        const newRows = depIncrementalStmt.all({
+        const newRows = (await depIncrementalStmt.all({
           $chainId: id,
           $lastBlock: lastBlock,
           $lastTxHash: lastTxHash,
-        }) as Array<{
+        })) as Array<{
           upstreamTxs: number;
           handleLinks: number;
           chainDepth: number;
@@ -378,7 +518,7 @@ for (const id of chains) {
         }
       }
 
-      upsertDepStmt.run({
+      await upsertDepStmt.run({
         $chainId: id,
         $dfgTxCount: depState.totalTxs,
         $statsJson: JSON.stringify(depState),
@@ -386,17 +526,28 @@ for (const id of chains) {
     }
   }
 
+  if (motifsEnabled) {
+    // Node hashes are replaced whenever a tx is rebuilt or rolled back, so motif counts are
+    // recomputed from them rather than accumulated past the checkpoint.
+    result.motifCount = await storage.transaction(async () => {
+      await deleteMotifsStmt.run({ $chainId: id });
+      return (await insertMotifsStmt.run({ $chainId: id })).changes;
+    });
+  }
+
+  if (ngramsEnabled) result.ngramTxCount = await rollupNgrams(id);
+
   if (rows.length > 0) {
     const lastRow = rows[rows.length - 1];
     if (lastRow) {
-      upsertCheckpointStmt.run({
+      await upsertCheckpointStmt.run({
         $chainId: id,
         $lastBlock: lastRow.blockNumber,
         $lastTxHash: lastRow.txHash,
       });
     }
   } else if (effectiveFullRollup) {
-    deleteCheckpointStmt.run({ $chainId: id });
+    await deleteCheckpointStmt.run({ $chainId: id });
   }
 }
 
@@ -416,4 +567,4 @@ console.log(
   ),
 );
 
-db.close();
+await storage.close();
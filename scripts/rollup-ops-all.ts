@@ -1,5 +1,5 @@
 import { spawnSync } from "node:child_process";
-import { Database } from "bun:sqlite";
+import { openStorage } from "../src/app.ts";
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
 
@@ -10,11 +10,11 @@ const networks = [
 
 const rollupBucketSeconds = Bun.env.ROLLUP_BUCKET_SECONDS ?? "1800";
 const dbPath = Bun.env.DB_PATH ?? DEFAULT_DB_PATH;
-const db = new Database(dbPath, { readonly: true });
-const countStmt = db.prepare("SELECT COUNT(*) AS count FROM fhe_events WHERE chain_id = ?");
+const storage = await openStorage({ dbPath, databaseUrl: Bun.env.DATABASE_URL || undefined });
+const countStmt = storage.prepare("SELECT COUNT(*) AS count FROM fhe_events WHERE chain_id = ?");
 
 for (const network of networks) {
-  const countRow = countStmt.get(network.chainId) as { count: number };
+  const countRow = (await countStmt.get(network.chainId)) as { count: number };
   if (!countRow.count) {
     console.log(`Skipping ${network.name}: no events in DB (${dbPath}).`);
     continue;
@@ -41,4 +41,4 @@ for (const network of networks) {
   }
 }
 
-db.close();
+await storage.close();
@@ -1,10 +1,10 @@
-import { createPublicClient, http } from "viem";
-import { initDatabase, loadConfig } from "../src/app.ts";
+import { loadConfig, openStorage } from "../src/app.ts";
 
 type RollupRow = {
   blockNumber: number;
   eventName: string;
   count: number;
+  timestamp: number | null;
 };
 
 function parseNumber(value: string | undefined, fallback?: number): number | undefined {
@@ -13,47 +13,39 @@ function parseNumber(value: string | undefined, fallback?: number): number | und
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
-function toBucketStart(timestamp: bigint, bucketSeconds: number): number {
-  const seconds = Number(timestamp);
-  return Math.floor(seconds / bucketSeconds) * bucketSeconds;
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function toBucketStart(timestamp: number, bucketSeconds: number): number {
+  return Math.floor(timestamp / bucketSeconds) * bucketSeconds;
 }
 
 async function main(): Promise<void> {
   const env = { ...Bun.env } as Record<string, string | undefined>;
   const config = loadConfig(env);
-  const db = initDatabase(config.dbPath);
-  const client = createPublicClient({ transport: http(config.rpcUrl) });
-
-  const rpcChainId = Number(await client.getChainId());
-  if (config.chainId !== undefined && config.chainId !== rpcChainId) {
-    throw new Error(`RPC chainId (${rpcChainId}) does not match CHAIN_ID (${config.chainId}).`);
+  const chainId = config.chainId;
+  if (chainId === undefined) {
+    throw new Error("CHAIN_ID is required (or set NETWORK to a known network).");
   }
-  const chainId = config.chainId ?? rpcChainId;
+  const storage = await openStorage(config);
 
   const bucketSeconds = parseNumber(env.ROLLUP_BUCKET_SECONDS, 1800) ?? 1800;
   if (bucketSeconds <= 0) {
     throw new Error("ROLLUP_BUCKET_SECONDS must be a positive number.");
   }
 
-  const rangeRow = db
+  const rangeRow = (await storage
     .prepare(
       "SELECT MIN(block_number) AS minBlock, MAX(block_number) AS maxBlock FROM fhe_events WHERE chain_id = ?",
     )
-    .get(chainId) as { minBlock: number | null; maxBlock: number | null };
+    .get(chainId)) as { minBlock: number | null; maxBlock: number | null };
 
   if (!rangeRow.maxBlock || rangeRow.minBlock === null) {
     console.log("rollup: no events found for chain", chainId);
-    db.close();
+    await storage.close();
     return;
   }
 
-  const checkpointRow = db
+  const checkpointRow = (await storage
     .prepare("SELECT last_block FROM rollup_checkpoints WHERE chain_id = ?")
-    .get(chainId) as { last_block: number } | undefined;
+    .get(chainId)) as { last_block: number } | undefined;
   const checkpoint = checkpointRow?.last_block;
 
   const rollupStart = parseNumber(env.ROLLUP_START_BLOCK);
@@ -71,74 +63,68 @@ async function main(): Promise<void> {
   const endBlock = rollupEnd ?? rangeRow.maxBlock;
   if (startBlock > endBlock) {
     console.log("rollup: nothing to do (checkpoint up to date)");
-    db.close();
+    await storage.close();
     return;
   }
 
   const blockBatch = parseNumber(env.ROLLUP_BLOCK_BATCH, 5_000) ?? 5_000;
-  const fetchDelayMs = parseNumber(env.ROLLUP_BLOCK_FETCH_DELAY_MS, 200) ?? 200;
-  if (fetchDelayMs < 0) {
-    throw new Error("ROLLUP_BLOCK_FETCH_DELAY_MS must be >= 0.");
-  }
-  const selectRows = db.prepare(`
-    SELECT block_number AS blockNumber, event_name AS eventName, COUNT(*) AS count
-    FROM fhe_events
-    WHERE chain_id = ? AND block_number BETWEEN ? AND ?
-    GROUP BY block_number, event_name
-    ORDER BY block_number
+  // Block times come from the blocks table the ingestor fills; no RPC needed.
+  const selectRows = storage.prepare(`
+    SELECT e.block_number AS blockNumber,
+           e.event_name AS eventName,
+           COUNT(*) AS count,
+           b.timestamp AS timestamp
+    FROM fhe_events e
+    LEFT JOIN blocks b ON b.chain_id = e.chain_id AND b.number = e.block_number
+    WHERE e.chain_id = ? AND e.block_number BETWEEN ? AND ?
+    GROUP BY e.block_number, e.event_name, b.timestamp
+    ORDER BY e.block_number
   `);
-  const upsertRollup = db.prepare(`
+  const upsertRollup = storage.prepare(`
     INSERT INTO op_buckets (chain_id, bucket_start, bucket_seconds, event_name, count)
     VALUES (?, ?, ?, ?, ?)
     ON CONFLICT(chain_id, bucket_start, bucket_seconds, event_name)
-    DO UPDATE SET count = count + excluded.count
+    DO UPDATE SET count = op_buckets.count + excluded.count
   `);
-  const upsertCheckpoint = db.prepare(`
+  const upsertCheckpoint = storage.prepare(`
     INSERT INTO rollup_checkpoints(chain_id, last_block)
     VALUES (?, ?)
     ON CONFLICT(chain_id) DO UPDATE
       SET last_block = excluded.last_block,
-          updated_at = datetime('now')
+          updated_at = ${storage.sql.now}
   `);
 
-  const bucketCache = new Map<number, number>();
-  const writeRollups = db.transaction(
-    (entries: Array<{ bucketStart: number; eventName: string; count: number }>) => {
+  const writeRollups = (
+    entries: Array<{ bucketStart: number; eventName: string; count: number }>,
+  ) =>
+    storage.transaction(async () => {
       for (const entry of entries) {
-        upsertRollup.run(chainId, entry.bucketStart, bucketSeconds, entry.eventName, entry.count);
+        await upsertRollup.run(
+          chainId,
+          entry.bucketStart,
+          bucketSeconds,
+          entry.eventName,
+          entry.count,
+        );
       }
-    },
-  );
+    });
 
   console.log("rollup: starting", { chainId, startBlock, endBlock, bucketSeconds, blockBatch });
 
   let cursor = startBlock;
   while (cursor <= endBlock) {
     const batchEnd = Math.min(cursor + blockBatch - 1, endBlock);
-    const rows = selectRows.all(chainId, cursor, batchEnd) as RollupRow[];
-
-    const missingBlocks: number[] = [];
-    for (const row of rows) {
-      if (!bucketCache.has(row.blockNumber)) {
-        missingBlocks.push(row.blockNumber);
-      }
-    }
+    const rows = (await selectRows.all(chainId, cursor, batchEnd)) as RollupRow[];
 
-    if (missingBlocks.length > 0) {
-      const uniqueBlocks = Array.from(new Set(missingBlocks));
-      for (const blockNumber of uniqueBlocks) {
-        const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
-        bucketCache.set(blockNumber, toBucketStart(block.timestamp, bucketSeconds));
-        if (fetchDelayMs > 0) {
-          await sleep(fetchDelayMs);
-        }
-      }
-    }
+    // Stop before the first event block without a stored header so the checkpoint never
+    // skips events; `backfill:blocks` fills headers for rows ingested before they were kept.
+    const missing = rows.find((row) => row.timestamp === null);
+    const processedTo = missing ? missing.blockNumber - 1 : batchEnd;
 
     const grouped = new Map<string, { bucketStart: number; eventName: string; count: number }>();
     for (const row of rows) {
-      const bucketStart = bucketCache.get(row.blockNumber);
-      if (bucketStart === undefined) continue;
+      if (row.timestamp === null || row.blockNumber > processedTo) continue;
+      const bucketStart = toBucketStart(row.timestamp, bucketSeconds);
       const key = `${bucketStart}|${row.eventName}`;
       const existing = grouped.get(key);
       if (existing) {
@@ -149,15 +135,24 @@ async function main(): Promise<void> {
     }
 
     if (grouped.size > 0) {
-      writeRollups(Array.from(grouped.values()));
+      await writeRollups(Array.from(grouped.values()));
     }
 
-    upsertCheckpoint.run(chainId, batchEnd);
+    if (processedTo >= cursor) {
+      await upsertCheckpoint.run(chainId, processedTo);
+    }
+    if (missing) {
+      console.warn("rollup: block timestamp missing; run `bun run backfill:blocks`", {
+        chainId,
+        blockNumber: missing.blockNumber,
+      });
+      break;
+    }
     console.log("rollup: processed", { from: cursor, to: batchEnd, rows: rows.length });
     cursor = batchEnd + 1;
   }
 
-  db.close();
+  await storage.close();
   console.log("rollup: done");
 }
 
@@ -0,0 +1,119 @@
+import {
+  type Abi,
+  type AbiEvent,
+  decodeEventLog,
+  getAddress,
+  parseAbi,
+  toEventSelector,
+} from "viem";
+
+// FHEVMExecutor event ABIs, newest last. Add a version (optionally scoped to executor
+// addresses and a block range) when ops are added or signatures change, then run
+// `bun run reprocess:unknown` to re-decode events stored as `Unknown` under older ABIs.
+export type AbiVersion = {
+  version: string;
+  /** Executor addresses this ABI applies to; every executor when omitted. */
+  addresses?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+  abi: Abi;
+};
+
+export type DecodedFheEvent = {
+  eventName: string;
+  args: Record<string, unknown>;
+  abiVersion: string;
+};
+
+export type RawEventLog = {
+  address: string;
+  blockNumber: number;
+  topics: readonly `0x${string}`[];
+  data: `0x${string}`;
+};
+
+const FHE_EVENTS_ABI_V1 = parseAbi([
+  "event FheAdd(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheSub(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheMul(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheDiv(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheRem(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheBitAnd(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheBitOr(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheBitXor(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheShl(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheShr(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheRotl(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheRotr(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheEq(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheNe(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheGe(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheGt(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheLe(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheLt(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheMin(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheMax(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+  "event FheNeg(address indexed caller, bytes32 ct, bytes32 result)",
+  "event FheNot(address indexed caller, bytes32 ct, bytes32 result)",
+  "event VerifyInput(address indexed caller, bytes32 inputHandle, address userAddress, bytes inputProof, uint8 inputType, bytes32 result)",
+  "event Cast(address indexed caller, bytes32 ct, uint8 toType, bytes32 result)",
+  "event TrivialEncrypt(address indexed caller, uint256 pt, uint8 toType, bytes32 result)",
+  "event FheIfThenElse(address indexed caller, bytes32 control, bytes32 ifTrue, bytes32 ifFalse, bytes32 result)",
+  "event FheRand(address indexed caller, uint8 randType, bytes16 seed, bytes32 result)",
+  "event FheRandBounded(address indexed caller, uint256 upperBound, uint8 randType, bytes16 seed, bytes32 result)",
+]);
+
+export const FHE_ABI_VERSIONS: AbiVersion[] = [{ version: "v1", abi: FHE_EVENTS_ABI_V1 }];
+
+function appliesTo(version: AbiVersion, address: string, blockNumber: number): boolean {
+  if (version.fromBlock !== undefined && blockNumber < version.fromBlock) return false;
+  if (version.toBlock !== undefined && blockNumber > version.toBlock) return false;
+  if (!version.addresses) return true;
+  const checksummed = getAddress(address);
+  return version.addresses.some((candidate) => getAddress(candidate) === checksummed);
+}
+
+/** Every event of every version, once per selector: the `getLogs` filter for executors. */
+export function registryEvents(versions: AbiVersion[] = FHE_ABI_VERSIONS): AbiEvent[] {
+  const events = new Map<string, AbiEvent>();
+  for (const version of versions) {
+    for (const item of version.abi) {
+      if (item.type !== "event") continue;
+      const selector = toEventSelector(item);
+      if (!events.has(selector)) events.set(selector, item);
+    }
+  }
+  return Array.from(events.values());
+}
+
+/**
+ * Decodes an executor log with the newest ABI version that applies to its address and
+ * block and knows its signature. Returns null when no version decodes it.
+ */
+export function decodeFheEvent(
+  log: RawEventLog,
+  versions: AbiVersion[] = FHE_ABI_VERSIONS,
+): DecodedFheEvent | null {
+  if (log.topics.length === 0) return null;
+  for (let index = versions.length - 1; index >= 0; index -= 1) {
+    const version = versions[index];
+    if (!version || !appliesTo(version, log.address, log.blockNumber)) continue;
+    try {
+      const decoded = decodeEventLog({
+        abi: version.abi,
+        data: log.data,
+        topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+      });
+      const eventName: unknown = decoded.eventName;
+      if (typeof eventName !== "string") continue;
+      return {
+        eventName,
+        args: decoded.args as unknown as Record<string, unknown>,
+        abiVersion: version.version,
+      };
+    } catch {
+      // Unknown to this version; older ones may still decode it.
+    }
+  }
+  return null;
+}
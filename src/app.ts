@@ -1,32 +1,66 @@
 import { mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 import { Database } from "bun:sqlite";
+import { decodeEventLog, getAddress, parseAbi, type AbiEvent, type Log } from "viem";
+import { decodeFheEvent, registryEvents } from "./abi-registry.ts";
+import { createDfgBuilder } from "./dfg-build.ts";
+import { createHeadWatcher, HEAD_STALE_AFTER_MS } from "./head-watcher.ts";
+import { readLogArchive } from "./log-archive.ts";
 import {
-  createPublicClient,
-  decodeEventLog,
-  getAddress,
-  http,
-  parseAbi,
-  HttpRequestError,
-  TimeoutError,
-  type AbiEvent,
-} from "viem";
-
-export type Mode = "backfill" | "stream" | "both";
+  createRpcPool,
+  isTransientRpcError,
+  parseRpcUrls,
+  redactRpcUrl,
+  type RpcClient,
+  type RpcEndpoint,
+  type RpcPool,
+} from "./rpc-pool.ts";
+import { migrateSchema } from "./schema.ts";
+import { createSqliteStorage, type Storage } from "./storage.ts";
+import { createPostgresStorage } from "./storage-postgres.ts";
+import { enrichTxReceiptsOnce } from "./tx-receipts.ts";
+import { enrichTxTracesOnce } from "./tx-traces.ts";
+
+export type Mode = "backfill" | "stream" | "both" | "subscribe" | "replay";
 export type NetworkName = "sepolia" | "devnet" | "mainnet" | "anvil" | "hardhat" | "custom";
 
+/** One executor deployment; blocks outside `[fromBlock, toBlock]` are not attributed to it. */
+export type ExecutorDeployment = {
+  address: string;
+  fromBlock?: number;
+  toBlock?: number;
+};
+
 export type Config = {
   rpcUrl: string;
+  rpcUrls: string[];
+  spreadLogs: boolean;
   chainId?: number;
-  fhevmExecutorAddress: string;
+  executors: ExecutorDeployment[];
+  aclAddress?: string;
+  decryptionAddress?: string;
   startBlock?: number;
   endBlock?: number;
   confirmations: number;
   batchSize: number;
   catchupMaxBlocks: number;
+  reorgDepth: number;
+  gapFillBlocks: number;
+  receiptsPerPoll: number;
+  tracesPerPoll: number;
+  backfillConcurrency: number;
+  /** Build each ingested range's DFGs in the range's own transaction. */
+  dfgBuildInline: boolean;
+  /** Log each range fetched from the RPC and the endpoints that served it (debugging). */
+  logRanges: boolean;
   dbPath: string;
+  /** PostgreSQL connection URL; when set it is used instead of the SQLite file at `dbPath`. */
+  databaseUrl?: string;
   mode: Mode;
   pollIntervalMs: number;
+  wsUrl?: string;
+  /** JSONL (or `.gz`) log archive read by `MODE=replay`. */
+  replayPath?: string;
   network: NetworkName;
 };
 
@@ -52,6 +86,25 @@ export type DerivedFields = {
   resultHandleVersion?: number | null;
 };
 
+export type ReorgInfo = {
+  chainId: number;
+  forkBlock: number;
+  checkpointBlock: number;
+  storedHash: string | null;
+  canonicalHash: string | null;
+};
+
+export type InsertedEventCount = {
+  blockNumber: number;
+  eventName: string;
+  count: number;
+};
+
+export type RollbackResult = {
+  removedEvents: number;
+  removedTxs: number;
+};
+
 export type TypeMismatch = {
   eventName: string;
   expectedType: number;
@@ -60,57 +113,32 @@ export type TypeMismatch = {
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
 const DEFAULT_POLL_INTERVAL_MS = 10_000;
+const DEFAULT_REORG_DEPTH = 64;
+const DEFAULT_GAP_FILL_BLOCKS = 1_000;
+const DEFAULT_BACKFILL_CONCURRENCY = 1;
 const DEFAULT_SEPOLIA_RPC_URL = "https://ethereum-sepolia.publicnode.com";
 const DEFAULT_MAINNET_RPC_URL = "https://ethereum.publicnode.com";
 const DEFAULT_ANVIL_RPC_URL = "http://localhost:8545";
 const DEFAULT_SEPOLIA_EXECUTOR_ADDRESS = "0x92C920834Ec8941d2C77D188936E1f7A6f49c127";
 const DEFAULT_MAINNET_EXECUTOR_ADDRESS = "0xD82385dADa1ae3E969447f20A3164F6213100e75";
+const DEFAULT_SEPOLIA_ACL_ADDRESS = "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D";
 const TYPE_MISMATCHES_LOG_LIMIT = 50;
 
-const FHE_EVENTS_ABI = parseAbi([
-  "event FheAdd(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheSub(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheMul(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheDiv(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheRem(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheBitAnd(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheBitOr(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheBitXor(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheShl(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheShr(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheRotl(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheRotr(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheEq(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheNe(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheGe(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheGt(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheLe(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheLt(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheMin(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheMax(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
-  "event FheNeg(address indexed caller, bytes32 ct, bytes32 result)",
-  "event FheNot(address indexed caller, bytes32 ct, bytes32 result)",
-  "event VerifyInput(address indexed caller, bytes32 inputHandle, address userAddress, bytes inputProof, uint8 inputType, bytes32 result)",
-  "event Cast(address indexed caller, bytes32 ct, uint8 toType, bytes32 result)",
-  "event TrivialEncrypt(address indexed caller, uint256 pt, uint8 toType, bytes32 result)",
-  "event FheIfThenElse(address indexed caller, bytes32 control, bytes32 ifTrue, bytes32 ifFalse, bytes32 result)",
-  "event FheRand(address indexed caller, uint8 randType, bytes16 seed, bytes32 result)",
-  "event FheRandBounded(address indexed caller, uint256 upperBound, uint8 randType, bytes16 seed, bytes32 result)",
+// ACL grants for computed handles. Scheduler-side pruning keeps a computation only if its
+// result (or something derived from it) is allowed in the same tx.
+const ACL_EVENTS_ABI = parseAbi([
+  "event Allowed(address indexed caller, address indexed account, bytes32 handle)",
+  "event AllowedForDecryption(address indexed caller, bytes32[] handlesList)",
 ]);
 
-const EVENT_COLUMNS = [
-  { name: "lhs_type", type: "INTEGER" },
-  { name: "rhs_type", type: "INTEGER" },
-  { name: "result_type", type: "INTEGER" },
-  { name: "control_type", type: "INTEGER" },
-  { name: "if_true_type", type: "INTEGER" },
-  { name: "if_false_type", type: "INTEGER" },
-  { name: "input_type", type: "INTEGER" },
-  { name: "cast_to_type", type: "INTEGER" },
-  { name: "rand_type", type: "INTEGER" },
-  { name: "scalar_flag", type: "INTEGER" },
-  { name: "result_handle_version", type: "INTEGER" },
-];
+// Decryption requests, one handle list per event: `DecryptionRequest` is the host-chain
+// DecryptionOracle (public decryption), the other two are the gateway's Decryption contract.
+const DECRYPTION_EVENTS_ABI = parseAbi([
+  "struct SnsCiphertextMaterial { bytes32 ctHandle; uint256 keyId; bytes32 snsCiphertextDigest; address[] coprocessorTxSenderAddresses; }",
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+  "event PublicDecryptionRequest(uint256 indexed decryptionId, SnsCiphertextMaterial[] snsCtMaterials, bytes extraData)",
+  "event UserDecryptionRequest(uint256 indexed decryptionId, SnsCiphertextMaterial[] snsCtMaterials, address userAddress, bytes publicKey, bytes extraData)",
+]);
 
 const BINARY_OPS = new Set([
   "FheAdd",
@@ -136,17 +164,21 @@ const BINARY_OPS = new Set([
 ]);
 
 const UNARY_OPS = new Set(["FheNeg", "FheNot"]);
-const NETWORK_DEFAULTS: Record<NetworkName, { chainId?: number; executorAddress?: string }> = {
+const NETWORK_DEFAULTS: Record<
+  NetworkName,
+  { chainId?: number; executors?: ExecutorDeployment[]; aclAddress?: string }
+> = {
   sepolia: {
     chainId: 11155111,
-    executorAddress: DEFAULT_SEPOLIA_EXECUTOR_ADDRESS,
+    executors: [{ address: DEFAULT_SEPOLIA_EXECUTOR_ADDRESS }],
+    aclAddress: DEFAULT_SEPOLIA_ACL_ADDRESS,
   },
   devnet: {
     chainId: 11155111,
   },
   mainnet: {
     chainId: 1,
-    executorAddress: DEFAULT_MAINNET_EXECUTOR_ADDRESS,
+    executors: [{ address: DEFAULT_MAINNET_EXECUTOR_ADDRESS }],
   },
   anvil: {
     chainId: 31337,
@@ -163,8 +195,42 @@ function parseNumber(value: string | undefined, fallback?: number): number | und
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
+// `0xA,0xB@5000000-5999999,0xC@6000000`: every entry is listened to at once, each only
+// for its (inclusive, optionally open-ended) block range.
+export function parseExecutorDeployments(value: string): ExecutorDeployment[] {
+  const deployments: ExecutorDeployment[] = [];
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const [address = "", range] = trimmed.split("@");
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      throw new Error(`Invalid executor address: ${trimmed}`);
+    }
+    if (range === undefined) {
+      deployments.push({ address });
+      continue;
+    }
+    const match = /^(\d+)(?:-(\d*))?$/.exec(range);
+    const fromBlock = match ? Number(match[1]) : Number.NaN;
+    const toBlock = match?.[2] ? Number(match[2]) : undefined;
+    if (!Number.isSafeInteger(fromBlock) || (toBlock !== undefined && toBlock < fromBlock)) {
+      throw new Error(`Invalid executor block range: ${trimmed}`);
+    }
+    deployments.push({ address, fromBlock, toBlock });
+  }
+  return deployments;
+}
+
 function parseMode(value: string | undefined): Mode {
-  if (value === "backfill" || value === "stream" || value === "both") return value;
+  if (
+    value === "backfill" ||
+    value === "stream" ||
+    value === "both" ||
+    value === "subscribe" ||
+    value === "replay"
+  ) {
+    return value;
+  }
   return "both";
 }
 
@@ -209,6 +275,23 @@ function resolveRpcUrl(env: Env, network: NetworkName): string | undefined {
   }
 }
 
+function resolveWsUrl(env: Env, network: NetworkName): string | undefined {
+  if (env.WS_URL) return env.WS_URL;
+
+  switch (network) {
+    case "sepolia":
+    case "devnet":
+      return env.SEPOLIA_ETH_WS_URL || undefined;
+    case "mainnet":
+      return env.MAINNET_ETH_WS_URL || undefined;
+    case "anvil":
+    case "hardhat":
+      return env.ANVIL_WS_URL || undefined;
+    default:
+      return undefined;
+  }
+}
+
 export function loadConfig(env: Env): Config {
   const network = parseNetwork(env.NETWORK);
   return loadConfigForNetwork(env, network);
@@ -226,14 +309,29 @@ export function loadConfigs(env: Env): Config[] {
     if (env.FHEVM_EXECUTOR_ADDRESS) {
       throw new Error("FHEVM_EXECUTOR_ADDRESS cannot be used with multiple networks.");
     }
+    if (env.ACL_CONTRACT_ADDRESS) {
+      throw new Error("ACL_CONTRACT_ADDRESS cannot be used with multiple networks.");
+    }
+    if (env.DECRYPTION_CONTRACT_ADDRESS) {
+      throw new Error("DECRYPTION_CONTRACT_ADDRESS cannot be used with multiple networks.");
+    }
+    if (env.WS_URL) {
+      throw new Error("WS_URL cannot be used with multiple networks.");
+    }
+    if (env.REPLAY_PATH) {
+      throw new Error("REPLAY_PATH cannot be used with multiple networks.");
+    }
   }
   return networks.map((network) => loadConfigForNetwork(env, network));
 }
 
 function loadConfigForNetwork(env: Env, network: NetworkName): Config {
   const defaults = NETWORK_DEFAULTS[network] ?? {};
-  const rpcUrl = resolveRpcUrl(env, network);
-  if (!rpcUrl) {
+  const rpcUrls = parseRpcUrls(resolveRpcUrl(env, network));
+  const rpcUrl = rpcUrls[0] ?? "";
+  const mode = parseMode(env.MODE);
+  // Replays never touch the network.
+  if (!rpcUrl && mode !== "replay") {
     throw new Error("RPC_URL is required (or set NETWORK and the matching *_RPC_URL var).");
   }
 
@@ -241,316 +339,121 @@ function loadConfigForNetwork(env: Env, network: NetworkName): Config {
   const confirmations = parseNumber(env.CONFIRMATIONS, 0) ?? 0;
   const batchSize = parseNumber(env.BATCH_SIZE, 1_000) ?? 1_000;
   const catchupMaxBlocks = parseNumber(env.CATCHUP_MAX_BLOCKS, 256) ?? 256;
+  const reorgDepth = parseNumber(env.REORG_DEPTH, DEFAULT_REORG_DEPTH) ?? DEFAULT_REORG_DEPTH;
+  const gapFillBlocks =
+    parseNumber(env.GAP_FILL_BLOCKS_PER_POLL, DEFAULT_GAP_FILL_BLOCKS) ?? DEFAULT_GAP_FILL_BLOCKS;
+  const receiptsPerPoll = parseNumber(env.TX_RECEIPTS_PER_POLL, 0) ?? 0;
+  const tracesPerPoll = parseNumber(env.TX_TRACES_PER_POLL, 0) ?? 0;
+  const backfillConcurrency = Math.max(
+    parseNumber(env.BACKFILL_CONCURRENCY, DEFAULT_BACKFILL_CONCURRENCY) ??
+      DEFAULT_BACKFILL_CONCURRENCY,
+    1,
+  );
 
   const startBlock = parseNumber(env.START_BLOCK);
   const endBlock = parseNumber(env.END_BLOCK);
 
   const dbPath = env.DB_PATH ?? DEFAULT_DB_PATH;
-  const pollIntervalMs =
+  const sharedPollIntervalMs =
     parseNumber(env.POLL_INTERVAL_MS, DEFAULT_POLL_INTERVAL_MS) ?? DEFAULT_POLL_INTERVAL_MS;
-
-  const fhevmExecutorAddress = env.FHEVM_EXECUTOR_ADDRESS ?? defaults.executorAddress;
-  if (!fhevmExecutorAddress) {
+  const pollIntervalMs =
+    parseNumber(env[`${network.toUpperCase()}_POLL_INTERVAL_MS`], sharedPollIntervalMs) ??
+    sharedPollIntervalMs;
+
+  const executorEnv =
+    env[`${network.toUpperCase()}_FHEVM_EXECUTOR_ADDRESS`] ?? env.FHEVM_EXECUTOR_ADDRESS;
+  const executors = executorEnv
+    ? parseExecutorDeployments(executorEnv)
+    : (defaults.executors ?? []);
+  if (executors.length === 0) {
     throw new Error("FHEVM_EXECUTOR_ADDRESS is required (or set NETWORK to sepolia/mainnet).");
   }
+  // An empty ACL_CONTRACT_ADDRESS turns ACL ingestion off for networks with a default.
+  const aclAddress =
+    env.ACL_CONTRACT_ADDRESS !== undefined
+      ? env.ACL_CONTRACT_ADDRESS || undefined
+      : defaults.aclAddress;
+  const decryptionAddress = env.DECRYPTION_CONTRACT_ADDRESS || undefined;
   return {
     rpcUrl,
+    rpcUrls,
+    spreadLogs: env.RPC_SPREAD_LOGS === "1",
     chainId,
-    fhevmExecutorAddress,
+    executors,
+    aclAddress,
+    decryptionAddress,
     startBlock,
     endBlock,
     confirmations,
     batchSize,
     catchupMaxBlocks,
+    reorgDepth,
+    gapFillBlocks,
+    receiptsPerPoll,
+    tracesPerPoll,
+    backfillConcurrency,
+    dfgBuildInline: env.DFG_BUILD_INLINE === "1",
+    logRanges: env.LOG_RANGES === "1",
     dbPath,
-    mode: parseMode(env.MODE),
+    databaseUrl: env.DATABASE_URL || undefined,
+    mode,
     pollIntervalMs,
+    wsUrl: resolveWsUrl(env, network),
+    replayPath: env.REPLAY_PATH || undefined,
     network,
   };
 }
 
-export function initDatabase(dbPath: string): Database {
+function openSqliteDatabase(dbPath: string): Database {
   mkdirSync(dirname(dbPath), { recursive: true });
   const db = new Database(dbPath);
   db.exec("PRAGMA journal_mode=WAL;");
   db.exec("PRAGMA busy_timeout=5000;");
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS fhe_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      chain_id INTEGER NOT NULL,
-      block_number INTEGER NOT NULL,
-      block_hash TEXT NOT NULL,
-      tx_hash TEXT NOT NULL,
-      log_index INTEGER NOT NULL,
-      address TEXT NOT NULL,
-      event_name TEXT NOT NULL,
-      topic0 TEXT NOT NULL,
-      data TEXT NOT NULL,
-      args_json TEXT,
-      lhs_type INTEGER,
-      rhs_type INTEGER,
-      result_type INTEGER,
-      control_type INTEGER,
-      if_true_type INTEGER,
-      if_false_type INTEGER,
-      input_type INTEGER,
-      cast_to_type INTEGER,
-      rand_type INTEGER,
-      scalar_flag INTEGER,
-      result_handle_version INTEGER,
-      created_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-    CREATE UNIQUE INDEX IF NOT EXISTS fhe_events_uniq
-      ON fhe_events(chain_id, tx_hash, log_index);
-    CREATE INDEX IF NOT EXISTS fhe_events_block
-      ON fhe_events(chain_id, block_number);
-    CREATE INDEX IF NOT EXISTS fhe_events_event
-      ON fhe_events(chain_id, event_name);
-
-    CREATE TABLE IF NOT EXISTS tx_callers (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      caller TEXT NOT NULL,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (chain_id, tx_hash)
-    );
-    CREATE INDEX IF NOT EXISTS tx_callers_by_caller
-      ON tx_callers(chain_id, caller, tx_hash);
-
-    CREATE TABLE IF NOT EXISTS tx_seen (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (chain_id, tx_hash)
-    );
-
-    CREATE TABLE IF NOT EXISTS tx_counts (
-      chain_id INTEGER PRIMARY KEY,
-      count INTEGER NOT NULL DEFAULT 0,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS checkpoints (
-      chain_id INTEGER PRIMARY KEY,
-      last_block INTEGER NOT NULL,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS op_buckets (
-      chain_id INTEGER NOT NULL,
-      bucket_start INTEGER NOT NULL,
-      bucket_seconds INTEGER NOT NULL,
-      event_name TEXT NOT NULL,
-      count INTEGER NOT NULL DEFAULT 0,
-      PRIMARY KEY (chain_id, bucket_start, bucket_seconds, event_name)
-    );
-
-    CREATE TABLE IF NOT EXISTS op_counts (
-      chain_id INTEGER NOT NULL,
-      event_name TEXT NOT NULL,
-      count INTEGER NOT NULL DEFAULT 0,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (chain_id, event_name)
-    );
-
-    CREATE TABLE IF NOT EXISTS rollup_checkpoints (
-      chain_id INTEGER PRIMARY KEY,
-      last_block INTEGER NOT NULL,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS dfg_stats_rollups (
-      chain_id INTEGER PRIMARY KEY,
-      total INTEGER NOT NULL DEFAULT 0,
-      avg_nodes REAL,
-      avg_edges REAL,
-      avg_depth REAL,
-      min_nodes INTEGER,
-      max_nodes INTEGER,
-      min_edges INTEGER,
-      max_edges INTEGER,
-      min_depth INTEGER,
-      max_depth INTEGER,
-      signature_count INTEGER,
-      event_tx_count INTEGER,
-      max_block INTEGER,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS dfg_txs (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      block_number INTEGER NOT NULL,
-      node_count INTEGER NOT NULL,
-      edge_count INTEGER NOT NULL,
-      depth INTEGER NOT NULL,
-      signature_hash TEXT,
-      stats_json TEXT,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (chain_id, tx_hash)
-    );
-    CREATE INDEX IF NOT EXISTS dfg_txs_block
-      ON dfg_txs(chain_id, block_number);
-    CREATE INDEX IF NOT EXISTS dfg_txs_signature
-      ON dfg_txs(chain_id, signature_hash);
-    CREATE INDEX IF NOT EXISTS dfg_txs_signature_filters
-      ON dfg_txs(chain_id, signature_hash, node_count, edge_count, block_number);
-
-    CREATE TABLE IF NOT EXISTS dfg_nodes (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      node_id INTEGER NOT NULL,
-      op TEXT NOT NULL,
-      output_handle TEXT,
-      input_count INTEGER NOT NULL,
-      scalar_flag INTEGER,
-      type_info_json TEXT,
-      PRIMARY KEY (chain_id, tx_hash, node_id)
-    );
-    CREATE INDEX IF NOT EXISTS dfg_nodes_tx
-      ON dfg_nodes(chain_id, tx_hash);
-    CREATE INDEX IF NOT EXISTS dfg_nodes_output_handle
-      ON dfg_nodes(chain_id, output_handle);
-
-    CREATE TABLE IF NOT EXISTS dfg_edges (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      from_node_id INTEGER NOT NULL,
-      to_node_id INTEGER NOT NULL,
-      input_handle TEXT NOT NULL,
-      PRIMARY KEY (chain_id, tx_hash, from_node_id, to_node_id, input_handle)
-    );
-    CREATE INDEX IF NOT EXISTS dfg_edges_tx
-      ON dfg_edges(chain_id, tx_hash);
-
-    CREATE TABLE IF NOT EXISTS dfg_inputs (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      handle TEXT NOT NULL,
-      kind TEXT NOT NULL,
-      PRIMARY KEY (chain_id, tx_hash, handle)
-    );
-    CREATE INDEX IF NOT EXISTS dfg_inputs_tx
-      ON dfg_inputs(chain_id, tx_hash);
-    CREATE INDEX IF NOT EXISTS dfg_inputs_handle
-      ON dfg_inputs(chain_id, handle);
-
-    CREATE TABLE IF NOT EXISTS dfg_handle_producers (
-      chain_id INTEGER NOT NULL,
-      handle TEXT NOT NULL,
-      tx_hash TEXT NOT NULL,
-      block_number INTEGER NOT NULL,
-      is_trivial INTEGER NOT NULL DEFAULT 0,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (chain_id, handle)
-    );
-    CREATE INDEX IF NOT EXISTS dfg_handle_producers_tx
-      ON dfg_handle_producers(chain_id, tx_hash);
-
-    CREATE TABLE IF NOT EXISTS dfg_tx_deps (
-      chain_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      block_number INTEGER NOT NULL,
-      upstream_txs INTEGER NOT NULL,
-      handle_links INTEGER NOT NULL,
-      chain_depth INTEGER NOT NULL DEFAULT 0,
-      total_depth INTEGER NOT NULL DEFAULT 0,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (chain_id, tx_hash)
-    );
-    CREATE INDEX IF NOT EXISTS dfg_tx_deps_block
-      ON dfg_tx_deps(chain_id, block_number, tx_hash);
-
-    CREATE TABLE IF NOT EXISTS dfg_rollups (
-      chain_id INTEGER PRIMARY KEY,
-      dfg_tx_count INTEGER NOT NULL,
-      stats_json TEXT NOT NULL,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS dfg_dep_rollups (
-      chain_id INTEGER PRIMARY KEY,
-      dfg_tx_count INTEGER NOT NULL,
-      stats_json TEXT NOT NULL,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS dfg_rollup_checkpoints (
-      chain_id INTEGER PRIMARY KEY,
-      last_block INTEGER,
-      last_tx_hash TEXT,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    CREATE TABLE IF NOT EXISTS dfg_build_checkpoints (
-      chain_id INTEGER PRIMARY KEY,
-      last_block INTEGER,
-      last_tx_hash TEXT,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-  `);
-
-  ensureEventColumns(db);
-  ensureDfgColumns(db);
   return db;
 }
 
-function ensureEventColumns(db: Database): void {
-  const rows = db.prepare("PRAGMA table_info(fhe_events)").all() as Array<{
-    name: string;
-  }>;
-  const existing = new Set(rows.map((row) => row.name));
-  for (const column of EVENT_COLUMNS) {
-    if (!existing.has(column.name)) {
-      db.exec(`ALTER TABLE fhe_events ADD COLUMN ${column.name} ${column.type}`);
-    }
+/** Opens the SQLite file at `dbPath` and applies pending schema migrations. */
+export async function initDatabase(dbPath: string): Promise<Database> {
+  const db = openSqliteDatabase(dbPath);
+  try {
+    await migrateSchema(createSqliteStorage(db));
+  } catch (err) {
+    db.close();
+    throw err;
   }
+  return db;
 }
 
-function ensureDfgColumns(db: Database): void {
-  // Add is_trivial column to dfg_handle_producers if missing
-  const producerCols = db.prepare("PRAGMA table_info(dfg_handle_producers)").all() as Array<{
-    name: string;
-  }>;
-  const producerExisting = new Set(producerCols.map((row) => row.name));
-  if (!producerExisting.has("is_trivial")) {
-    db.exec("ALTER TABLE dfg_handle_producers ADD COLUMN is_trivial INTEGER NOT NULL DEFAULT 0");
-  }
-
-  // Add chain_depth column to dfg_tx_deps if missing
-  const depsCols = db.prepare("PRAGMA table_info(dfg_tx_deps)").all() as Array<{
-    name: string;
-  }>;
-  const depsExisting = new Set(depsCols.map((row) => row.name));
-  if (!depsExisting.has("chain_depth")) {
-    db.exec("ALTER TABLE dfg_tx_deps ADD COLUMN chain_depth INTEGER NOT NULL DEFAULT 0");
-  }
-  if (!depsExisting.has("total_depth")) {
-    db.exec("ALTER TABLE dfg_tx_deps ADD COLUMN total_depth INTEGER NOT NULL DEFAULT 0");
-  }
+/**
+ * Connects to the configured backend without migrating it: PostgreSQL when `DATABASE_URL`
+ * is set, else SQLite.
+ */
+export function connectStorage(config: Pick<Config, "dbPath" | "databaseUrl">): Storage {
+  return config.databaseUrl
+    ? createPostgresStorage(config.databaseUrl)
+    : createSqliteStorage(openSqliteDatabase(config.dbPath));
 }
 
-function createClient(config: Config) {
-  if (!config.chainId) {
-    return createPublicClient({
-      transport: http(config.rpcUrl),
-    });
+/** Connects to the configured backend and applies pending schema migrations. */
+export async function openStorage(
+  config: Pick<Config, "dbPath" | "databaseUrl">,
+): Promise<Storage> {
+  const storage = connectStorage(config);
+  try {
+    await migrateSchema(storage);
+  } catch (err) {
+    await storage.close();
+    throw err;
   }
-  return createPublicClient({
-    chain: {
-      id: config.chainId,
-      name: "custom",
-      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
-      rpcUrls: { default: { http: [config.rpcUrl] } },
-    },
-    transport: http(config.rpcUrl),
-  });
+  return storage;
 }
 
-function prepareStatements(db: Database) {
-  const insertEvent = db.prepare(`
-    INSERT OR IGNORE INTO fhe_events (
+function prepareStatements(
+  storage: Storage,
+  options: { dfgBuildInline?: boolean; logRanges?: boolean } = {},
+) {
+  const insertEvent = storage.prepare(`
+    INSERT INTO fhe_events (
       chain_id,
       block_number,
       block_hash,
@@ -572,63 +475,171 @@ function prepareStatements(db: Database) {
       , rand_type
       , scalar_flag
       , result_handle_version
+      , abi_version
+      , topics_json
+      , tx_index
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT DO NOTHING
   `);
 
-  const insertTxCaller = db.prepare(`
-    INSERT OR IGNORE INTO tx_callers (
+  const insertTxCaller = storage.prepare(`
+    INSERT INTO tx_callers (
       chain_id,
       tx_hash,
       caller
     )
     VALUES (?, ?, ?)
+    ON CONFLICT DO NOTHING
+  `);
+
+  const insertTypeMismatch = storage.prepare(`
+    INSERT INTO type_mismatches (
+      chain_id, block_number, tx_hash, log_index, event_name, expected_type, actual_type
+    ) VALUES (
+      $chainId, $blockNumber, $txHash, $logIndex, $eventName, $expectedType, $actualType
+    )
+    ON CONFLICT DO NOTHING
   `);
 
-  const insertTxSeen = db.prepare(`
-    INSERT OR IGNORE INTO tx_seen (
+  const insertTxSeen = storage.prepare(`
+    INSERT INTO tx_seen (
       chain_id,
       tx_hash
     )
     VALUES (?, ?)
+    ON CONFLICT DO NOTHING
   `);
 
-  const upsertTxCount = db.prepare(`
+  const upsertTxCount = storage.prepare(`
     INSERT INTO tx_counts (
       chain_id,
       count
     )
-    VALUES (?, 1)
+    VALUES (?, ?)
     ON CONFLICT(chain_id) DO UPDATE
-      SET count = count + 1,
-          updated_at = datetime('now')
+      SET count = tx_counts.count + excluded.count,
+          updated_at = ${storage.sql.now}
   `);
 
-  const upsertOpCount = db.prepare(`
+  const upsertOpCount = storage.prepare(`
     INSERT INTO op_counts (
       chain_id,
       event_name,
       count
     )
-    VALUES (?, ?, 1)
+    VALUES (?, ?, ?)
     ON CONFLICT(chain_id, event_name) DO UPDATE
-      SET count = count + 1,
-          updated_at = datetime('now')
+      SET count = op_counts.count + excluded.count,
+          updated_at = ${storage.sql.now}
   `);
 
-  const getCheckpoint = db.prepare(`
-    SELECT last_block FROM checkpoints WHERE chain_id = ?
+  const getCheckpoint = storage.prepare(`
+    SELECT last_block, last_block_hash FROM checkpoints WHERE chain_id = ?
   `);
 
-  const upsertCheckpoint = db.prepare(`
-    INSERT INTO checkpoints(chain_id, last_block)
-    VALUES (?, ?)
+  const upsertCheckpoint = storage.prepare(`
+    INSERT INTO checkpoints(chain_id, last_block, last_block_hash)
+    VALUES (?, ?, ?)
     ON CONFLICT(chain_id) DO UPDATE
       SET last_block = excluded.last_block,
-          updated_at = datetime('now')
+          last_block_hash = excluded.last_block_hash,
+          updated_at = ${storage.sql.now}
+  `);
+
+  // Event rows cover databases ingested before the blocks table existed.
+  const selectRecentEventBlocks = storage.prepare(`
+    SELECT number AS block_number, hash AS block_hash
+    FROM blocks
+    WHERE chain_id = $chainId AND number >= $fromBlock AND number <= $toBlock
+    UNION
+    SELECT DISTINCT block_number, block_hash
+    FROM fhe_events
+    WHERE chain_id = $chainId AND block_number >= $fromBlock AND block_number <= $toBlock
+    ORDER BY block_number DESC
+  `);
+
+  const upsertBlock = storage.prepare(`
+    INSERT INTO blocks (chain_id, number, hash, timestamp, parent_hash)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(chain_id, number) DO UPDATE SET
+      hash = excluded.hash,
+      timestamp = excluded.timestamp,
+      parent_hash = excluded.parent_hash
+  `);
+
+  // Deployments are never deleted: once an address has produced events, its row keeps
+  // explaining where they came from even after it is dropped from the config.
+  const upsertExecutorDeployment = storage.prepare(`
+    INSERT INTO executor_deployments (chain_id, address, from_block, to_block)
+    VALUES ($chainId, $address, $fromBlock, $toBlock)
+    ON CONFLICT(chain_id, address) DO UPDATE SET
+      from_block = excluded.from_block,
+      to_block = excluded.to_block,
+      updated_at = ${storage.sql.now}
+  `);
+
+  const insertAclEvent = storage.prepare(`
+    INSERT INTO acl_events (
+      chain_id, block_number, block_hash, tx_hash, log_index, handle_index, event_name,
+      caller, account, handle
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT DO NOTHING
+  `);
+
+  const insertDecryptionRequest = storage.prepare(`
+    INSERT INTO decryption_requests (
+      chain_id, block_number, block_hash, tx_hash, log_index, handle_index, event_name, kind,
+      request_id, requester, handle, handle_chain_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT DO NOTHING
+  `);
+
+  const insertGap = storage.prepare(`
+    INSERT INTO ingestion_gaps (chain_id, from_block, to_block, next_block)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const selectOpenGap = storage.prepare(`
+    SELECT id, from_block, to_block, next_block
+    FROM ingestion_gaps
+    WHERE chain_id = ? AND status = 'open'
+    ORDER BY from_block DESC
+    LIMIT 1
+  `);
+
+  const advanceGap = storage.prepare(`
+    UPDATE ingestion_gaps
+    SET next_block = $nextBlock,
+        status = CASE WHEN $nextBlock > to_block THEN 'filled' ELSE 'open' END,
+        filled_at = CASE WHEN $nextBlock > to_block THEN ${storage.sql.now} ELSE NULL END,
+        updated_at = ${storage.sql.now}
+    WHERE id = $id
+  `);
+
+  const upsertRpcEndpointStats = storage.prepare(`
+    INSERT INTO rpc_endpoint_stats (
+      chain_id, endpoint, requests, failures, ranges_served, score,
+      last_from_block, last_to_block, last_error
+    ) VALUES (
+      $chainId, $endpoint, $requests, $failures, $rangesServed, $score,
+      $fromBlock, $toBlock, $lastError
+    )
+    ON CONFLICT(chain_id, endpoint) DO UPDATE SET
+      requests = rpc_endpoint_stats.requests + excluded.requests,
+      failures = rpc_endpoint_stats.failures + excluded.failures,
+      ranges_served = rpc_endpoint_stats.ranges_served + excluded.ranges_served,
+      score = excluded.score,
+      last_from_block = COALESCE(excluded.last_from_block, rpc_endpoint_stats.last_from_block),
+      last_to_block = COALESCE(excluded.last_to_block, rpc_endpoint_stats.last_to_block),
+      last_error = COALESCE(excluded.last_error, rpc_endpoint_stats.last_error),
+      updated_at = ${storage.sql.now}
   `);
 
   return {
+    transaction: <T>(fn: () => Promise<T>) => storage.transaction(fn),
+    dfgBuilder: options.dfgBuildInline ? createDfgBuilder(storage) : null,
+    logRanges: options.logRanges ?? false,
     insertEvent,
     insertTxCaller,
     insertTxSeen,
@@ -636,18 +647,36 @@ function prepareStatements(db: Database) {
     upsertOpCount,
     getCheckpoint,
     upsertCheckpoint,
+    selectRecentEventBlocks,
+    upsertBlock,
+    upsertExecutorDeployment,
+    insertTypeMismatch,
+    insertAclEvent,
+    insertDecryptionRequest,
+    insertGap,
+    selectOpenGap,
+    advanceGap,
+    upsertRpcEndpointStats,
   };
 }
 
-function readCheckpoint(
+async function readCheckpoint(
   getCheckpoint: ReturnType<typeof prepareStatements>["getCheckpoint"],
   chainId: number,
-): number | undefined {
-  const row = getCheckpoint.get(chainId) as { last_block: number } | undefined;
+): Promise<number | undefined> {
+  const row = (await getCheckpoint.get(chainId)) as { last_block: number } | undefined;
   return row?.last_block;
 }
 
-function serializeArgs(args: Record<string, unknown> | undefined): string | null {
+async function readCheckpointHash(
+  getCheckpoint: ReturnType<typeof prepareStatements>["getCheckpoint"],
+  chainId: number,
+): Promise<string | null> {
+  const row = (await getCheckpoint.get(chainId)) as { last_block_hash: string | null } | undefined;
+  return row?.last_block_hash ?? null;
+}
+
+export function serializeArgs(args: Record<string, unknown> | undefined): string | null {
   if (!args) return null;
   return JSON.stringify(args, (_, value) => (typeof value === "bigint" ? value.toString() : value));
 }
@@ -677,6 +706,15 @@ export function extractHandleMetadata(handle: unknown): HandleMetadata | null {
   return { type, version };
 }
 
+// Bytes 22..29 of a handle hold the chain id of the host chain that computed it, which
+// links gateway-side requests back to the producing chain.
+export function extractHandleChainId(handle: unknown): number | null {
+  if (typeof handle !== "string") return null;
+  if (!handle.startsWith("0x") || handle.length !== 66) return null;
+  const chainId = Number.parseInt(handle.slice(2 + 22 * 2, 2 + 30 * 2), 16);
+  return Number.isSafeInteger(chainId) ? chainId : null;
+}
+
 function extractHandleType(handle: unknown): number | null {
   const meta = extractHandleMetadata(handle);
   return meta ? meta.type : null;
@@ -771,7 +809,11 @@ export function validateDerivedTypes(
   return null;
 }
 
-const FHE_EVENTS = FHE_EVENTS_ABI.filter((item) => item.type === "event") as AbiEvent[];
+const FHE_EVENTS = registryEvents();
+const ACL_EVENTS = ACL_EVENTS_ABI.filter((item) => item.type === "event") as AbiEvent[];
+const DECRYPTION_EVENTS = DECRYPTION_EVENTS_ABI.filter(
+  (item) => item.type === "event",
+) as AbiEvent[];
 
 function isInvalidBlockRangeError(err: unknown): boolean {
   if (!err || typeof err !== "object") return false;
@@ -801,48 +843,221 @@ function isTooManyLogsError(err: unknown): boolean {
   );
 }
 
-function isMethodHandlerCrashedError(err: unknown): boolean {
+// Providers that cap the block span of `eth_getLogs` rather than the result size. The
+// "limited to a N range" phrasing must name a range: rate limits use the same words.
+const LIMITED_BLOCK_RANGE = /\b(?:limited to|up to) a [\d,_]+k? ?(?:blocks? )?range\b/;
+
+function isBlockRangeTooWideError(err: unknown): boolean {
   if (!err || typeof err !== "object") return false;
   const record = err as Record<string, unknown>;
   const message = typeof record.message === "string" ? record.message : "";
   const details = typeof record.details === "string" ? record.details : "";
   const shortMessage = typeof record.shortMessage === "string" ? record.shortMessage : "";
   const combined = `${message}\n${details}\n${shortMessage}`.toLowerCase();
-  return combined.includes("method handler crashed");
+  return (
+    combined.includes("exceed maximum block range") ||
+    combined.includes("block range is too wide") ||
+    combined.includes("block range too large") ||
+    LIMITED_BLOCK_RANGE.test(combined)
+  );
 }
 
-async function processRange(
-  client: ReturnType<typeof createClient>,
+type RpcLog = Awaited<ReturnType<RpcClient["getLogs"]>>[number];
+
+type EndpointUsage = { requests: number; failures: number; lastError: string | null };
+
+export type BlockHeader = { number: number; hash: string; timestamp: number; parentHash: string };
+
+// Header fetches per range run this many at a time.
+const BLOCK_HEADER_CONCURRENCY = 8;
+
+type ExecutorRange = {
+  address: `0x${string}`;
+  fromBlock: number | null;
+  toBlock: number | null;
+};
+
+type ContractAddresses = {
+  executors: ExecutorRange[];
+  /** ACL contract, when its grants are ingested alongside executor events. */
+  acl: `0x${string}` | null;
+  /** DecryptionOracle (host chain) or Decryption (gateway) contract, when tracked. */
+  decryption: `0x${string}` | null;
+};
+
+function isExecutorActive(executor: ExecutorRange, blockNumber: number): boolean {
+  return (
+    (executor.fromBlock === null || blockNumber >= executor.fromBlock) &&
+    (executor.toBlock === null || blockNumber <= executor.toBlock)
+  );
+}
+
+function resolveContracts(config: Config): ContractAddresses {
+  return {
+    executors: config.executors.map((executor) => ({
+      address: getAddress(executor.address),
+      fromBlock: executor.fromBlock ?? null,
+      toBlock: executor.toBlock ?? null,
+    })),
+    acl: config.aclAddress ? getAddress(config.aclAddress) : null,
+    decryption: config.decryptionAddress ? getAddress(config.decryptionAddress) : null,
+  };
+}
+
+async function recordExecutorDeployments(
   statements: ReturnType<typeof prepareStatements>,
-  executorAddress: `0x${string}`,
-  fromBlock: number,
-  toBlock: number,
   chainId: number,
+  contracts: ContractAddresses,
 ): Promise<void> {
-  if (fromBlock > toBlock) return;
+  for (const executor of contracts.executors) {
+    await statements.upsertExecutorDeployment.run({
+      $chainId: chainId,
+      $address: executor.address,
+      $fromBlock: executor.fromBlock,
+      $toBlock: executor.toBlock,
+    });
+  }
+}
 
-  // Some RPC providers (e.g. certain gateways) don't support `eth_getLogs` topic OR
-  // queries (i.e. `topics[0] = [sig1, sig2, ...]`). So we fetch logs per event
-  // signature to keep requests maximally compatible.
-  const useSingleEventRequests = true;
+function compareLogs(a: Log, b: Log): number {
+  const block = Number(a.blockNumber ?? 0n) - Number(b.blockNumber ?? 0n);
+  if (block !== 0) return block;
+  const txi = Number(a.transactionIndex ?? 0n) - Number(b.transactionIndex ?? 0n);
+  if (txi !== 0) return txi;
+  return Number(a.logIndex ?? 0n) - Number(b.logIndex ?? 0n);
+}
+
+function activeExecutorAddresses(
+  contracts: ContractAddresses,
+  fromBlock: number,
+  toBlock: number,
+): `0x${string}`[] {
+  const addresses = contracts.executors
+    .filter(
+      (executor) =>
+        (executor.fromBlock === null || executor.fromBlock <= toBlock) &&
+        (executor.toBlock === null || executor.toBlock >= fromBlock),
+    )
+    .map((executor) => executor.address);
+  return Array.from(new Set(addresses));
+}
+
+type FetchedRange = {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  logs: Log[];
+  aclLogs: Log[];
+  decryptionLogs: Log[];
+  blocks: BlockHeader[];
+  advanceCheckpoint: boolean;
+  toBlockHash: string | null;
+  endpointUsage: Map<RpcEndpoint, EndpointUsage>;
+};
+
+function toHeader(block: {
+  number: bigint | null;
+  hash: string | null;
+  timestamp: bigint;
+  parentHash: string;
+}): BlockHeader | null {
+  if (block.number === null || block.hash === null) return null;
+  return {
+    number: Number(block.number),
+    hash: block.hash,
+    timestamp: Number(block.timestamp),
+    parentHash: block.parentHash,
+  };
+}
+
+export async function fetchBlockHeaders(
+  rpc: RpcPool,
+  blockNumbers: number[],
+): Promise<BlockHeader[]> {
+  const headers: BlockHeader[] = [];
+  for (let index = 0; index < blockNumbers.length; index += BLOCK_HEADER_CONCURRENCY) {
+    const chunk = blockNumbers.slice(index, index + BLOCK_HEADER_CONCURRENCY);
+    const fetched = await Promise.all(
+      chunk.map((blockNumber) =>
+        rpc.request((client) => client.getBlock({ blockNumber: BigInt(blockNumber) })),
+      ),
+    );
+    for (const block of fetched) {
+      const header = toHeader(block);
+      if (header) headers.push(header);
+    }
+  }
+  return headers;
+}
+
+// Network half of a range: everything here is safe to run for several ranges at once.
+// Nothing touches the database until `writeRange`.
+async function fetchRange(
+  rpc: RpcPool,
+  contracts: ContractAddresses,
+  fromBlock: number,
+  toBlock: number,
+  chainId: number,
+  advanceCheckpoint: boolean,
+): Promise<FetchedRange> {
+  // Remember the hash of the range end before fetching logs: if the chain reorgs
+  // underneath us, the stored hash goes stale and the next poll rolls the range back.
+  const toBlockHeader = advanceCheckpoint
+    ? await rpc.request((client) => client.getBlock({ blockNumber: BigInt(toBlock) }))
+    : null;
 
   const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+  // Every deployment active anywhere in the range is queried in the same request; logs
+  // outside a deployment's own block range are dropped below.
+  const executorAddresses = activeExecutorAddresses(contracts, fromBlock, toBlock);
+
+  const endpointUsage = new Map<RpcEndpoint, EndpointUsage>();
+  const trackUsage = (endpoint: RpcEndpoint, err?: unknown) => {
+    const usage = endpointUsage.get(endpoint) ?? { requests: 0, failures: 0, lastError: null };
+    usage.requests += 1;
+    if (err !== undefined) {
+      usage.failures += 1;
+      usage.lastError = err instanceof Error ? (err.message.split("\n")[0] ?? null) : String(err);
+    }
+    endpointUsage.set(endpoint, usage);
+  };
+
+  // Some RPC providers (e.g. certain gateways) don't support `eth_getLogs` topic OR
+  // queries (i.e. `topics[0] = [sig1, sig2, ...]`). Passing every event fetches the
+  // range in one topic-OR request and is only done against endpoints that passed the
+  // capability probe; a single event is always a plain per-signature request.
   const fetchLogsForRange = async (
-    event: AbiEvent,
+    events: AbiEvent[],
     startBlock: number,
     endBlock: number,
-  ): Promise<Awaited<ReturnType<typeof client.getLogs>>> => {
+    address: `0x${string}` | `0x${string}`[] = executorAddresses,
+  ): Promise<RpcLog[]> => {
     if (startBlock > endBlock) return [];
+    const combined = events.length > 1;
     for (let attempt = 0; attempt < 5; attempt += 1) {
+      // Picked per attempt so a retry after a transport error can land on another endpoint.
+      const endpoint = combined ? rpc.forCombinedLogs() : rpc.forLogs();
+      if (!endpoint) return fetchPerEvent(startBlock, endBlock, events, address);
       try {
-        return await client.getLogs({
-          address: executorAddress,
+        const result = await endpoint.client.getLogs({
+          address,
           fromBlock: BigInt(startBlock),
           toBlock: BigInt(endBlock),
-          ...(useSingleEventRequests ? { event } : { events: [event] }),
+          ...(combined ? { events } : { event: events[0] }),
         });
+        rpc.recordSuccess(endpoint);
+        trackUsage(endpoint);
+        return result;
       } catch (err) {
+        // Only transport failures count against the endpoint; range and size limits are
+        // answers from a healthy node.
+        if (isTransientRpcError(err)) {
+          rpc.recordFailure(endpoint, err);
+          trackUsage(endpoint, err);
+        } else {
+          trackUsage(endpoint);
+        }
         if (startBlock === endBlock && isInvalidBlockRangeError(err)) {
           console.warn("getLogs rejected block range; will retry next poll", {
             chainId,
@@ -851,25 +1066,30 @@ async function processRange(
           });
           return [];
         }
-        // Some RPC providers enforce a hard cap on log result size per request.
-        // In that case, we retry by splitting the range until it fits.
-        if (startBlock < endBlock && isTooManyLogsError(err)) {
+        // Some RPC providers enforce a hard cap on log result size (or block span) per
+        // request. In that case, we retry by splitting the range until it fits.
+        if (startBlock < endBlock && (isTooManyLogsError(err) || isBlockRangeTooWideError(err))) {
           const mid = Math.floor((startBlock + endBlock) / 2);
-          const left = await fetchLogsForRange(event, startBlock, mid);
-          const right = await fetchLogsForRange(event, mid + 1, endBlock);
+          const left = await fetchLogsForRange(events, startBlock, mid, address);
+          const right = await fetchLogsForRange(events, mid + 1, endBlock, address);
           return left.concat(right);
         }
+        if (combined && !isTransientRpcError(err)) {
+          rpc.setTopicOr(endpoint, false);
+          console.warn("topic-OR getLogs failed; falling back to per-event requests", {
+            chainId,
+            endpoint: endpoint.label,
+            error: err instanceof Error ? err.message : String(err),
+          });
+          return fetchPerEvent(startBlock, endBlock, events, address);
+        }
         // Transient transport issues (rate limits, HTML error pages, etc.).
         // Retry a few times with backoff.
-        if (
-          attempt < 4 &&
-          (err instanceof HttpRequestError ||
-            err instanceof TimeoutError ||
-            isMethodHandlerCrashedError(err))
-        ) {
+        if (attempt < 4 && isTransientRpcError(err)) {
           const backoffMs = 500 * 2 ** attempt;
           console.warn("getLogs transport error; retrying", {
             chainId,
+            endpoint: endpoint.label,
             fromBlock: startBlock,
             toBlock: endBlock,
             attempt: attempt + 1,
@@ -885,49 +1105,213 @@ async function processRange(
     return [];
   };
 
-  const logKey = (log: Awaited<ReturnType<typeof client.getLogs>>[number]) =>
+  const logKey = (log: RpcLog) =>
     `${log.blockNumber ?? 0n}:${log.transactionHash ?? "0x"}:${log.logIndex ?? 0n}`;
 
-  const allLogs: Awaited<ReturnType<typeof client.getLogs>> = [];
-  const seen = new Set<string>();
-  for (const event of FHE_EVENTS) {
-    const eventLogs = await fetchLogsForRange(event, fromBlock, toBlock);
-    for (const log of eventLogs) {
-      const key = logKey(log);
-      if (seen.has(key)) continue;
-      seen.add(key);
-      allLogs.push(log);
+  const dedupeLogs = (batches: RpcLog[][]): RpcLog[] => {
+    const unique: RpcLog[] = [];
+    const seen = new Set<string>();
+    for (const batch of batches) {
+      for (const log of batch) {
+        const key = logKey(log);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        unique.push(log);
+      }
+    }
+    return unique;
+  };
+
+  async function fetchPerEvent(
+    startBlock: number,
+    endBlock: number,
+    events: AbiEvent[] = FHE_EVENTS,
+    address: `0x${string}` | `0x${string}`[] = executorAddresses,
+  ): Promise<RpcLog[]> {
+    // When spreading, fetch one event per healthy endpoint at a time.
+    const fetchWidth = rpc.spreadLogs ? rpc.endpoints.length : 1;
+    const batches: RpcLog[][] = [];
+    for (let index = 0; index < events.length; index += fetchWidth) {
+      const chunk = events.slice(index, index + fetchWidth);
+      batches.push(
+        ...(await Promise.all(
+          chunk.map((event) => fetchLogsForRange([event], startBlock, endBlock, address)),
+        )),
+      );
     }
+    return dedupeLogs(batches);
   }
-  const logs = allLogs.sort((a, b) => {
-    const block = Number(a.blockNumber ?? 0n) - Number(b.blockNumber ?? 0n);
-    if (block !== 0) return block;
-    const txi = Number(a.transactionIndex ?? 0n) - Number(b.transactionIndex ?? 0n);
-    if (txi !== 0) return txi;
-    return Number(a.logIndex ?? 0n) - Number(b.logIndex ?? 0n);
-  });
 
+  // Probe the endpoint we are about to use once: fetch the range with a topic-OR
+  // request as well and keep the capability only if it returns exactly what the
+  // per-event requests do. Gateways that ignore or truncate OR filters fail this.
+  const probeEndpoint = rpc.forLogs();
+  let probeLogs: RpcLog[] | null = null;
+  if (
+    executorAddresses.length > 0 &&
+    FHE_EVENTS.length > 1 &&
+    rpc.supportsTopicOr(probeEndpoint) === undefined
+  ) {
+    try {
+      probeLogs = dedupeLogs([
+        await probeEndpoint.client.getLogs({
+          address: executorAddresses,
+          fromBlock: BigInt(fromBlock),
+          toBlock: BigInt(toBlock),
+          events: FHE_EVENTS,
+        }),
+      ]);
+      rpc.recordSuccess(probeEndpoint);
+      trackUsage(probeEndpoint);
+    } catch (err) {
+      trackUsage(probeEndpoint, isTransientRpcError(err) ? err : undefined);
+      // Transport errors and size limits say nothing about topic-OR; probe again later.
+      if (isTransientRpcError(err)) {
+        rpc.recordFailure(probeEndpoint, err);
+      } else if (
+        !isTooManyLogsError(err) &&
+        !isBlockRangeTooWideError(err) &&
+        !isInvalidBlockRangeError(err)
+      ) {
+        rpc.setTopicOr(probeEndpoint, false);
+        console.log("rpc topic-OR capability detected", {
+          chainId,
+          endpoint: probeEndpoint.label,
+          topicOr: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  const rawLogs =
+    executorAddresses.length === 0
+      ? []
+      : rpc.forCombinedLogs()
+        ? await fetchLogsForRange(FHE_EVENTS, fromBlock, toBlock)
+        : await fetchPerEvent(fromBlock, toBlock);
+
+  // An empty range is no evidence: a gateway that answers OR filters with [] would pass.
+  // The capability stays unknown and the next range probes again.
+  if (probeLogs && rawLogs.length > 0) {
+    const expected = new Set(rawLogs.map(logKey));
+    const supported =
+      probeLogs.length === expected.size && probeLogs.every((log) => expected.has(logKey(log)));
+    rpc.setTopicOr(probeEndpoint, supported);
+    console.log("rpc topic-OR capability detected", {
+      chainId,
+      endpoint: probeEndpoint.label,
+      topicOr: supported,
+      ...(supported ? {} : { topicOrLogs: probeLogs.length, perEventLogs: expected.size }),
+    });
+  }
+
+  // ACL grants share the range (and its checkpoint), so every tx the DFG builder sees
+  // already has its `is_allowed` inputs.
+  const aclLogs = contracts.acl
+    ? rpc.forCombinedLogs()
+      ? await fetchLogsForRange(ACL_EVENTS, fromBlock, toBlock, contracts.acl)
+      : await fetchPerEvent(fromBlock, toBlock, ACL_EVENTS, contracts.acl)
+    : [];
+  const decryptionLogs = contracts.decryption
+    ? rpc.forCombinedLogs()
+      ? await fetchLogsForRange(DECRYPTION_EVENTS, fromBlock, toBlock, contracts.decryption)
+      : await fetchPerEvent(fromBlock, toBlock, DECRYPTION_EVENTS, contracts.decryption)
+    : [];
+
+  const logs = rawLogs
+    .filter((log) => {
+      const address = getAddress(log.address);
+      const blockNumber = Number(log.blockNumber ?? 0n);
+      return contracts.executors.some(
+        (executor) => executor.address === address && isExecutorActive(executor, blockNumber),
+      );
+    })
+    .sort(compareLogs);
+
+  // Headers for every block with events or decryption requests (plus the range end) give
+  // the DB block times, so rollups, time filters and decryption latency never have to ask
+  // the RPC.
+  const headers = new Map<number, BlockHeader>();
+  if (toBlockHeader) {
+    const header = toHeader(toBlockHeader);
+    if (header) headers.set(header.number, header);
+  }
+  const missingHeaders = Array.from(
+    new Set([...logs, ...decryptionLogs].map((log) => Number(log.blockNumber ?? 0n))),
+  ).filter((blockNumber) => !headers.has(blockNumber));
+  for (const header of await fetchBlockHeaders(rpc, missingHeaders)) {
+    headers.set(header.number, header);
+  }
+
+  return {
+    chainId,
+    fromBlock,
+    toBlock,
+    logs,
+    aclLogs,
+    decryptionLogs,
+    blocks: Array.from(headers.values()),
+    advanceCheckpoint,
+    toBlockHash: toBlockHeader?.hash ?? null,
+    endpointUsage,
+  };
+}
+
+// Writes a fetched range in one transaction: events, counters and the checkpoint commit
+// together or not at all, so a crash or shutdown mid-range leaves no partial counts and
+// the range is simply fetched again. Counters are summed per range and upserted once.
+// `rpc` is null for replayed ranges, which carry no endpoint usage.
+async function writeRange(
+  rpc: RpcPool | null,
+  statements: ReturnType<typeof prepareStatements>,
+  range: FetchedRange,
+): Promise<InsertedEventCount[]> {
+  return statements.transaction(() => writeRangeRows(rpc, statements, range));
+}
+
+async function writeRangeRows(
+  rpc: RpcPool | null,
+  statements: ReturnType<typeof prepareStatements>,
+  range: FetchedRange,
+): Promise<InsertedEventCount[]> {
+  const { chainId, fromBlock, toBlock, logs, endpointUsage } = range;
+  for (const block of range.blocks) {
+    await statements.upsertBlock.run(
+      chainId,
+      block.number,
+      block.hash,
+      block.timestamp,
+      block.parentHash,
+    );
+  }
+  const inserted = new Map<string, InsertedEventCount>();
+  const opCounts = new Map<string, number>();
+  let newTxs = 0;
   let mismatchCount = 0;
   for (const log of logs) {
     let eventName = "Unknown";
     let argsJson: string | null = null;
     let callerLower: string | null = null;
     let derived: DerivedFields = {};
-    try {
-      const decoded = decodeEventLog({
-        abi: FHE_EVENTS_ABI,
-        data: log.data,
-        topics: log.topics,
-      });
+    let mismatch: TypeMismatch | null = null;
+    const decoded = decodeFheEvent({
+      address: log.address,
+      blockNumber: Number(log.blockNumber),
+      topics: log.topics,
+      data: log.data,
+    });
+    if (decoded) {
       eventName = decoded.eventName;
-      const args = decoded.args as Record<string, unknown>;
+      const args = decoded.args;
       const caller = args.caller;
       if (typeof caller === "string" && caller.toLowerCase().startsWith("0x")) {
         callerLower = caller.toLowerCase();
       }
       argsJson = serializeArgs(args);
       derived = deriveEventFields(eventName, args);
-      const mismatch = validateDerivedTypes(eventName, derived);
+      mismatch = validateDerivedTypes(eventName, derived);
+      // Every mismatch is stored; only the first few per range are logged.
       if (mismatch && mismatchCount < TYPE_MISMATCHES_LOG_LIMIT) {
         mismatchCount += 1;
         console.warn("type mismatch", {
@@ -939,11 +1323,9 @@ async function processRange(
           logIndex: Number(log.logIndex),
         });
       }
-    } catch {
-      eventName = "Unknown";
     }
 
-    const insertResult = statements.insertEvent.run(
+    const insertResult = await statements.insertEvent.run(
       chainId,
       Number(log.blockNumber),
       log.blockHash ?? "",
@@ -965,21 +1347,433 @@ async function processRange(
       derived.randType ?? null,
       derived.scalarFlag ?? null,
       derived.resultHandleVersion ?? null,
+      decoded?.abiVersion ?? null,
+      decoded ? null : JSON.stringify(log.topics),
+      log.transactionIndex ?? null,
     );
+    if (mismatch) {
+      await statements.insertTypeMismatch.run({
+        $chainId: chainId,
+        $blockNumber: Number(log.blockNumber),
+        $txHash: log.transactionHash,
+        $logIndex: Number(log.logIndex),
+        $eventName: mismatch.eventName,
+        $expectedType: mismatch.expectedType,
+        $actualType: mismatch.actualType,
+      });
+    }
 
     if (insertResult.changes) {
-      statements.upsertOpCount.run(chainId, eventName);
-      const txSeenResult = statements.insertTxSeen.run(chainId, log.transactionHash);
-      if (txSeenResult.changes) {
-        statements.upsertTxCount.run(chainId);
+      const blockNumber = Number(log.blockNumber);
+      const insertedKey = `${blockNumber}|${eventName}`;
+      const insertedEntry = inserted.get(insertedKey);
+      if (insertedEntry) {
+        insertedEntry.count += 1;
+      } else {
+        inserted.set(insertedKey, { blockNumber, eventName, count: 1 });
       }
+      opCounts.set(eventName, (opCounts.get(eventName) ?? 0) + 1);
+      const txSeenResult = await statements.insertTxSeen.run(chainId, log.transactionHash);
+      newTxs += txSeenResult.changes;
       if (callerLower) {
-        statements.insertTxCaller.run(chainId, log.transactionHash, callerLower);
+        await statements.insertTxCaller.run(chainId, log.transactionHash, callerLower);
+      }
+    }
+  }
+
+  for (const [eventName, count] of opCounts) {
+    await statements.upsertOpCount.run(chainId, eventName, count);
+  }
+  if (newTxs > 0) await statements.upsertTxCount.run(chainId, newTxs);
+
+  for (const log of range.aclLogs) {
+    let decoded: ReturnType<typeof decodeEventLog<typeof ACL_EVENTS_ABI>>;
+    try {
+      decoded = decodeEventLog({ abi: ACL_EVENTS_ABI, data: log.data, topics: log.topics });
+    } catch {
+      continue;
+    }
+    const account = decoded.eventName === "Allowed" ? decoded.args.account.toLowerCase() : null;
+    const handles =
+      decoded.eventName === "Allowed" ? [decoded.args.handle] : decoded.args.handlesList;
+    for (const [handleIndex, handle] of handles.entries()) {
+      await statements.insertAclEvent.run(
+        chainId,
+        Number(log.blockNumber),
+        log.blockHash ?? "",
+        log.transactionHash,
+        Number(log.logIndex),
+        handleIndex,
+        decoded.eventName,
+        decoded.args.caller.toLowerCase(),
+        account,
+        handle,
+      );
+    }
+  }
+
+  for (const log of range.decryptionLogs) {
+    let decoded: ReturnType<typeof decodeEventLog<typeof DECRYPTION_EVENTS_ABI>>;
+    try {
+      decoded = decodeEventLog({ abi: DECRYPTION_EVENTS_ABI, data: log.data, topics: log.topics });
+    } catch {
+      continue;
+    }
+    let requestId: bigint;
+    let requester: string | null;
+    let handles: readonly string[];
+    if (decoded.eventName === "DecryptionRequest") {
+      requestId = decoded.args.requestID;
+      requester = decoded.args.contractCaller.toLowerCase();
+      handles = decoded.args.cts;
+    } else {
+      requestId = decoded.args.decryptionId;
+      requester =
+        decoded.eventName === "UserDecryptionRequest"
+          ? decoded.args.userAddress.toLowerCase()
+          : null;
+      handles = decoded.args.snsCtMaterials.map((material) => material.ctHandle);
+    }
+    const kind = decoded.eventName === "UserDecryptionRequest" ? "user" : "public";
+    for (const [handleIndex, handle] of handles.entries()) {
+      const handleLower = handle.toLowerCase();
+      await statements.insertDecryptionRequest.run(
+        chainId,
+        Number(log.blockNumber),
+        log.blockHash ?? "",
+        log.transactionHash,
+        Number(log.logIndex),
+        handleIndex,
+        decoded.eventName,
+        kind,
+        requestId.toString(),
+        requester,
+        handleLower,
+        extractHandleChainId(handleLower),
+      );
+    }
+  }
+
+  // ACL grants are in by now, so the inline build prunes exactly like the batch builder.
+  if (statements.dfgBuilder && logs.length > 0) {
+    await statements.dfgBuilder.buildRange(chainId, fromBlock, toBlock);
+  }
+
+  const health = new Map(rpc?.health().map((entry) => [entry.label, entry]));
+  for (const [endpoint, usage] of endpointUsage) {
+    await statements.upsertRpcEndpointStats.run({
+      $chainId: chainId,
+      $endpoint: endpoint.label,
+      $requests: usage.requests,
+      $failures: usage.failures,
+      $rangesServed: usage.requests > usage.failures ? 1 : 0,
+      $score: health.get(endpoint.label)?.score ?? null,
+      $fromBlock: usage.requests > usage.failures ? fromBlock : null,
+      $toBlock: usage.requests > usage.failures ? toBlock : null,
+      $lastError: usage.lastError,
+    });
+  }
+  if (statements.logRanges && endpointUsage.size > 0) {
+    console.log("range ingested", {
+      chainId,
+      fromBlock,
+      toBlock,
+      events: logs.length,
+      ...(range.aclLogs.length > 0 ? { aclEvents: range.aclLogs.length } : {}),
+      ...(range.decryptionLogs.length > 0
+        ? { decryptionRequests: range.decryptionLogs.length }
+        : {}),
+      endpoints: Array.from(endpointUsage.keys(), (endpoint) => endpoint.label),
+    });
+  }
+
+  if (range.advanceCheckpoint) {
+    await statements.upsertCheckpoint.run(chainId, toBlock, range.toBlockHash);
+  }
+  return Array.from(inserted.values());
+}
+
+export async function rollbackFromBlock(
+  storage: Storage,
+  reorg: ReorgInfo,
+): Promise<RollbackResult> {
+  const params = { $chainId: reorg.chainId, $forkBlock: reorg.forkBlock };
+  const removedTxsSubquery = `SELECT tx_hash FROM fhe_events
+    WHERE chain_id = $chainId AND block_number >= $forkBlock`;
+
+  return storage.transaction(async (): Promise<RollbackResult> => {
+    const removedRows = (await storage
+      .prepare(
+        `SELECT e.block_number AS blockNumber,
+                e.event_name AS eventName,
+                COUNT(*) AS count,
+                b.timestamp AS timestamp
+         FROM fhe_events e
+         LEFT JOIN blocks b ON b.chain_id = e.chain_id AND b.number = e.block_number
+         WHERE e.chain_id = $chainId AND e.block_number >= $forkBlock
+         GROUP BY e.block_number, e.event_name, b.timestamp`,
+      )
+      .all(params)) as Array<{
+      blockNumber: number;
+      eventName: string;
+      count: number;
+      timestamp: number | null;
+    }>;
+
+    const removedByEvent = new Map<string, number>();
+    let removedEvents = 0;
+    for (const row of removedRows) {
+      removedByEvent.set(row.eventName, (removedByEvent.get(row.eventName) ?? 0) + row.count);
+      removedEvents += row.count;
+    }
+
+    const decrementOpCount = storage.prepare(
+      `UPDATE op_counts
+       SET count = ${storage.sql.greatest("count - $count", "0")},
+           updated_at = ${storage.sql.now}
+       WHERE chain_id = $chainId AND event_name = $eventName`,
+    );
+    for (const [eventName, count] of removedByEvent) {
+      await decrementOpCount.run({ $chainId: reorg.chainId, $eventName: eventName, $count: count });
+    }
+
+    // Time buckets only hold orphaned events if the op rollup already passed the fork.
+    const rollupRow = (await storage
+      .prepare("SELECT last_block AS lastBlock FROM rollup_checkpoints WHERE chain_id = $chainId")
+      .get({ $chainId: reorg.chainId })) as { lastBlock: number } | undefined;
+    if (rollupRow && rollupRow.lastBlock >= reorg.forkBlock) {
+      const bucketSizes = (
+        (await storage
+          .prepare(
+            "SELECT DISTINCT bucket_seconds AS bucketSeconds FROM op_buckets WHERE chain_id = $chainId",
+          )
+          .all({ $chainId: reorg.chainId })) as Array<{ bucketSeconds: number }>
+      ).map((row) => row.bucketSeconds);
+      const decrementBucket = storage.prepare(
+        `UPDATE op_buckets
+         SET count = ${storage.sql.greatest("count - $count", "0")}
+         WHERE chain_id = $chainId
+           AND bucket_start = $bucketStart
+           AND bucket_seconds = $bucketSeconds
+           AND event_name = $eventName`,
+      );
+      let unplaced = 0;
+      for (const row of removedRows) {
+        if (row.blockNumber > rollupRow.lastBlock) continue;
+        // Buckets were keyed by the orphaned block's stored time, so undo with that.
+        const timestamp = row.timestamp;
+        if (timestamp === null) {
+          unplaced += row.count;
+          continue;
+        }
+        for (const bucketSeconds of bucketSizes) {
+          await decrementBucket.run({
+            $chainId: reorg.chainId,
+            $bucketStart: Math.floor(timestamp / bucketSeconds) * bucketSeconds,
+            $bucketSeconds: bucketSeconds,
+            $eventName: row.eventName,
+            $count: row.count,
+          });
+        }
+      }
+      if (unplaced > 0) {
+        console.warn("reorg rollback: op_buckets left unadjusted (no block timestamp)", {
+          chainId: reorg.chainId,
+          events: unplaced,
+        });
       }
+      await storage
+        .prepare(
+          `UPDATE rollup_checkpoints
+         SET last_block = $forkBlock - 1,
+             updated_at = ${storage.sql.now}
+         WHERE chain_id = $chainId`,
+        )
+        .run(params);
+    }
+
+    const { changes: removedTxs } = await storage
+      .prepare(
+        `DELETE FROM tx_seen WHERE chain_id = $chainId AND tx_hash IN (${removedTxsSubquery})`,
+      )
+      .run(params);
+    await storage
+      .prepare(
+        `UPDATE tx_counts
+       SET count = ${storage.sql.greatest("count - $removedTxs", "0")},
+           updated_at = ${storage.sql.now}
+       WHERE chain_id = $chainId`,
+      )
+      .run({ $chainId: reorg.chainId, $removedTxs: removedTxs });
+    await storage
+      .prepare(
+        `DELETE FROM tx_callers WHERE chain_id = $chainId AND tx_hash IN (${removedTxsSubquery})`,
+      )
+      .run(params);
+    for (const table of ["tx_receipts", "tx_receipt_misses", "tx_traces", "fhe_event_calls"]) {
+      await storage
+        .prepare(
+          `DELETE FROM ${table} WHERE chain_id = $chainId AND tx_hash IN (${removedTxsSubquery})`,
+        )
+        .run(params);
     }
+
+    for (const table of ["dfg_nodes", "dfg_edges", "dfg_inputs"]) {
+      await storage
+        .prepare(
+          `DELETE FROM ${table} WHERE chain_id = $chainId AND tx_hash IN (${removedTxsSubquery})`,
+        )
+        .run(params);
+    }
+    for (const table of ["dfg_txs", "dfg_tx_deps", "dfg_handle_producers", "dfg_node_hashes"]) {
+      await storage
+        .prepare(`DELETE FROM ${table} WHERE chain_id = $chainId AND block_number >= $forkBlock`)
+        .run(params);
+    }
+    await storage
+      .prepare(
+        `UPDATE dfg_build_checkpoints
+       SET last_block = $forkBlock - 1,
+           last_tx_hash = NULL,
+           updated_at = ${storage.sql.now}
+       WHERE chain_id = $chainId AND last_block >= $forkBlock`,
+      )
+      .run(params);
+    // DFG rollups are cumulative; dropping the checkpoint makes dfg:rollup rebuild them.
+    for (const table of ["dfg_rollup_checkpoints", "dfg_ngram_checkpoints"]) {
+      await storage
+        .prepare(`DELETE FROM ${table} WHERE chain_id = $chainId AND last_block >= $forkBlock`)
+        .run(params);
+    }
+
+    // Blocks from the fork onward are re-ingested by the tip loop, so gaps stop at the fork.
+    await storage
+      .prepare("DELETE FROM ingestion_gaps WHERE chain_id = $chainId AND from_block >= $forkBlock")
+      .run(params);
+    await storage
+      .prepare(
+        `UPDATE ingestion_gaps
+       SET to_block = $forkBlock - 1,
+           next_block = ${storage.sql.least("next_block", "$forkBlock")},
+           status = CASE WHEN next_block >= $forkBlock THEN 'filled' ELSE status END,
+           updated_at = ${storage.sql.now}
+       WHERE chain_id = $chainId AND to_block >= $forkBlock`,
+      )
+      .run(params);
+
+    await storage
+      .prepare("DELETE FROM fhe_events WHERE chain_id = $chainId AND block_number >= $forkBlock")
+      .run(params);
+    await storage
+      .prepare("DELETE FROM blocks WHERE chain_id = $chainId AND number >= $forkBlock")
+      .run(params);
+    await storage
+      .prepare("DELETE FROM acl_events WHERE chain_id = $chainId AND block_number >= $forkBlock")
+      .run(params);
+    await storage
+      .prepare(
+        "DELETE FROM decryption_requests WHERE chain_id = $chainId AND block_number >= $forkBlock",
+      )
+      .run(params);
+    await storage
+      .prepare(
+        "DELETE FROM type_mismatches WHERE chain_id = $chainId AND block_number >= $forkBlock",
+      )
+      .run(params);
+    await storage
+      .prepare(
+        `UPDATE checkpoints
+       SET last_block = ${storage.sql.least("last_block", "$forkBlock - 1")},
+           last_block_hash = NULL,
+           updated_at = ${storage.sql.now}
+       WHERE chain_id = $chainId`,
+      )
+      .run(params);
+
+    await storage
+      .prepare(
+        `INSERT INTO reorgs (
+         chain_id, fork_block, checkpoint_block, stored_hash, canonical_hash,
+         removed_events, removed_txs
+       ) VALUES (
+         $chainId, $forkBlock, $checkpointBlock, $storedHash, $canonicalHash,
+         $removedEvents, $removedTxs
+       )`,
+      )
+      .run({
+        ...params,
+        $checkpointBlock: reorg.checkpointBlock,
+        $storedHash: reorg.storedHash,
+        $canonicalHash: reorg.canonicalHash,
+        $removedEvents: removedEvents,
+        $removedTxs: removedTxs,
+      });
+
+    return { removedEvents, removedTxs };
+  });
+}
+
+async function checkForReorg(
+  rpc: RpcPool,
+  storage: Storage,
+  statements: ReturnType<typeof prepareStatements>,
+  config: ResolvedConfig,
+): Promise<RollbackResult | null> {
+  if (config.reorgDepth <= 0) return null;
+  const checkpoint = await readCheckpoint(statements.getCheckpoint, config.chainId);
+  const storedHash = await readCheckpointHash(statements.getCheckpoint, config.chainId);
+  if (checkpoint === undefined || !storedHash) return null;
+
+  const fetchCanonicalHash = async (blockNumber: number) => {
+    const block = await rpc.request((client) =>
+      client.getBlock({ blockNumber: BigInt(blockNumber) }),
+    );
+    return block.hash;
+  };
+
+  const canonicalTipHash = await fetchCanonicalHash(checkpoint);
+  if (canonicalTipHash === storedHash) return null;
+
+  // The checkpoint block hash commits to its ancestry, so walk back over the blocks we
+  // have stored until one still matches; everything above it is rolled back.
+  const windowStart = Math.max(checkpoint - config.reorgDepth + 1, 0);
+  let forkBlock: number | null = null;
+  const storedBlocks = (await statements.selectRecentEventBlocks.all({
+    $chainId: config.chainId,
+    $fromBlock: windowStart,
+    $toBlock: checkpoint,
+  })) as Array<{ block_number: number; block_hash: string }>;
+  for (const row of storedBlocks) {
+    if ((await fetchCanonicalHash(row.block_number)) === row.block_hash) {
+      forkBlock = row.block_number + 1;
+      break;
+    }
+  }
+  if (forkBlock === null) {
+    forkBlock = windowStart;
+    console.warn("reorg deeper than REORG_DEPTH or no matching block; rolling back window", {
+      chainId: config.chainId,
+      checkpoint,
+      reorgDepth: config.reorgDepth,
+    });
   }
 
-  statements.upsertCheckpoint.run(chainId, toBlock);
+  const result = await rollbackFromBlock(storage, {
+    chainId: config.chainId,
+    forkBlock,
+    checkpointBlock: checkpoint,
+    storedHash,
+    canonicalHash: canonicalTipHash,
+  });
+  console.warn("chain reorg detected; rolled back", {
+    chainId: config.chainId,
+    checkpoint,
+    forkBlock,
+    storedHash,
+    canonicalHash: canonicalTipHash,
+    ...result,
+  });
+  return result;
 }
 
 function resolveStartBlock(
@@ -1001,13 +1795,14 @@ function resolveStartBlock(
 }
 
 async function backfillOnce(
-  client: ReturnType<typeof createClient>,
+  rpc: RpcPool,
   statements: ReturnType<typeof prepareStatements>,
-  executorAddress: `0x${string}`,
+  contracts: ContractAddresses,
   config: ResolvedConfig,
   targetEnd: number,
+  signal?: AbortSignal,
 ): Promise<void> {
-  const checkpoint = readCheckpoint(statements.getCheckpoint, config.chainId);
+  const checkpoint = await readCheckpoint(statements.getCheckpoint, config.chainId);
   const fromBlock = resolveStartBlock(
     checkpoint,
     config.startBlock,
@@ -1020,118 +1815,588 @@ async function backfillOnce(
     config.catchupMaxBlocks > 0 &&
     targetEnd - checkpoint > config.catchupMaxBlocks
   ) {
-    console.warn("catchup limited", {
+    console.warn("catchup limited; recording gap", {
       chainId: config.chainId,
       checkpoint,
       targetEnd,
       catchupMaxBlocks: config.catchupMaxBlocks,
       fromBlock,
     });
+    await statements.insertGap.run(config.chainId, checkpoint + 1, fromBlock - 1, checkpoint + 1);
   }
 
+  // Up to `backfillConcurrency` ranges are fetched ahead, but writes drain strictly in
+  // block order, so the checkpoint only ever moves over a contiguous prefix of ranges.
+  // On shutdown the ranges still being fetched are dropped; the next run fetches them again.
+  const inFlight: Array<Promise<FetchedRange>> = [];
   let cursor = fromBlock;
-  while (cursor <= targetEnd) {
-    const batchEnd = Math.min(cursor + config.batchSize - 1, targetEnd);
-    await processRange(client, statements, executorAddress, cursor, batchEnd, config.chainId);
-    cursor = batchEnd + 1;
+  while ((cursor <= targetEnd || inFlight.length > 0) && !signal?.aborted) {
+    while (cursor <= targetEnd && inFlight.length < config.backfillConcurrency) {
+      const batchEnd = Math.min(cursor + config.batchSize - 1, targetEnd);
+      const pending = fetchRange(rpc, contracts, cursor, batchEnd, config.chainId, true);
+      // Rejections surface when the range reaches the head of the queue.
+      pending.catch(() => {});
+      inFlight.push(pending);
+      cursor = batchEnd + 1;
+    }
+    const next = inFlight.shift();
+    if (!next) break;
+    await writeRange(rpc, statements, await next);
+  }
+}
+
+async function fillGapsOnce(
+  rpc: RpcPool,
+  storage: Storage,
+  statements: ReturnType<typeof prepareStatements>,
+  contracts: ContractAddresses,
+  config: ResolvedConfig,
+  signal?: AbortSignal,
+): Promise<void> {
+  let budget = config.gapFillBlocks;
+  while (budget > 0 && !signal?.aborted) {
+    const gap = (await statements.selectOpenGap.get(config.chainId)) as
+      | { id: number; from_block: number; to_block: number; next_block: number }
+      | undefined;
+    if (!gap) return;
+
+    const batchEnd = Math.min(
+      gap.next_block + Math.min(config.batchSize, budget) - 1,
+      gap.to_block,
+    );
+    const range = await fetchRange(rpc, contracts, gap.next_block, batchEnd, config.chainId, false);
+    const filled = batchEnd >= gap.to_block;
+    // The gap's progress commits with its events, as the checkpoint does for new blocks.
+    await statements.transaction(async () => {
+      const inserted = await writeRange(rpc, statements, range);
+      await applyGapToRollups(storage, config.chainId, gap.from_block, inserted);
+      await statements.advanceGap.run({ $id: gap.id, $nextBlock: batchEnd + 1 });
+      if (filled) await rewindDfgCheckpoints(storage, config.chainId, gap.from_block);
+    });
+    budget -= batchEnd - gap.next_block + 1;
+
+    if (filled) {
+      console.log("ingestion gap filled", {
+        chainId: config.chainId,
+        fromBlock: gap.from_block,
+        toBlock: gap.to_block,
+      });
+    }
   }
 }
 
-export async function run(configInput: Config | Config[]): Promise<void> {
+// Gap blocks land behind the rollup checkpoints, so the incremental rollups would never
+// see them. Op buckets are additive and get bumped here; DFG builds are rewound once the
+// whole gap is in, since they rebuild per tx and can safely replay.
+async function applyGapToRollups(
+  storage: Storage,
+  chainId: number,
+  gapStart: number,
+  inserted: InsertedEventCount[],
+): Promise<void> {
+  if (inserted.length === 0) return;
+  const rollupRow = (await storage
+    .prepare("SELECT last_block AS lastBlock FROM rollup_checkpoints WHERE chain_id = $chainId")
+    .get({ $chainId: chainId })) as { lastBlock: number } | undefined;
+  if (!rollupRow || rollupRow.lastBlock < gapStart) return;
+
+  const bucketSizes = (
+    (await storage
+      .prepare(
+        "SELECT DISTINCT bucket_seconds AS bucketSeconds FROM op_buckets WHERE chain_id = $chainId",
+      )
+      .all({ $chainId: chainId })) as Array<{ bucketSeconds: number }>
+  ).map((row) => row.bucketSeconds);
+  if (bucketSizes.length === 0) return;
+
+  const selectTimestamp = storage.prepare(
+    "SELECT timestamp FROM blocks WHERE chain_id = $chainId AND number = $number",
+  );
+
+  const upsertBucket = storage.prepare(
+    `INSERT INTO op_buckets (chain_id, bucket_start, bucket_seconds, event_name, count)
+     VALUES ($chainId, $bucketStart, $bucketSeconds, $eventName, $count)
+     ON CONFLICT(chain_id, bucket_start, bucket_seconds, event_name)
+     DO UPDATE SET count = op_buckets.count + excluded.count`,
+  );
+  await storage.transaction(async () => {
+    for (const entry of inserted) {
+      if (entry.blockNumber > rollupRow.lastBlock) continue;
+      const row = (await selectTimestamp.get({ $chainId: chainId, $number: entry.blockNumber })) as
+        | { timestamp: number }
+        | undefined;
+      if (!row) continue;
+      const timestamp = row.timestamp;
+      for (const bucketSeconds of bucketSizes) {
+        await upsertBucket.run({
+          $chainId: chainId,
+          $bucketStart: Math.floor(timestamp / bucketSeconds) * bucketSeconds,
+          $bucketSeconds: bucketSeconds,
+          $eventName: entry.eventName,
+          $count: entry.count,
+        });
+      }
+    }
+  });
+}
+
+export async function rewindDfgCheckpoints(
+  storage: Storage,
+  chainId: number,
+  fromBlock: number,
+): Promise<void> {
+  const params = { $chainId: chainId, $fromBlock: fromBlock };
+  await storage
+    .prepare(
+      `UPDATE dfg_build_checkpoints
+     SET last_block = $fromBlock - 1,
+         last_tx_hash = NULL,
+         updated_at = ${storage.sql.now}
+     WHERE chain_id = $chainId AND last_block >= $fromBlock`,
+    )
+    .run(params);
+  for (const table of ["dfg_rollup_checkpoints", "dfg_ngram_checkpoints"]) {
+    await storage
+      .prepare(`DELETE FROM ${table} WHERE chain_id = $chainId AND last_block >= $fromBlock`)
+      .run(params);
+  }
+}
+
+export type ReplayResult = {
+  chainId: number;
+  path: string;
+  ranges: number;
+  inserted: number;
+  events: number;
+  aclEvents: number;
+  decryptionRequests: number;
+  blocks: number;
+  skipped: number;
+  lastBlock: number | null;
+};
+
+/**
+ * Replays a raw log archive (see src/log-archive.ts) through the same decode, derive and
+ * insert path as live ingestion, `BATCH_SIZE` blocks per range, without any RPC. Archives
+ * must be ordered by block; records at or below the checkpoint are skipped, so a replay
+ * resumes where it stopped and replaying the same archive twice is a no-op. An aborted
+ * `signal` stops it after the range being written.
+ */
+export async function replayLogArchive(
+  storage: Storage,
+  config: Config,
+  signal?: AbortSignal,
+): Promise<ReplayResult> {
+  const { chainId, replayPath } = config;
+  if (chainId === undefined) {
+    throw new Error("CHAIN_ID is required for MODE=replay (or set NETWORK to a known network).");
+  }
+  if (!replayPath) {
+    throw new Error("REPLAY_PATH is required for MODE=replay.");
+  }
+  const statements = prepareStatements(storage, { dfgBuildInline: config.dfgBuildInline });
+  const contracts = resolveContracts(config);
+  await recordExecutorDeployments(statements, chainId, contracts);
+  const checkpoint = await readCheckpoint(statements.getCheckpoint, chainId);
+
+  const result: ReplayResult = {
+    chainId,
+    path: replayPath,
+    ranges: 0,
+    inserted: 0,
+    events: 0,
+    aclEvents: 0,
+    decryptionRequests: 0,
+    blocks: 0,
+    skipped: 0,
+    lastBlock: null,
+  };
+  const flush = async (range: FetchedRange) => {
+    range.logs.sort(compareLogs);
+    const inserted = await writeRange(null, statements, range);
+    result.ranges += 1;
+    result.inserted += inserted.reduce((sum, entry) => sum + entry.count, 0);
+    result.lastBlock = range.toBlock;
+  };
+
+  let pending: FetchedRange | null = null;
+  let lastSeenBlock = 0;
+  for await (const record of readLogArchive(replayPath)) {
+    if (signal?.aborted) {
+      pending = null;
+      break;
+    }
+    const blockNumber =
+      record.kind === "log" ? Number(record.log.blockNumber) : record.block.number;
+    if (
+      (checkpoint !== undefined && blockNumber <= checkpoint) ||
+      (config.startBlock !== undefined && blockNumber < config.startBlock) ||
+      (config.endBlock !== undefined && blockNumber > config.endBlock)
+    ) {
+      result.skipped += 1;
+      continue;
+    }
+    if (blockNumber < lastSeenBlock) {
+      throw new Error(
+        `Replay archive is not ordered by block: ${blockNumber} after ${lastSeenBlock}.`,
+      );
+    }
+    lastSeenBlock = blockNumber;
+    if (pending && blockNumber >= pending.fromBlock + config.batchSize) {
+      await flush(pending);
+      pending = null;
+    }
+    pending ??= {
+      chainId,
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+      logs: [],
+      aclLogs: [],
+      decryptionLogs: [],
+      blocks: [],
+      advanceCheckpoint: true,
+      toBlockHash: null,
+      endpointUsage: new Map(),
+    };
+    pending.toBlock = blockNumber;
+    pending.toBlockHash = record.kind === "log" ? record.log.blockHash : record.block.hash;
+
+    if (record.kind === "block") {
+      pending.blocks.push(record.block);
+      result.blocks += 1;
+      continue;
+    }
+    const address = getAddress(record.log.address);
+    if (
+      contracts.executors.some(
+        (executor) => executor.address === address && isExecutorActive(executor, blockNumber),
+      )
+    ) {
+      pending.logs.push(record.log);
+      result.events += 1;
+    } else if (address === contracts.acl) {
+      pending.aclLogs.push(record.log);
+      result.aclEvents += 1;
+    } else if (address === contracts.decryption) {
+      pending.decryptionLogs.push(record.log);
+      result.decryptionRequests += 1;
+    } else {
+      result.skipped += 1;
+    }
+  }
+  if (pending) await flush(pending);
+  return result;
+}
+
+// Every endpoint in a pool must serve the same chain; a mislabelled URL would otherwise
+// mix chains into one chain_id. Unreachable endpoints are only warned about.
+async function resolvePoolChainId(rpc: RpcPool): Promise<number> {
+  let chainId: number | undefined;
+  let lastError: unknown;
+  for (const endpoint of rpc.endpoints) {
+    let endpointChainId: number;
+    try {
+      endpointChainId = Number(await endpoint.client.getChainId());
+      rpc.recordSuccess(endpoint);
+    } catch (err) {
+      rpc.recordFailure(endpoint, err);
+      lastError = err;
+      console.warn("rpc endpoint unreachable at startup", {
+        endpoint: endpoint.label,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      continue;
+    }
+    if (chainId !== undefined && endpointChainId !== chainId) {
+      throw new Error(
+        `RPC endpoint ${endpoint.label} reports chainId ${endpointChainId}, expected ${chainId}.`,
+      );
+    }
+    chainId = endpointChainId;
+  }
+  if (chainId === undefined) throw lastError;
+  return chainId;
+}
+
+/**
+ * Ingests until every network is done (backfill) or forever (streaming modes). Aborting
+ * `options.signal` stops it at the next range boundary: the range being written commits,
+ * nothing after it starts, and the database is closed before this settles, even on errors.
+ * A network that fails stops the others the same way before its error is rethrown.
+ */
+export async function run(
+  configInput: Config | Config[],
+  options: { signal?: AbortSignal } = {},
+): Promise<void> {
+  // Aborted by the caller or by the first failing network; every loop below watches it.
+  const stop = new AbortController();
+  const { signal } = stop;
+  const onAbort = () => stop.abort();
+  if (options.signal?.aborted) stop.abort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
   const configs = Array.isArray(configInput) ? configInput : [configInput];
   const dbPath = configs[0]?.dbPath ?? DEFAULT_DB_PATH;
+  const databaseUrl = configs[0]?.databaseUrl;
   for (const config of configs) {
-    if (config.dbPath !== dbPath) {
-      throw new Error("All networks must use the same DB_PATH when running together.");
+    if (config.dbPath !== dbPath || config.databaseUrl !== databaseUrl) {
+      throw new Error(
+        "All networks must use the same DB_PATH (or DATABASE_URL) when running together.",
+      );
     }
   }
-  const db = initDatabase(dbPath);
-  const statements = prepareStatements(db);
-
-  const runtimes = await Promise.all(
-    configs.map(async (config) => {
-      const client = createClient(config);
-      const rpcChainId = Number(await client.getChainId());
-      if (config.chainId !== undefined && config.chainId !== rpcChainId) {
-        throw new Error(`RPC chainId (${rpcChainId}) does not match CHAIN_ID (${config.chainId}).`);
+  const storage = await openStorage({ dbPath, databaseUrl });
+  try {
+    const statements = prepareStatements(storage, {
+      dfgBuildInline: configs.some((config) => config.dfgBuildInline),
+      logRanges: configs.some((config) => config.logRanges),
+    });
+
+    // MODE is shared by every network, and REPLAY_PATH is single-network.
+    if (configs.some((config) => config.mode === "replay")) {
+      for (const config of configs) {
+        if (signal?.aborted) break;
+        const result = await replayLogArchive(storage, config, signal);
+        console.log("replay finished", result);
       }
-      const resolvedConfig: ResolvedConfig = {
-        ...config,
-        chainId: config.chainId ?? rpcChainId,
-      };
-      const executorAddress = getAddress(resolvedConfig.fhevmExecutorAddress);
-
-      console.log("fhevm-stats config loaded", {
-        rpcUrl: resolvedConfig.rpcUrl,
-        chainId: resolvedConfig.chainId,
-        network: resolvedConfig.network,
-        fhevmExecutorAddress: executorAddress,
-        startBlock: resolvedConfig.startBlock,
-        endBlock: resolvedConfig.endBlock,
-        confirmations: resolvedConfig.confirmations,
-        batchSize: resolvedConfig.batchSize,
-        catchupMaxBlocks: resolvedConfig.catchupMaxBlocks,
-        dbPath: resolvedConfig.dbPath,
-        mode: resolvedConfig.mode,
-        pollIntervalMs: resolvedConfig.pollIntervalMs,
-      });
+      return;
+    }
 
-      return { client, config: resolvedConfig, executorAddress };
-    }),
-  );
+    const runtimes = await settleAll(
+      configs.map(async (config) => {
+        const rpc = createRpcPool(config.rpcUrls, config.chainId, {
+          spreadLogs: config.spreadLogs,
+        });
+        const rpcChainId = await resolvePoolChainId(rpc);
+        if (config.chainId !== undefined && config.chainId !== rpcChainId) {
+          throw new Error(
+            `RPC chainId (${rpcChainId}) does not match CHAIN_ID (${config.chainId}).`,
+          );
+        }
+        const resolvedConfig: ResolvedConfig = {
+          ...config,
+          chainId: config.chainId ?? rpcChainId,
+        };
+        const contracts = resolveContracts(resolvedConfig);
+
+        console.log("fhevm-stats config loaded", {
+          rpcUrl: redactRpcUrl(resolvedConfig.rpcUrl),
+          rpcEndpoints: rpc.endpoints.map((endpoint) => endpoint.label),
+          spreadLogs: rpc.spreadLogs,
+          chainId: resolvedConfig.chainId,
+          network: resolvedConfig.network,
+          executors: contracts.executors,
+          aclAddress: contracts.acl ?? undefined,
+          decryptionAddress: contracts.decryption ?? undefined,
+          startBlock: resolvedConfig.startBlock,
+          endBlock: resolvedConfig.endBlock,
+          confirmations: resolvedConfig.confirmations,
+          batchSize: resolvedConfig.batchSize,
+          catchupMaxBlocks: resolvedConfig.catchupMaxBlocks,
+          reorgDepth: resolvedConfig.reorgDepth,
+          gapFillBlocks: resolvedConfig.gapFillBlocks,
+          receiptsPerPoll: resolvedConfig.receiptsPerPoll,
+          tracesPerPoll: resolvedConfig.tracesPerPoll,
+          backfillConcurrency: resolvedConfig.backfillConcurrency,
+          dbPath: resolvedConfig.dbPath,
+          storage: storage.location,
+          mode: resolvedConfig.mode,
+          pollIntervalMs: resolvedConfig.pollIntervalMs,
+          wsUrl: resolvedConfig.wsUrl ? redactRpcUrl(resolvedConfig.wsUrl) : undefined,
+        });
 
-  const fetchTargetEnd = async (
-    client: ReturnType<typeof createClient>,
-    config: ResolvedConfig,
-  ) => {
-    const latest = Number(await client.getBlockNumber());
-    const confirmed = latest - config.confirmations;
-    return confirmed < 0 ? 0 : confirmed;
-  };
+        await recordExecutorDeployments(statements, resolvedConfig.chainId, contracts);
 
-  for (const runtime of runtimes) {
-    if (runtime.config.mode === "backfill" || runtime.config.mode === "both") {
-      const confirmedEnd = await fetchTargetEnd(runtime.client, runtime.config);
-      const targetEnd =
-        runtime.config.endBlock !== undefined
-          ? Math.min(runtime.config.endBlock, confirmedEnd)
-          : confirmedEnd;
+        return { rpc, config: resolvedConfig, contracts };
+      }),
+    );
+
+    const fetchTargetEnd = async (rpc: RpcPool, config: ResolvedConfig) => {
+      const latest = Number(await rpc.request((client) => client.getBlockNumber()));
+      const confirmed = latest - config.confirmations;
+      return confirmed < 0 ? 0 : confirmed;
+    };
+
+    const tick = async (runtime: (typeof runtimes)[number]) => {
+      await checkForReorg(runtime.rpc, storage, statements, runtime.config);
+      const confirmedEnd = await fetchTargetEnd(runtime.rpc, runtime.config);
       await backfillOnce(
-        runtime.client,
+        runtime.rpc,
         statements,
-        runtime.executorAddress,
+        runtime.contracts,
         runtime.config,
-        targetEnd,
+        confirmedEnd,
+        signal,
       );
-    }
-  }
+      if (signal?.aborted) return;
+      if (runtime.config.gapFillBlocks > 0) {
+        try {
+          await fillGapsOnce(
+            runtime.rpc,
+            storage,
+            statements,
+            runtime.contracts,
+            runtime.config,
+            signal,
+          );
+        } catch (err) {
+          console.warn("gap fill failed; will retry next poll", {
+            chainId: runtime.config.chainId,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+      if (runtime.config.receiptsPerPoll > 0 && !signal?.aborted) {
+        try {
+          const result = await enrichTxReceiptsOnce(
+            runtime.rpc,
+            storage,
+            runtime.config.chainId,
+            runtime.config.receiptsPerPoll,
+          );
+          if (result.fetched > 0 || result.missing > 0) {
+            console.log("tx receipts enriched", { chainId: runtime.config.chainId, ...result });
+          }
+        } catch (err) {
+          console.warn("tx receipt enrichment failed; will retry next poll", {
+            chainId: runtime.config.chainId,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+      if (runtime.config.tracesPerPoll > 0 && !signal?.aborted) {
+        try {
+          const result = await enrichTxTracesOnce(
+            runtime.rpc,
+            storage,
+            runtime.config.chainId,
+            runtime.config.tracesPerPoll,
+          );
+          if (result.traced > 0 || result.missing > 0) {
+            console.log("tx traces enriched", { chainId: runtime.config.chainId, ...result });
+          }
+        } catch (err) {
+          console.warn("tx trace enrichment failed; will retry next poll", {
+            chainId: runtime.config.chainId,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    };
 
-  const shouldStream = runtimes.some(
-    (runtime) => runtime.config.mode === "stream" || runtime.config.mode === "both",
-  );
-  if (shouldStream) {
-    const pollIntervalMs = Math.min(...runtimes.map((runtime) => runtime.config.pollIntervalMs));
-    // Stream by polling the latest confirmed block.
-    for (;;) {
-      for (const runtime of runtimes) {
-        if (runtime.config.mode !== "stream" && runtime.config.mode !== "both") continue;
-        const confirmedEnd = await fetchTargetEnd(runtime.client, runtime.config);
+    // Each network streams on its own schedule. In subscribe mode new heads wake the loop;
+    // without a live socket it polls at the network's interval.
+    const stream = async (runtime: (typeof runtimes)[number]) => {
+      const { config } = runtime;
+      const watcher =
+        config.mode === "subscribe" && config.wsUrl
+          ? createHeadWatcher(config.wsUrl, config.chainId)
+          : null;
+      if (config.mode === "subscribe" && !watcher) {
+        console.warn("MODE=subscribe without a WebSocket URL; polling instead", {
+          chainId: config.chainId,
+          network: config.network,
+        });
+      }
+      // Closing the watcher (or clearing the timer) ends the wait as soon as shutdown starts.
+      let wakeUp = () => {};
+      const onAbort = () => {
+        watcher?.close();
+        wakeUp();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      try {
+        while (!signal?.aborted) {
+          await tick(runtime);
+          if (signal?.aborted) break;
+          if (watcher) {
+            await watcher.wait(watcher.isLive() ? HEAD_STALE_AFTER_MS : config.pollIntervalMs);
+          } else {
+            await new Promise<void>((resolve) => {
+              const timer = setTimeout(resolve, config.pollIntervalMs);
+              wakeUp = () => {
+                clearTimeout(timer);
+                resolve();
+              };
+            });
+          }
+        }
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+        watcher?.close();
+      }
+    };
+
+    for (const runtime of runtimes) {
+      if (signal?.aborted) break;
+      if (runtime.config.mode !== "stream") {
+        await checkForReorg(runtime.rpc, storage, statements, runtime.config);
+        const confirmedEnd = await fetchTargetEnd(runtime.rpc, runtime.config);
+        const targetEnd =
+          runtime.config.endBlock !== undefined
+            ? Math.min(runtime.config.endBlock, confirmedEnd)
+            : confirmedEnd;
         await backfillOnce(
-          runtime.client,
+          runtime.rpc,
           statements,
-          runtime.executorAddress,
+          runtime.contracts,
           runtime.config,
-          confirmedEnd,
+          targetEnd,
+          signal,
         );
       }
-      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
     }
+
+    const streamers = runtimes.filter((runtime) => runtime.config.mode !== "backfill");
+    if (streamers.length > 0) {
+      await settleAll(
+        streamers.map((runtime) =>
+          stream(runtime).catch((err: unknown) => {
+            stop.abort();
+            throw err;
+          }),
+        ),
+      );
+    }
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+    await storage.close();
   }
+  if (options.signal?.aborted) console.log("fhevm-stats stopped");
+}
 
-  db.close();
+// Like `Promise.all`, but rejects only once every task has settled, so none of them is
+// still using storage when the caller closes it.
+async function settleAll<T>(tasks: Array<Promise<T>>): Promise<T[]> {
+  const results = await Promise.allSettled(tasks);
+  const failed = results.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected",
+  );
+  if (failed) throw failed.reason;
+  return results.map((result) => (result as PromiseFulfilledResult<T>).value);
 }
 
+/**
+ * Runs the configured networks until done. SIGINT or SIGTERM stops ingestion at the next
+ * range boundary; a second signal exits right away, and the database discards the
+ * uncommitted range.
+ */
 export async function runFromEnv(env: Env = Bun.env): Promise<void> {
   const configs = loadConfigs(env);
-  await run(configs);
+  const shutdown = new AbortController();
+  const onSignal = (name: NodeJS.Signals) => {
+    if (shutdown.signal.aborted) {
+      console.warn("second signal; exiting without finishing the current range", { signal: name });
+      process.exit(name === "SIGINT" ? 130 : 143);
+    }
+    console.log("shutdown requested; finishing the current range", { signal: name });
+    shutdown.abort();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  try {
+    await run(configs, { signal: shutdown.signal });
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+  }
 }
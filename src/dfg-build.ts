@@ -0,0 +1,989 @@
+import { computeNeighborhoodHashes } from "./dfg-motifs.ts";
+import { pruneDfg } from "./dfg-prune.ts";
+import {
+  computeDfgSignature,
+  computeSchedulerDfgSignature,
+  computeTypedDfgSignature,
+} from "./dfg-signature.ts";
+import type { Storage } from "./storage.ts";
+
+// Per-tx data flow graphs: nodes are FHE ops (by log index), edges follow handles from the
+// op that produced them to the ops that consume them within the tx. Handles produced by an
+// earlier tx link the two in `dfg_tx_deps`. `scripts/build-dfg.ts` builds them in batch;
+// with DFG_BUILD_INLINE=1 the ingestor builds each range's txs as it writes the range.
+
+export type DfgTx = {
+  chainId: number;
+  txHash: string;
+  blockNumber: number;
+};
+
+type DfgCheckpoint = { lastBlock: number | null; lastTxHash: string | null };
+
+const BINARY_OPS = new Set([
+  "FheAdd",
+  "FheSub",
+  "FheMul",
+  "FheDiv",
+  "FheRem",
+  "FheBitAnd",
+  "FheBitOr",
+  "FheBitXor",
+  "FheShl",
+  "FheShr",
+  "FheRotl",
+  "FheRotr",
+  "FheEq",
+  "FheNe",
+  "FheGe",
+  "FheGt",
+  "FheLe",
+  "FheLt",
+  "FheMin",
+  "FheMax",
+]);
+
+const UNARY_OPS = new Set(["FheNeg", "FheNot"]);
+
+type InputKind = "ciphertext" | "trivial" | "external" | "scalar";
+
+type InputInfo = {
+  role: string;
+  kind: InputKind;
+  handle?: string;
+  type?: number | null;
+};
+
+type DfgEventRow = {
+  log_index: number;
+  event_name: string;
+  args_json: string | null;
+  lhs_type: number | null;
+  rhs_type: number | null;
+  result_type: number | null;
+  control_type: number | null;
+  if_true_type: number | null;
+  if_false_type: number | null;
+  input_type: number | null;
+  cast_to_type: number | null;
+  rand_type: number | null;
+  scalar_flag: number | null;
+};
+
+type DfgNode = {
+  nodeId: number;
+  op: string;
+  outputHandle: string | null;
+  inputCount: number;
+  scalarFlag: number | null;
+  typeInfoJson: string;
+};
+
+type DfgEdge = {
+  fromNodeId: number;
+  toNodeId: number;
+  inputHandle: string;
+};
+
+type ProducedHandle = {
+  nodeId: number;
+  kind: "ciphertext" | "trivial";
+  depth: number;
+};
+
+type DfgStats = {
+  opCounts: Record<string, number>;
+  inputKinds: Record<string, Record<InputKind, number>>;
+  operandPairs: Record<string, Record<string, number>>;
+  typeCounts: Record<string, Record<string, Record<string, number>>>;
+};
+
+function parseArgs(argsJson: string | null): Record<string, unknown> | null {
+  if (!argsJson) return null;
+  try {
+    return JSON.parse(argsJson) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeHandle(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  if (!value.startsWith("0x") || value.length !== 66) return null;
+  return value;
+}
+
+function parseScalarByte(value: unknown): number | null {
+  if (typeof value !== "string" || !value.startsWith("0x")) return null;
+  const parsed = Number.parseInt(value.slice(2), 16);
+  if (!Number.isFinite(parsed)) return null;
+  return parsed === 0 ? 0 : 1;
+}
+
+function incrementCounter<T extends string>(
+  target: Record<string, Record<T, number>>,
+  op: string,
+  key: T,
+): void {
+  if (!target[op]) target[op] = {} as Record<T, number>;
+  target[op][key] = (target[op][key] ?? 0) + 1;
+}
+
+function incrementTypeCounts(
+  target: DfgStats["typeCounts"],
+  op: string,
+  role: string,
+  value: number | null,
+): void {
+  if (value === null || value === undefined) return;
+  if (!target[op]) target[op] = {};
+  if (!target[op][role]) target[op][role] = {};
+  const key = String(value);
+  target[op][role][key] = (target[op][role][key] ?? 0) + 1;
+}
+
+function addOpCount(target: Record<string, number>, op: string): void {
+  target[op] = (target[op] ?? 0) + 1;
+}
+
+function addPairCount(
+  target: Record<string, Record<string, number>>,
+  op: string,
+  left: InputKind,
+  right: InputKind,
+): void {
+  if (!target[op]) target[op] = {};
+  const key = `${left}-${right}`;
+  target[op][key] = (target[op][key] ?? 0) + 1;
+}
+
+export function buildDfg(events: DfgEventRow[]) {
+  const nodes: DfgNode[] = [];
+  const edges: DfgEdge[] = [];
+  const edgeKey = new Set<string>();
+  const producedHandles = new Map<string, ProducedHandle>();
+  const externalHandles = new Set<string>();
+  const nodeDepths = new Map<number, number>();
+  let maxDepth = 0;
+
+  const stats: DfgStats = {
+    opCounts: {},
+    inputKinds: {},
+    operandPairs: {},
+    typeCounts: {},
+  };
+
+  for (const event of events) {
+    const op = event.event_name;
+    if (op === "Unknown" || op === "VerifyInput") continue;
+    const args = parseArgs(event.args_json);
+    if (!args) continue;
+
+    const outputHandle = normalizeHandle(args.result);
+    const outputKind: ProducedHandle["kind"] = op === "TrivialEncrypt" ? "trivial" : "ciphertext";
+    const scalarFlag =
+      event.scalar_flag ?? parseScalarByte((args as Record<string, unknown>).scalarByte) ?? null;
+
+    const inputHandles: Array<{ role: string; handle: string; type?: number | null }> = [];
+    const scalarInputs: Array<{ role: string; type?: number | null }> = [];
+
+    if (BINARY_OPS.has(op)) {
+      const lhs = normalizeHandle(args.lhs);
+      if (lhs) {
+        inputHandles.push({ role: "lhs", handle: lhs, type: event.lhs_type ?? null });
+      }
+      if (scalarFlag === 1) {
+        scalarInputs.push({ role: "rhs" });
+      } else {
+        const rhs = normalizeHandle(args.rhs);
+        if (rhs) {
+          inputHandles.push({ role: "rhs", handle: rhs, type: event.rhs_type ?? null });
+        }
+      }
+    } else if (UNARY_OPS.has(op)) {
+      const ct = normalizeHandle(args.ct);
+      if (ct) {
+        inputHandles.push({ role: "ct", handle: ct, type: event.lhs_type ?? null });
+      }
+    } else {
+      switch (op) {
+        case "FheIfThenElse": {
+          const control = normalizeHandle(args.control);
+          const ifTrue = normalizeHandle(args.ifTrue);
+          const ifFalse = normalizeHandle(args.ifFalse);
+          if (control) {
+            inputHandles.push({
+              role: "control",
+              handle: control,
+              type: event.control_type ?? null,
+            });
+          }
+          if (ifTrue) {
+            inputHandles.push({ role: "ifTrue", handle: ifTrue, type: event.if_true_type ?? null });
+          }
+          if (ifFalse) {
+            inputHandles.push({
+              role: "ifFalse",
+              handle: ifFalse,
+              type: event.if_false_type ?? null,
+            });
+          }
+          break;
+        }
+        case "Cast": {
+          const ct = normalizeHandle(args.ct);
+          if (ct) {
+            inputHandles.push({ role: "ct", handle: ct, type: event.lhs_type ?? null });
+          }
+          scalarInputs.push({ role: "toType", type: event.cast_to_type ?? null });
+          break;
+        }
+        case "TrivialEncrypt": {
+          const toType = event.cast_to_type ?? null;
+          scalarInputs.push({ role: "pt", type: toType });
+          scalarInputs.push({ role: "toType", type: toType });
+          break;
+        }
+        case "FheRandBounded": {
+          scalarInputs.push({ role: "seed" });
+          scalarInputs.push({ role: "upperBound" });
+          scalarInputs.push({ role: "randType", type: event.rand_type ?? null });
+          break;
+        }
+        case "FheRand":
+          scalarInputs.push({ role: "seed" });
+          scalarInputs.push({ role: "randType", type: event.rand_type ?? null });
+          break;
+        default:
+          break;
+      }
+    }
+
+    const inputInfos: InputInfo[] = [];
+    const parentDepths: number[] = [];
+    const kindByRole = new Map<string, InputKind>();
+
+    for (const input of inputHandles) {
+      const producer = producedHandles.get(input.handle);
+      const kind: InputKind = producer ? producer.kind : "external";
+      inputInfos.push({
+        role: input.role,
+        kind,
+        handle: input.handle,
+        type: input.type ?? null,
+      });
+      kindByRole.set(input.role, kind);
+      if (producer) {
+        const edgeId = `${producer.nodeId}-${event.log_index}-${input.handle}`;
+        if (!edgeKey.has(edgeId)) {
+          edges.push({
+            fromNodeId: producer.nodeId,
+            toNodeId: event.log_index,
+            inputHandle: input.handle,
+          });
+          edgeKey.add(edgeId);
+        }
+        parentDepths.push(producer.depth);
+      } else {
+        externalHandles.add(input.handle);
+      }
+    }
+
+    for (const input of scalarInputs) {
+      inputInfos.push({ role: input.role, kind: "scalar", type: input.type ?? null });
+      kindByRole.set(input.role, "scalar");
+    }
+
+    const depth = parentDepths.length > 0 ? Math.max(...parentDepths) + 1 : 1;
+    nodeDepths.set(event.log_index, depth);
+    maxDepth = Math.max(maxDepth, depth);
+
+    if (outputHandle) {
+      producedHandles.set(outputHandle, { nodeId: event.log_index, kind: outputKind, depth });
+    }
+
+    addOpCount(stats.opCounts, op);
+    for (const input of inputInfos) {
+      incrementCounter(stats.inputKinds, op, input.kind);
+    }
+
+    if (BINARY_OPS.has(op)) {
+      const lhsKind = kindByRole.get("lhs");
+      const rhsKind = kindByRole.get("rhs") ?? (scalarFlag === 1 ? "scalar" : undefined);
+      if (lhsKind && rhsKind) {
+        addPairCount(stats.operandPairs, op, lhsKind, rhsKind);
+      }
+    }
+
+    incrementTypeCounts(stats.typeCounts, op, "result", event.result_type ?? null);
+
+    if (BINARY_OPS.has(op)) {
+      incrementTypeCounts(stats.typeCounts, op, "lhs", event.lhs_type ?? null);
+      if (scalarFlag !== 1) {
+        incrementTypeCounts(stats.typeCounts, op, "rhs", event.rhs_type ?? null);
+      }
+    } else if (UNARY_OPS.has(op)) {
+      incrementTypeCounts(stats.typeCounts, op, "lhs", event.lhs_type ?? null);
+    } else {
+      switch (op) {
+        case "FheIfThenElse":
+          incrementTypeCounts(stats.typeCounts, op, "control", event.control_type ?? null);
+          incrementTypeCounts(stats.typeCounts, op, "ifTrue", event.if_true_type ?? null);
+          incrementTypeCounts(stats.typeCounts, op, "ifFalse", event.if_false_type ?? null);
+          break;
+        case "Cast":
+          incrementTypeCounts(stats.typeCounts, op, "ct", event.lhs_type ?? null);
+          incrementTypeCounts(stats.typeCounts, op, "toType", event.cast_to_type ?? null);
+          break;
+        case "TrivialEncrypt":
+          incrementTypeCounts(stats.typeCounts, op, "pt", event.cast_to_type ?? null);
+          incrementTypeCounts(stats.typeCounts, op, "toType", event.cast_to_type ?? null);
+          break;
+        case "FheRand":
+          incrementTypeCounts(stats.typeCounts, op, "randType", event.rand_type ?? null);
+          break;
+        case "FheRandBounded":
+          incrementTypeCounts(stats.typeCounts, op, "randType", event.rand_type ?? null);
+          break;
+        default:
+          break;
+      }
+    }
+
+    const typeInfo = {
+      inputs: inputInfos,
+      output: {
+        handle: outputHandle,
+        kind: outputKind,
+        type: event.result_type ?? null,
+      },
+      types: {
+        lhs: event.lhs_type ?? null,
+        rhs: event.rhs_type ?? null,
+        control: event.control_type ?? null,
+        ifTrue: event.if_true_type ?? null,
+        ifFalse: event.if_false_type ?? null,
+        input: event.input_type ?? null,
+        castTo: event.cast_to_type ?? null,
+        rand: event.rand_type ?? null,
+      },
+    };
+
+    nodes.push({
+      nodeId: event.log_index,
+      op,
+      outputHandle: outputHandle ?? null,
+      inputCount: inputInfos.length,
+      scalarFlag,
+      typeInfoJson: JSON.stringify(typeInfo),
+    });
+  }
+
+  // Track which output handles are from TrivialEncrypt
+  const trivialHandles = new Set<string>();
+  for (const node of nodes) {
+    if (node.op === "TrivialEncrypt" && node.outputHandle) {
+      trivialHandles.add(node.outputHandle);
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    externalHandles,
+    trivialHandles,
+    stats,
+    depth: maxDepth,
+  };
+}
+
+function computeSignature(nodes: DfgNode[], edges: DfgEdge[]): string {
+  return computeDfgSignature(
+    nodes.map((node) => ({ nodeId: node.nodeId, op: node.op })),
+    edges.map((edge) => ({ fromNodeId: edge.fromNodeId, toNodeId: edge.toNodeId })),
+  );
+}
+
+function computeSchedulerSignature(nodes: DfgNode[], edges: DfgEdge[]): string {
+  return computeSchedulerDfgSignature(
+    nodes.map((node) => ({
+      nodeId: node.nodeId,
+      op: node.op,
+      outputHandle: node.outputHandle,
+      typeInfoJson: node.typeInfoJson,
+    })),
+    edges.map((edge) => ({ fromNodeId: edge.fromNodeId, toNodeId: edge.toNodeId })),
+  );
+}
+
+function computeTypedSignature(nodes: DfgNode[], edges: DfgEdge[]): string {
+  return computeTypedDfgSignature(
+    nodes.map((node) => ({ nodeId: node.nodeId, op: node.op, typeInfoJson: node.typeInfoJson })),
+    edges.map((edge) => ({ fromNodeId: edge.fromNodeId, toNodeId: edge.toNodeId })),
+  );
+}
+
+/**
+ * Prepares the statements that (re)build one tx's DFG rows. Txs must be built in
+ * `(block_number, tx_hash)` order: cross-tx dependencies read the rows of earlier txs.
+ */
+export function createDfgBuilder(storage: Storage) {
+  const loadEvents = storage.prepare(
+    `SELECT log_index, event_name, args_json,
+            lhs_type, rhs_type, result_type, control_type, if_true_type, if_false_type,
+            input_type, cast_to_type, rand_type, scalar_flag
+     FROM fhe_events
+     WHERE chain_id = $chainId AND tx_hash = $txHash
+     ORDER BY log_index`,
+  );
+
+  const deleteTx = storage.prepare(
+    "DELETE FROM dfg_txs WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const deleteNodes = storage.prepare(
+    "DELETE FROM dfg_nodes WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const deleteEdges = storage.prepare(
+    "DELETE FROM dfg_edges WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const deleteInputs = storage.prepare(
+    "DELETE FROM dfg_inputs WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const deleteDeps = storage.prepare(
+    "DELETE FROM dfg_tx_deps WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const deleteHandleProducers = storage.prepare(
+    "DELETE FROM dfg_handle_producers WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const deleteNodeHashes = storage.prepare(
+    "DELETE FROM dfg_node_hashes WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+
+  const insertTx = storage.prepare(
+    `INSERT INTO dfg_txs (
+       chain_id, tx_hash, block_number, node_count, edge_count, depth, signature_hash, stats_json,
+       pruned_node_count, pruned_edge_count, pruned_depth, pruned_signature_hash,
+       scheduler_signature_hash, pruned_scheduler_signature_hash,
+       typed_signature_hash, pruned_typed_signature_hash
+     ) VALUES (
+       $chainId, $txHash, $blockNumber, $nodeCount, $edgeCount, $depth, $signatureHash, $statsJson,
+       $prunedNodeCount, $prunedEdgeCount, $prunedDepth, $prunedSignatureHash,
+       $schedulerSignatureHash, $prunedSchedulerSignatureHash,
+       $typedSignatureHash, $prunedTypedSignatureHash
+     )`,
+  );
+
+  const insertNode = storage.prepare(
+    `INSERT INTO dfg_nodes (
+       chain_id, tx_hash, node_id, op, output_handle, input_count, scalar_flag, type_info_json,
+       is_allowed, is_pruned, call_frame, call_depth, call_contract, call_selector
+     ) VALUES (
+       $chainId, $txHash, $nodeId, $op, $outputHandle, $inputCount, $scalarFlag, $typeInfoJson,
+       $isAllowed, $isPruned, $callFrame, $callDepth, $callContract, $callSelector
+     )`,
+  );
+
+  // Calling contract per event, from `enrich:traces`; nodes of untraced txs keep NULLs.
+  const loadEventCalls = storage.prepare(
+    `SELECT log_index AS logIndex, frame_id AS frameId, call_depth AS callDepth,
+            contract, selector
+     FROM fhe_event_calls
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+
+  // ACL grants are only trusted from the first block with ingested ACL events onwards;
+  // older txs keep `is_allowed` and the pruned graph NULL rather than pruning everything.
+  // A chain without ACL events yet is looked up again: the ingestor may be adding them.
+  const aclStartBlocks = new Map<number, number>();
+  const selectAclStartBlock = storage.prepare(
+    "SELECT MIN(block_number) AS startBlock FROM acl_events WHERE chain_id = $chainId",
+  );
+  const aclStartBlock = async (targetChainId: number): Promise<number | null> => {
+    const cached = aclStartBlocks.get(targetChainId);
+    if (cached !== undefined) return cached;
+    const row = (await selectAclStartBlock.get({ $chainId: targetChainId })) as {
+      startBlock: number | null;
+    };
+    if (row.startBlock !== null) aclStartBlocks.set(targetChainId, row.startBlock);
+    return row.startBlock;
+  };
+  const loadAllowedHandles = storage.prepare(
+    "SELECT DISTINCT lower(handle) AS handle FROM acl_events WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+
+  const insertEdge = storage.prepare(
+    `INSERT INTO dfg_edges (
+       chain_id, tx_hash, from_node_id, to_node_id, input_handle
+     ) VALUES (
+       $chainId, $txHash, $fromNodeId, $toNodeId, $inputHandle
+     )`,
+  );
+
+  const insertNodeHash = storage.prepare(
+    `INSERT INTO dfg_node_hashes (
+       chain_id, tx_hash, node_id, hops, block_number, op, hash
+     ) VALUES (
+       $chainId, $txHash, $nodeId, $hops, $blockNumber, $op, $hash
+     )`,
+  );
+
+  const insertInput = storage.prepare(
+    `INSERT INTO dfg_inputs (
+       chain_id, tx_hash, handle, kind
+     ) VALUES (
+       $chainId, $txHash, $handle, $kind
+     )`,
+  );
+  const insertHandleProducer = storage.prepare(
+    `INSERT INTO dfg_handle_producers (
+       chain_id, handle, tx_hash, block_number, is_trivial
+     ) VALUES (
+       $chainId, $handle, $txHash, $blockNumber, $isTrivial
+     )
+     ON CONFLICT(chain_id, handle) DO UPDATE
+       SET tx_hash = excluded.tx_hash,
+           block_number = excluded.block_number,
+           is_trivial = excluded.is_trivial,
+           updated_at = ${storage.sql.now}`,
+  );
+  const insertTxDeps = storage.prepare(
+    `INSERT INTO dfg_tx_deps (
+       chain_id, tx_hash, block_number, upstream_txs, handle_links, chain_depth, total_depth
+     ) VALUES (
+       $chainId, $txHash, $blockNumber, $upstreamTxs, $handleLinks, $chainDepth, $totalDepth
+     )
+     ON CONFLICT(chain_id, tx_hash) DO UPDATE
+       SET block_number = excluded.block_number,
+           upstream_txs = excluded.upstream_txs,
+           handle_links = excluded.handle_links,
+           chain_depth = excluded.chain_depth,
+           total_depth = excluded.total_depth,
+           updated_at = ${storage.sql.now}`,
+  );
+  const lookupProducer = storage.prepare(
+    `SELECT tx_hash AS txHash, is_trivial AS isTrivial
+     FROM dfg_handle_producers
+     WHERE chain_id = $chainId AND handle = $handle AND block_number <= $blockNumber
+     LIMIT 1`,
+  );
+  const lookupTxChainDepth = storage.prepare(
+    `SELECT chain_depth AS chainDepth
+     FROM dfg_tx_deps
+     WHERE chain_id = $chainId AND tx_hash = $txHash
+     LIMIT 1`,
+  );
+  const lookupTxIntraDepth = storage.prepare(
+    `SELECT depth FROM dfg_txs WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+
+  // dfg:rollup adds txs past its checkpoints onto cumulative totals, so rewriting a tx
+  // they already counted drops them and the next rollup recounts from scratch.
+  const dropRollupCheckpoints = ["dfg_rollup_checkpoints", "dfg_ngram_checkpoints"].map((table) =>
+    storage.prepare(
+      `DELETE FROM ${table}
+       WHERE chain_id = $chainId
+         AND (last_block > $blockNumber OR (last_block = $blockNumber AND last_tx_hash >= $txHash))`,
+    ),
+  );
+
+  const getCheckpoint = storage.prepare(
+    `SELECT last_block AS lastBlock, last_tx_hash AS lastTxHash
+     FROM dfg_build_checkpoints WHERE chain_id = $chainId`,
+  );
+  const upsertCheckpoint = storage.prepare(
+    `INSERT INTO dfg_build_checkpoints (chain_id, last_block, last_tx_hash)
+     VALUES ($chainId, $lastBlock, $lastTxHash)
+     ON CONFLICT(chain_id) DO UPDATE
+       SET last_block = excluded.last_block,
+           last_tx_hash = excluded.last_tx_hash,
+           updated_at = ${storage.sql.now}`,
+  );
+  const deleteCheckpoint = storage.prepare(
+    "DELETE FROM dfg_build_checkpoints WHERE chain_id = $chainId",
+  );
+  const selectRangeTxs = storage.prepare(
+    `SELECT chain_id AS chainId, tx_hash AS txHash, MIN(block_number) AS blockNumber
+     FROM fhe_events
+     WHERE chain_id = $chainId AND block_number >= $fromBlock AND block_number <= $toBlock
+     GROUP BY chain_id, tx_hash
+     ORDER BY blockNumber, txHash`,
+  );
+  const selectUnbuiltBefore = storage.prepare(
+    `SELECT 1 AS pending
+     FROM fhe_events
+     WHERE chain_id = $chainId
+       AND block_number < $fromBlock
+       AND (block_number > $lastBlock OR (block_number = $lastBlock AND tx_hash > $lastTxHash))
+     LIMIT 1`,
+  );
+
+  /** Replaces the DFG rows of `tx`; false when it has no stored events. */
+  const buildTx = async (tx: DfgTx): Promise<boolean> => {
+    const events = (await loadEvents.all({
+      $chainId: tx.chainId,
+      $txHash: tx.txHash,
+    })) as DfgEventRow[];
+    if (events.length === 0) return false;
+
+    const { nodes, edges, externalHandles, trivialHandles, stats, depth } = buildDfg(events);
+    const nodeCount = nodes.length;
+    const edgeCount = edges.length;
+    const signatureHash = nodeCount > 0 ? computeSignature(nodes, edges) : null;
+    const aclStart = await aclStartBlock(tx.chainId);
+    const allowedRows =
+      aclStart !== null && tx.blockNumber >= aclStart
+        ? ((await loadAllowedHandles.all({ $chainId: tx.chainId, $txHash: tx.txHash })) as Array<{
+            handle: string;
+          }>)
+        : null;
+    const pruned = allowedRows
+      ? pruneDfg(nodes, edges, new Set(allowedRows.map((row) => row.handle)))
+      : null;
+    const prunedNodes = pruned ? nodes.filter((node) => pruned.kept.has(node.nodeId)) : [];
+    const statsJson = JSON.stringify(stats);
+    const outputHandles = new Set<string>();
+    for (const node of nodes) {
+      if (node.outputHandle) outputHandles.add(node.outputHandle);
+    }
+    const upstreamTxs = new Set<string>();
+    const nonTrivialUpstreamTxs = new Set<string>();
+    let handleLinks = 0;
+    for (const handle of externalHandles) {
+      const producer = (await lookupProducer.get({
+        $chainId: tx.chainId,
+        $handle: handle,
+        $blockNumber: tx.blockNumber,
+      })) as { txHash: string; isTrivial: number } | undefined;
+      if (producer && producer.txHash !== tx.txHash) {
+        upstreamTxs.add(producer.txHash);
+        handleLinks += 1;
+        // Track non-trivial upstream txs for chain_depth computation
+        if (producer.isTrivial !== 1) {
+          nonTrivialUpstreamTxs.add(producer.txHash);
+        }
+      }
+    }
+
+    // Compute chain_depth: max chain_depth of non-trivial upstream txs + 1
+    // If no non-trivial upstream deps, chain_depth = 0
+    let chainDepth = 0;
+    let maxUpstreamIntraDepth = 0;
+    if (nonTrivialUpstreamTxs.size > 0) {
+      let maxUpstreamChainDepth = 0;
+      for (const upstreamTxHash of nonTrivialUpstreamTxs) {
+        const depthRow = (await lookupTxChainDepth.get({
+          $chainId: tx.chainId,
+          $txHash: upstreamTxHash,
+        })) as { chainDepth: number } | undefined;
+        if (depthRow && depthRow.chainDepth > maxUpstreamChainDepth) {
+          maxUpstreamChainDepth = depthRow.chainDepth;
+        }
+        // Get max intra-tx depth from upstream txs
+        const intraDepthRow = (await lookupTxIntraDepth.get({
+          $chainId: tx.chainId,
+          $txHash: upstreamTxHash,
+        })) as { depth: number } | undefined;
+        if (intraDepthRow && intraDepthRow.depth > maxUpstreamIntraDepth) {
+          maxUpstreamIntraDepth = intraDepthRow.depth;
+        }
+      }
+      chainDepth = maxUpstreamChainDepth + 1;
+    }
+
+    // Compute total_depth: chain_depth + max upstream intra-tx depth + current tx intra-tx depth
+    // This gives the full critical path including all FHE operations
+    const currentTxIntraDepth = depth; // from buildDfg
+    const totalDepth = chainDepth + maxUpstreamIntraDepth + currentTxIntraDepth;
+
+    await storage.transaction(async () => {
+      await deleteTx.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      await deleteNodes.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      await deleteEdges.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      await deleteInputs.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      await deleteDeps.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      await deleteHandleProducers.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      await deleteNodeHashes.run({ $chainId: tx.chainId, $txHash: tx.txHash });
+      for (const drop of dropRollupCheckpoints) {
+        await drop.run({ $chainId: tx.chainId, $blockNumber: tx.blockNumber, $txHash: tx.txHash });
+      }
+
+      await insertTx.run({
+        $chainId: tx.chainId,
+        $txHash: tx.txHash,
+        $blockNumber: tx.blockNumber,
+        $nodeCount: nodeCount,
+        $edgeCount: edgeCount,
+        $depth: depth,
+        $signatureHash: signatureHash,
+        $statsJson: statsJson,
+        $prunedNodeCount: pruned ? pruned.kept.size : null,
+        $prunedEdgeCount: pruned ? pruned.edges.length : null,
+        $prunedDepth: pruned ? pruned.depth : null,
+        $prunedSignatureHash:
+          pruned && prunedNodes.length > 0 ? computeSignature(prunedNodes, pruned.edges) : null,
+        $schedulerSignatureHash: nodeCount > 0 ? computeSchedulerSignature(nodes, edges) : null,
+        $prunedSchedulerSignatureHash:
+          pruned && prunedNodes.length > 0
+            ? computeSchedulerSignature(prunedNodes, pruned.edges)
+            : null,
+        $typedSignatureHash: nodeCount > 0 ? computeTypedSignature(nodes, edges) : null,
+        $prunedTypedSignatureHash:
+          pruned && prunedNodes.length > 0
+            ? computeTypedSignature(prunedNodes, pruned.edges)
+            : null,
+      });
+
+      const calls = new Map(
+        (
+          (await loadEventCalls.all({ $chainId: tx.chainId, $txHash: tx.txHash })) as Array<{
+            logIndex: number;
+            frameId: number;
+            callDepth: number;
+            contract: string;
+            selector: string | null;
+          }>
+        ).map((call) => [call.logIndex, call]),
+      );
+      for (const node of nodes) {
+        const call = calls.get(node.nodeId);
+        await insertNode.run({
+          $chainId: tx.chainId,
+          $txHash: tx.txHash,
+          $nodeId: node.nodeId,
+          $op: node.op,
+          $outputHandle: node.outputHandle,
+          $inputCount: node.inputCount,
+          $scalarFlag: node.scalarFlag,
+          $typeInfoJson: node.typeInfoJson,
+          $isAllowed: pruned ? (pruned.allowed.has(node.nodeId) ? 1 : 0) : null,
+          $isPruned: pruned ? (pruned.kept.has(node.nodeId) ? 0 : 1) : null,
+          $callFrame: call?.frameId ?? null,
+          $callDepth: call?.callDepth ?? null,
+          $callContract: call?.contract ?? null,
+          $callSelector: call?.selector ?? null,
+        });
+      }
+
+      for (const edge of edges) {
+        await insertEdge.run({
+          $chainId: tx.chainId,
+          $txHash: tx.txHash,
+          $fromNodeId: edge.fromNodeId,
+          $toNodeId: edge.toNodeId,
+          $inputHandle: edge.inputHandle,
+        });
+      }
+
+      const ops = new Map(nodes.map((node) => [node.nodeId, node.op]));
+      for (const { nodeId, hops, hash } of computeNeighborhoodHashes(nodes, edges)) {
+        await insertNodeHash.run({
+          $chainId: tx.chainId,
+          $txHash: tx.txHash,
+          $nodeId: nodeId,
+          $hops: hops,
+          $blockNumber: tx.blockNumber,
+          $op: ops.get(nodeId) ?? "",
+          $hash: hash,
+        });
+      }
+
+      for (const handle of externalHandles) {
+        await insertInput.run({
+          $chainId: tx.chainId,
+          $txHash: tx.txHash,
+          $handle: handle,
+          $kind: "external",
+        });
+      }
+
+      await insertTxDeps.run({
+        $chainId: tx.chainId,
+        $txHash: tx.txHash,
+        $blockNumber: tx.blockNumber,
+        $upstreamTxs: upstreamTxs.size,
+        $handleLinks: handleLinks,
+        $chainDepth: chainDepth,
+        $totalDepth: totalDepth,
+      });
+
+      for (const handle of outputHandles) {
+        await insertHandleProducer.run({
+          $chainId: tx.chainId,
+          $handle: handle,
+          $txHash: tx.txHash,
+          $blockNumber: tx.blockNumber,
+          $isTrivial: trivialHandles.has(handle) ? 1 : 0,
+        });
+      }
+    });
+    return true;
+  };
+
+  const readCheckpoint = async (chainId: number) =>
+    (await getCheckpoint.get({ $chainId: chainId })) as DfgCheckpoint | undefined;
+
+  const writeCheckpoint = async (tx: DfgTx) => {
+    await upsertCheckpoint.run({
+      $chainId: tx.chainId,
+      $lastBlock: tx.blockNumber,
+      $lastTxHash: tx.txHash,
+    });
+  };
+
+  /**
+   * Builds every tx with events in `[fromBlock, toBlock]`. The build checkpoint moves to
+   * the last of them only when every tx before the range was already built; otherwise it
+   * stays put and the batch builder still covers the range (rebuilding is idempotent).
+   */
+  const buildRange = async (chainId: number, fromBlock: number, toBlock: number) => {
+    const txs = (await selectRangeTxs.all({
+      $chainId: chainId,
+      $fromBlock: fromBlock,
+      $toBlock: toBlock,
+    })) as DfgTx[];
+    for (const tx of txs) await buildTx(tx);
+
+    const lastTx = txs[txs.length - 1];
+    if (!lastTx) return { built: txs.length, checkpointAdvanced: false };
+    const checkpoint = await readCheckpoint(chainId);
+    const lastBlock = checkpoint?.lastBlock ?? -1;
+    const lastTxHash = checkpoint?.lastTxHash ?? "";
+    // Never move it backwards (gap ranges sit behind it) or over unbuilt txs.
+    const ahead =
+      lastBlock > lastTx.blockNumber ||
+      (lastBlock === lastTx.blockNumber && lastTxHash >= lastTx.txHash);
+    const pending =
+      !ahead &&
+      (await selectUnbuiltBefore.get({
+        $chainId: chainId,
+        $fromBlock: fromBlock,
+        $lastBlock: lastBlock,
+        $lastTxHash: lastTxHash,
+      })) !== undefined;
+    const checkpointAdvanced = !ahead && !pending;
+    if (checkpointAdvanced) await writeCheckpoint(lastTx);
+    return { built: txs.length, checkpointAdvanced };
+  };
+
+  return {
+    buildTx,
+    buildRange,
+    readCheckpoint,
+    writeCheckpoint,
+    deleteCheckpoint: async (chainId: number) => {
+      await deleteCheckpoint.run({ $chainId: chainId });
+    },
+  };
+}
+
+/** Recomputes the per-chain summary in `dfg_stats_rollups` from `dfg_txs`. */
+export async function updateDfgStatsRollup(storage: Storage, chainId: number): Promise<void> {
+  if (!(await storage.hasTable("dfg_stats_rollups"))) return;
+
+  const dfgRow = (await storage
+    .prepare(
+      `SELECT COUNT(*) AS total,
+              AVG(node_count) AS avgNodes,
+              AVG(edge_count) AS avgEdges,
+              AVG(depth) AS avgDepth,
+              MIN(node_count) AS minNodes,
+              MAX(node_count) AS maxNodes,
+              MIN(edge_count) AS minEdges,
+              MAX(edge_count) AS maxEdges,
+              MIN(depth) AS minDepth,
+              MAX(depth) AS maxDepth,
+              COUNT(DISTINCT signature_hash) AS signatureCount,
+              MAX(block_number) AS maxBlock
+       FROM dfg_txs
+       WHERE chain_id = $chainId`,
+    )
+    .get({ $chainId: chainId })) as {
+    total: number;
+    avgNodes: number | null;
+    avgEdges: number | null;
+    avgDepth: number | null;
+    minNodes: number | null;
+    maxNodes: number | null;
+    minEdges: number | null;
+    maxEdges: number | null;
+    minDepth: number | null;
+    maxDepth: number | null;
+    signatureCount: number;
+    maxBlock: number | null;
+  };
+
+  let eventTxCount: number | null = null;
+  if (await storage.hasTable("tx_counts")) {
+    const txCountRow = (await storage
+      .prepare("SELECT count FROM tx_counts WHERE chain_id = $chainId")
+      .get({ $chainId: chainId })) as { count: number } | undefined;
+    eventTxCount = txCountRow?.count ?? null;
+  }
+
+  await storage
+    .prepare(
+      `INSERT INTO dfg_stats_rollups (
+       chain_id,
+       total,
+       avg_nodes,
+       avg_edges,
+       avg_depth,
+       min_nodes,
+       max_nodes,
+       min_edges,
+       max_edges,
+       min_depth,
+       max_depth,
+       signature_count,
+       event_tx_count,
+       max_block
+     )
+     VALUES (
+       $chainId,
+       $total,
+       $avgNodes,
+       $avgEdges,
+       $avgDepth,
+       $minNodes,
+       $maxNodes,
+       $minEdges,
+       $maxEdges,
+       $minDepth,
+       $maxDepth,
+       $signatureCount,
+       $eventTxCount,
+       $maxBlock
+     )
+     ON CONFLICT(chain_id) DO UPDATE
+       SET total = excluded.total,
+           avg_nodes = excluded.avg_nodes,
+           avg_edges = excluded.avg_edges,
+           avg_depth = excluded.avg_depth,
+           min_nodes = excluded.min_nodes,
+           max_nodes = excluded.max_nodes,
+           min_edges = excluded.min_edges,
+           max_edges = excluded.max_edges,
+           min_depth = excluded.min_depth,
+           max_depth = excluded.max_depth,
+           signature_count = excluded.signature_count,
+           event_tx_count = excluded.event_tx_count,
+           max_block = excluded.max_block,
+           updated_at = ${storage.sql.now}`,
+    )
+    .run({
+      $chainId: chainId,
+      $total: dfgRow.total,
+      $avgNodes: dfgRow.avgNodes,
+      $avgEdges: dfgRow.avgEdges,
+      $avgDepth: dfgRow.avgDepth,
+      $minNodes: dfgRow.minNodes,
+      $maxNodes: dfgRow.maxNodes,
+      $minEdges: dfgRow.minEdges,
+      $maxEdges: dfgRow.maxEdges,
+      $minDepth: dfgRow.minDepth,
+      $maxDepth: dfgRow.maxDepth,
+      $signatureCount: dfgRow.signatureCount,
+      $eventTxCount: eventTxCount,
+      $maxBlock: dfgRow.maxBlock,
+    });
+}
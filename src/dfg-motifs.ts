@@ -0,0 +1,154 @@
+import { createHash } from "node:crypto";
+import type { SignatureEdge, SignatureNode } from "./dfg-signature.ts";
+
+// Sub-pattern keys for tx DFGs. Weisfeiler-Lehman refinement of op labels: a node's hash at
+// `hops = k` covers its op and, recursively, the ops feeding it and consuming it up to k
+// edges away, so two txs sharing a hot sub-pattern share node hashes even when their
+// whole-tx signatures differ. There is no subgraph isomorphism: equal hashes mean equal
+// unfolded neighborhoods, which is what frequency counting needs. Op n-grams are the
+// linear counterpart: op sequences along directed paths, the candidates for fused ops.
+
+/** Largest neighborhood radius stored in `dfg_node_hashes` (one row per node and hop). */
+export const DFG_MOTIF_HOPS = 2;
+
+/** Longest op sequence counted by `computeOpNgrams`. */
+export const DFG_NGRAM_MAX = 4;
+
+/** Joins the ops of an n-gram key, e.g. `FheSub>FheGe>FheIfThenElse`. */
+export const NGRAM_SEPARATOR = ">";
+
+export type NodeHash = {
+  nodeId: number;
+  hops: number;
+  hash: string;
+};
+
+export type Neighborhood = {
+  /** Nodes within `hops` edges of the root (in either direction), in log order. */
+  nodes: Array<SignatureNode & { distance: number }>;
+  edges: SignatureEdge[];
+};
+
+function adjacency(nodes: SignatureNode[], edges: SignatureEdge[]) {
+  const inputs = new Map<number, number[]>();
+  const outputs = new Map<number, number[]>();
+  for (const node of nodes) {
+    inputs.set(node.nodeId, []);
+    outputs.set(node.nodeId, []);
+  }
+  for (const edge of edges) {
+    const from = outputs.get(edge.fromNodeId);
+    const to = inputs.get(edge.toNodeId);
+    if (!from || !to) continue;
+    from.push(edge.toNodeId);
+    to.push(edge.fromNodeId);
+  }
+  return { inputs, outputs };
+}
+
+/**
+ * k-hop hashes of every node for `hops = 1..maxHops`. Each round hashes a node's previous
+ * label with the sorted labels of its producers and, separately, of its consumers, so
+ * direction is kept but operand order (lhs/rhs) and absolute node ids are not.
+ */
+export function computeNeighborhoodHashes(
+  nodes: SignatureNode[],
+  edges: SignatureEdge[],
+  maxHops = DFG_MOTIF_HOPS,
+): NodeHash[] {
+  const { inputs, outputs } = adjacency(nodes, edges);
+  let labels = new Map(nodes.map((node) => [node.nodeId, node.op]));
+  const hashes: NodeHash[] = [];
+  for (let hops = 1; hops <= maxHops; hops += 1) {
+    const previous = labels;
+    const neighborLabels = (ids: number[] | undefined) =>
+      (ids ?? []).map((id) => previous.get(id) ?? "").sort();
+    labels = new Map();
+    for (const node of nodes) {
+      const hash = createHash("sha256")
+        .update(
+          JSON.stringify({
+            v: 1,
+            label: previous.get(node.nodeId),
+            in: neighborLabels(inputs.get(node.nodeId)),
+            out: neighborLabels(outputs.get(node.nodeId)),
+          }),
+        )
+        .digest("hex");
+      labels.set(node.nodeId, hash);
+      hashes.push({ nodeId: node.nodeId, hops, hash });
+    }
+  }
+  return hashes;
+}
+
+/** The neighborhood the `hops` hash of `rootId` summarizes; null for an unknown root. */
+export function extractNeighborhood(
+  nodes: SignatureNode[],
+  edges: SignatureEdge[],
+  rootId: number,
+  hops: number,
+): Neighborhood | null {
+  const { inputs, outputs } = adjacency(nodes, edges);
+  if (!inputs.has(rootId)) return null;
+  const distances = new Map([[rootId, 0]]);
+  let frontier = [rootId];
+  for (let distance = 1; distance <= hops && frontier.length > 0; distance += 1) {
+    const next: number[] = [];
+    for (const id of frontier) {
+      for (const neighbor of [...(inputs.get(id) ?? []), ...(outputs.get(id) ?? [])]) {
+        if (distances.has(neighbor)) continue;
+        distances.set(neighbor, distance);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  return {
+    nodes: nodes
+      .filter((node) => distances.has(node.nodeId))
+      .sort((a, b) => a.nodeId - b.nodeId)
+      .map((node) => ({
+        nodeId: node.nodeId,
+        op: node.op,
+        distance: distances.get(node.nodeId) ?? 0,
+      })),
+    edges: edges
+      .filter((edge) => distances.has(edge.fromNodeId) && distances.has(edge.toNodeId))
+      .map((edge) => ({ fromNodeId: edge.fromNodeId, toNodeId: edge.toNodeId })),
+  };
+}
+
+/**
+ * Counts the op sequences of 2 to `maxN` nodes along directed paths (producer to consumer),
+ * keyed by the ops joined with `NGRAM_SEPARATOR`. An op reading the same producer twice
+ * (`x * x`) is one path, not two.
+ */
+export function computeOpNgrams(
+  nodes: SignatureNode[],
+  edges: SignatureEdge[],
+  maxN = DFG_NGRAM_MAX,
+): Map<string, number> {
+  const ops = new Map(nodes.map((node) => [node.nodeId, node.op]));
+  const consumers = new Map<number, Set<number>>();
+  for (const edge of edges) {
+    if (!ops.has(edge.fromNodeId) || !ops.has(edge.toNodeId)) continue;
+    const next = consumers.get(edge.fromNodeId) ?? new Set<number>();
+    next.add(edge.toNodeId);
+    consumers.set(edge.fromNodeId, next);
+  }
+
+  const counts = new Map<string, number>();
+  const walk = (nodeId: number, sequence: string[]) => {
+    if (sequence.length >= 2) {
+      const key = sequence.join(NGRAM_SEPARATOR);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    if (sequence.length === maxN) return;
+    for (const next of consumers.get(nodeId) ?? []) {
+      walk(next, [...sequence, ops.get(next) ?? ""]);
+    }
+  };
+  for (const node of nodes) walk(node.nodeId, [node.op]);
+  return counts;
+}
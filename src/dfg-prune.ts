@@ -0,0 +1,67 @@
+export type PruneNode = {
+  nodeId: number;
+  outputHandle: string | null;
+};
+
+export type PruneEdge = {
+  fromNodeId: number;
+  toNodeId: number;
+};
+
+export type PrunedDfg<E extends PruneEdge = PruneEdge> = {
+  /** Nodes whose output handle was granted by an ACL event in the same tx. */
+  allowed: Set<number>;
+  /** Nodes that survive pruning: allowed nodes and everything they depend on. */
+  kept: Set<number>;
+  edges: E[];
+  depth: number;
+};
+
+// Mirrors the coprocessor scheduler's `finalize()`: a computation whose result is never
+// allowed, and which feeds nothing that is, cannot be observed and is dropped.
+export function pruneDfg<E extends PruneEdge>(
+  nodes: PruneNode[],
+  edges: E[],
+  allowedHandles: Set<string>,
+): PrunedDfg<E> {
+  const allowed = new Set<number>();
+  for (const node of nodes) {
+    if (node.outputHandle && allowedHandles.has(node.outputHandle.toLowerCase())) {
+      allowed.add(node.nodeId);
+    }
+  }
+
+  const parents = new Map<number, number[]>();
+  for (const edge of edges) {
+    const list = parents.get(edge.toNodeId) ?? [];
+    list.push(edge.fromNodeId);
+    parents.set(edge.toNodeId, list);
+  }
+
+  const kept = new Set<number>();
+  const stack = Array.from(allowed);
+  while (stack.length > 0) {
+    const nodeId = stack.pop();
+    if (nodeId === undefined || kept.has(nodeId)) continue;
+    kept.add(nodeId);
+    for (const parent of parents.get(nodeId) ?? []) {
+      if (!kept.has(parent)) stack.push(parent);
+    }
+  }
+
+  const keptEdges = edges.filter((edge) => kept.has(edge.fromNodeId) && kept.has(edge.toNodeId));
+
+  // Node ids are log indices, so ascending order is a topological order.
+  const depths = new Map<number, number>();
+  let depth = 0;
+  for (const nodeId of Array.from(kept).sort((a, b) => a - b)) {
+    const parentDepths = (parents.get(nodeId) ?? [])
+      .filter((parent) => kept.has(parent))
+      .map((parent) => depths.get(parent) ?? 0);
+    const nodeDepth = parentDepths.length > 0 ? Math.max(...parentDepths) + 1 : 1;
+    depths.set(nodeId, nodeDepth);
+    depth = Math.max(depth, nodeDepth);
+  }
+
+  return { allowed, kept, edges: keptEdges, depth };
+}
@@ -10,13 +10,38 @@ export type SignatureEdge = {
   toNodeId: number;
 };
 
-export function computeDfgSignature(nodes: SignatureNode[], edges: SignatureEdge[]): string {
-  // Canonicalize node ids so the signature is invariant to absolute `log_index` values.
-  // (Same function call in different txs should map to the same signature.)
-  const sortedNodes = [...nodes].sort((a, b) => a.nodeId - b.nodeId);
+export type SchedulerSignatureNode = SignatureNode & {
+  outputHandle: string | null;
+  /** `dfg_nodes.type_info_json`; only read for ops with scalar inputs. */
+  typeInfoJson?: string | null;
+};
+
+export type TypedSignatureNode = SignatureNode & {
+  /** `dfg_nodes.type_info_json`: input roles, kinds and types plus the result type. */
+  typeInfoJson: string | null;
+};
 
+type TypeInfo = {
+  inputs?: Array<{ role?: string; kind?: string; type?: number | null }>;
+  output?: { type?: number | null };
+};
+
+// Ops whose scalar operands are inputs of the scheduler's op, so a Cast to euint8 and one
+// to euint64 are different ops there.
+const SCALAR_INPUT_OPS = new Set(["Cast", "TrivialEncrypt", "FheRand", "FheRandBounded"]);
+
+function parseTypeInfo(typeInfoJson: string | null | undefined): TypeInfo | null {
+  try {
+    return typeInfoJson ? (JSON.parse(typeInfoJson) as TypeInfo) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Hashes ops in the given order plus the edges between them, by position in that order.
+function hashCanonicalDfg(version: number, nodes: SignatureNode[], edges: SignatureEdge[]): string {
   const idToIndex = new Map<number, number>();
-  const ops = sortedNodes.map((node, index) => {
+  const ops = nodes.map((node, index) => {
     idToIndex.set(node.nodeId, index);
     return node.op;
   });
@@ -31,10 +56,84 @@ export function computeDfgSignature(nodes: SignatureNode[], edges: SignatureEdge
   canonicalEdges.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
 
   const payload = {
-    v: 2,
+    v: version,
     ops,
     edges: canonicalEdges,
   };
 
   return createHash("sha256").update(JSON.stringify(payload)).digest("hex");
 }
+
+export function computeDfgSignature(nodes: SignatureNode[], edges: SignatureEdge[]): string {
+  // Canonicalize node ids so the signature is invariant to absolute `log_index` values.
+  // (Same function call in different txs should map to the same signature.)
+  const sortedNodes = [...nodes].sort((a, b) => a.nodeId - b.nodeId);
+  return hashCanonicalDfg(2, sortedNodes, edges);
+}
+
+// `Cast(toType=5)`, `FheRandBounded(seed,upperBound,randType=5)`: the scalar inputs of
+// the ops in SCALAR_INPUT_OPS by role, with the type they carry. Plaintexts, seeds and
+// bounds are per-call values, so only their presence is hashed.
+function schedulerLabel(node: SchedulerSignatureNode): string {
+  const info = SCALAR_INPUT_OPS.has(node.op) ? parseTypeInfo(node.typeInfoJson) : null;
+  if (!info) return node.op;
+  const scalars = (info.inputs ?? [])
+    .filter((input) => input.kind === "scalar")
+    .map((input) =>
+      input.role === "toType" || input.role === "randType"
+        ? `${input.role}=${input.type ?? "?"}`
+        : (input.role ?? "?"),
+    );
+  return `${node.op}(${scalars.join(",")})`;
+}
+
+/**
+ * Signature in the coprocessor scheduler's terms (`v: 3`): ops are ordered by output
+ * handle instead of log index, and VerifyInput is not an op (the scheduler verifies
+ * inputs before building the graph). Nodes without an output handle go last, in log order.
+ * Cast, TrivialEncrypt, FheRand and FheRandBounded also carry their scalar inputs.
+ */
+export function computeSchedulerDfgSignature(
+  nodes: SchedulerSignatureNode[],
+  edges: SignatureEdge[],
+): string {
+  const sortedNodes = nodes
+    .filter((node) => node.op !== "VerifyInput")
+    .sort((a, b) => {
+      const left = a.outputHandle?.toLowerCase();
+      const right = b.outputHandle?.toLowerCase();
+      if (left !== right) {
+        if (left === undefined) return 1;
+        if (right === undefined) return -1;
+        return left < right ? -1 : 1;
+      }
+      return a.nodeId - b.nodeId;
+    })
+    .map((node) => ({ nodeId: node.nodeId, op: schedulerLabel(node) }));
+  return hashCanonicalDfg(3, sortedNodes, edges);
+}
+
+// `FheMul:5(lhs=ciphertext:5,rhs=scalar:?)`; unknown types are `?`.
+function typedLabel(node: TypedSignatureNode): string {
+  const info = parseTypeInfo(node.typeInfoJson);
+  if (!info) return node.op;
+  const inputs = (info.inputs ?? []).map(
+    (input) => `${input.role ?? "?"}=${input.kind ?? "?"}:${input.type ?? "?"}`,
+  );
+  return `${node.op}:${info.output?.type ?? "?"}(${inputs.join(",")})`;
+}
+
+/**
+ * Typed variant of the log-order signature (`v: 4`): each op also carries its result
+ * type and the kind (ciphertext/trivial/external/scalar) and type of every input, so the
+ * same shape on euint8 and on euint128 hashes differently.
+ */
+export function computeTypedDfgSignature(
+  nodes: TypedSignatureNode[],
+  edges: SignatureEdge[],
+): string {
+  const sortedNodes = [...nodes]
+    .sort((a, b) => a.nodeId - b.nodeId)
+    .map((node) => ({ nodeId: node.nodeId, op: typedLabel(node) }));
+  return hashCanonicalDfg(4, sortedNodes, edges);
+}
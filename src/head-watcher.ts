@@ -0,0 +1,130 @@
+import { createPublicClient, webSocket } from "viem";
+import { redactRpcUrl } from "./rpc-pool.ts";
+
+export type HeadWatcher = {
+  /** Resolves on the next new head, or with "timeout" after `timeoutMs`. */
+  wait(timeoutMs: number): Promise<"head" | "timeout">;
+  /** True while the `newHeads` subscription is delivering blocks. */
+  isLive(): boolean;
+  close(): void;
+};
+
+/** The subscription a watcher listens to: a viem WebSocket client, or a fake in tests. */
+export type HeadSource = {
+  /** Subscribes to new heads; returns the unsubscribe function. */
+  watchBlockNumber(handlers: {
+    onBlockNumber: (blockNumber: bigint) => void;
+    onError?: (err: Error) => void;
+  }): () => void;
+  close(): void;
+};
+
+// A subscription that has not delivered a head for this long is treated as dropped.
+// Until it is re-established the caller falls back to its poll interval.
+export const HEAD_STALE_AFTER_MS = 120_000;
+export const RESUBSCRIBE_DELAY_MS = 30_000;
+
+function webSocketHeadSource(wsUrl: string): HeadSource {
+  const client = createPublicClient({ transport: webSocket(wsUrl) });
+  return {
+    // A WebSocket transport makes viem use `eth_subscribe("newHeads")` instead of polling.
+    watchBlockNumber: (handlers) => client.watchBlockNumber(handlers),
+    close: () => {
+      void client.transport
+        .getRpcClient()
+        .then((socket) => socket.close())
+        .catch(() => {});
+    },
+  };
+}
+
+export function createHeadWatcher(
+  wsUrl: string,
+  chainId: number,
+  source: HeadSource = webSocketHeadSource(wsUrl),
+): HeadWatcher {
+  const endpoint = redactRpcUrl(wsUrl);
+  let live = false;
+  let closed = false;
+  let lastHeadAt = 0;
+  let resubscribeAt = 0;
+  let pendingHead = false;
+  let unwatch: (() => void) | null = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    pendingHead = true;
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  const drop = (reason: string) => {
+    if (live || unwatch) {
+      console.warn("newHeads subscription dropped; falling back to polling", {
+        chainId,
+        endpoint,
+        reason,
+      });
+    }
+    live = false;
+    unwatch?.();
+    unwatch = null;
+    resubscribeAt = Date.now() + RESUBSCRIBE_DELAY_MS;
+    // Poll right away so nothing is missed while the socket is down.
+    notify();
+  };
+
+  const subscribe = () => {
+    lastHeadAt = Date.now();
+    try {
+      unwatch = source.watchBlockNumber({
+        onBlockNumber: () => {
+          if (!live) console.log("newHeads subscription live", { chainId, endpoint });
+          live = true;
+          lastHeadAt = Date.now();
+          notify();
+        },
+        onError: (err) => drop(err.message.split("\n")[0] ?? "subscription error"),
+      });
+    } catch (err) {
+      drop(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const wait = (timeoutMs: number): Promise<"head" | "timeout"> => {
+    if (closed) return Promise.resolve("timeout");
+    if (unwatch && Date.now() - lastHeadAt > HEAD_STALE_AFTER_MS) {
+      drop("no heads received");
+    }
+    if (!unwatch && Date.now() >= resubscribeAt) {
+      subscribe();
+    }
+    if (pendingHead) {
+      pendingHead = false;
+      return Promise.resolve("head");
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        wake = null;
+        resolve("timeout");
+      }, timeoutMs);
+      wake = () => {
+        clearTimeout(timer);
+        pendingHead = false;
+        resolve("head");
+      };
+    });
+  };
+
+  const close = () => {
+    closed = true;
+    live = false;
+    unwatch?.();
+    unwatch = null;
+    source.close();
+    notify();
+  };
+
+  return { wait, isLive: () => live, close };
+}
@@ -0,0 +1,340 @@
+import { createHash } from "node:crypto";
+import { once } from "node:events";
+import { createReadStream, createWriteStream, mkdirSync } from "node:fs";
+import { basename, dirname } from "node:path";
+import { createInterface } from "node:readline";
+import { finished } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import {
+  type AbiEvent,
+  encodeEventTopics,
+  getAddress,
+  type Log,
+  toEventSelector,
+  toHex,
+} from "viem";
+import { type AbiVersion, FHE_ABI_VERSIONS, registryEvents } from "./abi-registry.ts";
+import type { BlockHeader } from "./app.ts";
+import type { Storage } from "./storage.ts";
+
+// Archives are JSON lines. A line is one log in the shape `eth_getLogs` returns (raw
+// hex quantities, or decimal strings/numbers as viem results serialize to), a whole
+// `eth_getLogs` result array, or a block header `{ number, hash, timestamp, parentHash }`
+// so replayed ranges keep their block times. Paths ending in `.gz` are gunzipped.
+// `exportLogArchive` writes the same format back out of `fhe_events`.
+
+export type ArchiveRecord = { kind: "log"; log: Log } | { kind: "block"; block: BlockHeader };
+
+type Hex = `0x${string}`;
+
+function isHex(value: unknown): value is Hex {
+  return typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value);
+}
+
+function parseQuantity(value: unknown, field: string): bigint {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^(0x[0-9a-fA-F]+|\d+)$/.test(value)) return BigInt(value);
+  throw new Error(`invalid ${field}`);
+}
+
+function parseHex(value: unknown, field: string): Hex {
+  if (!isHex(value)) throw new Error(`invalid ${field}`);
+  return value;
+}
+
+function parseRecord(entry: unknown): ArchiveRecord {
+  if (typeof entry !== "object" || entry === null) throw new Error("expected an object");
+  const record = entry as Record<string, unknown>;
+  if (!("topics" in record) && "timestamp" in record) {
+    return {
+      kind: "block",
+      block: {
+        number: Number(parseQuantity(record.number, "number")),
+        hash: parseHex(record.hash, "hash"),
+        timestamp: Number(parseQuantity(record.timestamp, "timestamp")),
+        parentHash: parseHex(record.parentHash, "parentHash"),
+      },
+    };
+  }
+  const topics = record.topics;
+  if (!Array.isArray(topics) || !topics.every(isHex)) throw new Error("invalid topics");
+  return {
+    kind: "log",
+    log: {
+      address: parseHex(record.address, "address"),
+      blockHash: parseHex(record.blockHash, "blockHash"),
+      blockNumber: parseQuantity(record.blockNumber, "blockNumber"),
+      data: parseHex(record.data, "data"),
+      logIndex: Number(parseQuantity(record.logIndex, "logIndex")),
+      transactionHash: parseHex(record.transactionHash, "transactionHash"),
+      transactionIndex: Number(parseQuantity(record.transactionIndex ?? 0, "transactionIndex")),
+      topics: topics as [Hex, ...Hex[]],
+      removed: false,
+    },
+  };
+}
+
+/** Streams the records of a JSONL (or `.gz`) log archive in file order. */
+export async function* readLogArchive(path: string): AsyncGenerator<ArchiveRecord> {
+  const file = createReadStream(path);
+  const input = path.endsWith(".gz") ? file.pipe(createGunzip()) : file;
+  // `pipe` does not forward errors; a missing file must still end the iteration.
+  if (input !== file) file.on("error", (err) => input.destroy(err));
+  const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber += 1;
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      for (const entry of Array.isArray(parsed) ? parsed : [parsed]) {
+        yield parseRecord(entry);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`${path}:${lineNumber}: ${message}`);
+    }
+  }
+}
+
+export type ArchiveManifest = {
+  format: "fhevm-stats-log-archive";
+  version: 1;
+  createdAt: string;
+  chainId: number;
+  fromBlock: number | null;
+  toBlock: number | null;
+  archive: string;
+  rows: number;
+  blocks: number;
+  /** Unknown rows stored before raw topics were kept; exported with topic0 only. */
+  partialTopics: number;
+  executors: Array<{
+    address: string;
+    fromBlock: number | null;
+    toBlock: number | null;
+    rows: number;
+  }>;
+  /** Rows per ABI version that decoded them; `unknown` for rows stored as `Unknown`. */
+  abiVersions: Record<string, number>;
+  checksums: {
+    algorithm: "sha256";
+    /** Over every log line (JSON plus newline) in archive order, before compression. */
+    rows: string;
+    file: string;
+  };
+};
+
+export type ExportOptions = {
+  chainId: number;
+  fromBlock?: number;
+  toBlock?: number;
+  /** Only rows of this executor. */
+  address?: string;
+  versions?: AbiVersion[];
+};
+
+const EXPORT_BATCH = 5_000;
+
+type ExportRow = {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  txIndex: number | null;
+  logIndex: number;
+  address: string;
+  topic0: Hex;
+  data: string;
+  argsJson: string | null;
+  abiVersion: string | null;
+  topicsJson: string | null;
+};
+
+// Only indexed inputs end up in topics; uint args are stored as decimal strings.
+function rebuildTopics(event: AbiEvent, argsJson: string | null): Hex[] {
+  const stored = (argsJson ? JSON.parse(argsJson) : {}) as Record<string, unknown>;
+  const args: Record<string, unknown> = {};
+  for (const input of event.inputs) {
+    if (!input.indexed || !input.name) continue;
+    const value = stored[input.name];
+    args[input.name] =
+      /^u?int/.test(input.type) && typeof value === "string" ? BigInt(value) : value;
+  }
+  return encodeEventTopics({ abi: [event], eventName: event.name, args }) as Hex[];
+}
+
+async function sha256File(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+/**
+ * Writes the `fhe_events` of a chain (and optional block range/executor) to `path` as a
+ * replayable raw log archive, with the headers of their blocks. Decoded rows get their
+ * topics re-encoded from the stored args; the returned manifest describes the archive.
+ */
+export async function exportLogArchive(
+  storage: Storage,
+  path: string,
+  options: ExportOptions,
+): Promise<ArchiveManifest> {
+  const eventsBySelector = new Map(
+    registryEvents(options.versions ?? FHE_ABI_VERSIONS).map((event) => [
+      toEventSelector(event),
+      event,
+    ]),
+  );
+  const params = {
+    $chainId: options.chainId,
+    $fromBlock: options.fromBlock ?? null,
+    $toBlock: options.toBlock ?? null,
+    // Stored checksummed, so the address index applies whatever casing was asked for.
+    $address: options.address ? getAddress(options.address) : null,
+  };
+  const selectRows = storage.prepare(
+    `SELECT block_number AS blockNumber,
+            block_hash AS blockHash,
+            tx_hash AS txHash,
+            tx_index AS txIndex,
+            log_index AS logIndex,
+            address,
+            topic0,
+            data,
+            args_json AS argsJson,
+            abi_version AS abiVersion,
+            topics_json AS topicsJson
+     FROM fhe_events
+     WHERE chain_id = $chainId
+       AND ($fromBlock IS NULL OR block_number >= $fromBlock)
+       AND ($toBlock IS NULL OR block_number <= $toBlock)
+       AND ($address IS NULL OR address = $address)
+       AND (block_number > $afterBlock
+         OR (block_number = $afterBlock AND log_index > $afterLogIndex))
+     ORDER BY block_number, log_index
+     LIMIT $limit`,
+  );
+  const selectBlock = storage.prepare(
+    `SELECT number, hash, timestamp, parent_hash AS parentHash
+     FROM blocks WHERE chain_id = $chainId AND number = $number`,
+  );
+  const selectDeployment = storage.prepare(
+    `SELECT from_block AS fromBlock, to_block AS toBlock
+     FROM executor_deployments WHERE chain_id = $chainId AND address = $address`,
+  );
+
+  mkdirSync(dirname(path), { recursive: true });
+  const file = createWriteStream(path);
+  const gzip = path.endsWith(".gz") ? createGzip() : null;
+  gzip?.pipe(file);
+  const sink = gzip ?? file;
+  const write = async (line: string) => {
+    if (!sink.write(line)) await once(sink, "drain");
+  };
+
+  const rowsHash = createHash("sha256");
+  const executorRows = new Map<string, number>();
+  const abiVersions: Record<string, number> = {};
+  let rowCount = 0;
+  let blockCount = 0;
+  let partialTopics = 0;
+  let firstBlock: number | null = null;
+  let lastBlock: number | null = null;
+  let after = { blockNumber: -1, logIndex: -1 };
+  for (;;) {
+    const rows = (await selectRows.all({
+      ...params,
+      $afterBlock: after.blockNumber,
+      $afterLogIndex: after.logIndex,
+      $limit: EXPORT_BATCH,
+    })) as ExportRow[];
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      if (row.blockNumber !== lastBlock) {
+        const header = await selectBlock.get({
+          $chainId: options.chainId,
+          $number: row.blockNumber,
+        });
+        if (header) {
+          await write(`${JSON.stringify(header)}\n`);
+          blockCount += 1;
+        }
+        firstBlock ??= row.blockNumber;
+        lastBlock = row.blockNumber;
+      }
+
+      let topics: Hex[];
+      if (row.topicsJson) {
+        topics = JSON.parse(row.topicsJson) as Hex[];
+      } else {
+        const event = row.argsJson !== null ? eventsBySelector.get(row.topic0) : undefined;
+        if (event) {
+          topics = rebuildTopics(event, row.argsJson);
+        } else {
+          topics = [row.topic0 as Hex];
+          partialTopics += 1;
+        }
+      }
+      const line = `${JSON.stringify({
+        address: row.address,
+        blockHash: row.blockHash,
+        blockNumber: toHex(row.blockNumber),
+        data: row.data,
+        logIndex: toHex(row.logIndex),
+        removed: false,
+        topics,
+        transactionHash: row.txHash,
+        ...(row.txIndex === null ? {} : { transactionIndex: toHex(row.txIndex) }),
+      })}\n`;
+      rowsHash.update(line);
+      await write(line);
+
+      rowCount += 1;
+      executorRows.set(row.address, (executorRows.get(row.address) ?? 0) + 1);
+      // Rows decoded before `abi_version` was stored are `unversioned`.
+      const version = row.argsJson === null ? "unknown" : (row.abiVersion ?? "unversioned");
+      abiVersions[version] = (abiVersions[version] ?? 0) + 1;
+    }
+    const last = rows[rows.length - 1] as ExportRow;
+    after = { blockNumber: last.blockNumber, logIndex: last.logIndex };
+  }
+  sink.end();
+  await finished(file);
+
+  const executors: ArchiveManifest["executors"] = [];
+  for (const [address, count] of executorRows) {
+    const deployment = (await selectDeployment.get({
+      $chainId: options.chainId,
+      $address: address,
+    })) as { fromBlock: number | null; toBlock: number | null } | undefined;
+    executors.push({
+      address,
+      fromBlock: deployment?.fromBlock ?? null,
+      toBlock: deployment?.toBlock ?? null,
+      rows: count,
+    });
+  }
+
+  return {
+    format: "fhevm-stats-log-archive",
+    version: 1,
+    createdAt: new Date().toISOString(),
+    chainId: options.chainId,
+    fromBlock: options.fromBlock ?? firstBlock,
+    toBlock: options.toBlock ?? lastBlock,
+    archive: basename(path),
+    rows: rowCount,
+    blocks: blockCount,
+    partialTopics,
+    executors,
+    abiVersions,
+    checksums: {
+      algorithm: "sha256",
+      rows: rowsHash.digest("hex"),
+      file: await sha256File(path),
+    },
+  };
+}
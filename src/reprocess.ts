@@ -0,0 +1,252 @@
+import { type AbiVersion, decodeFheEvent, FHE_ABI_VERSIONS } from "./abi-registry.ts";
+import {
+  deriveEventFields,
+  rewindDfgCheckpoints,
+  serializeArgs,
+  validateDerivedTypes,
+} from "./app.ts";
+import type { Storage } from "./storage.ts";
+
+type UnknownEventRow = {
+  id: number;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  address: string;
+  data: `0x${string}`;
+  topicsJson: string | null;
+};
+
+export type TopicsLookup = (
+  txHash: string,
+  logIndex: number,
+) => Promise<readonly `0x${string}`[] | null>;
+
+export type ReprocessOptions = {
+  limit: number;
+  /** Resume after this `fhe_events.id`. */
+  afterId?: number;
+  /** Recovers topics for rows stored before `topics_json` existed (e.g. from receipts). */
+  lookupTopics?: TopicsLookup;
+  versions?: AbiVersion[];
+};
+
+export type ReprocessResult = {
+  scanned: number;
+  lastId: number | null;
+  decoded: number;
+  stillUnknown: number;
+  missingTopics: number;
+  byEvent: Record<string, number>;
+};
+
+/**
+ * Re-decodes up to `limit` `Unknown` events with the current ABI registry. Decoded rows get
+ * their name, args and derived columns; `op_counts`, already rolled-up `op_buckets` and
+ * `tx_callers` move with them, and the DFG checkpoints rewind so affected txs are rebuilt.
+ */
+export async function reprocessUnknownEvents(
+  storage: Storage,
+  chainId: number,
+  options: ReprocessOptions,
+): Promise<ReprocessResult> {
+  const rows = (await storage
+    .prepare(
+      `SELECT id,
+              block_number AS blockNumber,
+              tx_hash AS txHash,
+              log_index AS logIndex,
+              address,
+              data,
+              topics_json AS topicsJson
+       FROM fhe_events
+       WHERE chain_id = $chainId AND event_name = 'Unknown' AND id > $afterId
+       ORDER BY id
+       LIMIT $limit`,
+    )
+    .all({
+      $chainId: chainId,
+      $afterId: options.afterId ?? 0,
+      $limit: options.limit,
+    })) as UnknownEventRow[];
+
+  const result: ReprocessResult = {
+    scanned: rows.length,
+    lastId: rows.at(-1)?.id ?? null,
+    decoded: 0,
+    stillUnknown: 0,
+    missingTopics: 0,
+    byEvent: {},
+  };
+  if (rows.length === 0) return result;
+
+  // Topics are looked up before the write transaction, which should stay short.
+  const topicsById = new Map<number, readonly `0x${string}`[]>();
+  for (const row of rows) {
+    if (row.topicsJson) {
+      topicsById.set(row.id, JSON.parse(row.topicsJson) as `0x${string}`[]);
+      continue;
+    }
+    const topics = options.lookupTopics
+      ? await options.lookupTopics(row.txHash, row.logIndex)
+      : null;
+    if (topics) topicsById.set(row.id, topics);
+  }
+
+  const updateEvent = storage.prepare(
+    `UPDATE fhe_events SET
+       event_name = $eventName,
+       args_json = $argsJson,
+       lhs_type = $lhsType,
+       rhs_type = $rhsType,
+       result_type = $resultType,
+       control_type = $controlType,
+       if_true_type = $ifTrueType,
+       if_false_type = $ifFalseType,
+       input_type = $inputType,
+       cast_to_type = $castToType,
+       rand_type = $randType,
+       scalar_flag = $scalarFlag,
+       result_handle_version = $resultHandleVersion,
+       abi_version = $abiVersion,
+       topics_json = NULL
+     WHERE id = $id`,
+  );
+  const storeTopics = storage.prepare(
+    "UPDATE fhe_events SET topics_json = $topicsJson WHERE id = $id",
+  );
+  const moveOpCount = storage.prepare(
+    `INSERT INTO op_counts (chain_id, event_name, count)
+     VALUES ($chainId, $eventName, ${storage.sql.greatest("$delta", "0")})
+     ON CONFLICT(chain_id, event_name) DO UPDATE
+       SET count = ${storage.sql.greatest("op_counts.count + $delta", "0")},
+           updated_at = ${storage.sql.now}`,
+  );
+  const moveBucket = storage.prepare(
+    `INSERT INTO op_buckets (chain_id, bucket_start, bucket_seconds, event_name, count)
+     VALUES ($chainId, $bucketStart, $bucketSeconds, $eventName, ${storage.sql.greatest("$delta", "0")})
+     ON CONFLICT(chain_id, bucket_start, bucket_seconds, event_name)
+     DO UPDATE SET count = ${storage.sql.greatest("op_buckets.count + $delta", "0")}`,
+  );
+  const insertTxCaller = storage.prepare(
+    `INSERT INTO tx_callers (chain_id, tx_hash, caller) VALUES ($chainId, $txHash, $caller)
+     ON CONFLICT DO NOTHING`,
+  );
+  const insertTypeMismatch = storage.prepare(
+    `INSERT INTO type_mismatches (
+       chain_id, block_number, tx_hash, log_index, event_name, expected_type, actual_type
+     ) VALUES (
+       $chainId, $blockNumber, $txHash, $logIndex, $eventName, $expectedType, $actualType
+     )
+     ON CONFLICT DO NOTHING`,
+  );
+  const selectTimestamp = storage.prepare(
+    "SELECT timestamp FROM blocks WHERE chain_id = $chainId AND number = $number",
+  );
+
+  // Rolled-up time buckets only hold events up to the rollup checkpoint.
+  const rollupRow = (await storage
+    .prepare("SELECT last_block AS lastBlock FROM rollup_checkpoints WHERE chain_id = $chainId")
+    .get({ $chainId: chainId })) as { lastBlock: number } | undefined;
+  const bucketSizes = rollupRow
+    ? (
+        (await storage
+          .prepare(
+            "SELECT DISTINCT bucket_seconds AS bucketSeconds FROM op_buckets WHERE chain_id = $chainId",
+          )
+          .all({ $chainId: chainId })) as Array<{ bucketSeconds: number }>
+      ).map((row) => row.bucketSeconds)
+    : [];
+
+  let firstChangedBlock: number | null = null;
+  await storage.transaction(async () => {
+    for (const row of rows) {
+      const topics = topicsById.get(row.id);
+      if (!topics) {
+        result.missingTopics += 1;
+        result.stillUnknown += 1;
+        continue;
+      }
+      const decoded = decodeFheEvent(
+        { address: row.address, blockNumber: row.blockNumber, topics, data: row.data },
+        options.versions ?? FHE_ABI_VERSIONS,
+      );
+      if (!decoded) {
+        if (!row.topicsJson)
+          await storeTopics.run({ $id: row.id, $topicsJson: JSON.stringify(topics) });
+        result.stillUnknown += 1;
+        continue;
+      }
+
+      const derived = deriveEventFields(decoded.eventName, decoded.args);
+      await updateEvent.run({
+        $id: row.id,
+        $eventName: decoded.eventName,
+        $argsJson: serializeArgs(decoded.args),
+        $lhsType: derived.lhsType ?? null,
+        $rhsType: derived.rhsType ?? null,
+        $resultType: derived.resultType ?? null,
+        $controlType: derived.controlType ?? null,
+        $ifTrueType: derived.ifTrueType ?? null,
+        $ifFalseType: derived.ifFalseType ?? null,
+        $inputType: derived.inputType ?? null,
+        $castToType: derived.castToType ?? null,
+        $randType: derived.randType ?? null,
+        $scalarFlag: derived.scalarFlag ?? null,
+        $resultHandleVersion: derived.resultHandleVersion ?? null,
+        $abiVersion: decoded.abiVersion,
+      });
+      const mismatch = validateDerivedTypes(decoded.eventName, derived);
+      if (mismatch) {
+        await insertTypeMismatch.run({
+          $chainId: chainId,
+          $blockNumber: row.blockNumber,
+          $txHash: row.txHash,
+          $logIndex: row.logIndex,
+          $eventName: mismatch.eventName,
+          $expectedType: mismatch.expectedType,
+          $actualType: mismatch.actualType,
+        });
+      }
+      await moveOpCount.run({ $chainId: chainId, $eventName: "Unknown", $delta: -1 });
+      await moveOpCount.run({ $chainId: chainId, $eventName: decoded.eventName, $delta: 1 });
+
+      if (rollupRow && row.blockNumber <= rollupRow.lastBlock) {
+        const block = (await selectTimestamp.get({
+          $chainId: chainId,
+          $number: row.blockNumber,
+        })) as { timestamp: number } | undefined;
+        // Without a stored block time the bucket is unknown; `rollup:ops` has the same gap.
+        for (const bucketSeconds of block ? bucketSizes : []) {
+          const timestamp = block?.timestamp ?? 0;
+          const bucket = {
+            $chainId: chainId,
+            $bucketStart: Math.floor(timestamp / bucketSeconds) * bucketSeconds,
+            $bucketSeconds: bucketSeconds,
+          };
+          await moveBucket.run({ ...bucket, $eventName: "Unknown", $delta: -1 });
+          await moveBucket.run({ ...bucket, $eventName: decoded.eventName, $delta: 1 });
+        }
+      }
+
+      const caller = decoded.args.caller;
+      if (typeof caller === "string" && caller.startsWith("0x")) {
+        await insertTxCaller.run({
+          $chainId: chainId,
+          $txHash: row.txHash,
+          $caller: caller.toLowerCase(),
+        });
+      }
+
+      result.decoded += 1;
+      result.byEvent[decoded.eventName] = (result.byEvent[decoded.eventName] ?? 0) + 1;
+      firstChangedBlock =
+        firstChangedBlock === null ? row.blockNumber : Math.min(firstChangedBlock, row.blockNumber);
+    }
+    if (firstChangedBlock !== null) {
+      await rewindDfgCheckpoints(storage, chainId, firstChangedBlock);
+    }
+  });
+
+  return result;
+}
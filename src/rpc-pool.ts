@@ -0,0 +1,294 @@
+import { createPublicClient, HttpRequestError, http, TimeoutError } from "viem";
+
+export type RpcClient = ReturnType<typeof createEndpointClient>;
+
+export type RpcEndpoint = {
+  index: number;
+  label: string;
+  client: RpcClient;
+};
+
+export type RpcEndpointHealth = {
+  label: string;
+  score: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  coolingDown: boolean;
+  topicOr: boolean | null;
+  lastError: string | null;
+};
+
+export type RpcPoolOptions = {
+  /** Spread per-event `getLogs` calls round-robin over healthy endpoints. */
+  spreadLogs?: boolean;
+};
+
+export type RpcPool = {
+  endpoints: RpcEndpoint[];
+  spreadLogs: boolean;
+  /** Healthiest endpoint; used for everything that is not spread. */
+  primary(): RpcEndpoint;
+  /** Round-robin over healthy endpoints, for spreading independent requests. */
+  next(): RpcEndpoint;
+  /** Endpoint for the next `getLogs` call: `next()` when spreading, else `primary()`. */
+  forLogs(): RpcEndpoint;
+  /**
+   * Healthy endpoint known to answer topic-OR `getLogs` queries (one request for every
+   * event), or undefined when there is none yet.
+   */
+  forCombinedLogs(): RpcEndpoint | undefined;
+  /** Cached topic-OR capability; undefined until detected. */
+  supportsTopicOr(endpoint: RpcEndpoint): boolean | undefined;
+  setTopicOr(endpoint: RpcEndpoint, supported: boolean): void;
+  /**
+   * Runs `fn` against endpoints in health order until one succeeds. Only transport errors
+   * count against an endpoint and move on to the next; any other error is the node's answer
+   * and is rethrown as is.
+   */
+  request<T>(fn: (client: RpcClient) => Promise<T>): Promise<T>;
+  recordSuccess(endpoint: RpcEndpoint): void;
+  recordFailure(endpoint: RpcEndpoint, err: unknown): void;
+  health(): RpcEndpointHealth[];
+};
+
+type EndpointState = {
+  score: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  topicOr: boolean | undefined;
+  lastError: string | null;
+};
+
+// An endpoint is benched after this many consecutive failures, for a cooldown that
+// doubles with every further failure.
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+// Exponentially weighted success rate; 1 is perfectly healthy.
+const SCORE_DECAY = 0.8;
+
+function createEndpointClient(url: string, chainId: number | undefined) {
+  if (!chainId) {
+    return createPublicClient({ transport: http(url) });
+  }
+  return createPublicClient({
+    chain: {
+      id: chainId,
+      name: "custom",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [url] } },
+    },
+    transport: http(url),
+  });
+}
+
+function isMethodHandlerCrashedError(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+  const record = err as Record<string, unknown>;
+  const message = typeof record.message === "string" ? record.message : "";
+  const details = typeof record.details === "string" ? record.details : "";
+  const shortMessage = typeof record.shortMessage === "string" ? record.shortMessage : "";
+  const combined = `${message}\n${details}\n${shortMessage}`.toLowerCase();
+  return combined.includes("method handler crashed");
+}
+
+/** Transport failures (HTTP errors, timeouts, crashed handlers) that say the endpoint is unwell. */
+export function isTransientRpcError(err: unknown): boolean {
+  return (
+    err instanceof HttpRequestError ||
+    err instanceof TimeoutError ||
+    isMethodHandlerCrashedError(err)
+  );
+}
+
+/** Strips paths, query strings and credentials, which is where providers put API keys. */
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+export function parseRpcUrls(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+export function createRpcPool(
+  urls: string[],
+  chainId?: number,
+  options: RpcPoolOptions = {},
+): RpcPool {
+  if (urls.length === 0) {
+    throw new Error("At least one RPC URL is required.");
+  }
+
+  const labelCounts = new Map<string, number>();
+  const endpoints: RpcEndpoint[] = urls.map((url, index) => {
+    const base = redactRpcUrl(url);
+    const seen = labelCounts.get(base) ?? 0;
+    labelCounts.set(base, seen + 1);
+    return {
+      index,
+      label: seen === 0 ? base : `${base}#${seen + 1}`,
+      client: createEndpointClient(url, chainId),
+    };
+  });
+  const states: EndpointState[] = endpoints.map(() => ({
+    score: 1,
+    requests: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    cooldownUntil: 0,
+    topicOr: undefined,
+    lastError: null,
+  }));
+  let cursor = 0;
+  let combinedCursor = 0;
+
+  const stateOf = (endpoint: RpcEndpoint): EndpointState => {
+    const state = states[endpoint.index];
+    if (!state) throw new Error(`Unknown RPC endpoint ${endpoint.label}`);
+    return state;
+  };
+
+  const isHealthy = (endpoint: RpcEndpoint, now: number) => stateOf(endpoint).cooldownUntil <= now;
+
+  // Healthy endpoints first (best score, then configured order), then benched ones by
+  // how soon they come back, so there is always something to try.
+  const ranked = (): RpcEndpoint[] => {
+    const now = Date.now();
+    return [...endpoints].sort((a, b) => {
+      const healthyA = isHealthy(a, now);
+      const healthyB = isHealthy(b, now);
+      if (healthyA !== healthyB) return healthyA ? -1 : 1;
+      if (!healthyA) return stateOf(a).cooldownUntil - stateOf(b).cooldownUntil;
+      const score = stateOf(b).score - stateOf(a).score;
+      return score !== 0 ? score : a.index - b.index;
+    });
+  };
+
+  const primary = (): RpcEndpoint => {
+    const best = ranked()[0];
+    if (!best) throw new Error("RPC pool is empty.");
+    return best;
+  };
+
+  const next = (): RpcEndpoint => {
+    const now = Date.now();
+    const healthy = endpoints.filter((endpoint) => isHealthy(endpoint, now));
+    if (healthy.length === 0) return primary();
+    const endpoint = healthy[cursor % healthy.length] ?? primary();
+    cursor = (cursor + 1) % Number.MAX_SAFE_INTEGER;
+    return endpoint;
+  };
+
+  const spreadLogs = (options.spreadLogs ?? false) && endpoints.length > 1;
+  const forLogs = (): RpcEndpoint => (spreadLogs ? next() : primary());
+
+  const forCombinedLogs = (): RpcEndpoint | undefined => {
+    const now = Date.now();
+    const capable = ranked().filter(
+      (endpoint) => isHealthy(endpoint, now) && stateOf(endpoint).topicOr === true,
+    );
+    if (!spreadLogs) return capable[0];
+    if (capable.length === 0) return undefined;
+    const endpoint = capable[combinedCursor % capable.length];
+    combinedCursor = (combinedCursor + 1) % Number.MAX_SAFE_INTEGER;
+    return endpoint;
+  };
+
+  const supportsTopicOr = (endpoint: RpcEndpoint) => stateOf(endpoint).topicOr;
+
+  const setTopicOr = (endpoint: RpcEndpoint, supported: boolean) => {
+    stateOf(endpoint).topicOr = supported;
+  };
+
+  const recordSuccess = (endpoint: RpcEndpoint) => {
+    const state = stateOf(endpoint);
+    state.requests += 1;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = 0;
+    state.score = state.score * SCORE_DECAY + (1 - SCORE_DECAY);
+  };
+
+  const recordFailure = (endpoint: RpcEndpoint, err: unknown) => {
+    const state = stateOf(endpoint);
+    state.requests += 1;
+    state.failures += 1;
+    state.consecutiveFailures += 1;
+    state.score *= SCORE_DECAY;
+    state.lastError = err instanceof Error ? (err.message.split("\n")[0] ?? null) : String(err);
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      const cooldownMs = Math.min(
+        BASE_COOLDOWN_MS * 2 ** (state.consecutiveFailures - FAILURE_THRESHOLD),
+        MAX_COOLDOWN_MS,
+      );
+      state.cooldownUntil = Date.now() + cooldownMs;
+      if (endpoints.length > 1) {
+        console.warn("rpc endpoint benched; failing over", {
+          endpoint: endpoint.label,
+          consecutiveFailures: state.consecutiveFailures,
+          cooldownMs,
+          lastError: state.lastError,
+        });
+      }
+    }
+  };
+
+  const request = async <T>(fn: (client: RpcClient) => Promise<T>): Promise<T> => {
+    let lastError: unknown;
+    for (const endpoint of ranked()) {
+      try {
+        const result = await fn(endpoint.client);
+        recordSuccess(endpoint);
+        return result;
+      } catch (err) {
+        if (!isTransientRpcError(err)) throw err;
+        recordFailure(endpoint, err);
+        lastError = err;
+      }
+    }
+    throw lastError;
+  };
+
+  const health = (): RpcEndpointHealth[] => {
+    const now = Date.now();
+    return endpoints.map((endpoint) => {
+      const state = stateOf(endpoint);
+      return {
+        label: endpoint.label,
+        score: Number(state.score.toFixed(3)),
+        requests: state.requests,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        coolingDown: state.cooldownUntil > now,
+        topicOr: state.topicOr ?? null,
+        lastError: state.lastError,
+      };
+    });
+  };
+
+  return {
+    endpoints,
+    spreadLogs,
+    primary,
+    next,
+    forLogs,
+    forCombinedLogs,
+    supportsTopicOr,
+    setTopicOr,
+    request,
+    recordSuccess,
+    recordFailure,
+    health,
+  };
+}
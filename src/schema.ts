@@ -0,0 +1,1050 @@
+import { deriveEventFields, validateDerivedTypes } from "./app.ts";
+import { computeNeighborhoodHashes } from "./dfg-motifs.ts";
+import { computeSchedulerDfgSignature, computeTypedDfgSignature } from "./dfg-signature.ts";
+import type { Storage } from "./storage.ts";
+import { renderPostgresDdl } from "./storage-postgres.ts";
+
+// The schema shared by every storage backend, as numbered migrations written in the
+// SQLite dialect. Applied versions are recorded in `schema_version`; each pending
+// migration runs its schema change and data backfill in one transaction. Migrations up to
+// `dfg_txs_pruned_signature_index` predate the table, so they use IF NOT EXISTS and check
+// columns before adding them: databases created before versioning adopt them as no-ops.
+
+export type Migration = {
+  version: number;
+  name: string;
+  /** Statements to run. */
+  sql?: string;
+  /** Columns added to `table` when missing. */
+  table?: string;
+  columns?: Array<{ name: string; type: string }>;
+  /** Data step run after the schema change; returns the number of rows it touched. */
+  backfill?: (storage: Storage) => Promise<number>;
+};
+
+export type MigrationPlan = {
+  /** Highest applied version; 0 for a new (or pre-versioning) database. */
+  currentVersion: number;
+  latestVersion: number;
+  pending: Array<{ version: number; name: string; backfill: boolean }>;
+};
+
+export type MigrationResult = MigrationPlan & {
+  dryRun: boolean;
+  applied: Array<{ version: number; name: string; backfilledRows: number | null }>;
+};
+
+export const EVENT_COLUMNS = [
+  { name: "lhs_type", type: "INTEGER" },
+  { name: "rhs_type", type: "INTEGER" },
+  { name: "result_type", type: "INTEGER" },
+  { name: "control_type", type: "INTEGER" },
+  { name: "if_true_type", type: "INTEGER" },
+  { name: "if_false_type", type: "INTEGER" },
+  { name: "input_type", type: "INTEGER" },
+  { name: "cast_to_type", type: "INTEGER" },
+  { name: "rand_type", type: "INTEGER" },
+  { name: "scalar_flag", type: "INTEGER" },
+  { name: "result_handle_version", type: "INTEGER" },
+  { name: "abi_version", type: "TEXT" },
+  // All topics of logs no ABI version could decode, so they can be re-decoded later.
+  { name: "topics_json", type: "TEXT" },
+  // Position of the tx in its block; kept so raw log archives round-trip.
+  { name: "tx_index", type: "INTEGER" },
+];
+
+export const SCHEMA_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "base_tables",
+    sql: `
+    CREATE TABLE IF NOT EXISTS fhe_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      address TEXT NOT NULL,
+      event_name TEXT NOT NULL,
+      topic0 TEXT NOT NULL,
+      data TEXT NOT NULL,
+      args_json TEXT,
+      lhs_type INTEGER,
+      rhs_type INTEGER,
+      result_type INTEGER,
+      control_type INTEGER,
+      if_true_type INTEGER,
+      if_false_type INTEGER,
+      input_type INTEGER,
+      cast_to_type INTEGER,
+      rand_type INTEGER,
+      scalar_flag INTEGER,
+      result_handle_version INTEGER,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS fhe_events_uniq
+      ON fhe_events(chain_id, tx_hash, log_index);
+    CREATE INDEX IF NOT EXISTS fhe_events_block
+      ON fhe_events(chain_id, block_number);
+    CREATE INDEX IF NOT EXISTS fhe_events_event
+      ON fhe_events(chain_id, event_name);
+
+    CREATE TABLE IF NOT EXISTS blocks (
+      chain_id INTEGER NOT NULL,
+      number INTEGER NOT NULL,
+      hash TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      parent_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, number)
+    );
+    CREATE INDEX IF NOT EXISTS blocks_timestamp
+      ON blocks(chain_id, timestamp);
+
+    CREATE TABLE IF NOT EXISTS tx_callers (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      caller TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+    CREATE INDEX IF NOT EXISTS tx_callers_by_caller
+      ON tx_callers(chain_id, caller, tx_hash);
+
+    CREATE TABLE IF NOT EXISTS type_mismatches (
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      expected_type INTEGER NOT NULL,
+      actual_type INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS type_mismatches_block
+      ON type_mismatches(chain_id, block_number);
+
+    CREATE TABLE IF NOT EXISTS executor_deployments (
+      chain_id INTEGER NOT NULL,
+      address TEXT NOT NULL,
+      from_block INTEGER,
+      to_block INTEGER,
+      first_seen_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, address)
+    );
+
+    CREATE TABLE IF NOT EXISTS acl_events (
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      handle_index INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      caller TEXT NOT NULL,
+      account TEXT,
+      handle TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash, log_index, handle_index)
+    );
+    CREATE INDEX IF NOT EXISTS acl_events_handle
+      ON acl_events(chain_id, handle);
+    CREATE INDEX IF NOT EXISTS acl_events_block
+      ON acl_events(chain_id, block_number);
+
+    CREATE TABLE IF NOT EXISTS decryption_requests (
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      handle_index INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      request_id TEXT NOT NULL,
+      requester TEXT,
+      handle TEXT NOT NULL,
+      handle_chain_id INTEGER,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash, log_index, handle_index)
+    );
+    CREATE INDEX IF NOT EXISTS decryption_requests_handle
+      ON decryption_requests(handle_chain_id, handle);
+    CREATE INDEX IF NOT EXISTS decryption_requests_block
+      ON decryption_requests(chain_id, block_number);
+
+    CREATE TABLE IF NOT EXISTS tx_seen (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+
+    CREATE TABLE IF NOT EXISTS tx_receipts (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      from_address TEXT NOT NULL,
+      to_address TEXT,
+      gas_used INTEGER NOT NULL,
+      effective_gas_price INTEGER,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+    CREATE INDEX IF NOT EXISTS tx_receipts_by_sender
+      ON tx_receipts(chain_id, from_address, tx_hash);
+
+    -- One row per traced tx (debug_traceTransaction callTracer); 'mismatch' when the trace
+    -- logs could not be matched to the stored events, which then stay unattributed.
+    CREATE TABLE IF NOT EXISTS tx_traces (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      status TEXT NOT NULL,
+      frame_count INTEGER NOT NULL,
+      attributed_events INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+
+    -- The contract call that invoked the executor for each event: frame_id numbers the
+    -- tx's call frames depth-first from 0 (the top-level call).
+    CREATE TABLE IF NOT EXISTS fhe_event_calls (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      frame_id INTEGER NOT NULL,
+      call_depth INTEGER NOT NULL,
+      contract TEXT NOT NULL,
+      selector TEXT,
+      PRIMARY KEY (chain_id, tx_hash, log_index)
+    );
+
+    CREATE TABLE IF NOT EXISTS tx_counts (
+      chain_id INTEGER PRIMARY KEY,
+      count INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS checkpoints (
+      chain_id INTEGER PRIMARY KEY,
+      last_block INTEGER NOT NULL,
+      last_block_hash TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS reorgs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chain_id INTEGER NOT NULL,
+      fork_block INTEGER NOT NULL,
+      checkpoint_block INTEGER NOT NULL,
+      stored_hash TEXT,
+      canonical_hash TEXT,
+      removed_events INTEGER NOT NULL DEFAULT 0,
+      removed_txs INTEGER NOT NULL DEFAULT 0,
+      detected_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS reorgs_chain
+      ON reorgs(chain_id, detected_at);
+
+    CREATE TABLE IF NOT EXISTS ingestion_gaps (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chain_id INTEGER NOT NULL,
+      from_block INTEGER NOT NULL,
+      to_block INTEGER NOT NULL,
+      next_block INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      filled_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS ingestion_gaps_status
+      ON ingestion_gaps(chain_id, status, from_block);
+
+    CREATE TABLE IF NOT EXISTS rpc_endpoint_stats (
+      chain_id INTEGER NOT NULL,
+      endpoint TEXT NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      failures INTEGER NOT NULL DEFAULT 0,
+      ranges_served INTEGER NOT NULL DEFAULT 0,
+      score REAL,
+      last_from_block INTEGER,
+      last_to_block INTEGER,
+      last_error TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, endpoint)
+    );
+
+    CREATE TABLE IF NOT EXISTS op_buckets (
+      chain_id INTEGER NOT NULL,
+      bucket_start INTEGER NOT NULL,
+      bucket_seconds INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (chain_id, bucket_start, bucket_seconds, event_name)
+    );
+
+    CREATE TABLE IF NOT EXISTS op_counts (
+      chain_id INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, event_name)
+    );
+
+    CREATE TABLE IF NOT EXISTS rollup_checkpoints (
+      chain_id INTEGER PRIMARY KEY,
+      last_block INTEGER NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS dfg_stats_rollups (
+      chain_id INTEGER PRIMARY KEY,
+      total INTEGER NOT NULL DEFAULT 0,
+      avg_nodes REAL,
+      avg_edges REAL,
+      avg_depth REAL,
+      min_nodes INTEGER,
+      max_nodes INTEGER,
+      min_edges INTEGER,
+      max_edges INTEGER,
+      min_depth INTEGER,
+      max_depth INTEGER,
+      signature_count INTEGER,
+      event_tx_count INTEGER,
+      max_block INTEGER,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS dfg_txs (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      node_count INTEGER NOT NULL,
+      edge_count INTEGER NOT NULL,
+      depth INTEGER NOT NULL,
+      signature_hash TEXT,
+      stats_json TEXT,
+      pruned_node_count INTEGER,
+      pruned_edge_count INTEGER,
+      pruned_depth INTEGER,
+      pruned_signature_hash TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_txs_block
+      ON dfg_txs(chain_id, block_number);
+    CREATE INDEX IF NOT EXISTS dfg_txs_signature
+      ON dfg_txs(chain_id, signature_hash);
+    CREATE INDEX IF NOT EXISTS dfg_txs_signature_filters
+      ON dfg_txs(chain_id, signature_hash, node_count, edge_count, block_number);
+
+    CREATE TABLE IF NOT EXISTS dfg_nodes (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      node_id INTEGER NOT NULL,
+      op TEXT NOT NULL,
+      output_handle TEXT,
+      input_count INTEGER NOT NULL,
+      scalar_flag INTEGER,
+      type_info_json TEXT,
+      is_allowed INTEGER,
+      is_pruned INTEGER,
+      call_frame INTEGER,
+      call_depth INTEGER,
+      call_contract TEXT,
+      call_selector TEXT,
+      PRIMARY KEY (chain_id, tx_hash, node_id)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_nodes_tx
+      ON dfg_nodes(chain_id, tx_hash);
+    CREATE INDEX IF NOT EXISTS dfg_nodes_output_handle
+      ON dfg_nodes(chain_id, output_handle);
+
+    CREATE TABLE IF NOT EXISTS dfg_edges (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      from_node_id INTEGER NOT NULL,
+      to_node_id INTEGER NOT NULL,
+      input_handle TEXT NOT NULL,
+      PRIMARY KEY (chain_id, tx_hash, from_node_id, to_node_id, input_handle)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_edges_tx
+      ON dfg_edges(chain_id, tx_hash);
+
+    CREATE TABLE IF NOT EXISTS dfg_inputs (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      handle TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      PRIMARY KEY (chain_id, tx_hash, handle)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_inputs_tx
+      ON dfg_inputs(chain_id, tx_hash);
+    CREATE INDEX IF NOT EXISTS dfg_inputs_handle
+      ON dfg_inputs(chain_id, handle);
+
+    CREATE TABLE IF NOT EXISTS dfg_handle_producers (
+      chain_id INTEGER NOT NULL,
+      handle TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      is_trivial INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, handle)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_handle_producers_tx
+      ON dfg_handle_producers(chain_id, tx_hash);
+
+    CREATE TABLE IF NOT EXISTS dfg_tx_deps (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      upstream_txs INTEGER NOT NULL,
+      handle_links INTEGER NOT NULL,
+      chain_depth INTEGER NOT NULL DEFAULT 0,
+      total_depth INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_tx_deps_block
+      ON dfg_tx_deps(chain_id, block_number, tx_hash);
+
+    CREATE TABLE IF NOT EXISTS dfg_rollups (
+      chain_id INTEGER PRIMARY KEY,
+      dfg_tx_count INTEGER NOT NULL,
+      stats_json TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS dfg_dep_rollups (
+      chain_id INTEGER PRIMARY KEY,
+      dfg_tx_count INTEGER NOT NULL,
+      stats_json TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS dfg_rollup_checkpoints (
+      chain_id INTEGER PRIMARY KEY,
+      last_block INTEGER,
+      last_tx_hash TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS dfg_build_checkpoints (
+      chain_id INTEGER PRIMARY KEY,
+      last_block INTEGER,
+      last_tx_hash TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `,
+  },
+  { version: 2, name: "fhe_events_derived_columns", table: "fhe_events", columns: EVENT_COLUMNS },
+  {
+    version: 3,
+    name: "checkpoints_block_hash",
+    table: "checkpoints",
+    columns: [{ name: "last_block_hash", type: "TEXT" }],
+  },
+  {
+    version: 4,
+    name: "dfg_handle_producers_trivial",
+    table: "dfg_handle_producers",
+    columns: [{ name: "is_trivial", type: "INTEGER NOT NULL DEFAULT 0" }],
+  },
+  {
+    version: 5,
+    name: "dfg_tx_deps_depths",
+    table: "dfg_tx_deps",
+    columns: [
+      { name: "chain_depth", type: "INTEGER NOT NULL DEFAULT 0" },
+      { name: "total_depth", type: "INTEGER NOT NULL DEFAULT 0" },
+    ],
+  },
+  // ACL-derived flags on nodes and the pruned (scheduler-parity) graph shape on txs
+  {
+    version: 6,
+    name: "dfg_nodes_acl_flags",
+    table: "dfg_nodes",
+    columns: [
+      { name: "is_allowed", type: "INTEGER" },
+      { name: "is_pruned", type: "INTEGER" },
+    ],
+  },
+  // Calling contract frame from tx traces (see fhe_event_calls); NULL until traced
+  {
+    version: 7,
+    name: "dfg_nodes_calls",
+    table: "dfg_nodes",
+    columns: [
+      { name: "call_frame", type: "INTEGER" },
+      { name: "call_depth", type: "INTEGER" },
+      { name: "call_contract", type: "TEXT" },
+      { name: "call_selector", type: "TEXT" },
+    ],
+  },
+  {
+    version: 8,
+    name: "dfg_txs_pruned",
+    table: "dfg_txs",
+    columns: [
+      { name: "pruned_node_count", type: "INTEGER" },
+      { name: "pruned_edge_count", type: "INTEGER" },
+      { name: "pruned_depth", type: "INTEGER" },
+      { name: "pruned_signature_hash", type: "TEXT" },
+    ],
+  },
+  {
+    version: 9,
+    name: "dfg_txs_pruned_signature_index",
+    sql: `CREATE INDEX IF NOT EXISTS dfg_txs_pruned_signature
+      ON dfg_txs(chain_id, pruned_signature_hash)`,
+  },
+  { version: 10, name: "fhe_events_derived_types", backfill: backfillDerivedTypes },
+  { version: 11, name: "tx_callers_from_events", backfill: backfillTxCallers },
+  {
+    version: 12,
+    name: "dfg_txs_scheduler_signature",
+    table: "dfg_txs",
+    columns: [
+      { name: "scheduler_signature_hash", type: "TEXT" },
+      { name: "pruned_scheduler_signature_hash", type: "TEXT" },
+    ],
+    backfill: backfillSchedulerSignatures,
+  },
+  {
+    version: 13,
+    name: "dfg_txs_scheduler_signature_indexes",
+    sql: `
+    CREATE INDEX IF NOT EXISTS dfg_txs_scheduler_signature
+      ON dfg_txs(chain_id, scheduler_signature_hash);
+    CREATE INDEX IF NOT EXISTS dfg_txs_pruned_scheduler_signature
+      ON dfg_txs(chain_id, pruned_scheduler_signature_hash);
+  `,
+  },
+  {
+    version: 14,
+    name: "dfg_txs_typed_signature",
+    table: "dfg_txs",
+    columns: [
+      { name: "typed_signature_hash", type: "TEXT" },
+      { name: "pruned_typed_signature_hash", type: "TEXT" },
+    ],
+    backfill: backfillTypedSignatures,
+  },
+  {
+    version: 15,
+    name: "dfg_txs_typed_signature_indexes",
+    sql: `
+    CREATE INDEX IF NOT EXISTS dfg_txs_typed_signature
+      ON dfg_txs(chain_id, typed_signature_hash);
+    CREATE INDEX IF NOT EXISTS dfg_txs_pruned_typed_signature
+      ON dfg_txs(chain_id, pruned_typed_signature_hash);
+  `,
+  },
+  // k-hop (Weisfeiler-Lehman) hashes per DFG node and their per-chain frequencies, which
+  // `dfg:rollup` recomputes from the node hashes
+  {
+    version: 16,
+    name: "dfg_node_hashes",
+    sql: `
+    CREATE TABLE IF NOT EXISTS dfg_node_hashes (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      node_id INTEGER NOT NULL,
+      hops INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      op TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      PRIMARY KEY (chain_id, tx_hash, node_id, hops)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_node_hashes_hash
+      ON dfg_node_hashes(chain_id, hops, hash, block_number);
+    CREATE INDEX IF NOT EXISTS dfg_node_hashes_block
+      ON dfg_node_hashes(chain_id, block_number);
+
+    CREATE TABLE IF NOT EXISTS dfg_motif_rollups (
+      chain_id INTEGER NOT NULL,
+      hops INTEGER NOT NULL,
+      hash TEXT NOT NULL,
+      op TEXT NOT NULL,
+      node_count INTEGER NOT NULL,
+      tx_count INTEGER NOT NULL,
+      last_block INTEGER NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, hops, hash)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_motif_rollups_tx_count
+      ON dfg_motif_rollups(chain_id, hops, tx_count);
+  `,
+    backfill: backfillNodeHashes,
+  },
+  // Op n-gram frequencies per chain, counted incrementally by `dfg:rollup` past its own
+  // checkpoint, whose `tx_count` is the number of DFG txs counted so far
+  {
+    version: 17,
+    name: "dfg_ngram_rollups",
+    sql: `
+    CREATE TABLE IF NOT EXISTS dfg_ngram_rollups (
+      chain_id INTEGER NOT NULL,
+      n INTEGER NOT NULL,
+      ops TEXT NOT NULL,
+      occurrences INTEGER NOT NULL,
+      tx_count INTEGER NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, n, ops)
+    );
+    CREATE INDEX IF NOT EXISTS dfg_ngram_rollups_occurrences
+      ON dfg_ngram_rollups(chain_id, n, occurrences);
+
+    CREATE TABLE IF NOT EXISTS dfg_ngram_checkpoints (
+      chain_id INTEGER PRIMARY KEY,
+      last_block INTEGER,
+      last_tx_hash TEXT,
+      tx_count INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `,
+  },
+  // Receipts the RPC did not know, so `enrich:receipts` retries them with backoff instead
+  // of asking for them first on every call (`retry_after` is unix seconds)
+  {
+    version: 18,
+    name: "tx_receipt_misses",
+    sql: `
+    CREATE TABLE IF NOT EXISTS tx_receipt_misses (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      retry_after INTEGER NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+  `,
+  },
+  // Txs the node could not trace get an 'unavailable' `tx_traces` row, retried with
+  // backoff once `retry_after` (unix seconds) has passed; `error` keeps the last answer
+  {
+    version: 19,
+    name: "tx_traces_retry",
+    table: "tx_traces",
+    columns: [
+      { name: "attempts", type: "INTEGER NOT NULL DEFAULT 0" },
+      { name: "retry_after", type: "INTEGER" },
+      { name: "error", type: "TEXT" },
+    ],
+  },
+  // Type mismatches of events ingested before ingestion stored them (formerly
+  // `bun run backfill:type-mismatches`).
+  {
+    version: 20,
+    name: "type_mismatches_from_events",
+    backfill: backfillTypeMismatches,
+  },
+];
+
+const DERIVED_TYPES_BATCH = 1_000;
+
+// Fills the derived type columns of rows decoded before they were added (formerly
+// `bun run backfill:types`). Existing values are kept, so it is safe to repeat.
+async function backfillDerivedTypes(storage: Storage): Promise<number> {
+  const select = storage.prepare(
+    `SELECT id, event_name AS eventName, args_json AS argsJson
+     FROM fhe_events
+     WHERE id > $after
+       AND args_json IS NOT NULL
+       AND (result_type IS NULL OR lhs_type IS NULL OR rhs_type IS NULL OR control_type IS NULL
+         OR if_true_type IS NULL OR if_false_type IS NULL OR input_type IS NULL
+         OR cast_to_type IS NULL OR rand_type IS NULL OR scalar_flag IS NULL
+         OR result_handle_version IS NULL)
+     ORDER BY id
+     LIMIT $limit`,
+  );
+  const update = storage.prepare(
+    `UPDATE fhe_events SET
+       lhs_type = COALESCE(lhs_type, $lhsType),
+       rhs_type = COALESCE(rhs_type, $rhsType),
+       result_type = COALESCE(result_type, $resultType),
+       control_type = COALESCE(control_type, $controlType),
+       if_true_type = COALESCE(if_true_type, $ifTrueType),
+       if_false_type = COALESCE(if_false_type, $ifFalseType),
+       input_type = COALESCE(input_type, $inputType),
+       cast_to_type = COALESCE(cast_to_type, $castToType),
+       rand_type = COALESCE(rand_type, $randType),
+       scalar_flag = COALESCE(scalar_flag, $scalarFlag),
+       result_handle_version = COALESCE(result_handle_version, $resultHandleVersion)
+     WHERE id = $id`,
+  );
+
+  let updated = 0;
+  let after = 0;
+  for (;;) {
+    const rows = (await select.all({ $after: after, $limit: DERIVED_TYPES_BATCH })) as Array<{
+      id: number;
+      eventName: string;
+      argsJson: string;
+    }>;
+    if (rows.length === 0) return updated;
+    for (const row of rows) {
+      const derived = deriveEventFields(
+        row.eventName,
+        JSON.parse(row.argsJson) as Record<string, unknown>,
+      );
+      if (Object.values(derived).every((value) => value === null || value === undefined)) {
+        continue;
+      }
+      await update.run({
+        $id: row.id,
+        $lhsType: derived.lhsType ?? null,
+        $rhsType: derived.rhsType ?? null,
+        $resultType: derived.resultType ?? null,
+        $controlType: derived.controlType ?? null,
+        $ifTrueType: derived.ifTrueType ?? null,
+        $ifFalseType: derived.ifFalseType ?? null,
+        $inputType: derived.inputType ?? null,
+        $castToType: derived.castToType ?? null,
+        $randType: derived.randType ?? null,
+        $scalarFlag: derived.scalarFlag ?? null,
+        $resultHandleVersion: derived.resultHandleVersion ?? null,
+      });
+      updated += 1;
+    }
+    after = (rows[rows.length - 1] as { id: number }).id;
+  }
+}
+
+// Records the caller of txs ingested before `tx_callers` was filled during ingestion
+// (formerly scripts/backfill-tx-callers.ts).
+async function backfillTxCallers(storage: Storage): Promise<number> {
+  const result = await storage
+    .prepare(
+      `INSERT INTO tx_callers (chain_id, tx_hash, caller)
+       SELECT chain_id, tx_hash, MIN(lower(json_extract(args_json, '$.caller'))) AS caller
+       FROM fhe_events
+       WHERE args_json IS NOT NULL AND json_extract(args_json, '$.caller') IS NOT NULL
+       GROUP BY chain_id, tx_hash
+       ON CONFLICT DO NOTHING`,
+    )
+    .run();
+  return result.changes;
+}
+
+// Stores the type mismatches of events decoded before `type_mismatches` was filled at
+// ingestion, from the derived type columns (migration 10). Existing rows are kept.
+async function backfillTypeMismatches(storage: Storage): Promise<number> {
+  const select = storage.prepare(
+    `SELECT id,
+            chain_id AS chainId,
+            block_number AS blockNumber,
+            tx_hash AS txHash,
+            log_index AS logIndex,
+            event_name AS eventName,
+            result_type AS resultType,
+            input_type AS inputType,
+            cast_to_type AS castToType,
+            rand_type AS randType
+     FROM fhe_events
+     WHERE id > $after
+       AND result_type IS NOT NULL
+       AND event_name IN ('VerifyInput', 'Cast', 'TrivialEncrypt', 'FheRand', 'FheRandBounded')
+     ORDER BY id
+     LIMIT $limit`,
+  );
+  const insert = storage.prepare(
+    `INSERT INTO type_mismatches (
+       chain_id, block_number, tx_hash, log_index, event_name, expected_type, actual_type
+     ) VALUES (
+       $chainId, $blockNumber, $txHash, $logIndex, $eventName, $expectedType, $actualType
+     )
+     ON CONFLICT DO NOTHING`,
+  );
+
+  let inserted = 0;
+  let after = 0;
+  for (;;) {
+    const rows = (await select.all({ $after: after, $limit: DERIVED_TYPES_BATCH })) as Array<{
+      id: number;
+      chainId: number;
+      blockNumber: number;
+      txHash: string;
+      logIndex: number;
+      eventName: string;
+      resultType: number;
+      inputType: number | null;
+      castToType: number | null;
+      randType: number | null;
+    }>;
+    if (rows.length === 0) return inserted;
+    for (const row of rows) {
+      const mismatch = validateDerivedTypes(row.eventName, row);
+      if (!mismatch) continue;
+      const result = await insert.run({
+        $chainId: row.chainId,
+        $blockNumber: row.blockNumber,
+        $txHash: row.txHash,
+        $logIndex: row.logIndex,
+        $eventName: mismatch.eventName,
+        $expectedType: mismatch.expectedType,
+        $actualType: mismatch.actualType,
+      });
+      inserted += result.changes;
+    }
+    after = (rows[rows.length - 1] as { id: number }).id;
+  }
+}
+
+const SIGNATURES_BATCH = 500;
+
+type StoredDfgNode = {
+  nodeId: number;
+  op: string;
+  outputHandle: string | null;
+  typeInfoJson: string | null;
+  isPruned: number | null;
+};
+
+type StoredDfgEdge = { fromNodeId: number; toNodeId: number };
+
+// Computes a signature that was added to `dfg_txs` after DFGs were built, from the stored
+// nodes and edges; the pruned one only where the tx has a pruned signature.
+async function backfillDfgSignatures(
+  storage: Storage,
+  column: string,
+  prunedColumn: string,
+  compute: (nodes: StoredDfgNode[], edges: StoredDfgEdge[]) => string,
+): Promise<number> {
+  const select = storage.prepare(
+    `SELECT chain_id AS chainId, tx_hash AS txHash,
+            pruned_signature_hash IS NOT NULL AS hasPruned
+     FROM dfg_txs
+     WHERE signature_hash IS NOT NULL
+       AND ${column} IS NULL
+       AND (chain_id > $afterChainId OR (chain_id = $afterChainId AND tx_hash > $afterTxHash))
+     ORDER BY chain_id, tx_hash
+     LIMIT $limit`,
+  );
+  const selectNodes = storage.prepare(
+    `SELECT node_id AS nodeId, op, output_handle AS outputHandle,
+            type_info_json AS typeInfoJson, is_pruned AS isPruned
+     FROM dfg_nodes
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+  const selectEdges = storage.prepare(
+    `SELECT from_node_id AS fromNodeId, to_node_id AS toNodeId
+     FROM dfg_edges
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+  const update = storage.prepare(
+    `UPDATE dfg_txs
+     SET ${column} = $signatureHash, ${prunedColumn} = $prunedSignatureHash
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+
+  let updated = 0;
+  let after = { chainId: -1, txHash: "" };
+  for (;;) {
+    const rows = (await select.all({
+      $afterChainId: after.chainId,
+      $afterTxHash: after.txHash,
+      $limit: SIGNATURES_BATCH,
+    })) as Array<{ chainId: number; txHash: string; hasPruned: number }>;
+    if (rows.length === 0) return updated;
+    for (const row of rows) {
+      const params = { $chainId: row.chainId, $txHash: row.txHash };
+      const nodes = (await selectNodes.all(params)) as StoredDfgNode[];
+      if (nodes.length === 0) continue;
+      const edges = (await selectEdges.all(params)) as StoredDfgEdge[];
+      const kept = new Set(nodes.filter((node) => node.isPruned === 0).map((node) => node.nodeId));
+      await update.run({
+        ...params,
+        $signatureHash: compute(nodes, edges),
+        $prunedSignatureHash:
+          row.hasPruned && kept.size > 0
+            ? compute(
+                nodes.filter((node) => kept.has(node.nodeId)),
+                edges.filter((edge) => kept.has(edge.fromNodeId) && kept.has(edge.toNodeId)),
+              )
+            : null,
+      });
+      updated += 1;
+    }
+    const last = rows[rows.length - 1] as { chainId: number; txHash: string };
+    after = { chainId: last.chainId, txHash: last.txHash };
+  }
+}
+
+function backfillSchedulerSignatures(storage: Storage): Promise<number> {
+  return backfillDfgSignatures(
+    storage,
+    "scheduler_signature_hash",
+    "pruned_scheduler_signature_hash",
+    computeSchedulerDfgSignature,
+  );
+}
+
+function backfillTypedSignatures(storage: Storage): Promise<number> {
+  return backfillDfgSignatures(
+    storage,
+    "typed_signature_hash",
+    "pruned_typed_signature_hash",
+    computeTypedDfgSignature,
+  );
+}
+
+// Hashes the nodes of DFGs built before `dfg_node_hashes` existed.
+async function backfillNodeHashes(storage: Storage): Promise<number> {
+  const select = storage.prepare(
+    `SELECT chain_id AS chainId, tx_hash AS txHash, block_number AS blockNumber
+     FROM dfg_txs
+     WHERE node_count > 0
+       AND (chain_id > $afterChainId OR (chain_id = $afterChainId AND tx_hash > $afterTxHash))
+     ORDER BY chain_id, tx_hash
+     LIMIT $limit`,
+  );
+  const selectNodes = storage.prepare(
+    `SELECT node_id AS nodeId, op
+     FROM dfg_nodes
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+  const selectEdges = storage.prepare(
+    `SELECT from_node_id AS fromNodeId, to_node_id AS toNodeId
+     FROM dfg_edges
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+  const insert = storage.prepare(
+    `INSERT INTO dfg_node_hashes (
+       chain_id, tx_hash, node_id, hops, block_number, op, hash
+     ) VALUES (
+       $chainId, $txHash, $nodeId, $hops, $blockNumber, $op, $hash
+     )
+     ON CONFLICT DO NOTHING`,
+  );
+
+  let hashed = 0;
+  let after = { chainId: -1, txHash: "" };
+  for (;;) {
+    const rows = (await select.all({
+      $afterChainId: after.chainId,
+      $afterTxHash: after.txHash,
+      $limit: SIGNATURES_BATCH,
+    })) as Array<{ chainId: number; txHash: string; blockNumber: number }>;
+    if (rows.length === 0) return hashed;
+    for (const row of rows) {
+      const params = { $chainId: row.chainId, $txHash: row.txHash };
+      const nodes = (await selectNodes.all(params)) as Array<{ nodeId: number; op: string }>;
+      if (nodes.length === 0) continue;
+      const edges = (await selectEdges.all(params)) as StoredDfgEdge[];
+      const ops = new Map(nodes.map((node) => [node.nodeId, node.op]));
+      for (const { nodeId, hops, hash } of computeNeighborhoodHashes(nodes, edges)) {
+        await insert.run({
+          ...params,
+          $nodeId: nodeId,
+          $hops: hops,
+          $blockNumber: row.blockNumber,
+          $op: ops.get(nodeId) ?? "",
+          $hash: hash,
+        });
+      }
+      hashed += 1;
+    }
+    const last = rows[rows.length - 1] as { chainId: number; txHash: string };
+    after = { chainId: last.chainId, txHash: last.txHash };
+  }
+}
+
+export const LATEST_SCHEMA_VERSION = Math.max(
+  ...SCHEMA_MIGRATIONS.map((migration) => migration.version),
+);
+
+function renderDdl(sql: string, storage: Storage): string {
+  return storage.dialect === "postgres" ? renderPostgresDdl(sql) : sql;
+}
+
+async function readSchemaVersion(storage: Storage): Promise<number> {
+  if (!(await storage.hasTable("schema_version"))) return 0;
+  const row = (await storage.prepare("SELECT MAX(version) AS version FROM schema_version").get()) as
+    | { version: number | null }
+    | undefined;
+  return row?.version ?? 0;
+}
+
+/**
+ * Lists the migrations a database still needs. Throws when it was migrated by newer code,
+ * whose tables this code may misread or corrupt.
+ */
+export async function planMigrations(storage: Storage): Promise<MigrationPlan> {
+  const currentVersion = await readSchemaVersion(storage);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema is at version ${currentVersion}, newer than this build supports (${LATEST_SCHEMA_VERSION}). Upgrade fhevm-stats before using this database.`,
+    );
+  }
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    pending: SCHEMA_MIGRATIONS.filter((migration) => migration.version > currentVersion).map(
+      (migration) => ({
+        version: migration.version,
+        name: migration.name,
+        backfill: migration.backfill !== undefined,
+      }),
+    ),
+  };
+}
+
+async function applySchemaChange(storage: Storage, migration: Migration): Promise<void> {
+  if (migration.sql) await storage.exec(renderDdl(migration.sql, storage));
+  if (!migration.table) return;
+  for (const column of migration.columns ?? []) {
+    if (await storage.hasColumn(migration.table, column.name)) continue;
+    await storage.exec(
+      renderDdl(`ALTER TABLE ${migration.table} ADD COLUMN ${column.name} ${column.type}`, storage),
+    );
+  }
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction with its version row,
+ * so an interrupted run resumes at the first unapplied one. `dryRun` only plans.
+ */
+export async function migrateSchema(
+  storage: Storage,
+  options: { dryRun?: boolean } = {},
+): Promise<MigrationResult> {
+  const plan = await planMigrations(storage);
+  const dryRun = options.dryRun ?? false;
+  const applied: MigrationResult["applied"] = [];
+  if (dryRun || plan.pending.length === 0) return { ...plan, dryRun, applied };
+
+  await storage.exec(
+    renderDdl(
+      `CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`,
+      storage,
+    ),
+  );
+  const record = storage.prepare(
+    "INSERT INTO schema_version (version, name) VALUES ($version, $name) ON CONFLICT DO NOTHING",
+  );
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (migration.version <= plan.currentVersion) continue;
+    const backfilledRows = await storage.transaction(async () => {
+      // Another process may have applied it while this one waited for the write lock.
+      if ((await readSchemaVersion(storage)) >= migration.version) return undefined;
+      await applySchemaChange(storage, migration);
+      const rows = migration.backfill ? await migration.backfill(storage) : null;
+      await record.run({ $version: migration.version, $name: migration.name });
+      return rows;
+    });
+    if (backfilledRows !== undefined) {
+      applied.push({ version: migration.version, name: migration.name, backfilledRows });
+    }
+  }
+  return { ...plan, dryRun, applied };
+}
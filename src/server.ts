@@ -1,6 +1,16 @@
 import { Database } from "bun:sqlite";
 import { existsSync } from "node:fs";
 import { resolve, sep } from "node:path";
+import { getAddress } from "viem";
+import {
+  DFG_MOTIF_HOPS,
+  DFG_NGRAM_MAX,
+  extractNeighborhood,
+  NGRAM_SEPARATOR,
+} from "./dfg-motifs.ts";
+import { planMigrations } from "./schema.ts";
+import { createSqliteStorage, type Storage } from "./storage.ts";
+import { createPostgresStorage } from "./storage-postgres.ts";
 
 const DEFAULT_DB_PATH = "data/fhevm_stats.sqlite";
 const DEFAULT_PORT = 4310;
@@ -23,6 +33,7 @@ const DEFAULT_MAX_CHAIN_ID = 2_147_483_647;
 const DEFAULT_MAX_BLOCK_NUMBER = 9_999_999_999;
 
 const dbPath = Bun.env.DB_PATH ?? DEFAULT_DB_PATH;
+const databaseUrl = Bun.env.DATABASE_URL || undefined;
 const defaultChainId = parseNumber(Bun.env.CHAIN_ID);
 const isPlatformDeployment =
   (Bun.env.RAILWAY_ENVIRONMENT ?? "").trim().length > 0 || (Bun.env.PORT ?? "").trim().length > 0;
@@ -128,6 +139,7 @@ const cspHeader =
 const CALLER_REGEX = /^0x[a-fA-F0-9]{40}$/;
 const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
 const SIGNATURE_HASH_REGEX = /^[a-fA-F0-9]{64}$/;
+const OP_NAME_REGEX = /^[A-Za-z0-9]+$/;
 
 type RateLimitBucket = {
   windowStartMs: number;
@@ -137,8 +149,16 @@ type RateLimitBucket = {
 const rateLimitBuckets = new Map<string, RateLimitBucket>();
 let lastRateLimitSweepMs = Date.now();
 
-const db = new Database(dbPath, { readonly: true });
-db.exec("PRAGMA busy_timeout=5000;");
+// The API only reads; the ingestor owns the schema on either backend.
+const storage: Storage = databaseUrl ? createPostgresStorage(databaseUrl) : openSqliteReadonly();
+// It still refuses a database migrated by newer code, whose tables it could misread.
+await planMigrations(storage);
+
+function openSqliteReadonly(): Storage {
+  const db = new Database(dbPath, { readonly: true });
+  db.exec("PRAGMA busy_timeout=5000;");
+  return createSqliteStorage(db);
+}
 
 const uiDistDir = resolve(Bun.env.UI_DIST_DIR ?? DEFAULT_UI_DIST_DIR);
 const uiIndexPath = resolve(uiDistDir, "index.html");
@@ -149,6 +169,59 @@ type Filters = {
   startBlock?: number;
   endBlock?: number;
   eventName?: string;
+  /** Executor deployment that emitted the event. */
+  address?: string;
+};
+
+type DfgVariant = "raw" | "pruned";
+
+// `raw` keeps every computation; `pruned` is the graph after scheduler-style `finalize()`
+// pruning of nodes that never reach an ACL-allowed handle (see src/dfg-build.ts).
+const DFG_VARIANT_COLUMNS: Record<
+  DfgVariant,
+  {
+    nodeCount: string;
+    edgeCount: string;
+    depth: string;
+    signatureHash: string;
+    schedulerSignatureHash: string;
+    typedSignatureHash: string;
+  }
+> = {
+  raw: {
+    nodeCount: "node_count",
+    edgeCount: "edge_count",
+    depth: "depth",
+    signatureHash: "signature_hash",
+    schedulerSignatureHash: "scheduler_signature_hash",
+    typedSignatureHash: "typed_signature_hash",
+  },
+  pruned: {
+    nodeCount: "pruned_node_count",
+    edgeCount: "pruned_edge_count",
+    depth: "pruned_depth",
+    signatureHash: "pruned_signature_hash",
+    schedulerSignatureHash: "pruned_scheduler_signature_hash",
+    typedSignatureHash: "pruned_typed_signature_hash",
+  },
+};
+
+const DFG_SIGNATURE_MODES = ["log", "scheduler", "typed"] as const;
+type DfgSignatureMode = (typeof DFG_SIGNATURE_MODES)[number];
+
+// `log` hashes ops in log order (`v: 2`); `scheduler` orders them by output handle and
+// drops VerifyInput like the coprocessor scheduler (`v: 3`); `typed` is `log` plus result
+// and input types and input kinds (`v: 4`). See src/dfg-signature.ts.
+function signatureColumn(variant: DfgVariant, mode: DfgSignatureMode): string {
+  const columns = DFG_VARIANT_COLUMNS[variant];
+  if (mode === "scheduler") return columns.schedulerSignatureHash;
+  if (mode === "typed") return columns.typedSignatureHash;
+  return columns.signatureHash;
+}
+
+type BlockRange = {
+  startBlock?: number;
+  endBlock?: number;
 };
 
 type DepStats = {
@@ -184,20 +257,6 @@ const TYPE_COLUMNS: Record<string, string> = {
   if_false: "if_false_type",
 };
 
-function hasTable(name: string): boolean {
-  const row = db
-    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = $name")
-    .get({ $name: name }) as { name: string } | undefined;
-  return Boolean(row);
-}
-
-function hasIndex(name: string): boolean {
-  const row = db
-    .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND name = $name")
-    .get({ $name: name }) as { name: string } | undefined;
-  return Boolean(row);
-}
-
 function parseNumber(value: string | null | undefined, fallback?: number): number | undefined {
   if (value === undefined || value === null || value === "") return fallback;
   const parsed = Number(value);
@@ -415,6 +474,99 @@ function validateCaller(caller: string | undefined): Response | null {
   return null;
 }
 
+function validateSender(sender: string | undefined): Response | null {
+  if (!sender) return null;
+  if (!CALLER_REGEX.test(sender)) {
+    return jsonResponse({ error: "invalid_sender" }, 400);
+  }
+  return null;
+}
+
+// Block times come from the ingestor's blocks table; the newest possible timestamp is
+// only an upper bound for validation.
+const MAX_TIMESTAMP = 2 ** 40;
+
+/**
+ * Reads `startBlock`/`endBlock` plus optional `startTime`/`endTime` (unix seconds). Times
+ * are resolved to the first and last stored block inside the window and intersected with
+ * any explicit block bounds.
+ */
+async function parseBlockRange(
+  url: URL,
+  chainId: number | undefined,
+): Promise<BlockRange | Response> {
+  let startBlock = parseInteger(url.searchParams.get("startBlock"));
+  let endBlock = parseInteger(url.searchParams.get("endBlock"));
+  const startTime = parseInteger(url.searchParams.get("startTime"));
+  const endTime = parseInteger(url.searchParams.get("endTime"));
+  if (startTime === undefined && endTime === undefined) {
+    return { startBlock, endBlock };
+  }
+
+  const startTimeError = validateIntParam(startTime, "startTime", 0, MAX_TIMESTAMP);
+  if (startTimeError) return startTimeError;
+  const endTimeError = validateIntParam(endTime, "endTime", 0, MAX_TIMESTAMP);
+  if (endTimeError) return endTimeError;
+  if (startTime !== undefined && endTime !== undefined && startTime > endTime) {
+    return jsonResponse({ error: "invalid_time_range" }, 400);
+  }
+  if (chainId === undefined) {
+    return jsonResponse({ error: "chain_id_required" }, 400);
+  }
+  if (!(await storage.hasTable("blocks"))) {
+    return jsonResponse({ error: "blocks_table_missing" }, 404);
+  }
+
+  // A window with no stored blocks selects nothing; the sentinel keeps the range valid.
+  const emptyRange = { startBlock: maxBlockNumber, endBlock: maxBlockNumber };
+  if (startTime !== undefined) {
+    const row = (await storage
+      .prepare(
+        "SELECT MIN(number) AS number FROM blocks WHERE chain_id = $chainId AND timestamp >= $startTime",
+      )
+      .get({ $chainId: chainId, $startTime: startTime })) as { number: number | null };
+    if (row.number === null) return emptyRange;
+    startBlock = startBlock === undefined ? row.number : Math.max(startBlock, row.number);
+  }
+  if (endTime !== undefined) {
+    const row = (await storage
+      .prepare(
+        "SELECT MAX(number) AS number FROM blocks WHERE chain_id = $chainId AND timestamp <= $endTime",
+      )
+      .get({ $chainId: chainId, $endTime: endTime })) as { number: number | null };
+    if (row.number === null) return emptyRange;
+    endBlock = endBlock === undefined ? row.number : Math.min(endBlock, row.number);
+  }
+  if (startBlock !== undefined && endBlock !== undefined && startBlock > endBlock) {
+    return emptyRange;
+  }
+  return { startBlock, endBlock };
+}
+
+async function parseDfgVariant(url: URL): Promise<DfgVariant | Response> {
+  const value = url.searchParams.get("variant") ?? "raw";
+  if (value !== "raw" && value !== "pruned") {
+    return jsonResponse({ error: "invalid_variant", allowed: ["raw", "pruned"] }, 400);
+  }
+  if (value === "pruned" && !(await storage.hasColumn("dfg_txs", "pruned_node_count"))) {
+    return jsonResponse({ error: "dfg_pruned_missing" }, 404);
+  }
+  return value;
+}
+
+async function parseSignatureMode(url: URL): Promise<DfgSignatureMode | Response> {
+  const value = url.searchParams.get("signatureMode") ?? "log";
+  const mode = DFG_SIGNATURE_MODES.find((candidate) => candidate === value);
+  if (!mode) {
+    return jsonResponse({ error: "invalid_signature_mode", allowed: DFG_SIGNATURE_MODES }, 400);
+  }
+  // The API server does not migrate, so older databases may lack the newer signatures.
+  if (mode !== "log" && !(await storage.hasColumn("dfg_txs", signatureColumn("raw", mode)))) {
+    return jsonResponse({ error: `dfg_${mode}_signature_missing` }, 404);
+  }
+  return mode;
+}
+
 function validateFilters(filters: Filters): Response | null {
   const chainIdError = validateIntParam(filters.chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
@@ -423,6 +575,13 @@ function validateFilters(filters: Filters): Response | null {
   if (filters.eventName && filters.eventName.length > maxEventNameLength) {
     return jsonResponse({ error: "event_name_too_long" }, 400);
   }
+  if (filters.address) {
+    if (!CALLER_REGEX.test(filters.address)) {
+      return jsonResponse({ error: "invalid_address" }, 400);
+    }
+    // Stored checksummed; any casing from the query string compares equal (and indexed).
+    filters.address = getAddress(filters.address);
+  }
   return null;
 }
 
@@ -456,6 +615,10 @@ function buildWhereClause(filters: Filters): {
     clauses.push("event_name = $eventName");
     params.$eventName = filters.eventName;
   }
+  if (filters.address) {
+    clauses.push("address = $address");
+    params.$address = filters.address;
+  }
 
   if (clauses.length === 0) return { clause: "", params };
   return { clause: `WHERE ${clauses.join(" AND ")}`, params };
@@ -496,29 +659,35 @@ function tryServeUi(pathname: string): Response | null {
   return new Response(Bun.file(uiIndexPath));
 }
 
-function parseFilters(url: URL): Filters {
+async function parseFilters(url: URL): Promise<Filters | Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
-  const startBlock = parseInteger(url.searchParams.get("startBlock"));
-  const endBlock = parseInteger(url.searchParams.get("endBlock"));
+  const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
+  if (chainIdError) return chainIdError;
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
   const rawEventName = url.searchParams.get("eventName");
   const eventName =
     rawEventName && rawEventName.trim().length > 0 ? rawEventName.trim() : undefined;
-  return { chainId, startBlock, endBlock, eventName };
+  const address = url.searchParams.get("address")?.trim() || undefined;
+  return { chainId, startBlock, endBlock, eventName, address };
 }
 
 function handleHealth(): Response {
   return jsonResponse({ status: "ok" });
 }
 
-function handleDbStats(): Response {
-  const totalRow = db.prepare("SELECT COUNT(*) AS count FROM fhe_events").get() as {
+async function handleDbStats(): Promise<Response> {
+  const totalRow = (await storage.prepare("SELECT COUNT(*) AS count FROM fhe_events").get()) as {
     count: number;
   };
-  const sizeRow = db
+  const sizeRow = (await storage
     .prepare(
-      "SELECT page_count * page_size AS sizeBytes FROM pragma_page_count(), pragma_page_size()",
+      storage.dialect === "postgres"
+        ? "SELECT pg_database_size(current_database()) AS sizeBytes"
+        : "SELECT page_count * page_size AS sizeBytes FROM pragma_page_count(), pragma_page_size()",
     )
-    .get() as { sizeBytes: number };
+    .get()) as { sizeBytes: number };
 
   return jsonResponse({
     events: totalRow.count,
@@ -526,8 +695,9 @@ function handleDbStats(): Response {
   });
 }
 
-function handleIngestion(url: URL): Response {
-  const filters = parseFilters(url);
+async function handleIngestion(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
   const filtersError = validateFilters(filters);
   if (filtersError) return filtersError;
 
@@ -536,25 +706,25 @@ function handleIngestion(url: URL): Response {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
 
-  const checkpointRow = db
+  const checkpointRow = (await storage
     .prepare(
       `SELECT last_block AS lastBlock,
               updated_at AS updatedAt
        FROM checkpoints
        WHERE chain_id = $chainId`,
     )
-    .get({ $chainId: chainId }) as { lastBlock: number; updatedAt: string } | undefined;
+    .get({ $chainId: chainId })) as { lastBlock: number; updatedAt: string } | undefined;
 
-  const maxBlockRow = db
+  const maxBlockRow = (await storage
     .prepare("SELECT MAX(block_number) AS maxBlock FROM fhe_events WHERE chain_id = $chainId")
-    .get({ $chainId: chainId }) as { maxBlock: number | null } | undefined;
+    .get({ $chainId: chainId })) as { maxBlock: number | null } | undefined;
 
   const maxBlock = checkpointRow?.lastBlock ?? maxBlockRow?.maxBlock ?? null;
 
   const lastEventAtRow =
     maxBlock === null
       ? undefined
-      : (db
+      : ((await storage
           .prepare(
             `SELECT created_at AS lastEventAt
              FROM fhe_events
@@ -563,19 +733,115 @@ function handleIngestion(url: URL): Response {
              ORDER BY log_index DESC
              LIMIT 1`,
           )
-          .get({ $chainId: chainId, $maxBlock: maxBlock }) as
+          .get({ $chainId: chainId, $maxBlock: maxBlock })) as
           | { lastEventAt: string | null }
           | undefined);
 
-  const eventCountRow = hasTable("op_counts")
-    ? (db
+  const eventCountRow = filters.address
+    ? ((await storage
+        .prepare(
+          `SELECT COUNT(*) AS eventCount FROM fhe_events
+           WHERE chain_id = $chainId AND address = $address`,
+        )
+        .get({ $chainId: chainId, $address: filters.address })) as
+        | { eventCount: number }
+        | undefined)
+    : (await storage.hasTable("op_counts"))
+      ? ((await storage
+          .prepare(
+            "SELECT COALESCE(SUM(count), 0) AS eventCount FROM op_counts WHERE chain_id = $chainId",
+          )
+          .get({ $chainId: chainId })) as { eventCount: number } | undefined)
+      : ((await storage
+          .prepare("SELECT COUNT(*) AS eventCount FROM fhe_events WHERE chain_id = $chainId")
+          .get({ $chainId: chainId })) as { eventCount: number } | undefined);
+
+  const reorgCountRow = (await storage.hasTable("reorgs"))
+    ? ((await storage
+        .prepare("SELECT COUNT(*) AS count FROM reorgs WHERE chain_id = $chainId")
+        .get({ $chainId: chainId })) as { count: number } | undefined)
+    : undefined;
+  const recentReorgs = (await storage.hasTable("reorgs"))
+    ? ((await storage
+        .prepare(
+          `SELECT fork_block AS forkBlock,
+                  checkpoint_block AS checkpointBlock,
+                  stored_hash AS storedHash,
+                  canonical_hash AS canonicalHash,
+                  removed_events AS removedEvents,
+                  removed_txs AS removedTxs,
+                  detected_at AS detectedAt
+           FROM reorgs
+           WHERE chain_id = $chainId
+           ORDER BY id DESC
+           LIMIT 10`,
+        )
+        .all({ $chainId: chainId })) as Array<Record<string, unknown>>)
+    : [];
+
+  const gapSummaryRow = (await storage.hasTable("ingestion_gaps"))
+    ? ((await storage
+        .prepare(
+          `SELECT COUNT(*) AS count,
+                  COALESCE(SUM(to_block - next_block + 1), 0) AS missingBlocks
+           FROM ingestion_gaps
+           WHERE chain_id = $chainId AND status = 'open'`,
+        )
+        .get({ $chainId: chainId })) as { count: number; missingBlocks: number } | undefined)
+    : undefined;
+  const openGaps = (await storage.hasTable("ingestion_gaps"))
+    ? ((await storage
         .prepare(
-          "SELECT COALESCE(SUM(count), 0) AS eventCount FROM op_counts WHERE chain_id = $chainId",
+          `SELECT from_block AS fromBlock,
+                  to_block AS toBlock,
+                  next_block AS nextBlock,
+                  created_at AS createdAt,
+                  updated_at AS updatedAt
+           FROM ingestion_gaps
+           WHERE chain_id = $chainId AND status = 'open'
+           ORDER BY from_block DESC
+           LIMIT 50`,
         )
-        .get({ $chainId: chainId }) as { eventCount: number } | undefined)
-    : (db
-        .prepare("SELECT COUNT(*) AS eventCount FROM fhe_events WHERE chain_id = $chainId")
-        .get({ $chainId: chainId }) as { eventCount: number } | undefined);
+        .all({ $chainId: chainId })) as Array<Record<string, unknown>>)
+    : [];
+
+  const executors = (await storage.hasTable("executor_deployments"))
+    ? ((await storage
+        .prepare(
+          `SELECT address,
+                  from_block AS fromBlock,
+                  to_block AS toBlock,
+                  first_seen_at AS firstSeenAt,
+                  updated_at AS updatedAt
+           FROM executor_deployments
+           WHERE chain_id = $chainId${filters.address ? " AND address = $address" : ""}
+           ORDER BY COALESCE(from_block, 0), address`,
+        )
+        .all(
+          filters.address
+            ? { $chainId: chainId, $address: filters.address }
+            : { $chainId: chainId },
+        )) as Array<Record<string, unknown>>)
+    : [];
+
+  const rpcEndpoints = (await storage.hasTable("rpc_endpoint_stats"))
+    ? ((await storage
+        .prepare(
+          `SELECT endpoint,
+                  requests,
+                  failures,
+                  ranges_served AS rangesServed,
+                  score,
+                  last_from_block AS lastFromBlock,
+                  last_to_block AS lastToBlock,
+                  last_error AS lastError,
+                  updated_at AS updatedAt
+           FROM rpc_endpoint_stats
+           WHERE chain_id = $chainId
+           ORDER BY updated_at DESC`,
+        )
+        .all({ $chainId: chainId })) as Array<Record<string, unknown>>)
+    : [];
 
   return jsonResponse({
     chainId,
@@ -588,31 +854,45 @@ function handleIngestion(url: URL): Response {
       lastBlock: checkpointRow?.lastBlock ?? null,
       updatedAt: checkpointRow?.updatedAt ?? null,
     },
+    executors,
+    reorgs: {
+      count: reorgCountRow?.count ?? 0,
+      recent: recentReorgs,
+    },
+    gaps: {
+      open: gapSummaryRow?.count ?? 0,
+      missingBlocks: gapSummaryRow?.missingBlocks ?? 0,
+      ranges: openGaps,
+    },
+    rpcEndpoints,
   });
 }
 
-function handleOps(url: URL): Response {
-  const filters = parseFilters(url);
+async function handleOps(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
   const filtersError = validateFilters(filters);
   if (filtersError) return filtersError;
   const chainId = filters.chainId;
+  // Counters and rollups are not split by executor address.
   const canUseCounts =
     chainId !== undefined &&
     filters.startBlock === undefined &&
     filters.endBlock === undefined &&
-    hasTable("op_counts");
+    filters.address === undefined &&
+    (await storage.hasTable("op_counts"));
   if (canUseCounts) {
     const params: Record<string, string | number> = { $chainId: chainId };
     const extra = filters.eventName ? " AND event_name = $eventName" : "";
     if (filters.eventName) params.$eventName = filters.eventName;
-    const rows = db
+    const rows = (await storage
       .prepare(
         `SELECT event_name AS eventName, count AS count
          FROM op_counts
          WHERE chain_id = $chainId${extra}
          ORDER BY count DESC`,
       )
-      .all(params) as Array<{ eventName: string; count: number }>;
+      .all(params)) as Array<{ eventName: string; count: number }>;
 
     return jsonResponse({ filters, source: "op_counts", rows });
   }
@@ -620,15 +900,16 @@ function handleOps(url: URL): Response {
     chainId !== undefined &&
     filters.startBlock === undefined &&
     filters.endBlock === undefined &&
-    hasTable("op_buckets") &&
-    hasTable("rollup_checkpoints");
+    filters.address === undefined &&
+    (await storage.hasTable("op_buckets")) &&
+    (await storage.hasTable("rollup_checkpoints"));
   if (canUseRollup) {
-    const maxBlockRow = db
+    const maxBlockRow = (await storage
       .prepare("SELECT MAX(block_number) AS maxBlock FROM fhe_events WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { maxBlock: number | null } | undefined;
-    const checkpointRow = db
+      .get({ $chainId: chainId })) as { maxBlock: number | null } | undefined;
+    const checkpointRow = (await storage
       .prepare("SELECT last_block AS lastBlock FROM rollup_checkpoints WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { lastBlock: number | null } | undefined;
+      .get({ $chainId: chainId })) as { lastBlock: number | null } | undefined;
 
     const maxBlock = maxBlockRow?.maxBlock ?? null;
     const lastBlock = checkpointRow?.lastBlock ?? null;
@@ -637,7 +918,7 @@ function handleOps(url: URL): Response {
     const rollupComplete = maxBlock !== null && lastBlock !== null && lastBlock >= maxBlock;
     if (!rollupComplete) {
       const { clause, params } = buildWhereClause(filters);
-      const rows = db
+      const rows = (await storage
         .prepare(
           `SELECT event_name AS eventName, COUNT(*) AS count
            FROM fhe_events
@@ -645,16 +926,16 @@ function handleOps(url: URL): Response {
            GROUP BY event_name
            ORDER BY count DESC`,
         )
-        .all(params) as Array<{ eventName: string; count: number }>;
+        .all(params)) as Array<{ eventName: string; count: number }>;
 
       return jsonResponse({ filters, source: "raw", rows });
     }
 
-    const bucketRow = db
+    const bucketRow = (await storage
       .prepare(
         "SELECT MAX(bucket_seconds) AS bucketSeconds FROM op_buckets WHERE chain_id = $chainId",
       )
-      .get({ $chainId: chainId }) as { bucketSeconds: number | null };
+      .get({ $chainId: chainId })) as { bucketSeconds: number | null };
     if (bucketRow?.bucketSeconds) {
       const params: Record<string, string | number> = {
         $chainId: chainId,
@@ -663,7 +944,7 @@ function handleOps(url: URL): Response {
       const extra = filters.eventName ? " AND event_name = $eventName" : "";
       if (filters.eventName) params.$eventName = filters.eventName;
 
-      const rows = db
+      const rows = (await storage
         .prepare(
           `SELECT event_name AS eventName, SUM(count) AS count
            FROM op_buckets
@@ -671,7 +952,7 @@ function handleOps(url: URL): Response {
            GROUP BY event_name
            ORDER BY count DESC`,
         )
-        .all(params) as Array<{ eventName: string; count: number }>;
+        .all(params)) as Array<{ eventName: string; count: number }>;
 
       return jsonResponse({
         filters,
@@ -683,7 +964,7 @@ function handleOps(url: URL): Response {
   }
 
   const { clause, params } = buildWhereClause(filters);
-  const rows = db
+  const rows = (await storage
     .prepare(
       `SELECT event_name AS eventName, COUNT(*) AS count
        FROM fhe_events
@@ -691,13 +972,14 @@ function handleOps(url: URL): Response {
        GROUP BY event_name
        ORDER BY count DESC`,
     )
-    .all(params) as Array<{ eventName: string; count: number }>;
+    .all(params)) as Array<{ eventName: string; count: number }>;
 
   return jsonResponse({ filters, source: "raw", rows });
 }
 
-function handleSummary(url: URL): Response {
-  const filters = parseFilters(url);
+async function handleSummary(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
   const filtersError = validateFilters(filters);
   if (filtersError) return filtersError;
   const chainId = filters.chainId;
@@ -706,18 +988,19 @@ function handleSummary(url: URL): Response {
     filters.startBlock === undefined &&
     filters.endBlock === undefined &&
     filters.eventName === undefined &&
-    hasTable("op_counts") &&
-    hasTable("checkpoints")
+    filters.address === undefined &&
+    (await storage.hasTable("op_counts")) &&
+    (await storage.hasTable("checkpoints"))
   ) {
-    const countRow = db
+    const countRow = (await storage
       .prepare("SELECT COALESCE(SUM(count), 0) AS count FROM op_counts WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { count: number };
-    const minRow = db
+      .get({ $chainId: chainId })) as { count: number };
+    const minRow = (await storage
       .prepare("SELECT MIN(block_number) AS minBlock FROM fhe_events WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { minBlock: number | null };
-    const maxRow = db
+      .get({ $chainId: chainId })) as { minBlock: number | null };
+    const maxRow = (await storage
       .prepare("SELECT last_block AS maxBlock FROM checkpoints WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { maxBlock: number | null } | undefined;
+      .get({ $chainId: chainId })) as { maxBlock: number | null } | undefined;
 
     return jsonResponse({
       filters,
@@ -730,7 +1013,7 @@ function handleSummary(url: URL): Response {
   }
 
   const { clause, params } = buildWhereClause(filters);
-  const row = db
+  const row = (await storage
     .prepare(
       `SELECT COUNT(*) AS count,
               MIN(block_number) AS minBlock,
@@ -738,22 +1021,55 @@ function handleSummary(url: URL): Response {
        FROM fhe_events
        ${clause}`,
     )
-    .get(params) as { count: number; minBlock: number | null; maxBlock: number | null };
+    .get(params)) as { count: number; minBlock: number | null; maxBlock: number | null };
 
   return jsonResponse({ filters, summary: row });
 }
 
-function handleBuckets(url: URL): Response {
-  const filters = parseFilters(url);
+async function handleBuckets(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
   const filtersError = validateFilters(filters);
   if (filtersError) return filtersError;
 
+  const bucketSeconds = parseInteger(url.searchParams.get("bucketSeconds"));
+  if (bucketSeconds !== undefined) {
+    const bucketSecondsError = validateIntParam(bucketSeconds, "bucketSeconds", 1, maxBucketSize);
+    if (bucketSecondsError) return bucketSecondsError;
+    if (!(await storage.hasTable("blocks"))) {
+      return jsonResponse({ error: "blocks_table_missing" }, 404);
+    }
+    // Time buckets use stored block headers; events whose block has no header yet are
+    // reported separately instead of being guessed.
+    const { clause, params } = buildWhereClause(filters);
+    const rows = (await storage
+      .prepare(
+        `SELECT (CAST(b.timestamp / $bucketSeconds AS INTEGER) * $bucketSeconds) AS bucketStart,
+                COUNT(*) AS count
+         FROM (SELECT chain_id, block_number FROM fhe_events ${clause}) e
+         LEFT JOIN blocks b ON b.chain_id = e.chain_id AND b.number = e.block_number
+         GROUP BY bucketStart
+         ORDER BY bucketStart`,
+      )
+      .all({ ...params, $bucketSeconds: bucketSeconds })) as Array<{
+      bucketStart: number | null;
+      count: number;
+    }>;
+    const missing = rows.find((row) => row.bucketStart === null);
+    return jsonResponse({
+      filters,
+      bucketSeconds,
+      rows: rows.filter((row) => row.bucketStart !== null),
+      eventsWithoutBlockTime: missing?.count ?? 0,
+    });
+  }
+
   const bucketSize = parseInteger(url.searchParams.get("bucketSize")) ?? 1000;
   const bucketSizeError = validateIntParam(bucketSize, "bucketSize", 1, maxBucketSize);
   if (bucketSizeError) return bucketSizeError;
 
   const { clause, params } = buildWhereClause(filters);
-  const rows = db
+  const rows = (await storage
     .prepare(
       `SELECT (CAST(block_number / $bucketSize AS INTEGER) * $bucketSize) AS bucketStart,
               COUNT(*) AS count
@@ -762,13 +1078,154 @@ function handleBuckets(url: URL): Response {
        GROUP BY bucketStart
        ORDER BY bucketStart`,
     )
-    .all({ ...params, $bucketSize: bucketSize }) as Array<{ bucketStart: number; count: number }>;
+    .all({ ...params, $bucketSize: bucketSize })) as Array<{ bucketStart: number; count: number }>;
 
   return jsonResponse({ filters, bucketSize, rows });
 }
 
-function handleTypes(url: URL): Response {
-  const filters = parseFilters(url);
+async function handleExecutors(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
+  const filtersError = validateFilters(filters);
+  if (filtersError) return filtersError;
+  if (filters.chainId === undefined) {
+    return jsonResponse({ error: "chain_id_required" }, 400);
+  }
+
+  const { clause, params } = buildWhereClause(filters);
+  const counted = (await storage
+    .prepare(
+      `SELECT address,
+              COUNT(*) AS events,
+              MIN(block_number) AS firstBlock,
+              MAX(block_number) AS lastBlock
+       FROM fhe_events
+       ${clause}
+       GROUP BY address`,
+    )
+    .all(params)) as Array<{
+    address: string;
+    events: number;
+    firstBlock: number;
+    lastBlock: number;
+  }>;
+  const registry = (await storage.hasTable("executor_deployments"))
+    ? ((await storage
+        .prepare(
+          `SELECT address, from_block AS fromBlock, to_block AS toBlock
+           FROM executor_deployments
+           WHERE chain_id = $chainId`,
+        )
+        .all({ $chainId: filters.chainId })) as Array<{
+        address: string;
+        fromBlock: number | null;
+        toBlock: number | null;
+      }>)
+    : [];
+
+  // Addresses that emitted events but are no longer (or never were) configured still show
+  // up, with `configured: false`.
+  const rows = new Map<string, Record<string, unknown>>();
+  for (const entry of registry) {
+    if (filters.address && entry.address.toLowerCase() !== filters.address.toLowerCase()) {
+      continue;
+    }
+    rows.set(entry.address.toLowerCase(), {
+      address: entry.address,
+      configured: true,
+      fromBlock: entry.fromBlock,
+      toBlock: entry.toBlock,
+      events: 0,
+      firstBlock: null,
+      lastBlock: null,
+    });
+  }
+  for (const row of counted) {
+    const existing = rows.get(row.address.toLowerCase());
+    rows.set(row.address.toLowerCase(), {
+      ...(existing ?? { configured: false, fromBlock: null, toBlock: null }),
+      ...row,
+    });
+  }
+
+  return jsonResponse({ filters, rows: Array.from(rows.values()) });
+}
+
+async function handleTypeMismatches(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
+  const filtersError = validateFilters(filters);
+  if (filtersError) return filtersError;
+  const bucketSize = parseInteger(url.searchParams.get("bucketSize")) ?? 10_000;
+  const bucketSizeError = validateIntParam(bucketSize, "bucketSize", 1, maxBucketSize);
+  if (bucketSizeError) return bucketSizeError;
+  if (!(await storage.hasTable("type_mismatches"))) {
+    return jsonResponse({ filters, total: 0, rows: [], warning: "type_mismatches_missing" });
+  }
+
+  // The executor address lives on the event row.
+  const { clause, params } = buildWhereClause({ ...filters, address: undefined });
+  let where = clause;
+  if (filters.address) {
+    where += `${clause ? " AND" : "WHERE"} EXISTS (
+      SELECT 1 FROM fhe_events e
+      WHERE e.chain_id = type_mismatches.chain_id
+        AND e.tx_hash = type_mismatches.tx_hash
+        AND e.log_index = type_mismatches.log_index
+        AND e.address = $address
+    )`;
+    params.$address = filters.address;
+  }
+
+  const total = (await storage
+    .prepare(`SELECT COUNT(*) AS count FROM type_mismatches ${where}`)
+    .get(params)) as { count: number };
+  const byEvent = (await storage
+    .prepare(
+      `SELECT event_name AS eventName,
+              expected_type AS expectedType,
+              actual_type AS actualType,
+              COUNT(*) AS count,
+              MIN(block_number) AS firstBlock,
+              MAX(block_number) AS lastBlock
+       FROM type_mismatches
+       ${where}
+       GROUP BY event_name, expected_type, actual_type
+       ORDER BY count DESC`,
+    )
+    .all(params)) as Array<Record<string, unknown>>;
+  const buckets = (await storage
+    .prepare(
+      `SELECT (CAST(block_number / $bucketSize AS INTEGER) * $bucketSize) AS bucketStart,
+              COUNT(*) AS count
+       FROM type_mismatches
+       ${where}
+       GROUP BY bucketStart
+       ORDER BY bucketStart`,
+    )
+    .all({ ...params, $bucketSize: bucketSize })) as Array<{ bucketStart: number; count: number }>;
+  const recent = (await storage
+    .prepare(
+      `SELECT chain_id AS chainId,
+              block_number AS blockNumber,
+              tx_hash AS txHash,
+              log_index AS logIndex,
+              event_name AS eventName,
+              expected_type AS expectedType,
+              actual_type AS actualType
+       FROM type_mismatches
+       ${where}
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 20`,
+    )
+    .all(params)) as Array<Record<string, unknown>>;
+
+  return jsonResponse({ filters, total: total.count, byEvent, bucketSize, buckets, recent });
+}
+
+async function handleTypes(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
   const filtersError = validateFilters(filters);
   if (filtersError) return filtersError;
 
@@ -788,7 +1245,7 @@ function handleTypes(url: URL): Response {
   const extraFilter = clause
     ? `${clause} AND ${column} IS NOT NULL`
     : `WHERE ${column} IS NOT NULL`;
-  const rows = db
+  const rows = (await storage
     .prepare(
       `SELECT ${column} AS typeValue, COUNT(*) AS count
        FROM fhe_events
@@ -796,13 +1253,14 @@ function handleTypes(url: URL): Response {
        GROUP BY ${column}
        ORDER BY count DESC`,
     )
-    .all(params) as Array<{ typeValue: number; count: number }>;
+    .all(params)) as Array<{ typeValue: number; count: number }>;
 
   return jsonResponse({ filters, role, rows });
 }
 
-function handleOpTypes(url: URL): Response {
-  const filters = parseFilters(url);
+async function handleOpTypes(url: URL): Promise<Response> {
+  const filters = await parseFilters(url);
+  if (filters instanceof Response) return filters;
   const filtersError = validateFilters(filters);
   if (filtersError) return filtersError;
 
@@ -822,7 +1280,7 @@ function handleOpTypes(url: URL): Response {
   const { clause, params } = buildWhereClause(filters);
   const baseClause = clause ? `${clause} AND ${column} IS NOT NULL` : `WHERE ${column} IS NOT NULL`;
 
-  const typeRows = db
+  const typeRows = (await storage
     .prepare(
       `SELECT event_name AS eventName, CAST(${column} AS TEXT) AS typeValue, COUNT(*) AS count
        FROM fhe_events
@@ -830,23 +1288,23 @@ function handleOpTypes(url: URL): Response {
        GROUP BY event_name, ${column}
        ORDER BY event_name, count DESC`,
     )
-    .all(params) as Array<{ eventName: string; typeValue: string; count: number }>;
+    .all(params)) as Array<{ eventName: string; typeValue: string; count: number }>;
 
   let rows = typeRows;
   if (includeScalar && role === "rhs") {
     const scalarClause = clause ? `${clause} AND scalar_flag = 1` : "WHERE scalar_flag = 1";
-    const scalarRows = db
+    const scalarRows = (await storage
       .prepare(
         `SELECT event_name AS eventName, 'scalar' AS typeValue, COUNT(*) AS count
          FROM fhe_events
          ${scalarClause}
          GROUP BY event_name`,
       )
-      .all(params) as Array<{ eventName: string; typeValue: string; count: number }>;
+      .all(params)) as Array<{ eventName: string; typeValue: string; count: number }>;
     rows = [...typeRows, ...scalarRows];
   }
 
-  const totalRows = db
+  const totalRows = (await storage
     .prepare(
       `SELECT event_name AS eventName, COUNT(*) AS count
        FROM fhe_events
@@ -854,11 +1312,233 @@ function handleOpTypes(url: URL): Response {
        GROUP BY event_name
        ORDER BY count DESC`,
     )
-    .all(params) as Array<{ eventName: string; count: number }>;
+    .all(params)) as Array<{ eventName: string; count: number }>;
 
   return jsonResponse({ filters, role, includeScalar, rows, totals: totalRows });
 }
 
+type DecryptionScope = {
+  chainId: number;
+  startBlock?: number;
+  endBlock?: number;
+  clauses: string[];
+  params: Record<string, string | number>;
+};
+
+// Requests are filtered by the chain and blocks they were made in; their handles may have
+// been computed on another chain (gateway requests), which `handle_chain_id` records.
+// `address=` selects an executor deployment elsewhere, but requests come from the one
+// decryption contract and nothing stored ties a handle to the executor that emitted it, so
+// it is rejected here rather than silently ignored.
+async function parseDecryptionScope(url: URL): Promise<DecryptionScope | Response> {
+  const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
+  const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
+  if (chainIdError) return chainIdError;
+  if (chainId === undefined) {
+    return jsonResponse({ error: "chain_id_required" }, 400);
+  }
+  if (url.searchParams.get("address")?.trim()) {
+    return jsonResponse({ error: "unsupported_parameter", parameter: "address" }, 400);
+  }
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
+  const rangeError = validateBlockRange(startBlock, endBlock);
+  if (rangeError) return rangeError;
+
+  const clauses = ["d.chain_id = $chainId"];
+  const params: Record<string, string | number> = { $chainId: chainId };
+  if (startBlock !== undefined) {
+    clauses.push("d.block_number >= $startBlock");
+    params.$startBlock = startBlock;
+  }
+  if (endBlock !== undefined) {
+    clauses.push("d.block_number <= $endBlock");
+    params.$endBlock = endBlock;
+  }
+  return { chainId, startBlock, endBlock, clauses, params };
+}
+
+async function handleDecryptions(url: URL): Promise<Response> {
+  const scope = await parseDecryptionScope(url);
+  if (scope instanceof Response) return scope;
+  const { chainId, startBlock, endBlock } = scope;
+  const bucketSize = parseInteger(url.searchParams.get("bucketSize")) ?? 10;
+  const bucketSizeError = validateIntParam(bucketSize, "bucketSize", 1, maxBucketSize);
+  if (bucketSizeError) return bucketSizeError;
+  const filters = { chainId, startBlock, endBlock };
+  if (!(await storage.hasTable("decryption_requests"))) {
+    return jsonResponse({ filters, rows: [], warning: "decryption_table_missing" });
+  }
+
+  const where = `WHERE ${scope.clauses.join(" AND ")}`;
+  const byEvent = (await storage
+    .prepare(
+      `SELECT d.event_name AS eventName,
+              d.kind AS kind,
+              COUNT(DISTINCT d.tx_hash || ':' || d.log_index) AS requests,
+              COUNT(*) AS handles,
+              COUNT(DISTINCT d.handle) AS distinctHandles
+       FROM decryption_requests d
+       ${where}
+       GROUP BY d.event_name, d.kind
+       ORDER BY requests DESC`,
+    )
+    .all(scope.params)) as Array<{
+    eventName: string;
+    kind: string;
+    requests: number;
+    handles: number;
+    distinctHandles: number;
+  }>;
+
+  const totals = (await storage
+    .prepare(
+      `SELECT COUNT(DISTINCT d.tx_hash || ':' || d.log_index) AS requests,
+              COUNT(*) AS handles,
+              COUNT(DISTINCT d.handle) AS distinctHandles
+       FROM decryption_requests d
+       ${where}`,
+    )
+    .get(scope.params)) as { requests: number; handles: number; distinctHandles: number };
+
+  if (!(await storage.hasTable("dfg_handle_producers"))) {
+    return jsonResponse({
+      filters,
+      totals,
+      byEvent,
+      latency: null,
+      warning: "dfg_tables_missing",
+    });
+  }
+
+  // Block distance only means something when the request and the computation share a
+  // chain; seconds come from stored block headers and work across chains.
+  const linkedJoin = `FROM decryption_requests d
+    JOIN dfg_handle_producers p ON p.chain_id = d.handle_chain_id AND p.handle = d.handle`;
+  const linkedFrom = `${linkedJoin}
+    ${where}`;
+  const latencyRow = (await storage
+    .prepare(
+      `SELECT COUNT(*) AS linkedHandles,
+              SUM(CASE WHEN p.chain_id = d.chain_id THEN 1 ELSE 0 END) AS sameChainHandles,
+              AVG(CASE WHEN p.chain_id = d.chain_id THEN d.block_number - p.block_number END)
+                AS avgBlocks,
+              MIN(CASE WHEN p.chain_id = d.chain_id THEN d.block_number - p.block_number END)
+                AS minBlocks,
+              MAX(CASE WHEN p.chain_id = d.chain_id THEN d.block_number - p.block_number END)
+                AS maxBlocks,
+              AVG(db.timestamp - pb.timestamp) AS avgSeconds
+       ${linkedJoin}
+       LEFT JOIN blocks db ON db.chain_id = d.chain_id AND db.number = d.block_number
+       LEFT JOIN blocks pb ON pb.chain_id = p.chain_id AND pb.number = p.block_number
+       ${where}`,
+    )
+    .get(scope.params)) as {
+    linkedHandles: number;
+    sameChainHandles: number | null;
+    avgBlocks: number | null;
+    minBlocks: number | null;
+    maxBlocks: number | null;
+    avgSeconds: number | null;
+  };
+
+  const sameChainFrom = `${linkedFrom} AND p.chain_id = d.chain_id`;
+  const sameChainHandles = latencyRow.sameChainHandles ?? 0;
+  const percentile = async (quantile: number): Promise<number | null> => {
+    if (sameChainHandles === 0) return null;
+    const row = (await storage
+      .prepare(
+        `SELECT d.block_number - p.block_number AS blocks
+         ${sameChainFrom}
+         ORDER BY blocks
+         LIMIT 1 OFFSET $offset`,
+      )
+      .get({
+        ...scope.params,
+        $offset: Math.floor((sameChainHandles - 1) * quantile),
+      })) as { blocks: number } | null;
+    return row?.blocks ?? null;
+  };
+  const buckets = (await storage
+    .prepare(
+      `SELECT (CAST((d.block_number - p.block_number) / $bucketSize AS INTEGER) * $bucketSize)
+                AS bucketStart,
+              COUNT(*) AS count
+       ${sameChainFrom}
+       GROUP BY bucketStart
+       ORDER BY bucketStart`,
+    )
+    .all({ ...scope.params, $bucketSize: bucketSize })) as Array<{
+    bucketStart: number;
+    count: number;
+  }>;
+
+  return jsonResponse({
+    filters,
+    totals: {
+      ...totals,
+      linkedHandles: latencyRow.linkedHandles,
+      unlinkedHandles: totals.handles - latencyRow.linkedHandles,
+    },
+    byEvent,
+    latency: {
+      sameChainHandles,
+      avgBlocks: latencyRow.avgBlocks,
+      minBlocks: latencyRow.minBlocks,
+      maxBlocks: latencyRow.maxBlocks,
+      p50Blocks: await percentile(0.5),
+      p90Blocks: await percentile(0.9),
+      avgSeconds: latencyRow.avgSeconds,
+      bucketSize,
+      buckets,
+    },
+  });
+}
+
+async function handleDecryptionOps(url: URL): Promise<Response> {
+  const scope = await parseDecryptionScope(url);
+  if (scope instanceof Response) return scope;
+  const { chainId, startBlock, endBlock } = scope;
+  const filters = { chainId, startBlock, endBlock };
+  if (
+    !(await storage.hasTable("decryption_requests")) ||
+    !(await storage.hasTable("dfg_handle_producers"))
+  ) {
+    return jsonResponse({ filters, rows: [], warning: "decryption_or_dfg_tables_missing" });
+  }
+
+  // The producing node is the one whose output is the decrypted handle; handles whose
+  // producer was never built (or came from an input proof) are reported as unlinked.
+  const rows = (await storage
+    .prepare(
+      `SELECT COALESCE(n.op, 'unlinked') AS op,
+              COUNT(*) AS handles,
+              COUNT(DISTINCT d.handle) AS distinctHandles,
+              COUNT(DISTINCT d.tx_hash || ':' || d.log_index) AS requests,
+              SUM(CASE WHEN d.kind = 'user' THEN 1 ELSE 0 END) AS userHandles,
+              SUM(CASE WHEN d.kind = 'public' THEN 1 ELSE 0 END) AS publicHandles
+       FROM decryption_requests d
+       LEFT JOIN dfg_handle_producers p
+         ON p.chain_id = d.handle_chain_id AND p.handle = d.handle
+       LEFT JOIN dfg_nodes n
+         ON n.chain_id = p.chain_id AND n.tx_hash = p.tx_hash AND n.output_handle = p.handle
+       WHERE ${scope.clauses.join(" AND ")}
+       GROUP BY COALESCE(n.op, 'unlinked')
+       ORDER BY handles DESC`,
+    )
+    .all(scope.params)) as Array<{
+    op: string;
+    handles: number;
+    distinctHandles: number;
+    requests: number;
+    userHandles: number;
+    publicHandles: number;
+  }>;
+
+  return jsonResponse({ filters, rows });
+}
+
 function parseJson(value: string | null): unknown | null {
   if (!value) return null;
   try {
@@ -928,14 +1608,14 @@ function normalizeDepStats(value: unknown): DepStats | null {
   return null;
 }
 
-function handleDfgTxs(url: URL): Response {
+async function handleDfgTxs(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_txs")) {
+  if (!(await storage.hasTable("dfg_txs"))) {
     return jsonResponse({
       filters: { chainId },
       limit: 0,
@@ -953,8 +1633,18 @@ function handleDfgTxs(url: URL): Response {
   const callerRaw = url.searchParams.get("caller");
   const caller =
     callerRaw && callerRaw.trim().length > 0 ? callerRaw.trim().toLowerCase() : undefined;
-  const startBlock = parseInteger(url.searchParams.get("startBlock"));
-  const endBlock = parseInteger(url.searchParams.get("endBlock"));
+  const senderRaw = url.searchParams.get("sender");
+  const sender =
+    senderRaw && senderRaw.trim().length > 0 ? senderRaw.trim().toLowerCase() : undefined;
+  const variant = await parseDfgVariant(url);
+  if (variant instanceof Response) return variant;
+  const columns = DFG_VARIANT_COLUMNS[variant];
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn(variant, signatureMode);
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
 
   const paginationError = validatePagination(limit, offset);
   if (paginationError) return paginationError;
@@ -964,20 +1654,27 @@ function handleDfgTxs(url: URL): Response {
   if (signatureHashError) return signatureHashError;
   const callerError = validateCaller(caller);
   if (callerError) return callerError;
+  const senderError = validateSender(sender);
+  if (senderError) return senderError;
   const rangeError = validateBlockRange(startBlock, endBlock);
   if (rangeError) return rangeError;
 
-  const hasTxCallers = hasTable("tx_callers");
+  const hasTxCallers = await storage.hasTable("tx_callers");
+  const hasTxReceipts = await storage.hasTable("tx_receipts");
+  if (sender && !hasTxReceipts) {
+    return jsonResponse({ error: "tx_receipts_missing" }, 404);
+  }
 
   const clauses = ["t.chain_id = $chainId"];
+  if (variant === "pruned") clauses.push("t.pruned_node_count IS NOT NULL");
   const params: Record<string, string | number> = { $chainId: chainId };
 
   if (minNodes !== undefined) {
-    clauses.push("t.node_count >= $minNodes");
+    clauses.push(`t.${columns.nodeCount} >= $minNodes`);
     params.$minNodes = minNodes;
   }
   if (signatureHash) {
-    clauses.push("t.signature_hash = $signatureHash");
+    clauses.push(`t.${signatureHashColumn} = $signatureHash`);
     params.$signatureHash = signatureHash;
   }
   if (startBlock !== undefined) {
@@ -988,8 +1685,11 @@ function handleDfgTxs(url: URL): Response {
     clauses.push("t.block_number <= $endBlock");
     params.$endBlock = endBlock;
   }
+  // INDEXED BY is a SQLite planner hint; PostgreSQL picks its own plan.
   const useBlockIndex =
-    (startBlock !== undefined || endBlock !== undefined) && hasIndex("dfg_txs_block");
+    storage.dialect === "sqlite" &&
+    (startBlock !== undefined || endBlock !== undefined) &&
+    (await storage.hasIndex("dfg_txs_block"));
   const txsFrom = useBlockIndex ? "dfg_txs t INDEXED BY dfg_txs_block" : "dfg_txs t";
   let fromClause = `FROM ${txsFrom}`;
   if (caller && hasTxCallers) {
@@ -1010,22 +1710,39 @@ function handleDfgTxs(url: URL): Response {
     );
     params.$callerLower = caller;
   }
+  if (sender) {
+    clauses.push(
+      `EXISTS (
+         SELECT 1
+         FROM tx_receipts r
+         WHERE r.chain_id = t.chain_id AND r.tx_hash = t.tx_hash AND r.from_address = $sender
+       )`,
+    );
+    params.$sender = sender;
+  }
+  const receiptColumns = hasTxReceipts
+    ? `(SELECT r.from_address FROM tx_receipts r
+         WHERE r.chain_id = t.chain_id AND r.tx_hash = t.tx_hash) AS sender,
+       (SELECT r.gas_used FROM tx_receipts r
+         WHERE r.chain_id = t.chain_id AND r.tx_hash = t.tx_hash) AS gasUsed`
+    : "NULL AS sender, NULL AS gasUsed";
 
-  const rows = db
+  const rows = (await storage
     .prepare(
       `SELECT t.tx_hash AS txHash,
               t.block_number AS blockNumber,
-              t.node_count AS nodeCount,
-              t.edge_count AS edgeCount,
-              t.depth,
-              t.signature_hash AS signatureHash,
-              t.stats_json AS statsJson
+              t.${columns.nodeCount} AS nodeCount,
+              t.${columns.edgeCount} AS edgeCount,
+              t.${columns.depth} AS depth,
+              t.${signatureHashColumn} AS signatureHash,
+              t.stats_json AS statsJson,
+              ${receiptColumns}
        ${fromClause}
        WHERE ${clauses.join(" AND ")}
        ORDER BY t.block_number DESC, t.tx_hash DESC
        LIMIT $limit OFFSET $offset`,
     )
-    .all({ ...params, $limit: limit, $offset: offset }) as Array<{
+    .all({ ...params, $limit: limit, $offset: offset })) as Array<{
     txHash: string;
     blockNumber: number;
     nodeCount: number;
@@ -1033,6 +1750,8 @@ function handleDfgTxs(url: URL): Response {
     depth: number;
     signatureHash: string | null;
     statsJson: string | null;
+    sender: string | null;
+    gasUsed: number | null;
   }>;
 
   const normalized = rows.map((row) => ({
@@ -1042,19 +1761,31 @@ function handleDfgTxs(url: URL): Response {
     edgeCount: row.edgeCount,
     depth: row.depth,
     signatureHash: row.signatureHash,
+    sender: row.sender,
+    gasUsed: row.gasUsed,
     stats: parseJson(row.statsJson),
   }));
 
-  const totalRow = db
+  const totalRow = (await storage
     .prepare(
       `SELECT COUNT(*) AS count
        ${fromClause}
        WHERE ${clauses.join(" AND ")}`,
     )
-    .get(params) as { count: number };
+    .get(params)) as { count: number };
 
   return jsonResponse({
-    filters: { chainId, minNodes, signatureHash, caller, startBlock, endBlock },
+    filters: {
+      chainId,
+      variant,
+      signatureMode,
+      minNodes,
+      signatureHash,
+      caller,
+      sender,
+      startBlock,
+      endBlock,
+    },
     limit,
     offset,
     rows: normalized,
@@ -1062,14 +1793,94 @@ function handleDfgTxs(url: URL): Response {
   });
 }
 
-function handleDfgTx(url: URL): Response {
+// Gas cost per DFG size: how much a tx pays as its FHE graph grows. Needs receipts from
+// `bun run enrich:receipts` (or TX_RECEIPTS_PER_POLL in the ingestor).
+async function handleDfgGas(url: URL): Promise<Response> {
+  const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
+  const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
+  if (chainIdError) return chainIdError;
+  if (chainId === undefined) {
+    return jsonResponse({ error: "chain_id_required" }, 400);
+  }
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
+  const rangeError = validateBlockRange(startBlock, endBlock);
+  if (rangeError) return rangeError;
+  if (!(await storage.hasTable("dfg_txs")) || !(await storage.hasTable("tx_receipts"))) {
+    return jsonResponse({
+      filters: { chainId, startBlock, endBlock },
+      rows: [],
+      warning: "dfg_or_receipt_tables_missing",
+    });
+  }
+
+  const clauses = ["t.chain_id = $chainId", "r.status = 'success'"];
+  const params: Record<string, string | number> = { $chainId: chainId };
+  if (startBlock !== undefined) {
+    clauses.push("t.block_number >= $startBlock");
+    params.$startBlock = startBlock;
+  }
+  if (endBlock !== undefined) {
+    clauses.push("t.block_number <= $endBlock");
+    params.$endBlock = endBlock;
+  }
+  const fromClause = `FROM dfg_txs t
+    JOIN tx_receipts r ON r.chain_id = t.chain_id AND r.tx_hash = t.tx_hash
+    WHERE ${clauses.join(" AND ")}`;
+
+  const rows = (await storage
+    .prepare(
+      `SELECT t.node_count AS nodeCount,
+              COUNT(*) AS txs,
+              AVG(r.gas_used) AS avgGasUsed,
+              MIN(r.gas_used) AS minGasUsed,
+              MAX(r.gas_used) AS maxGasUsed,
+              AVG(CAST(r.gas_used AS REAL) / ${storage.sql.greatest("t.node_count", "1")}) AS avgGasPerNode,
+              AVG(CAST(r.gas_used AS REAL) * r.effective_gas_price) / 1e9 AS avgFeeGwei
+       ${fromClause}
+       GROUP BY t.node_count
+       ORDER BY t.node_count`,
+    )
+    .all(params)) as Array<{
+    nodeCount: number;
+    txs: number;
+    avgGasUsed: number;
+    minGasUsed: number;
+    maxGasUsed: number;
+    avgGasPerNode: number;
+    avgFeeGwei: number | null;
+  }>;
+
+  const totalsRow = (await storage
+    .prepare(
+      `SELECT COUNT(*) AS txs,
+              SUM(t.node_count) AS nodes,
+              SUM(r.gas_used) AS gasUsed
+       ${fromClause}`,
+    )
+    .get(params)) as { txs: number; nodes: number | null; gasUsed: number | null };
+
+  return jsonResponse({
+    filters: { chainId, startBlock, endBlock },
+    totals: {
+      txs: totalsRow.txs,
+      nodes: totalsRow.nodes ?? 0,
+      gasUsed: totalsRow.gasUsed ?? 0,
+      gasPerNode: totalsRow.nodes && totalsRow.gasUsed ? totalsRow.gasUsed / totalsRow.nodes : null,
+    },
+    rows,
+  });
+}
+
+async function handleDfgTx(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_txs")) {
+  if (!(await storage.hasTable("dfg_txs"))) {
     return jsonResponse({ error: "dfg_tables_missing" }, 404);
   }
 
@@ -1080,29 +1891,45 @@ function handleDfgTx(url: URL): Response {
   const txHashError = validateTxHash(txHash);
   if (txHashError) return txHashError;
 
+  const variant = await parseDfgVariant(url);
+  if (variant instanceof Response) return variant;
+  const columns = DFG_VARIANT_COLUMNS[variant];
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const hasAclFlags = await storage.hasColumn("dfg_nodes", "is_allowed");
+  const hasCalls = await storage.hasColumn("dfg_nodes", "call_frame");
+
+  // Restricts the graph to the events of one contract call (see `calls`).
+  const frame = parseInteger(url.searchParams.get("frame"));
+  const frameError = validateIntParam(frame, "frame", 0, Number.MAX_SAFE_INTEGER);
+  if (frameError) return frameError;
+  if (frame !== undefined && !hasCalls) {
+    return jsonResponse({ error: "dfg_calls_missing" }, 404);
+  }
+
   const lookbackBlocks = parseInteger(url.searchParams.get("lookbackBlocks"));
   const lookbackError = validateIntParam(lookbackBlocks, "lookbackBlocks", 1, maxWindowLookback);
   if (lookbackError) return lookbackError;
 
-  const txRow = db
+  const txRow = (await storage
     .prepare(
       `SELECT tx_hash AS txHash,
               block_number AS blockNumber,
-              node_count AS nodeCount,
-              edge_count AS edgeCount,
-              depth,
-              signature_hash AS signatureHash,
+              ${columns.nodeCount} AS nodeCount,
+              ${columns.edgeCount} AS edgeCount,
+              ${columns.depth} AS depth,
+              ${signatureColumn(variant, signatureMode)} AS signatureHash,
               stats_json AS statsJson
        FROM dfg_txs
        WHERE chain_id = $chainId AND tx_hash = $txHash`,
     )
-    .get({ $chainId: chainId, $txHash: txHash }) as
+    .get({ $chainId: chainId, $txHash: txHash })) as
     | {
         txHash: string;
         blockNumber: number;
-        nodeCount: number;
-        edgeCount: number;
-        depth: number;
+        nodeCount: number | null;
+        edgeCount: number | null;
+        depth: number | null;
         signatureHash: string | null;
         statsJson: string | null;
       }
@@ -1111,29 +1938,51 @@ function handleDfgTx(url: URL): Response {
   if (!txRow) {
     return jsonResponse({ error: "not_found" }, 404);
   }
+  if (variant === "pruned" && txRow.nodeCount === null) {
+    return jsonResponse({ error: "dfg_pruned_missing" }, 404);
+  }
 
-  const nodes = db
+  const nodes = (await storage
     .prepare(
       `SELECT node_id AS nodeId,
               op,
               output_handle AS outputHandle,
               input_count AS inputCount,
               scalar_flag AS scalarFlag,
-              type_info_json AS typeInfoJson
+              type_info_json AS typeInfoJson,
+              ${hasAclFlags ? "is_allowed" : "NULL"} AS isAllowed,
+              ${hasAclFlags ? "is_pruned" : "NULL"} AS isPruned,
+              ${hasCalls ? "call_frame" : "NULL"} AS callFrame,
+              ${hasCalls ? "call_depth" : "NULL"} AS callDepth,
+              ${hasCalls ? "call_contract" : "NULL"} AS callContract,
+              ${hasCalls ? "call_selector" : "NULL"} AS callSelector
        FROM dfg_nodes
        WHERE chain_id = $chainId AND tx_hash = $txHash
+         ${variant === "pruned" ? "AND is_pruned = 0" : ""}
+         ${frame !== undefined ? "AND call_frame = $frame" : ""}
        ORDER BY node_id`,
     )
-    .all({ $chainId: chainId, $txHash: txHash }) as Array<{
+    .all({
+      $chainId: chainId,
+      $txHash: txHash,
+      ...(frame !== undefined ? { $frame: frame } : {}),
+    })) as Array<{
     nodeId: number;
     op: string;
     outputHandle: string | null;
     inputCount: number;
     scalarFlag: number | null;
     typeInfoJson: string | null;
+    isAllowed: number | null;
+    isPruned: number | null;
+    callFrame: number | null;
+    callDepth: number | null;
+    callContract: string | null;
+    callSelector: string | null;
   }>;
 
-  const edges = db
+  const keptNodeIds = new Set(nodes.map((node) => node.nodeId));
+  const edges = (await storage
     .prepare(
       `SELECT from_node_id AS fromNodeId,
               to_node_id AS toNodeId,
@@ -1142,20 +1991,58 @@ function handleDfgTx(url: URL): Response {
        WHERE chain_id = $chainId AND tx_hash = $txHash
        ORDER BY from_node_id, to_node_id`,
     )
-    .all({ $chainId: chainId, $txHash: txHash }) as Array<{
+    .all({ $chainId: chainId, $txHash: txHash })) as Array<{
     fromNodeId: number;
     toNodeId: number;
     inputHandle: string;
   }>;
+  const variantEdges =
+    variant === "pruned" || frame !== undefined
+      ? edges.filter((edge) => keptNodeIds.has(edge.fromNodeId) && keptNodeIds.has(edge.toNodeId))
+      : edges;
+
+  // One slice per traced contract call, with the edges that stay inside it.
+  const nodeFrames = new Map(nodes.map((node) => [node.nodeId, node.callFrame]));
+  const calls = new Map<
+    number,
+    {
+      frame: number;
+      depth: number | null;
+      contract: string | null;
+      selector: string | null;
+      nodeIds: number[];
+      internalEdges: number;
+    }
+  >();
+  for (const node of nodes) {
+    if (node.callFrame === null) continue;
+    const call = calls.get(node.callFrame) ?? {
+      frame: node.callFrame,
+      depth: node.callDepth,
+      contract: node.callContract,
+      selector: node.callSelector,
+      nodeIds: [],
+      internalEdges: 0,
+    };
+    call.nodeIds.push(node.nodeId);
+    calls.set(node.callFrame, call);
+  }
+  for (const edge of variantEdges) {
+    const fromFrame = nodeFrames.get(edge.fromNodeId);
+    if (fromFrame === null || fromFrame === undefined) continue;
+    if (nodeFrames.get(edge.toNodeId) !== fromFrame) continue;
+    const call = calls.get(fromFrame);
+    if (call) call.internalEdges += 1;
+  }
 
-  const inputs = db
+  const inputs = (await storage
     .prepare(
       `SELECT handle, kind
        FROM dfg_inputs
        WHERE chain_id = $chainId AND tx_hash = $txHash
        ORDER BY handle`,
     )
-    .all({ $chainId: chainId, $txHash: txHash }) as Array<{ handle: string; kind: string }>;
+    .all({ $chainId: chainId, $txHash: txHash })) as Array<{ handle: string; kind: string }>;
 
   // Compute cut edges if lookbackBlocks is specified
   const cutEdges: Array<{
@@ -1165,18 +2052,18 @@ function handleDfgTx(url: URL): Response {
     windowStart: number;
   }> = [];
 
-  if (lookbackBlocks !== undefined && hasTable("dfg_handle_producers")) {
+  if (lookbackBlocks !== undefined && (await storage.hasTable("dfg_handle_producers"))) {
     const windowStart = txRow.blockNumber - lookbackBlocks + 1;
     const externalInputs = inputs.filter((input) => input.kind === "external");
 
     for (const input of externalInputs) {
-      const producerRow = db
+      const producerRow = (await storage
         .prepare(
           `SELECT tx_hash AS producerTxHash, block_number AS producerBlock
            FROM dfg_handle_producers
            WHERE chain_id = $chainId AND handle = $handle`,
         )
-        .get({ $chainId: chainId, $handle: input.handle }) as
+        .get({ $chainId: chainId, $handle: input.handle })) as
         | { producerTxHash: string; producerBlock: number }
         | undefined;
 
@@ -1192,6 +2079,8 @@ function handleDfgTx(url: URL): Response {
   }
 
   return jsonResponse({
+    variant,
+    signatureMode,
     tx: {
       txHash: txRow.txHash,
       blockNumber: txRow.blockNumber,
@@ -1208,21 +2097,34 @@ function handleDfgTx(url: URL): Response {
       inputCount: node.inputCount,
       scalarFlag: node.scalarFlag,
       typeInfo: parseJson(node.typeInfoJson),
+      isAllowed: node.isAllowed === null ? null : node.isAllowed === 1,
+      isPruned: node.isPruned === null ? null : node.isPruned === 1,
+      call:
+        node.callFrame === null
+          ? null
+          : {
+              frame: node.callFrame,
+              depth: node.callDepth,
+              contract: node.callContract,
+              selector: node.callSelector,
+            },
     })),
-    edges,
+    edges: variantEdges,
+    calls: Array.from(calls.values()).sort((a, b) => a.frame - b.frame),
+    ...(frame !== undefined ? { frame } : {}),
     inputs,
     ...(lookbackBlocks !== undefined ? { cutEdges, lookbackBlocks } : {}),
   });
 }
 
-function handleDfgSignatures(url: URL): Response {
+async function handleDfgSignatures(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_txs")) {
+  if (!(await storage.hasTable("dfg_txs"))) {
     return jsonResponse({
       filters: { chainId },
       limit: 0,
@@ -1237,8 +2139,15 @@ function handleDfgSignatures(url: URL): Response {
   const offset = parseInteger(url.searchParams.get("offset")) ?? 0;
   const minNodes = parseInteger(url.searchParams.get("minNodes")) ?? 1;
   const minEdges = parseInteger(url.searchParams.get("minEdges")) ?? 0;
-  const startBlock = parseInteger(url.searchParams.get("startBlock"));
-  const endBlock = parseInteger(url.searchParams.get("endBlock"));
+  const variant = await parseDfgVariant(url);
+  if (variant instanceof Response) return variant;
+  const columns = DFG_VARIANT_COLUMNS[variant];
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn(variant, signatureMode);
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
   const callerRaw = url.searchParams.get("caller");
   const caller =
     callerRaw && callerRaw.trim().length > 0 ? callerRaw.trim().toLowerCase() : undefined;
@@ -1254,14 +2163,14 @@ function handleDfgSignatures(url: URL): Response {
   const callerError = validateCaller(caller);
   if (callerError) return callerError;
 
-  const hasTxCallers = hasTable("tx_callers");
+  const hasTxCallers = await storage.hasTable("tx_callers");
 
   // Build WHERE clauses for optional block range filtering
   const whereClauses = [
     "t.chain_id = $chainId",
-    "t.signature_hash IS NOT NULL",
-    "t.node_count >= $minNodes",
-    "t.edge_count >= $minEdges",
+    `t.${signatureHashColumn} IS NOT NULL`,
+    `t.${columns.nodeCount} >= $minNodes`,
+    `t.${columns.edgeCount} >= $minEdges`,
   ];
   const params: Record<string, string | number> = {
     $chainId: chainId,
@@ -1279,8 +2188,11 @@ function handleDfgSignatures(url: URL): Response {
     whereClauses.push("t.block_number <= $endBlock");
     params.$endBlock = endBlock;
   }
+  // INDEXED BY is a SQLite planner hint; PostgreSQL picks its own plan.
   const useBlockIndex =
-    (startBlock !== undefined || endBlock !== undefined) && hasIndex("dfg_txs_block");
+    storage.dialect === "sqlite" &&
+    (startBlock !== undefined || endBlock !== undefined) &&
+    (await storage.hasIndex("dfg_txs_block"));
   const txsFrom = useBlockIndex ? "dfg_txs t INDEXED BY dfg_txs_block" : "dfg_txs t";
   let fromClause = `FROM ${txsFrom}`;
   if (caller && hasTxCallers) {
@@ -1304,19 +2216,19 @@ function handleDfgSignatures(url: URL): Response {
 
   const whereClause = whereClauses.join(" AND ");
 
-  const rows = db
+  const rows = (await storage
     .prepare(
-      `SELECT signature_hash AS signatureHash,
+      `SELECT t.${signatureHashColumn} AS signatureHash,
               COUNT(*) AS txCount,
-              AVG(node_count) AS avgNodes,
-              AVG(edge_count) AS avgEdges
+              AVG(t.${columns.nodeCount}) AS avgNodes,
+              AVG(t.${columns.edgeCount}) AS avgEdges
        ${fromClause}
        WHERE ${whereClause}
-       GROUP BY signature_hash
+       GROUP BY t.${signatureHashColumn}
        ORDER BY txCount DESC
        LIMIT $limit OFFSET $offset`,
     )
-    .all(params) as Array<{
+    .all(params)) as Array<{
     signatureHash: string;
     txCount: number;
     avgNodes: number;
@@ -1328,24 +2240,24 @@ function handleDfgSignatures(url: URL): Response {
   delete countParams.$limit;
   delete countParams.$offset;
 
-  const totalRow = db
+  const totalRow = (await storage
     .prepare(
-      `SELECT COUNT(DISTINCT signature_hash) AS count
+      `SELECT COUNT(DISTINCT t.${signatureHashColumn}) AS count
        ${fromClause}
        WHERE ${whereClause}`,
     )
-    .get(countParams) as { count: number };
+    .get(countParams)) as { count: number };
 
-  const txTotalRow = db
+  const txTotalRow = (await storage
     .prepare(
       `SELECT COUNT(*) AS count
        ${fromClause}
        WHERE ${whereClause}`,
     )
-    .get(countParams) as { count: number };
+    .get(countParams)) as { count: number };
 
   return jsonResponse({
-    filters: { chainId, minNodes, minEdges, startBlock, endBlock, caller },
+    filters: { chainId, variant, signatureMode, minNodes, minEdges, startBlock, endBlock, caller },
     limit,
     offset,
     rows,
@@ -1354,13 +2266,17 @@ function handleDfgSignatures(url: URL): Response {
   });
 }
 
-function handleDfgStats(url: URL): Response {
+async function handleDfgStats(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn("raw", signatureMode);
   const includeDeps = url.searchParams.get("includeDeps") === "1";
-  const startBlock = parseInteger(url.searchParams.get("startBlock"));
-  const endBlock = parseInteger(url.searchParams.get("endBlock"));
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
   const depthModeParam = url.searchParams.get("depthMode");
   const depthMode: "inter" | "total" = depthModeParam === "total" ? "total" : "inter";
   const signatureHash = url.searchParams.get("signatureHash") ?? undefined;
@@ -1372,12 +2288,12 @@ function handleDfgStats(url: URL): Response {
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_txs")) {
+  if (!(await storage.hasTable("dfg_txs"))) {
     return jsonResponse({ error: "dfg_tables_missing" }, 404);
   }
 
-  const rollupRow = hasTable("dfg_stats_rollups")
-    ? (db
+  const rollupRow = (await storage.hasTable("dfg_stats_rollups"))
+    ? ((await storage
         .prepare(
           `SELECT total,
                   avg_nodes AS avgNodes,
@@ -1394,7 +2310,7 @@ function handleDfgStats(url: URL): Response {
            FROM dfg_stats_rollups
            WHERE chain_id = $chainId`,
         )
-        .get({ $chainId: chainId }) as
+        .get({ $chainId: chainId })) as
         | {
             total: number;
             avgNodes: number | null;
@@ -1426,7 +2342,7 @@ function handleDfgStats(url: URL): Response {
         maxDepth: rollupRow.maxDepth ?? null,
         signatureCount: rollupRow.signatureCount ?? 0,
       }
-    : (db
+    : ((await storage
         .prepare(
           `SELECT COUNT(*) AS total,
                   AVG(node_count) AS avgNodes,
@@ -1442,7 +2358,7 @@ function handleDfgStats(url: URL): Response {
            FROM dfg_txs
            WHERE chain_id = $chainId`,
         )
-        .get({ $chainId: chainId }) as {
+        .get({ $chainId: chainId })) as {
         total: number;
         avgNodes: number | null;
         avgEdges: number | null;
@@ -1457,22 +2373,22 @@ function handleDfgStats(url: URL): Response {
       });
 
   let totalTxs: number | null = rollupRow?.eventTxCount ?? null;
-  if (totalTxs === null && hasTable("tx_counts")) {
-    const txCountRow = db
+  if (totalTxs === null && (await storage.hasTable("tx_counts"))) {
+    const txCountRow = (await storage
       .prepare("SELECT count FROM tx_counts WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { count: number } | undefined;
+      .get({ $chainId: chainId })) as { count: number } | undefined;
     totalTxs = txCountRow?.count ?? null;
   }
-  if (totalTxs === null && hasTable("tx_seen")) {
-    const txSeenRow = db
+  if (totalTxs === null && (await storage.hasTable("tx_seen"))) {
+    const txSeenRow = (await storage
       .prepare("SELECT COUNT(*) AS count FROM tx_seen WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { count: number } | undefined;
+      .get({ $chainId: chainId })) as { count: number } | undefined;
     totalTxs = txSeenRow?.count ?? null;
   }
   if (totalTxs === null) {
-    const txRow = db
+    const txRow = (await storage
       .prepare("SELECT COUNT(DISTINCT tx_hash) AS total FROM fhe_events WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { total: number };
+      .get({ $chainId: chainId })) as { total: number };
     totalTxs = txRow.total;
   }
 
@@ -1484,7 +2400,7 @@ function handleDfgStats(url: URL): Response {
 
   if (shouldComputeDeps) {
     // When block range is provided (and optionally signatureHash), query dfg_tx_deps directly
-    if (useBlockRange && hasTable("dfg_tx_deps")) {
+    if (useBlockRange && (await storage.hasTable("dfg_tx_deps"))) {
       const depClauses = [
         "d.chain_id = $chainId",
         "d.block_number >= $startBlock",
@@ -1500,11 +2416,11 @@ function handleDfgStats(url: URL): Response {
       if (signatureHash) {
         depFromClause =
           "FROM dfg_tx_deps d JOIN dfg_txs t ON t.chain_id = d.chain_id AND t.tx_hash = d.tx_hash";
-        depClauses.push("t.signature_hash = $signatureHash");
+        depClauses.push(`t.${signatureHashColumn} = $signatureHash`);
         depParams.$signatureHash = signatureHash;
       }
 
-      const depRow = db
+      const depRow = (await storage
         .prepare(
           `SELECT
            COUNT(*) AS totalTxs,
@@ -1518,7 +2434,7 @@ function handleDfgStats(url: URL): Response {
          ${depFromClause}
          WHERE ${depClauses.join(" AND ")}`,
         )
-        .get(depParams) as {
+        .get(depParams)) as {
         totalTxs: number;
         dependentTxs: number;
         sumUpstreamTxs: number;
@@ -1530,27 +2446,27 @@ function handleDfgStats(url: URL): Response {
       };
 
       // Get chain depth distribution for block range
-      const chainDistRows = db
+      const chainDistRows = (await storage
         .prepare(
           `SELECT d.chain_depth AS depth, COUNT(*) AS count
          ${depFromClause}
          WHERE ${depClauses.join(" AND ")}
          GROUP BY d.chain_depth`,
         )
-        .all(depParams) as Array<{
+        .all(depParams)) as Array<{
         depth: number;
         count: number;
       }>;
 
       // Get total depth distribution for block range
-      const totalDistRows = db
+      const totalDistRows = (await storage
         .prepare(
           `SELECT d.total_depth AS depth, COUNT(*) AS count
          ${depFromClause}
          WHERE ${depClauses.join(" AND ")}
          GROUP BY d.total_depth`,
         )
-        .all(depParams) as Array<{
+        .all(depParams)) as Array<{
         depth: number;
         count: number;
       }>;
@@ -1593,22 +2509,22 @@ function handleDfgStats(url: URL): Response {
           blockCount: endBlock - startBlock + 1,
         },
       };
-    } else if (!signatureHash && hasTable("dfg_dep_rollups")) {
+    } else if (!signatureHash && (await storage.hasTable("dfg_dep_rollups"))) {
       // Use rollup data when no block range specified
-      const depsRow = db
+      const depsRow = (await storage
         .prepare(
           `SELECT stats_json AS statsJson
          FROM dfg_dep_rollups
          WHERE chain_id = $chainId`,
         )
-        .get({ $chainId: chainId }) as { statsJson: string } | undefined;
+        .get({ $chainId: chainId })) as { statsJson: string } | undefined;
       deps = depsRow ? normalizeDepStats(parseJson(depsRow.statsJson)) : null;
       if (deps) {
         deps.depthMode = depthMode;
       }
     }
 
-    if (!deps && includeDeps && hasTable("dfg_tx_deps")) {
+    if (!deps && includeDeps && (await storage.hasTable("dfg_tx_deps"))) {
       const depClauses = ["d.chain_id = $chainId"];
       const depParams: Record<string, string | number> = { $chainId: chainId };
       let depFromClause = "FROM dfg_tx_deps d";
@@ -1616,11 +2532,11 @@ function handleDfgStats(url: URL): Response {
       if (signatureHash) {
         depFromClause =
           "FROM dfg_tx_deps d JOIN dfg_txs t ON t.chain_id = d.chain_id AND t.tx_hash = d.tx_hash";
-        depClauses.push("t.signature_hash = $signatureHash");
+        depClauses.push(`t.${signatureHashColumn} = $signatureHash`);
         depParams.$signatureHash = signatureHash;
       }
 
-      const depRow = db
+      const depRow = (await storage
         .prepare(
           `SELECT
            COUNT(*) AS totalTxs,
@@ -1634,7 +2550,7 @@ function handleDfgStats(url: URL): Response {
          ${depFromClause}
          WHERE ${depClauses.join(" AND ")}`,
         )
-        .get(depParams) as {
+        .get(depParams)) as {
         totalTxs: number;
         dependentTxs: number;
         sumUpstreamTxs: number;
@@ -1646,23 +2562,23 @@ function handleDfgStats(url: URL): Response {
       };
 
       // Get distributions
-      const chainDistRows = db
+      const chainDistRows = (await storage
         .prepare(
           `SELECT d.chain_depth AS depth, COUNT(*) AS count
          ${depFromClause}
          WHERE ${depClauses.join(" AND ")}
          GROUP BY d.chain_depth`,
         )
-        .all(depParams) as Array<{ depth: number; count: number }>;
+        .all(depParams)) as Array<{ depth: number; count: number }>;
 
-      const totalDistRows = db
+      const totalDistRows = (await storage
         .prepare(
           `SELECT d.total_depth AS depth, COUNT(*) AS count
          ${depFromClause}
          WHERE ${depClauses.join(" AND ")}
          GROUP BY d.total_depth`,
         )
-        .all(depParams) as Array<{ depth: number; count: number }>;
+        .all(depParams)) as Array<{ depth: number; count: number }>;
 
       const chainDepthDistribution: Record<number, number> = {};
       for (const row of chainDistRows) {
@@ -1699,8 +2615,13 @@ function handleDfgStats(url: URL): Response {
       };
     }
 
-    if (!deps && includeDeps && hasTable("dfg_nodes") && hasTable("dfg_inputs")) {
-      const depRow = db
+    if (
+      !deps &&
+      includeDeps &&
+      (await storage.hasTable("dfg_nodes")) &&
+      (await storage.hasTable("dfg_inputs"))
+    ) {
+      const depRow = (await storage
         .prepare(
           `WITH produced AS (
            SELECT n.output_handle AS handle,
@@ -1743,7 +2664,7 @@ function handleDfgStats(url: URL): Response {
            (SELECT COALESCE(MAX(upstreamTxs), 0) FROM per_tx) AS maxUpstreamTxs,
            (SELECT COALESCE(MAX(handleLinks), 0) FROM per_tx) AS maxUpstreamHandles`,
         )
-        .get({ $chainId: chainId }) as {
+        .get({ $chainId: chainId })) as {
         totalTxs: number;
         dependentTxs: number;
         avgUpstreamTxs: number | null;
@@ -1778,10 +2699,10 @@ function handleDfgStats(url: URL): Response {
 
   // Get max block with dependency data for horizon filtering
   let maxDepsBlock: number | null = null;
-  if (includeDeps && hasTable("dfg_tx_deps")) {
-    const maxBlockRow = db
+  if (includeDeps && (await storage.hasTable("dfg_tx_deps"))) {
+    const maxBlockRow = (await storage
       .prepare("SELECT MAX(block_number) AS maxBlock FROM dfg_tx_deps WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { maxBlock: number | null } | undefined;
+      .get({ $chainId: chainId })) as { maxBlock: number | null } | undefined;
     maxDepsBlock = maxBlockRow?.maxBlock ?? null;
   }
 
@@ -1795,18 +2716,18 @@ function handleDfgStats(url: URL): Response {
   });
 }
 
-function handleDfgRollup(url: URL): Response {
+async function handleDfgRollup(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_rollups")) {
+  if (!(await storage.hasTable("dfg_rollups"))) {
     return jsonResponse({ error: "dfg_rollup_missing" }, 404);
   }
 
-  const row = db
+  const row = (await storage
     .prepare(
       `SELECT dfg_tx_count AS dfgTxCount,
               stats_json AS statsJson,
@@ -1814,7 +2735,7 @@ function handleDfgRollup(url: URL): Response {
        FROM dfg_rollups
        WHERE chain_id = $chainId`,
     )
-    .get({ $chainId: chainId }) as
+    .get({ $chainId: chainId })) as
     | { dfgTxCount: number; statsJson: string; updatedAt: string }
     | undefined;
 
@@ -1830,24 +2751,24 @@ function handleDfgRollup(url: URL): Response {
   });
 }
 
-function handleDfgExport(url: URL): Response {
+async function handleDfgExport(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_dep_rollups")) {
+  if (!(await storage.hasTable("dfg_dep_rollups"))) {
     return jsonResponse({ error: "dfg_dep_rollups_missing" }, 404);
   }
 
-  const depsRow = db
+  const depsRow = (await storage
     .prepare(
       `SELECT stats_json AS statsJson
        FROM dfg_dep_rollups
        WHERE chain_id = $chainId`,
     )
-    .get({ $chainId: chainId }) as { statsJson: string } | undefined;
+    .get({ $chainId: chainId })) as { statsJson: string } | undefined;
 
   if (!depsRow) {
     return jsonResponse({ error: "no_dep_rollup_for_chain" }, 404);
@@ -1877,10 +2798,13 @@ function handleDfgExport(url: URL): Response {
   });
 }
 
-function handleDfgStatsHorizon(url: URL): Response {
+async function handleDfgStatsHorizon(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn("raw", signatureMode);
   const horizonSize = parseInteger(url.searchParams.get("horizonSize")) ?? 10;
   const signatureHash = url.searchParams.get("signatureHash") ?? undefined;
   const horizonSizeError = validateIntParam(horizonSize, "horizonSize", 1, maxHorizonSize);
@@ -1891,7 +2815,7 @@ function handleDfgStatsHorizon(url: URL): Response {
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_tx_deps")) {
+  if (!(await storage.hasTable("dfg_tx_deps"))) {
     return jsonResponse({ error: "dfg_tx_deps_missing" }, 404);
   }
 
@@ -1905,12 +2829,12 @@ function handleDfgStatsHorizon(url: URL): Response {
   if (signatureHash) {
     fromClause = `FROM dfg_tx_deps d
     JOIN dfg_txs t ON t.chain_id = d.chain_id AND t.tx_hash = d.tx_hash`;
-    clauses.push("t.signature_hash = $signatureHash");
+    clauses.push(`t.${signatureHashColumn} = $signatureHash`);
     params.$signatureHash = signatureHash;
   }
 
   // Aggregate across all non-overlapping N-block windows
-  const row = db
+  const row = (await storage
     .prepare(
       `WITH chunks AS (
         SELECT
@@ -1934,7 +2858,7 @@ function handleDfgStatsHorizon(url: URL): Response {
       FROM chunks
       WHERE total_txs > 0`,
     )
-    .get(params) as
+    .get(params)) as
     | {
         sample_count: number;
         avg_max_chain_depth: number | null;
@@ -1949,6 +2873,7 @@ function handleDfgStatsHorizon(url: URL): Response {
   return jsonResponse({
     chainId,
     signatureHash,
+    signatureMode,
     horizon: {
       blockSize: horizonSize,
       sampleCount: row?.sample_count ?? 0,
@@ -1964,10 +2889,13 @@ function handleDfgStatsHorizon(url: URL): Response {
   });
 }
 
-function handleDfgPattern(url: URL): Response {
+async function handleDfgPattern(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn("raw", signatureMode);
   const signatureHash = url.searchParams.get("signatureHash");
   const exampleLimit = parseInteger(url.searchParams.get("exampleLimit")) ?? 5;
   const exampleLimitError = validateIntParam(exampleLimit, "exampleLimit", 1, maxExampleLimit);
@@ -1981,12 +2909,12 @@ function handleDfgPattern(url: URL): Response {
   }
   const signatureHashError = validateSignatureHash(signatureHash);
   if (signatureHashError) return signatureHashError;
-  if (!hasTable("dfg_tx_deps") || !hasTable("dfg_txs")) {
+  if (!(await storage.hasTable("dfg_tx_deps")) || !(await storage.hasTable("dfg_txs"))) {
     return jsonResponse({ error: "dfg_tables_missing" }, 404);
   }
 
   // Get stats for this specific pattern
-  const statsRow = db
+  const statsRow = (await storage
     .prepare(
       `SELECT
         COUNT(*) AS txCount,
@@ -1999,9 +2927,9 @@ function handleDfgPattern(url: URL): Response {
         MAX(d.upstream_txs) AS maxUpstreamTxs
       FROM dfg_tx_deps d
       JOIN dfg_txs t ON t.chain_id = d.chain_id AND t.tx_hash = d.tx_hash
-      WHERE d.chain_id = $chainId AND t.signature_hash = $signatureHash`,
+      WHERE d.chain_id = $chainId AND t.${signatureHashColumn} = $signatureHash`,
     )
-    .get({ $chainId: chainId, $signatureHash: signatureHash }) as
+    .get({ $chainId: chainId, $signatureHash: signatureHash })) as
     | {
         txCount: number;
         dependentTxs: number;
@@ -2019,16 +2947,16 @@ function handleDfgPattern(url: URL): Response {
   }
 
   // Get example transactions (prioritize higher depth ones)
-  const exampleRows = db
+  const exampleRows = (await storage
     .prepare(
       `SELECT d.tx_hash AS txHash, d.block_number AS blockNumber, d.chain_depth AS chainDepth, d.total_depth AS totalDepth
        FROM dfg_tx_deps d
        JOIN dfg_txs t ON t.chain_id = d.chain_id AND t.tx_hash = d.tx_hash
-       WHERE d.chain_id = $chainId AND t.signature_hash = $signatureHash
+       WHERE d.chain_id = $chainId AND t.${signatureHashColumn} = $signatureHash
        ORDER BY d.chain_depth DESC, d.block_number DESC
        LIMIT $limit`,
     )
-    .all({ $chainId: chainId, $signatureHash: signatureHash, $limit: exampleLimit }) as Array<{
+    .all({ $chainId: chainId, $signatureHash: signatureHash, $limit: exampleLimit })) as Array<{
     txHash: string;
     blockNumber: number;
     chainDepth: number;
@@ -2041,6 +2969,7 @@ function handleDfgPattern(url: URL): Response {
 
   return jsonResponse({
     signatureHash,
+    signatureMode,
     stats: {
       txCount,
       dependentTxs,
@@ -2056,15 +2985,198 @@ function handleDfgPattern(url: URL): Response {
   });
 }
 
-function handleDfgStatsWindow(url: URL): Response {
+async function handleDfgMotifs(url: URL): Promise<Response> {
+  const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
+  const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
+  if (chainIdError) return chainIdError;
+  if (chainId === undefined) {
+    return jsonResponse({ error: "chain_id_required" }, 400);
+  }
+  const hops = parseInteger(url.searchParams.get("hops")) ?? DFG_MOTIF_HOPS;
+  const hopsError = validateIntParam(hops, "hops", 1, DFG_MOTIF_HOPS);
+  if (hopsError) return hopsError;
+  const opRaw = url.searchParams.get("op");
+  const op = opRaw && opRaw.trim().length > 0 ? opRaw.trim() : undefined;
+  if (op && op.length > maxEventNameLength) {
+    return jsonResponse({ error: "op_too_long" }, 400);
+  }
+  const limit = parseInteger(url.searchParams.get("limit")) ?? 20;
+  const offset = parseInteger(url.searchParams.get("offset")) ?? 0;
+  const paginationError = validatePagination(limit, offset);
+  if (paginationError) return paginationError;
+  const exampleLimit = parseInteger(url.searchParams.get("exampleLimit")) ?? 3;
+  const exampleLimitError = validateIntParam(exampleLimit, "exampleLimit", 1, maxExampleLimit);
+  if (exampleLimitError) return exampleLimitError;
+  if (!(await storage.hasTable("dfg_motif_rollups"))) {
+    return jsonResponse({ error: "dfg_motifs_missing" }, 404);
+  }
+
+  const whereClause = op
+    ? "chain_id = $chainId AND hops = $hops AND op = $op"
+    : "chain_id = $chainId AND hops = $hops";
+  const params: Record<string, string | number> = { $chainId: chainId, $hops: hops };
+  if (op) params.$op = op;
+
+  const rows = (await storage
+    .prepare(
+      `SELECT hash, op, tx_count AS txCount, node_count AS nodeCount, last_block AS lastBlock
+       FROM dfg_motif_rollups
+       WHERE ${whereClause}
+       ORDER BY tx_count DESC, node_count DESC, hash
+       LIMIT $limit OFFSET $offset`,
+    )
+    .all({ ...params, $limit: limit, $offset: offset })) as Array<{
+    hash: string;
+    op: string;
+    txCount: number;
+    nodeCount: number;
+    lastBlock: number;
+  }>;
+  const totalRow = (await storage
+    .prepare(
+      `SELECT COUNT(*) AS count, MAX(updated_at) AS updatedAt
+       FROM dfg_motif_rollups
+       WHERE ${whereClause}`,
+    )
+    .get(params)) as { count: number; updatedAt: string | null };
+
+  const examplesStmt = storage.prepare(
+    `SELECT tx_hash AS txHash, block_number AS blockNumber, node_id AS nodeId
+     FROM dfg_node_hashes
+     WHERE chain_id = $chainId AND hops = $hops AND hash = $hash
+     ORDER BY block_number DESC, tx_hash, node_id
+     LIMIT $limit`,
+  );
+  const nodesStmt = storage.prepare(
+    "SELECT node_id AS nodeId, op FROM dfg_nodes WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const edgesStmt = storage.prepare(
+    `SELECT from_node_id AS fromNodeId, to_node_id AS toNodeId
+     FROM dfg_edges
+     WHERE chain_id = $chainId AND tx_hash = $txHash`,
+  );
+
+  const motifs = [];
+  for (const row of rows) {
+    const examples = (await examplesStmt.all({
+      $chainId: chainId,
+      $hops: hops,
+      $hash: row.hash,
+      $limit: exampleLimit,
+    })) as Array<{ txHash: string; blockNumber: number; nodeId: number }>;
+    // Every occurrence has the same neighborhood shape; the most recent one shows it.
+    const first = examples[0];
+    let neighborhood = null;
+    if (first) {
+      const txParams = { $chainId: chainId, $txHash: first.txHash };
+      neighborhood = extractNeighborhood(
+        (await nodesStmt.all(txParams)) as Array<{ nodeId: number; op: string }>,
+        (await edgesStmt.all(txParams)) as Array<{ fromNodeId: number; toNodeId: number }>,
+        first.nodeId,
+        hops,
+      );
+    }
+    motifs.push({ ...row, neighborhood, examples });
+  }
+
+  return jsonResponse({
+    filters: { chainId, hops, op },
+    limit,
+    offset,
+    rows: motifs,
+    total: totalRow.count,
+    updatedAt: totalRow.updatedAt,
+  });
+}
+
+async function handleDfgNgrams(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
+  if (chainId === undefined) {
+    return jsonResponse({ error: "chain_id_required" }, 400);
+  }
+  const n = parseInteger(url.searchParams.get("n")) ?? 3;
+  const nError = validateIntParam(n, "n", 2, DFG_NGRAM_MAX);
+  if (nError) return nError;
+  const opRaw = url.searchParams.get("op");
+  const op = opRaw && opRaw.trim().length > 0 ? opRaw.trim() : undefined;
+  if (op && (op.length > maxEventNameLength || !OP_NAME_REGEX.test(op))) {
+    return jsonResponse({ error: "invalid_op" }, 400);
+  }
+  const limit = parseInteger(url.searchParams.get("limit")) ?? 20;
+  const offset = parseInteger(url.searchParams.get("offset")) ?? 0;
+  const paginationError = validatePagination(limit, offset);
+  if (paginationError) return paginationError;
+  if (!(await storage.hasTable("dfg_ngram_rollups"))) {
+    return jsonResponse({ error: "dfg_ngrams_missing" }, 404);
+  }
+
+  // `op=` matches the op anywhere in the sequence.
+  const whereClause = op
+    ? `chain_id = $chainId AND n = $n
+       AND ('${NGRAM_SEPARATOR}' || ops || '${NGRAM_SEPARATOR}') LIKE $opPattern`
+    : "chain_id = $chainId AND n = $n";
+  const params: Record<string, string | number> = { $chainId: chainId, $n: n };
+  if (op) params.$opPattern = `%${NGRAM_SEPARATOR}${op}${NGRAM_SEPARATOR}%`;
+
+  const rows = (await storage
+    .prepare(
+      `SELECT ops, occurrences, tx_count AS txCount
+       FROM dfg_ngram_rollups
+       WHERE ${whereClause}
+       ORDER BY occurrences DESC, tx_count DESC, ops
+       LIMIT $limit OFFSET $offset`,
+    )
+    .all({ ...params, $limit: limit, $offset: offset })) as Array<{
+    ops: string;
+    occurrences: number;
+    txCount: number;
+  }>;
+  const totalRow = (await storage
+    .prepare(`SELECT COUNT(*) AS count FROM dfg_ngram_rollups WHERE ${whereClause}`)
+    .get(params)) as { count: number };
+  const checkpoint = (await storage
+    .prepare(
+      `SELECT last_block AS lastBlock, tx_count AS txCount, updated_at AS updatedAt
+       FROM dfg_ngram_checkpoints
+       WHERE chain_id = $chainId`,
+    )
+    .get({ $chainId: chainId })) as
+    | { lastBlock: number | null; txCount: number; updatedAt: string }
+    | undefined;
+  const txTotal = checkpoint?.txCount ?? 0;
+
+  return jsonResponse({
+    filters: { chainId, n, op },
+    limit,
+    offset,
+    rows: rows.map((row) => ({
+      ops: row.ops.split(NGRAM_SEPARATOR),
+      occurrences: row.occurrences,
+      txCount: row.txCount,
+      txShare: txTotal > 0 ? row.txCount / txTotal : 0,
+    })),
+    total: totalRow.count,
+    txTotal,
+    lastBlock: checkpoint?.lastBlock ?? null,
+    updatedAt: checkpoint?.updatedAt ?? null,
+  });
+}
+
+async function handleDfgStatsWindow(url: URL): Promise<Response> {
+  const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
+  const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
+  if (chainIdError) return chainIdError;
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn("raw", signatureMode);
   const lookbackBlocks = parseInteger(url.searchParams.get("lookbackBlocks")) ?? 50;
   const signatureHash = url.searchParams.get("signatureHash") ?? undefined;
   const topLimit = parseInteger(url.searchParams.get("topLimit")) ?? 10;
-  const startBlockParam = parseInteger(url.searchParams.get("startBlock"));
-  const endBlockParam = parseInteger(url.searchParams.get("endBlock"));
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock: startBlockParam, endBlock: endBlockParam } = range;
   const lookbackError = validateIntParam(lookbackBlocks, "lookbackBlocks", 1, maxWindowLookback);
   if (lookbackError) return lookbackError;
   const topLimitError = validateIntParam(topLimit, "topLimit", 1, maxTopLimit);
@@ -2077,7 +3189,11 @@ function handleDfgStatsWindow(url: URL): Response {
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_inputs") || !hasTable("dfg_handle_producers") || !hasTable("dfg_txs")) {
+  if (
+    !(await storage.hasTable("dfg_inputs")) ||
+    !(await storage.hasTable("dfg_handle_producers")) ||
+    !(await storage.hasTable("dfg_txs"))
+  ) {
     return jsonResponse({ error: "dfg_tables_missing" }, 404);
   }
 
@@ -2085,9 +3201,9 @@ function handleDfgStatsWindow(url: URL): Response {
   let startBlock = startBlockParam;
   let endBlock = endBlockParam;
   if (startBlock === undefined || endBlock === undefined) {
-    const maxRow = db
+    const maxRow = (await storage
       .prepare("SELECT MAX(block_number) AS maxBlock FROM dfg_txs WHERE chain_id = $chainId")
-      .get({ $chainId: chainId }) as { maxBlock: number | null } | undefined;
+      .get({ $chainId: chainId })) as { maxBlock: number | null } | undefined;
     const maxBlock = maxRow?.maxBlock ?? null;
     if (maxBlock !== null) {
       const resolvedEnd = endBlock ?? maxBlock;
@@ -2112,7 +3228,7 @@ function handleDfgStatsWindow(url: URL): Response {
     txParams.$endBlock = endBlock;
   }
   if (signatureHash) {
-    txClauses.push("t.signature_hash = $signatureHash");
+    txClauses.push(`t.${signatureHashColumn} = $signatureHash`);
     txParams.$signatureHash = signatureHash;
   }
 
@@ -2124,7 +3240,7 @@ function handleDfgStatsWindow(url: URL): Response {
     WHERE ${txClauses.join(" AND ")}
   `;
 
-  const txRows = db.prepare(txQuery).all(txParams) as Array<{
+  const txRows = (await storage.prepare(txQuery).all(txParams)) as Array<{
     txHash: string;
     blockNumber: number;
     intraTxDepth: number | null;
@@ -2136,6 +3252,7 @@ function handleDfgStatsWindow(url: URL): Response {
       chainId,
       lookbackBlocks,
       signatureHash,
+      signatureMode,
       startBlock,
       endBlock,
       stats: {
@@ -2165,7 +3282,7 @@ function handleDfgStatsWindow(url: URL): Response {
   const earliestNeededBlock = minBlock - lookbackBlocks;
 
   // Get external inputs for txs in range (join with txs to filter)
-  const inputRows = db
+  const inputRows = (await storage
     .prepare(
       `SELECT i.tx_hash AS consumerTxHash, i.handle
        FROM dfg_inputs i
@@ -2173,13 +3290,13 @@ function handleDfgStatsWindow(url: URL): Response {
        WHERE i.chain_id = $chainId AND i.kind = 'external'
          AND t.block_number >= $minBlock AND t.block_number <= $maxBlock`,
     )
-    .all({ $chainId: chainId, $minBlock: minBlock, $maxBlock: maxBlock }) as Array<{
+    .all({ $chainId: chainId, $minBlock: minBlock, $maxBlock: maxBlock })) as Array<{
     consumerTxHash: string;
     handle: string;
   }>;
 
   // Get handle producers within relevant block range (non-trivial only)
-  const producerRows = db
+  const producerRows = (await storage
     .prepare(
       `SELECT p.handle,
               p.tx_hash AS producerTxHash,
@@ -2197,7 +3314,7 @@ function handleDfgStatsWindow(url: URL): Response {
       $chainId: chainId,
       $earliestNeededBlock: earliestNeededBlock,
       $maxBlock: maxBlock,
-    }) as Array<{
+    })) as Array<{
     handle: string;
     producerTxHash: string;
     producerBlock: number;
@@ -2397,6 +3514,7 @@ function handleDfgStatsWindow(url: URL): Response {
     chainId,
     lookbackBlocks,
     signatureHash,
+    signatureMode,
     startBlock,
     endBlock,
     blockRange: { min: minBlock, max: maxBlock },
@@ -2417,13 +3535,17 @@ function handleDfgStatsWindow(url: URL): Response {
   });
 }
 
-function handleDfgStatsBySignature(url: URL): Response {
+async function handleDfgStatsBySignature(url: URL): Promise<Response> {
   const chainId = parseInteger(url.searchParams.get("chainId")) ?? defaultChainId;
   const chainIdError = validateIntParam(chainId, "chainId", 0, maxChainId);
   if (chainIdError) return chainIdError;
+  const signatureMode = await parseSignatureMode(url);
+  if (signatureMode instanceof Response) return signatureMode;
+  const signatureHashColumn = signatureColumn("raw", signatureMode);
   const limit = parseInteger(url.searchParams.get("limit")) ?? 20;
-  const startBlock = parseInteger(url.searchParams.get("startBlock"));
-  const endBlock = parseInteger(url.searchParams.get("endBlock"));
+  const range = await parseBlockRange(url, chainId);
+  if (range instanceof Response) return range;
+  const { startBlock, endBlock } = range;
   const orderBy = url.searchParams.get("orderBy") ?? "frequency";
   const limitError = validateIntParam(limit, "limit", 1, maxPageLimit);
   if (limitError) return limitError;
@@ -2436,11 +3558,11 @@ function handleDfgStatsBySignature(url: URL): Response {
   if (chainId === undefined) {
     return jsonResponse({ error: "chain_id_required" }, 400);
   }
-  if (!hasTable("dfg_tx_deps") || !hasTable("dfg_txs")) {
+  if (!(await storage.hasTable("dfg_tx_deps")) || !(await storage.hasTable("dfg_txs"))) {
     return jsonResponse({ error: "dfg_tables_missing" }, 404);
   }
 
-  const clauses = ["d.chain_id = $chainId", "t.signature_hash IS NOT NULL"];
+  const clauses = ["d.chain_id = $chainId", `t.${signatureHashColumn} IS NOT NULL`];
   const params: Record<string, string | number> = { $chainId: chainId, $limit: limit };
 
   if (startBlock !== undefined) {
@@ -2455,10 +3577,10 @@ function handleDfgStatsBySignature(url: URL): Response {
   // Determine ORDER BY clause based on orderBy param
   const orderClause = orderBy === "maxDepth" ? "maxChainDepth DESC, txCount DESC" : "txCount DESC";
 
-  const rows = db
+  const rows = (await storage
     .prepare(
       `SELECT
-        t.signature_hash AS signatureHash,
+        t.${signatureHashColumn} AS signatureHash,
         COUNT(*) AS txCount,
         SUM(CASE WHEN d.upstream_txs > 0 THEN 1 ELSE 0 END) AS dependentTxs,
         AVG(d.chain_depth) AS avgChainDepth,
@@ -2468,11 +3590,11 @@ function handleDfgStatsBySignature(url: URL): Response {
       FROM dfg_tx_deps d
       JOIN dfg_txs t ON t.chain_id = d.chain_id AND t.tx_hash = d.tx_hash
       WHERE ${clauses.join(" AND ")}
-      GROUP BY t.signature_hash
+      GROUP BY t.${signatureHashColumn}
       ORDER BY ${orderClause}
       LIMIT $limit`,
     )
-    .all(params) as Array<{
+    .all(params)) as Array<{
     signatureHash: string;
     txCount: number;
     dependentTxs: number;
@@ -2501,6 +3623,7 @@ function handleDfgStatsBySignature(url: URL): Response {
   return jsonResponse({
     chainId,
     orderBy,
+    signatureMode,
     signatures,
   });
 }
@@ -2508,7 +3631,7 @@ function handleDfgStatsBySignature(url: URL): Response {
 Bun.serve({
   hostname: host,
   port,
-  fetch(req) {
+  async fetch(req) {
     const url = new URL(req.url);
     const apiPathname = isApiPath(url.pathname);
 
@@ -2543,55 +3666,78 @@ Bun.serve({
         response = handleHealth();
         break;
       case "/stats/ops":
-        response = handleOps(url);
+        response = await handleOps(url);
         break;
       case "/stats/summary":
-        response = handleSummary(url);
+        response = await handleSummary(url);
         break;
       case "/stats/buckets":
-        response = handleBuckets(url);
+        response = await handleBuckets(url);
         break;
       case "/stats/types":
-        response = handleTypes(url);
+        response = await handleTypes(url);
         break;
       case "/stats/op-types":
-        response = handleOpTypes(url);
+        response = await handleOpTypes(url);
+        break;
+      case "/stats/type-mismatches":
+        response = await handleTypeMismatches(url);
+        break;
+      case "/stats/executors":
+        response = await handleExecutors(url);
+        break;
+      case "/stats/decryptions":
+        response = await handleDecryptions(url);
+        break;
+      case "/stats/decryption-ops":
+        response = await handleDecryptionOps(url);
         break;
       case "/stats/ingestion":
-        response = handleIngestion(url);
+        response = await handleIngestion(url);
         break;
       case "/stats/db":
-        response = exposeDbStats ? handleDbStats() : jsonResponse({ error: "not_found" }, 404);
+        response = exposeDbStats
+          ? await handleDbStats()
+          : jsonResponse({ error: "not_found" }, 404);
         break;
       case "/dfg/txs":
-        response = handleDfgTxs(url);
+        response = await handleDfgTxs(url);
+        break;
+      case "/dfg/gas":
+        response = await handleDfgGas(url);
         break;
       case "/dfg/tx":
-        response = handleDfgTx(url);
+        response = await handleDfgTx(url);
         break;
       case "/dfg/signatures":
-        response = handleDfgSignatures(url);
+        response = await handleDfgSignatures(url);
         break;
       case "/dfg/stats":
-        response = handleDfgStats(url);
+        response = await handleDfgStats(url);
         break;
       case "/dfg/rollup":
-        response = handleDfgRollup(url);
+        response = await handleDfgRollup(url);
         break;
       case "/dfg/export":
-        response = handleDfgExport(url);
+        response = await handleDfgExport(url);
         break;
       case "/dfg/stats/horizon":
-        response = handleDfgStatsHorizon(url);
+        response = await handleDfgStatsHorizon(url);
         break;
       case "/dfg/stats/by-signature":
-        response = handleDfgStatsBySignature(url);
+        response = await handleDfgStatsBySignature(url);
         break;
       case "/dfg/stats/window":
-        response = handleDfgStatsWindow(url);
+        response = await handleDfgStatsWindow(url);
         break;
       case "/dfg/pattern":
-        response = handleDfgPattern(url);
+        response = await handleDfgPattern(url);
+        break;
+      case "/dfg/motifs":
+        response = await handleDfgMotifs(url);
+        break;
+      case "/dfg/ngrams":
+        response = await handleDfgNgrams(url);
         break;
       default: {
         if (req.method === "GET" || req.method === "HEAD") {
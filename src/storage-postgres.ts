@@ -0,0 +1,273 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { SQL } from "bun";
+import type { SqlDialect, SqlParam, SqlValue, Statement, Storage } from "./storage.ts";
+
+// PostgreSQL backend for `Storage`, on Bun's built-in client. Statements are written in
+// SQL both backends accept (see src/storage.ts); `translateSql` only renumbers their
+// parameters and maps the few functions and types whose names or results differ.
+
+export const POSTGRES_NOW = "to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')";
+
+export const POSTGRES_DIALECT: SqlDialect = {
+  now: POSTGRES_NOW,
+  least: (...values) => `LEAST(${values.join(", ")})`,
+  greatest: (...values) => `GREATEST(${values.join(", ")})`,
+};
+
+/**
+ * PostgreSQL version of a schema statement: 64-bit integers and floats, identity keys, and
+ * timestamps kept as the same `YYYY-MM-DD HH:MM:SS` text SQLite's `datetime('now')` gives.
+ */
+export function renderPostgresDdl(sql: string): string {
+  return sql
+    .replace(
+      /\bINTEGER PRIMARY KEY AUTOINCREMENT\b/g,
+      "BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY",
+    )
+    .replace(/\bINTEGER\b/g, "BIGINT")
+    .replace(/\bREAL\b/g, "DOUBLE PRECISION")
+    .replace(/datetime\('now'\)/g, POSTGRES_NOW);
+}
+
+type Translated = {
+  text: string;
+  /** `$name` parameters in placeholder order; empty for positional `?` statements. */
+  names: string[];
+};
+
+function findClosingParen(sql: string, open: number): number {
+  let depth = 0;
+  let quoted = false;
+  for (let index = open; index < sql.length; index += 1) {
+    const char = sql[index];
+    if (char === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (char === "(") depth += 1;
+    if (char === ")") {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+}
+
+function splitArgs(inner: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let index = 0; index < inner.length; index += 1) {
+    const char = inner[index];
+    if (char === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    if (char === "," && depth === 0) {
+      args.push(inner.slice(start, index));
+      start = index + 1;
+    }
+  }
+  args.push(inner.slice(start));
+  return args;
+}
+
+const CALLS = /\b(json_extract|SUM|AVG)\s*\(/gi;
+
+// Function calls whose name or result type differs: json_extract, and SUM/AVG, which
+// PostgreSQL returns as NUMERIC (a string in the client) over integers.
+function renderCall(name: string, args: string[]): string | null {
+  const fn = name.toUpperCase();
+  if (fn === "SUM" || fn === "AVG") {
+    return `CAST(${fn}(${args.join(",")}) AS DOUBLE PRECISION)`;
+  }
+  if (fn === "JSON_EXTRACT" && args.length === 2) {
+    const path = /^\s*'\$\.(\w+)'\s*$/.exec(args[1] ?? "");
+    if (path) return `(CAST(${args[0]} AS JSON) ->> '${path[1]}')`;
+  }
+  return null;
+}
+
+function translateCalls(sql: string): string {
+  let out = "";
+  let index = 0;
+  const pattern = new RegExp(CALLS.source, "gi");
+  for (let match = pattern.exec(sql); match; match = pattern.exec(sql)) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosingParen(sql, open);
+    if (close === -1) break;
+    const args = splitArgs(sql.slice(open + 1, close)).map(translateCalls);
+    const name = match[1] ?? "";
+    out += sql.slice(index, match.index) + (renderCall(name, args) ?? `${name}(${args.join(",")})`);
+    index = close + 1;
+    pattern.lastIndex = close + 1;
+  }
+  return out + sql.slice(index);
+}
+
+// Applies `fn` to the parts of `sql` outside string literals.
+function mapCode(sql: string, fn: (code: string) => string): string {
+  return sql
+    .split(/('(?:[^']|'')*')/)
+    .map((part, index) => (index % 2 === 1 ? part : fn(part)))
+    .join("");
+}
+
+/** Prepares a statement for PostgreSQL, with numbered placeholders. */
+export function translateSql(sql: string): Translated {
+  let text = translateCalls(sql);
+
+  // Unquoted identifiers fold to lower case, so camelCase aliases (and every reference to
+  // them in ORDER BY or an outer query) are quoted to come back as written.
+  const aliases = new Set<string>();
+  mapCode(text, (code) => {
+    for (const match of code.matchAll(/\bAS\s+([A-Za-z_]\w*)/gi)) {
+      const alias = match[1] ?? "";
+      if (/[a-z]/.test(alias) && /[A-Z]/.test(alias)) aliases.add(alias);
+    }
+    return code;
+  });
+  const aliasPattern =
+    aliases.size > 0 ? new RegExp(`(?<![\\w$."])(${[...aliases].join("|")})(?![\\w"])`, "g") : null;
+
+  const names: string[] = [];
+  let positional = 0;
+  text = mapCode(text, (code) =>
+    (aliasPattern ? code.replace(aliasPattern, '"$1"') : code)
+      .replace(/\bAS\s+REAL\b/gi, "AS DOUBLE PRECISION")
+      .replace(/(?<![\w$.])(\d+\.\d+)(?![\w.])/g, "CAST($1 AS DOUBLE PRECISION)")
+      .replace(/\$([A-Za-z_]\w*)|\?/g, (_match, name: string | undefined) => {
+        if (name === undefined) {
+          positional += 1;
+          return `$${positional}`;
+        }
+        const existing = names.indexOf(name);
+        if (existing !== -1) return `$${existing + 1}`;
+        names.push(name);
+        return `$${names.length}`;
+      }),
+  );
+  return { text, names };
+}
+
+function bindParams(translated: Translated, params: SqlParam[]): SqlValue[] {
+  const first = params[0];
+  const values =
+    translated.names.length > 0 &&
+    params.length === 1 &&
+    first !== null &&
+    typeof first === "object"
+      ? translated.names.map((name) => (first as Record<string, SqlValue>)[`$${name}`] ?? null)
+      : (params as SqlValue[]);
+  return values.map((value) => (typeof value === "boolean" ? (value ? 1 : 0) : value));
+}
+
+// Untyped NULL parameters cannot be inferred in `$1 IS NULL`, so NULLs go in as literals.
+function inlineNulls(text: string, values: SqlValue[]): { text: string; values: SqlValue[] } {
+  if (!values.some((value) => value === null || value === undefined)) return { text, values };
+  const kept: SqlValue[] = [];
+  const renumber = new Map<number, number>();
+  values.forEach((value, index) => {
+    if (value === null || value === undefined) return;
+    kept.push(value);
+    renumber.set(index + 1, kept.length);
+  });
+  const rewritten = mapCode(text, (code) =>
+    code.replace(/\$(\d+)\b/g, (_match, position: string) => {
+      const next = renumber.get(Number(position));
+      return next === undefined ? "NULL" : `$${next}`;
+    }),
+  );
+  return { text: rewritten, values: kept };
+}
+
+// 64-bit integers come back as bigint and comparisons as booleans; SQLite gives numbers.
+function normalizeRow(row: Record<string, unknown>): Record<string, unknown> {
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === "bigint") {
+      row[key] = Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+    } else if (typeof value === "boolean") {
+      row[key] = value ? 1 : 0;
+    }
+  }
+  return row;
+}
+
+function redactDatabaseUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) parsed.password = "***";
+    return parsed.toString();
+  } catch {
+    return "postgres";
+  }
+}
+
+type Client = InstanceType<typeof SQL>;
+
+export function createPostgresStorage(url: string): Storage {
+  // Unnamed statements keep the client usable behind transaction-pooling proxies.
+  const sql = new SQL({ url, bigint: true, prepare: false });
+  const transactionClient = new AsyncLocalStorage<Client>();
+  const translations = new Map<string, Translated>();
+
+  const query = async (statement: string, params: SqlParam[]) => {
+    let translated = translations.get(statement);
+    if (!translated) {
+      translated = translateSql(statement);
+      translations.set(statement, translated);
+    }
+    const { text, values } = inlineNulls(translated.text, bindParams(translated, params));
+    const client = transactionClient.getStore() ?? sql;
+    const result = (await client.unsafe(text, values)) as Array<Record<string, unknown>> & {
+      count: number | null;
+    };
+    return result;
+  };
+
+  const prepare = (statement: string): Statement => ({
+    all: async (...params) => (await query(statement, params)).map(normalizeRow),
+    get: async (...params) => {
+      const [row] = await query(statement, params);
+      return row ? normalizeRow(row) : undefined;
+    },
+    run: async (...params) => ({ changes: (await query(statement, params)).count ?? 0 }),
+  });
+
+  const exists = async (statement: string, params: SqlValue[]) =>
+    (await (transactionClient.getStore() ?? sql).unsafe(statement, params)).length > 0;
+
+  return {
+    dialect: "postgres",
+    sql: POSTGRES_DIALECT,
+    location: redactDatabaseUrl(url),
+    prepare,
+    exec: async (statement) => {
+      await (transactionClient.getStore() ?? sql).unsafe(statement);
+    },
+    transaction: async (fn) => {
+      if (transactionClient.getStore()) return fn();
+      return (await sql.begin((tx) => transactionClient.run(tx as Client, fn))) as Awaited<
+        ReturnType<typeof fn>
+      >;
+    },
+    hasTable: (name) =>
+      exists(
+        `SELECT 1 FROM information_schema.tables
+         WHERE table_schema = current_schema() AND table_name = $1`,
+        [name],
+      ),
+    hasColumn: (table, column) =>
+      exists(
+        `SELECT 1 FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2`,
+        [table, column],
+      ),
+    hasIndex: (name) =>
+      exists("SELECT 1 FROM pg_indexes WHERE schemaname = current_schema() AND indexname = $1", [
+        name,
+      ]),
+    close: async () => {
+      await sql.close();
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Database } from "bun:sqlite";
+
+// Everything that reads or writes the stats database goes through a `Storage`: ingestion,
+// DFG builds, rollups and the API. Statements use `$name` (or positional `?`) parameters
+// and SQL both backends accept: upserts name the existing row by its table
+// (`SET count = op_counts.count + excluded.count`), duplicates are skipped with
+// `ON CONFLICT DO NOTHING`, and the fragments that differ come from `storage.sql`. The
+// PostgreSQL backend (src/storage-postgres.ts) only renumbers parameters and maps
+// function names and result types. Both create their tables from the shared migration
+// set in src/schema.ts.
+
+export type StorageDialect = "sqlite" | "postgres";
+
+/** SQL fragments that differ between the backends, for statements to interpolate. */
+export type SqlDialect = {
+  /** The current UTC time as `YYYY-MM-DD HH:MM:SS` text, like the schema's defaults. */
+  now: string;
+  /** The smallest of scalar expressions (not the aggregate). */
+  least(...values: string[]): string;
+  /** The largest of scalar expressions (not the aggregate). */
+  greatest(...values: string[]): string;
+};
+
+export const SQLITE_DIALECT: SqlDialect = {
+  now: "datetime('now')",
+  least: (...values) => `MIN(${values.join(", ")})`,
+  greatest: (...values) => `MAX(${values.join(", ")})`,
+};
+
+export type SqlValue = string | number | bigint | boolean | null;
+/** One object of `$name` values, or one value per positional `?`. */
+export type SqlParam = SqlValue | Record<string, SqlValue>;
+
+export type RunResult = { changes: number };
+
+export type Statement = {
+  all(...params: SqlParam[]): Promise<unknown[]>;
+  /** The first row, or undefined when there is none. */
+  get(...params: SqlParam[]): Promise<unknown>;
+  run(...params: SqlParam[]): Promise<RunResult>;
+};
+
+export type Storage = {
+  dialect: StorageDialect;
+  sql: SqlDialect;
+  /** File path or redacted connection URL, for logs. */
+  location: string;
+  prepare(sql: string): Statement;
+  /** Runs one or more statements without parameters (schema changes). */
+  exec(sql: string): Promise<void>;
+  /**
+   * Runs `fn` in one transaction. Statements issued anywhere under `fn` join it and nested
+   * calls are flattened into it; other callers wait until it commits or rolls back.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  hasTable(name: string): Promise<boolean>;
+  hasColumn(table: string, column: string): Promise<boolean>;
+  hasIndex(name: string): Promise<boolean>;
+  close(): Promise<void>;
+};
+
+/**
+ * Wraps an open `bun:sqlite` database. The connection is shared, so a transaction holds
+ * it exclusively: statements from outside the transaction wait for it to finish instead
+ * of silently becoming part of it.
+ */
+export function createSqliteStorage(db: Database): Storage {
+  const inTransaction = new AsyncLocalStorage<boolean>();
+  let active: Promise<void> | null = null;
+
+  const idle = async () => {
+    while (active && !inTransaction.getStore()) await active;
+  };
+
+  const prepare = (sql: string): Statement => ({
+    all: async (...params) => {
+      await idle();
+      return db.query(sql).all(...(params as never[]));
+    },
+    get: async (...params) => {
+      await idle();
+      return db.query(sql).get(...(params as never[])) ?? undefined;
+    },
+    run: async (...params) => {
+      await idle();
+      return { changes: db.query(sql).run(...(params as never[])).changes };
+    },
+  });
+
+  const storage: Storage = {
+    dialect: "sqlite",
+    sql: SQLITE_DIALECT,
+    location: db.filename,
+    prepare,
+    exec: async (sql) => {
+      await idle();
+      db.exec(sql);
+    },
+    transaction: async (fn) => {
+      if (inTransaction.getStore()) return fn();
+      while (active) await active;
+      let release = () => {};
+      active = new Promise((resolve) => {
+        release = resolve;
+      });
+      try {
+        db.exec("BEGIN IMMEDIATE");
+        try {
+          const result = await inTransaction.run(true, fn);
+          db.exec("COMMIT");
+          return result;
+        } catch (err) {
+          db.exec("ROLLBACK");
+          throw err;
+        }
+      } finally {
+        active = null;
+        release();
+      }
+    },
+    hasTable: async (name) =>
+      (await prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = $name").get({
+        $name: name,
+      })) !== undefined,
+    hasColumn: async (table, column) => {
+      const rows = (await prepare(`PRAGMA table_info(${table})`).all()) as Array<{
+        name: string;
+      }>;
+      return rows.some((row) => row.name === column);
+    },
+    hasIndex: async (name) =>
+      (await prepare("SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = $name").get({
+        $name: name,
+      })) !== undefined,
+    close: async () => {
+      await idle();
+      db.close();
+    },
+  };
+  return storage;
+}
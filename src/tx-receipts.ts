@@ -0,0 +1,147 @@
+import { TransactionReceiptNotFoundError } from "viem";
+import type { RpcPool } from "./rpc-pool.ts";
+import type { Storage } from "./storage.ts";
+
+type TxReceiptRow = {
+  txHash: string;
+  blockNumber: number;
+  fromAddress: string;
+  toAddress: string | null;
+  gasUsed: number;
+  effectiveGasPrice: number | null;
+  status: "success" | "reverted";
+};
+
+export type TxReceiptEnrichResult = {
+  fetched: number;
+  missing: number;
+};
+
+const RECEIPT_CONCURRENCY = 8;
+const MISS_RETRY_SECONDS = 60;
+const MISS_RETRY_MAX_SECONDS = 86_400;
+
+/** Seconds until a receipt that was missing `attempts` times in a row is asked for again. */
+function missRetryDelay(attempts: number): number {
+  return Math.min(MISS_RETRY_SECONDS * 2 ** (attempts - 1), MISS_RETRY_MAX_SECONDS);
+}
+
+/**
+ * Fetches receipts for up to `limit` txs in `tx_seen` that have no `tx_receipts` row yet,
+ * oldest first. Receipts the node does not know (pruned or not yet indexed) are counted
+ * as missing and recorded in `tx_receipt_misses`; they are skipped until their retry time
+ * (doubling per miss, up to a day), so they cannot hold the head of the queue.
+ */
+export async function enrichTxReceiptsOnce(
+  rpc: RpcPool,
+  storage: Storage,
+  chainId: number,
+  limit: number,
+  now = Math.floor(Date.now() / 1000),
+): Promise<TxReceiptEnrichResult> {
+  const pending = (await storage
+    .prepare(
+      `SELECT s.tx_hash AS txHash, COALESCE(m.attempts, 0) AS attempts
+       FROM tx_seen s
+       LEFT JOIN tx_receipts r ON r.chain_id = s.chain_id AND r.tx_hash = s.tx_hash
+       LEFT JOIN tx_receipt_misses m ON m.chain_id = s.chain_id AND m.tx_hash = s.tx_hash
+       WHERE s.chain_id = $chainId AND r.tx_hash IS NULL
+         AND (m.retry_after IS NULL OR m.retry_after <= $now)
+       ORDER BY s.created_at, s.tx_hash
+       LIMIT $limit`,
+    )
+    .all({ $chainId: chainId, $now: now, $limit: limit })) as Array<{
+    txHash: string;
+    attempts: number;
+  }>;
+  if (pending.length === 0) return { fetched: 0, missing: 0 };
+
+  const receipts: TxReceiptRow[] = [];
+  const misses: Array<{ txHash: string; attempts: number }> = [];
+  for (let index = 0; index < pending.length; index += RECEIPT_CONCURRENCY) {
+    const chunk = pending.slice(index, index + RECEIPT_CONCURRENCY);
+    const fetched = await Promise.all(
+      chunk.map(({ txHash }) =>
+        rpc.request(async (client) => {
+          try {
+            return await client.getTransactionReceipt({ hash: txHash as `0x${string}` });
+          } catch (err) {
+            // An unknown receipt is an answer, not an endpoint failure.
+            if (err instanceof TransactionReceiptNotFoundError) return null;
+            throw err;
+          }
+        }),
+      ),
+    );
+    for (const [offset, receipt] of fetched.entries()) {
+      if (!receipt) {
+        const miss = chunk[offset];
+        if (miss) misses.push({ txHash: miss.txHash, attempts: Number(miss.attempts) + 1 });
+        continue;
+      }
+      receipts.push({
+        txHash: receipt.transactionHash,
+        blockNumber: Number(receipt.blockNumber),
+        fromAddress: receipt.from.toLowerCase(),
+        toAddress: receipt.to ? receipt.to.toLowerCase() : null,
+        gasUsed: Number(receipt.gasUsed),
+        effectiveGasPrice:
+          receipt.effectiveGasPrice === undefined ? null : Number(receipt.effectiveGasPrice),
+        status: receipt.status,
+      });
+    }
+  }
+
+  const insert = storage.prepare(`
+    INSERT INTO tx_receipts (
+      chain_id, tx_hash, block_number, from_address, to_address, gas_used,
+      effective_gas_price, status
+    ) VALUES (
+      $chainId, $txHash, $blockNumber, $fromAddress, $toAddress, $gasUsed,
+      $effectiveGasPrice, $status
+    )
+    ON CONFLICT(chain_id, tx_hash) DO UPDATE SET
+      block_number = excluded.block_number,
+      from_address = excluded.from_address,
+      to_address = excluded.to_address,
+      gas_used = excluded.gas_used,
+      effective_gas_price = excluded.effective_gas_price,
+      status = excluded.status
+  `);
+  const clearMiss = storage.prepare(
+    "DELETE FROM tx_receipt_misses WHERE chain_id = $chainId AND tx_hash = $txHash",
+  );
+  const recordMiss = storage.prepare(`
+    INSERT INTO tx_receipt_misses (chain_id, tx_hash, attempts, retry_after)
+    VALUES ($chainId, $txHash, $attempts, $retryAfter)
+    ON CONFLICT(chain_id, tx_hash) DO UPDATE SET
+      attempts = excluded.attempts,
+      retry_after = excluded.retry_after,
+      updated_at = ${storage.sql.now}
+  `);
+  await storage.transaction(async () => {
+    for (const receipt of receipts) {
+      await insert.run({
+        $chainId: chainId,
+        $txHash: receipt.txHash,
+        $blockNumber: receipt.blockNumber,
+        $fromAddress: receipt.fromAddress,
+        $toAddress: receipt.toAddress,
+        $gasUsed: receipt.gasUsed,
+        $effectiveGasPrice: receipt.effectiveGasPrice,
+        $status: receipt.status,
+      });
+      await clearMiss.run({ $chainId: chainId, $txHash: receipt.txHash });
+    }
+    for (const miss of misses) {
+      await recordMiss.run({
+        $chainId: chainId,
+        $txHash: miss.txHash,
+        $attempts: miss.attempts,
+        $retryAfter: now + missRetryDelay(miss.attempts),
+      });
+    }
+  });
+
+  return { fetched: receipts.length, missing: misses.length };
+}
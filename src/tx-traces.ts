@@ -0,0 +1,296 @@
+import { BaseError } from "viem";
+import type { RpcPool } from "./rpc-pool.ts";
+import type { Storage } from "./storage.ts";
+
+// `debug_traceTransaction` with the callTracer (`withLog: true`) returns the tx as a tree of
+// call frames, each with the logs it emitted. Walking that tree tells which contract call
+// invoked the executor for every FHE event, so a tx's DFG can be sliced per contract call.
+
+/** One callTracer frame; quantities are hex strings on geth-style nodes. */
+export type CallFrame = {
+  type: string;
+  from: string;
+  to?: string;
+  input?: string;
+  error?: string;
+  calls?: CallFrame[];
+  logs?: Array<{ address: string; topics?: string[]; data?: string; position?: string | number }>;
+};
+
+export type TraceLogAttribution = {
+  address: string;
+  topic0: string | null;
+  /** Depth-first index of the calling frame; 0 is the top-level call. */
+  frameId: number;
+  depth: number;
+  /** Code address of the calling frame and the selector it was called with. */
+  contract: string;
+  selector: string | null;
+};
+
+export type TxTraceEnrichResult = {
+  traced: number;
+  missing: number;
+  mismatched: number;
+};
+
+type FrameRef = { id: number; depth: number; frame: CallFrame };
+
+const TRACE_CONCURRENCY = 4;
+const UNAVAILABLE_RETRY_SECONDS = 60;
+const UNAVAILABLE_RETRY_MAX_SECONDS = 86_400;
+
+function selectorOf(input: string | undefined): string | null {
+  return input && input.length >= 10 ? input.slice(0, 10).toLowerCase() : null;
+}
+
+/**
+ * Attributes the logs of `executorAddresses` in a callTracer trace to the frame that
+ * called the executor, in execution order (which is log index order within the tx).
+ * Calls through an executor proxy count as one executor call; logs of reverted frames
+ * are dropped, like the node drops them from the receipt.
+ */
+export function attributeTraceLogs(
+  trace: CallFrame,
+  executorAddresses: Set<string>,
+): { frameCount: number; logs: TraceLogAttribution[] } {
+  const logs: TraceLogAttribution[] = [];
+  let frameCount = 0;
+
+  const attribute = (stack: FrameRef[], address: string, topic0: string | null) => {
+    // The outermost frame of the executor call; its parent made the call.
+    let index = stack.findIndex((entry) => entry.frame.to?.toLowerCase() === address);
+    if (index === -1) index = stack.length - 1;
+    const caller = stack[Math.max(index - 1, 0)] as FrameRef;
+    logs.push({
+      address,
+      topic0,
+      frameId: caller.id,
+      depth: caller.depth,
+      contract: (caller.frame.to ?? caller.frame.from).toLowerCase(),
+      selector: selectorOf(caller.frame.input),
+    });
+  };
+
+  const visit = (frame: CallFrame, stack: FrameRef[], reverted: boolean) => {
+    const ref: FrameRef = { id: frameCount, depth: stack.length, frame };
+    frameCount += 1;
+    const path = [...stack, ref];
+    const failed = reverted || frame.error !== undefined;
+    const children = frame.calls ?? [];
+    const frameLogs = (frame.logs ?? []).map((log) => ({
+      ...log,
+      position: log.position === undefined ? children.length : Number(log.position),
+    }));
+    // A log's position is the number of subcalls made before it was emitted.
+    let next = 0;
+    for (let child = 0; child <= children.length; child += 1) {
+      while (next < frameLogs.length && (frameLogs[next]?.position ?? 0) <= child) {
+        const log = frameLogs[next] as (typeof frameLogs)[number];
+        const address = log.address.toLowerCase();
+        if (!failed && executorAddresses.has(address)) {
+          attribute(path, address, log.topics?.[0]?.toLowerCase() ?? null);
+        }
+        next += 1;
+      }
+      const call = children[child];
+      if (call) visit(call, path, failed);
+    }
+  };
+
+  visit(trace, [], false);
+  return { frameCount, logs };
+}
+
+// Answers about the tx rather than the endpoint: unknown or pruned txs, state a non-archive
+// node no longer has, and txs too heavy for the tracer's time limit.
+const TRACE_UNAVAILABLE =
+  /transaction\b.*\bnot found|historical state\b.*\b(?:not available|unavailable)|required state not available|missing trie node|execution timeout/i;
+
+function isTraceUnavailable(err: unknown): boolean {
+  return err instanceof Error && TRACE_UNAVAILABLE.test(err.message);
+}
+
+/** Seconds until a tx that could not be traced `attempts` times in a row is retried. */
+function unavailableRetryDelay(attempts: number): number {
+  return Math.min(UNAVAILABLE_RETRY_SECONDS * 2 ** (attempts - 1), UNAVAILABLE_RETRY_MAX_SECONDS);
+}
+
+// The node's own message; viem puts it in `details` under a generic first line.
+function errorMessage(err: unknown): string {
+  if (err instanceof BaseError && err.details) return err.details;
+  return err instanceof Error ? (err.message.split("\n")[0] ?? "") : String(err);
+}
+
+/**
+ * Traces up to `limit` txs in `tx_seen` that have no `tx_traces` row yet and stores the
+ * calling contract of each of their FHE events in `fhe_event_calls` (and on existing
+ * `dfg_nodes`). A trace whose executor logs do not line up with the stored events is
+ * recorded as a mismatch without attributions. Txs the node says it cannot trace (unknown,
+ * pruned state, tracer timeout) are counted as missing and recorded as 'unavailable', then
+ * skipped until their retry time (doubling per attempt, up to a day), so they cannot hold
+ * the head of the queue. Any other error (transport failures, nodes without the debug
+ * namespace) makes this throw before anything is written, and the next poll retries.
+ */
+export async function enrichTxTracesOnce(
+  rpc: RpcPool,
+  storage: Storage,
+  chainId: number,
+  limit: number,
+  now = Math.floor(Date.now() / 1000),
+): Promise<TxTraceEnrichResult> {
+  const pending = (await storage
+    .prepare(
+      `SELECT s.tx_hash AS txHash, COALESCE(t.attempts, 0) AS attempts
+       FROM tx_seen s
+       LEFT JOIN tx_traces t ON t.chain_id = s.chain_id AND t.tx_hash = s.tx_hash
+       WHERE s.chain_id = $chainId
+         AND (t.tx_hash IS NULL OR (t.status = 'unavailable' AND t.retry_after <= $now))
+       ORDER BY s.created_at, s.tx_hash
+       LIMIT $limit`,
+    )
+    .all({ $chainId: chainId, $now: now, $limit: limit })) as Array<{
+    txHash: string;
+    attempts: number;
+  }>;
+  if (pending.length === 0) return { traced: 0, missing: 0, mismatched: 0 };
+
+  const traces: Array<{ txHash: string; trace: CallFrame }> = [];
+  const unavailable: Array<{ txHash: string; attempts: number; error: string }> = [];
+  for (let index = 0; index < pending.length; index += TRACE_CONCURRENCY) {
+    const chunk = pending.slice(index, index + TRACE_CONCURRENCY);
+    const fetched = await Promise.all(
+      chunk.map(({ txHash }) =>
+        rpc.request(async (client) => {
+          try {
+            // Not in viem's public schema; the debug namespace is node specific.
+            const request = client.request as (args: {
+              method: string;
+              params: unknown[];
+            }) => Promise<CallFrame | null>;
+            return await request({
+              method: "debug_traceTransaction",
+              params: [txHash, { tracer: "callTracer", tracerConfig: { withLog: true } }],
+            });
+          } catch (err) {
+            // An untraceable tx is an answer, not an endpoint failure.
+            if (isTraceUnavailable(err)) return errorMessage(err);
+            throw err;
+          }
+        }),
+      ),
+    );
+    chunk.forEach(({ txHash, attempts }, offset) => {
+      const trace = fetched[offset];
+      if (trace && typeof trace === "object") {
+        traces.push({ txHash, trace });
+      } else {
+        unavailable.push({
+          txHash,
+          attempts: Number(attempts) + 1,
+          error: trace || "empty trace",
+        });
+      }
+    });
+  }
+
+  const loadEvents = storage.prepare(
+    `SELECT log_index AS logIndex, lower(address) AS address, lower(topic0) AS topic0
+     FROM fhe_events
+     WHERE chain_id = $chainId AND tx_hash = $txHash
+     ORDER BY log_index`,
+  );
+  const insertTrace = storage.prepare(
+    `INSERT INTO tx_traces (
+       chain_id, tx_hash, status, frame_count, attributed_events, attempts, retry_after, error
+     ) VALUES (
+       $chainId, $txHash, $status, $frameCount, $attributedEvents, $attempts, $retryAfter,
+       $error
+     )
+     ON CONFLICT(chain_id, tx_hash) DO UPDATE SET
+       status = excluded.status,
+       frame_count = excluded.frame_count,
+       attributed_events = excluded.attributed_events,
+       attempts = excluded.attempts,
+       retry_after = excluded.retry_after,
+       error = excluded.error`,
+  );
+  const insertCall = storage.prepare(
+    `INSERT INTO fhe_event_calls (
+       chain_id, tx_hash, log_index, frame_id, call_depth, contract, selector
+     ) VALUES (
+       $chainId, $txHash, $logIndex, $frameId, $callDepth, $contract, $selector
+     )
+     ON CONFLICT(chain_id, tx_hash, log_index) DO UPDATE SET
+       frame_id = excluded.frame_id,
+       call_depth = excluded.call_depth,
+       contract = excluded.contract,
+       selector = excluded.selector`,
+  );
+  const updateNode = storage.prepare(
+    `UPDATE dfg_nodes
+     SET call_frame = $frameId, call_depth = $callDepth, call_contract = $contract,
+         call_selector = $selector
+     WHERE chain_id = $chainId AND tx_hash = $txHash AND node_id = $logIndex`,
+  );
+
+  let mismatched = 0;
+  await storage.transaction(async () => {
+    for (const { txHash, trace } of traces) {
+      const events = (await loadEvents.all({ $chainId: chainId, $txHash: txHash })) as Array<{
+        logIndex: number;
+        address: string;
+        topic0: string | null;
+      }>;
+      const { frameCount, logs } = attributeTraceLogs(
+        trace,
+        new Set(events.map((event) => event.address)),
+      );
+      const matches =
+        logs.length === events.length &&
+        logs.every((log, index) => {
+          const event = events[index];
+          return event?.address === log.address && event.topic0 === log.topic0;
+        });
+      if (!matches) mismatched += 1;
+      await insertTrace.run({
+        $chainId: chainId,
+        $txHash: txHash,
+        $status: matches ? "ok" : "mismatch",
+        $frameCount: frameCount,
+        $attributedEvents: matches ? logs.length : 0,
+        $attempts: 0,
+        $retryAfter: null,
+        $error: null,
+      });
+      if (!matches) continue;
+      for (const [index, log] of logs.entries()) {
+        const params = {
+          $chainId: chainId,
+          $txHash: txHash,
+          $logIndex: (events[index] as { logIndex: number }).logIndex,
+          $frameId: log.frameId,
+          $callDepth: log.depth,
+          $contract: log.contract,
+          $selector: log.selector,
+        };
+        await insertCall.run(params);
+        await updateNode.run(params);
+      }
+    }
+    for (const { txHash, attempts, error } of unavailable) {
+      await insertTrace.run({
+        $chainId: chainId,
+        $txHash: txHash,
+        $status: "unavailable",
+        $frameCount: 0,
+        $attributedEvents: 0,
+        $attempts: attempts,
+        $retryAfter: now + unavailableRetryDelay(attempts),
+        $error: error,
+      });
+    }
+  });
+
+  return { traced: traces.length, missing: unavailable.length, mismatched };
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { loadConfig } from "../src/app.ts";
+import { loadConfig, loadConfigs, parseExecutorDeployments } from "../src/app.ts";
 
 const baseEnv: Record<string, string | undefined> = {
   NETWORK: "sepolia",
@@ -25,6 +25,93 @@ describe("loadConfig", () => {
     expect(config.chainId).toBe(999);
   });
 
+  it("defaults reorg depth and gap filling", () => {
+    const config = loadConfig({ ...baseEnv });
+    expect(config.reorgDepth).toBe(64);
+    expect(config.gapFillBlocks).toBe(1000);
+
+    const disabled = loadConfig({ ...baseEnv, REORG_DEPTH: "0", GAP_FILL_BLOCKS_PER_POLL: "0" });
+    expect(disabled.reorgDepth).toBe(0);
+    expect(disabled.gapFillBlocks).toBe(0);
+  });
+
+  it("clamps backfill concurrency to at least one worker", () => {
+    expect(loadConfig({ ...baseEnv }).backfillConcurrency).toBe(1);
+    expect(loadConfig({ ...baseEnv, BACKFILL_CONCURRENCY: "4" }).backfillConcurrency).toBe(4);
+    expect(loadConfig({ ...baseEnv, BACKFILL_CONCURRENCY: "0" }).backfillConcurrency).toBe(1);
+  });
+
+  it("reads per-network poll intervals and WebSocket URLs", () => {
+    const config = loadConfig({
+      ...baseEnv,
+      MODE: "subscribe",
+      POLL_INTERVAL_MS: "10000",
+      SEPOLIA_POLL_INTERVAL_MS: "4000",
+      SEPOLIA_ETH_WS_URL: "wss://example.invalid",
+    });
+    expect(config.mode).toBe("subscribe");
+    expect(config.pollIntervalMs).toBe(4000);
+    expect(config.wsUrl).toBe("wss://example.invalid");
+
+    const [sepolia, mainnet] = loadConfigs({
+      NETWORK: "sepolia,mainnet",
+      POLL_INTERVAL_MS: "10000",
+      MAINNET_POLL_INTERVAL_MS: "12000",
+    });
+    expect(sepolia?.pollIntervalMs).toBe(10000);
+    expect(mainnet?.pollIntervalMs).toBe(12000);
+    expect(mainnet?.wsUrl).toBeUndefined();
+  });
+
+  it("listens to the sepolia ACL contract unless disabled", () => {
+    expect(loadConfig({ ...baseEnv }).aclAddress).toBe(
+      "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D",
+    );
+    expect(loadConfig({ ...baseEnv, ACL_CONTRACT_ADDRESS: "" }).aclAddress).toBeUndefined();
+
+    const [, mainnet] = loadConfigs({ NETWORK: "sepolia,mainnet" });
+    expect(mainnet?.aclAddress).toBeUndefined();
+  });
+
+  it("reads executor deployments with block ranges", () => {
+    const old = "0x1111111111111111111111111111111111111111";
+    const current = "0x2222222222222222222222222222222222222222";
+    expect(parseExecutorDeployments(`${old}@100-199, ${current}@200-`)).toEqual([
+      { address: old, fromBlock: 100, toBlock: 199 },
+      { address: current, fromBlock: 200, toBlock: undefined },
+    ]);
+    expect(() => parseExecutorDeployments(`${old}@200-100`)).toThrow(
+      "Invalid executor block range",
+    );
+    expect(() => parseExecutorDeployments("0x1234")).toThrow("Invalid executor address");
+
+    const [sepolia, mainnet] = loadConfigs({
+      NETWORK: "sepolia,mainnet",
+      SEPOLIA_FHEVM_EXECUTOR_ADDRESS: `${old}@0-99,${current}@100`,
+    });
+    expect(sepolia?.executors.map((executor) => executor.address)).toEqual([old, current]);
+    expect(mainnet?.executors).toEqual([{ address: "0xD82385dADa1ae3E969447f20A3164F6213100e75" }]);
+  });
+
+  it("does not need an RPC URL to replay an archive", () => {
+    const config = loadConfig({
+      NETWORK: "custom",
+      CHAIN_ID: "31337",
+      FHEVM_EXECUTOR_ADDRESS: "0x92C920834Ec8941d2C77D188936E1f7A6f49c127",
+      MODE: "replay",
+      REPLAY_PATH: "data/logs.jsonl.gz",
+    });
+    expect(config.mode).toBe("replay");
+    expect(config.rpcUrls).toEqual([]);
+    expect(config.replayPath).toBe("data/logs.jsonl.gz");
+    expect(() => loadConfig({ NETWORK: "custom", CHAIN_ID: "31337" })).toThrow(
+      "RPC_URL is required",
+    );
+    expect(() => loadConfigs({ NETWORK: "sepolia,mainnet", REPLAY_PATH: "logs.jsonl" })).toThrow(
+      "REPLAY_PATH cannot be used with multiple networks.",
+    );
+  });
+
   it("throws when executor address is missing", () => {
     const env: Record<string, string | undefined> = {
       NETWORK: "custom",
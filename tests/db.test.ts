@@ -1,11 +1,15 @@
 import { describe, expect, it } from "bun:test";
 import { initDatabase } from "../src/app.ts";
+import { computeNeighborhoodHashes } from "../src/dfg-motifs.ts";
+import { computeSchedulerDfgSignature, computeTypedDfgSignature } from "../src/dfg-signature.ts";
+import { LATEST_SCHEMA_VERSION, migrateSchema } from "../src/schema.ts";
+import { createSqliteStorage } from "../src/storage.ts";
 
 const DB_PATH = ":memory:";
 
 describe("initDatabase", () => {
-  it("creates required tables", () => {
-    const db = initDatabase(DB_PATH);
+  it("creates required tables", async () => {
+    const db = await initDatabase(DB_PATH);
     const rows = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{
       name: string;
     }>;
@@ -23,10 +27,20 @@ describe("initDatabase", () => {
     expect(names.has("dfg_nodes")).toBe(true);
     expect(names.has("dfg_edges")).toBe(true);
     expect(names.has("dfg_inputs")).toBe(true);
+    expect(names.has("reorgs")).toBe(true);
+    expect(names.has("ingestion_gaps")).toBe(true);
+    expect(names.has("rpc_endpoint_stats")).toBe(true);
+    expect(names.has("blocks")).toBe(true);
+    expect(names.has("executor_deployments")).toBe(true);
+    expect(names.has("type_mismatches")).toBe(true);
+    expect(names.has("acl_events")).toBe(true);
+    expect(names.has("decryption_requests")).toBe(true);
 
     const columns = db.prepare("PRAGMA table_info(fhe_events)").all() as Array<{ name: string }>;
     const columnNames = new Set(columns.map((column) => column.name));
     expect(columnNames.has("result_type")).toBe(true);
+    expect(columnNames.has("abi_version")).toBe(true);
+    expect(columnNames.has("topics_json")).toBe(true);
     expect(columnNames.has("lhs_type")).toBe(true);
     expect(columnNames.has("rhs_type")).toBe(true);
     expect(columnNames.has("scalar_flag")).toBe(true);
@@ -35,3 +49,213 @@ describe("initDatabase", () => {
     db.close();
   });
 });
+
+describe("migrateSchema", () => {
+  const handle = (type: number) => `0x${"00".repeat(30)}${type.toString(16).padStart(2, "0")}00`;
+
+  it("records every migration once", async () => {
+    const db = await initDatabase(DB_PATH);
+    const versions = db
+      .prepare("SELECT version FROM schema_version ORDER BY version")
+      .all() as Array<{
+      version: number;
+    }>;
+    expect(versions.map((row) => row.version)).toEqual(
+      Array.from({ length: LATEST_SCHEMA_VERSION }, (_, index) => index + 1),
+    );
+
+    const again = await migrateSchema(createSqliteStorage(db));
+    expect(again.currentVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(again.pending).toEqual([]);
+    expect(again.applied).toEqual([]);
+    db.close();
+  });
+
+  it("runs data backfills when a pre-versioning database adopts migrations", async () => {
+    const db = await initDatabase(DB_PATH);
+    db.exec("DROP TABLE schema_version");
+    const insertEvent = db.prepare(
+      `INSERT INTO fhe_events (
+         chain_id, block_number, block_hash, tx_hash, log_index, address, event_name, topic0,
+         data, args_json
+       ) VALUES (1, 10, '0xb10', '0xtx1', ?, '0xexec', ?, '0xtopic', '0x', ?)`,
+    );
+    insertEvent.run(
+      0,
+      "FheAdd",
+      JSON.stringify({
+        caller: "0xAbC",
+        lhs: handle(2),
+        rhs: handle(3),
+        result: handle(4),
+        scalarByte: "0x00",
+      }),
+    );
+    // A cast to type 5 whose result handle says type 4.
+    insertEvent.run(
+      1,
+      "Cast",
+      JSON.stringify({ caller: "0xAbC", ct: handle(2), toType: 5, result: handle(4) }),
+    );
+    const storage = createSqliteStorage(db);
+
+    const plan = await migrateSchema(storage, { dryRun: true });
+    expect(plan.currentVersion).toBe(0);
+    expect(plan.pending).toHaveLength(LATEST_SCHEMA_VERSION);
+    expect(plan.applied).toEqual([]);
+    expect(db.prepare("SELECT result_type AS resultType FROM fhe_events").get()).toEqual({
+      resultType: null,
+    });
+
+    const result = await migrateSchema(storage);
+    expect(result.applied.filter((step) => step.backfilledRows !== null)).toEqual([
+      { version: 10, name: "fhe_events_derived_types", backfilledRows: 2 },
+      { version: 11, name: "tx_callers_from_events", backfilledRows: 1 },
+      { version: 12, name: "dfg_txs_scheduler_signature", backfilledRows: 0 },
+      { version: 14, name: "dfg_txs_typed_signature", backfilledRows: 0 },
+      { version: 16, name: "dfg_node_hashes", backfilledRows: 0 },
+      { version: 20, name: "type_mismatches_from_events", backfilledRows: 1 },
+    ]);
+    expect(
+      db
+        .prepare(
+          `SELECT lhs_type AS lhsType, rhs_type AS rhsType, result_type AS resultType
+           FROM fhe_events WHERE log_index = 0`,
+        )
+        .get(),
+    ).toEqual({ lhsType: 2, rhsType: 3, resultType: 4 });
+    expect(
+      db
+        .prepare(
+          `SELECT log_index AS logIndex, event_name AS eventName, expected_type AS expectedType,
+                  actual_type AS actualType
+           FROM type_mismatches`,
+        )
+        .all(),
+    ).toEqual([{ logIndex: 1, eventName: "Cast", expectedType: 5, actualType: 4 }]);
+    expect(db.prepare("SELECT caller FROM tx_callers").get()).toEqual({ caller: "0xabc" });
+    db.close();
+  });
+
+  it("backfills signatures and node hashes added after DFGs were built", async () => {
+    const db = await initDatabase(DB_PATH);
+    db.exec(
+      `INSERT INTO dfg_txs (
+         chain_id, tx_hash, block_number, node_count, edge_count, depth, signature_hash,
+         pruned_node_count, pruned_edge_count, pruned_depth, pruned_signature_hash
+       ) VALUES (1, '0xtx1', 10, 3, 1, 2, 'raw', 2, 1, 2, 'pruned');
+       INSERT INTO dfg_nodes (chain_id, tx_hash, node_id, op, output_handle, input_count, is_pruned)
+       VALUES (1, '0xtx1', 0, 'FheAdd', '0x0c', 2, 0),
+              (1, '0xtx1', 1, 'FheMul', '0x0b', 2, 0),
+              (1, '0xtx1', 2, 'FheSub', '0x0a', 2, 1);
+       INSERT INTO dfg_edges (chain_id, tx_hash, from_node_id, to_node_id, input_handle)
+       VALUES (1, '0xtx1', 0, 1, '0x0c');
+       DELETE FROM schema_version WHERE version >= 12;`,
+    );
+
+    const result = await migrateSchema(createSqliteStorage(db));
+    expect(result.applied.filter((step) => step.backfilledRows !== null)).toEqual([
+      { version: 12, name: "dfg_txs_scheduler_signature", backfilledRows: 1 },
+      { version: 14, name: "dfg_txs_typed_signature", backfilledRows: 1 },
+      { version: 16, name: "dfg_node_hashes", backfilledRows: 1 },
+      { version: 20, name: "type_mismatches_from_events", backfilledRows: 0 },
+    ]);
+    const edges = [{ fromNodeId: 0, toNodeId: 1 }];
+    expect(
+      db
+        .prepare(
+          `SELECT scheduler_signature_hash AS raw, pruned_scheduler_signature_hash AS pruned
+           FROM dfg_txs`,
+        )
+        .get(),
+    ).toEqual({
+      raw: computeSchedulerDfgSignature(
+        [
+          { nodeId: 0, op: "FheAdd", outputHandle: "0x0c" },
+          { nodeId: 1, op: "FheMul", outputHandle: "0x0b" },
+          { nodeId: 2, op: "FheSub", outputHandle: "0x0a" },
+        ],
+        edges,
+      ),
+      pruned: computeSchedulerDfgSignature(
+        [
+          { nodeId: 0, op: "FheAdd", outputHandle: "0x0c" },
+          { nodeId: 1, op: "FheMul", outputHandle: "0x0b" },
+        ],
+        edges,
+      ),
+    });
+    // Nodes without type info hash like their bare op.
+    expect(
+      db.prepare("SELECT typed_signature_hash AS typed FROM dfg_txs").get() as { typed: string },
+    ).toEqual({
+      typed: computeTypedDfgSignature(
+        [
+          { nodeId: 0, op: "FheAdd", typeInfoJson: null },
+          { nodeId: 1, op: "FheMul", typeInfoJson: null },
+          { nodeId: 2, op: "FheSub", typeInfoJson: null },
+        ],
+        edges,
+      ),
+    });
+    expect(
+      db
+        .prepare("SELECT node_id AS nodeId, hops, hash FROM dfg_node_hashes ORDER BY hops, node_id")
+        .all(),
+    ).toEqual(
+      computeNeighborhoodHashes(
+        [
+          { nodeId: 0, op: "FheAdd" },
+          { nodeId: 1, op: "FheMul" },
+          { nodeId: 2, op: "FheSub" },
+        ],
+        edges,
+      ),
+    );
+    db.close();
+  });
+
+  it("backfills scheduler signatures with the scalar inputs of casts", async () => {
+    const db = await initDatabase(DB_PATH);
+    const typeInfoJson = JSON.stringify({
+      inputs: [
+        { role: "ct", kind: "external", type: 2 },
+        { role: "toType", kind: "scalar", type: 5 },
+      ],
+      output: { type: 5 },
+    });
+    db.prepare(
+      `INSERT INTO dfg_txs (chain_id, tx_hash, block_number, node_count, edge_count, depth, signature_hash)
+       VALUES (1, '0xtx1', 10, 1, 0, 1, 'raw')`,
+    ).run();
+    db.prepare(
+      `INSERT INTO dfg_nodes (chain_id, tx_hash, node_id, op, output_handle, input_count, type_info_json)
+       VALUES (1, '0xtx1', 0, 'Cast', '0x0a', 2, ?)`,
+    ).run(typeInfoJson);
+    db.exec("DELETE FROM schema_version WHERE version >= 12");
+
+    await migrateSchema(createSqliteStorage(db));
+    const hash = computeSchedulerDfgSignature(
+      [{ nodeId: 0, op: "Cast", outputHandle: "0x0a", typeInfoJson }],
+      [],
+    );
+    expect(db.prepare("SELECT scheduler_signature_hash AS hash FROM dfg_txs").get()).toEqual({
+      hash,
+    });
+    expect(hash).not.toBe(
+      computeSchedulerDfgSignature([{ nodeId: 0, op: "Cast", outputHandle: "0x0a" }], []),
+    );
+    db.close();
+  });
+
+  it("refuses a database migrated by newer code", async () => {
+    const db = await initDatabase(DB_PATH);
+    db.prepare("INSERT INTO schema_version (version, name) VALUES (?, 'from_the_future')").run(
+      LATEST_SCHEMA_VERSION + 1,
+    );
+    await expect(migrateSchema(createSqliteStorage(db), { dryRun: true })).rejects.toThrow(
+      "newer than this build supports",
+    );
+    db.close();
+  });
+});
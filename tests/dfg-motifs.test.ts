@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { computeNeighborhoodHashes, computeOpNgrams, extractNeighborhood } from "../src/dfg-motifs";
+
+// sub -> ge -> select, with sub also feeding the select
+const pattern = (base: number) => ({
+  nodes: [
+    { nodeId: base, op: "FheSub" },
+    { nodeId: base + 1, op: "FheGe" },
+    { nodeId: base + 2, op: "FheIfThenElse" },
+  ],
+  edges: [
+    { fromNodeId: base, toNodeId: base + 1 },
+    { fromNodeId: base + 1, toNodeId: base + 2 },
+    { fromNodeId: base, toNodeId: base + 2 },
+  ],
+});
+
+function hashOf(
+  hashes: ReturnType<typeof computeNeighborhoodHashes>,
+  nodeId: number,
+  hops: number,
+) {
+  return hashes.find((entry) => entry.nodeId === nodeId && entry.hops === hops)?.hash;
+}
+
+describe("computeNeighborhoodHashes", () => {
+  test("matches a shared sub-pattern in otherwise different txs", () => {
+    const plain = pattern(0);
+    const embedded = pattern(10);
+    // Same sub-pattern, plus an unrelated op two hops away from the FheGe.
+    embedded.nodes.push({ nodeId: 13, op: "FheAdd" });
+    embedded.edges.push({ fromNodeId: 12, toNodeId: 13 });
+
+    const left = computeNeighborhoodHashes(plain.nodes, plain.edges);
+    const right = computeNeighborhoodHashes(embedded.nodes, embedded.edges);
+    expect(left).toHaveLength(6);
+    expect(right).toHaveLength(8);
+    expect(hashOf(left, 1, 1)).toBe(hashOf(right, 11, 1) as string);
+    expect(hashOf(left, 1, 2)).not.toBe(hashOf(right, 11, 2) as string);
+    expect(hashOf(left, 0, 1)).toBe(hashOf(right, 10, 1) as string);
+  });
+
+  test("keeps edge direction", () => {
+    const forward = computeNeighborhoodHashes(
+      [
+        { nodeId: 0, op: "FheAdd" },
+        { nodeId: 1, op: "FheAdd" },
+      ],
+      [{ fromNodeId: 0, toNodeId: 1 }],
+      1,
+    );
+    expect(forward).toHaveLength(2);
+    expect(forward[0]?.hash).not.toBe(forward[1]?.hash as string);
+  });
+});
+
+describe("extractNeighborhood", () => {
+  test("returns the nodes within the radius and the edges between them", () => {
+    const chain = {
+      nodes: [
+        { nodeId: 4, op: "VerifyInput" },
+        { nodeId: 5, op: "FheSub" },
+        { nodeId: 6, op: "FheGe" },
+        { nodeId: 7, op: "FheIfThenElse" },
+      ],
+      edges: [
+        { fromNodeId: 4, toNodeId: 5 },
+        { fromNodeId: 5, toNodeId: 6 },
+        { fromNodeId: 6, toNodeId: 7 },
+      ],
+    };
+    expect(extractNeighborhood(chain.nodes, chain.edges, 6, 1)).toEqual({
+      nodes: [
+        { nodeId: 5, op: "FheSub", distance: 1 },
+        { nodeId: 6, op: "FheGe", distance: 0 },
+        { nodeId: 7, op: "FheIfThenElse", distance: 1 },
+      ],
+      edges: [
+        { fromNodeId: 5, toNodeId: 6 },
+        { fromNodeId: 6, toNodeId: 7 },
+      ],
+    });
+    expect(extractNeighborhood(chain.nodes, chain.edges, 99, 1)).toBeNull();
+  });
+});
+
+describe("computeOpNgrams", () => {
+  test("counts op sequences along directed paths", () => {
+    const { nodes, edges } = pattern(0);
+    expect(Object.fromEntries(computeOpNgrams(nodes, edges))).toEqual({
+      "FheSub>FheGe": 1,
+      "FheGe>FheIfThenElse": 1,
+      "FheSub>FheIfThenElse": 1,
+      "FheSub>FheGe>FheIfThenElse": 1,
+    });
+  });
+
+  test("counts a producer read twice once and stops at the longest n", () => {
+    const nodes = [
+      { nodeId: 0, op: "FheAdd" },
+      { nodeId: 1, op: "FheMul" },
+      { nodeId: 2, op: "FheAdd" },
+      { nodeId: 3, op: "FheMul" },
+    ];
+    const edges = [
+      { fromNodeId: 0, toNodeId: 1 },
+      { fromNodeId: 0, toNodeId: 1 },
+      { fromNodeId: 1, toNodeId: 2 },
+      { fromNodeId: 2, toNodeId: 3 },
+    ];
+    expect(Object.fromEntries(computeOpNgrams(nodes, edges, 3))).toEqual({
+      "FheAdd>FheMul": 2,
+      "FheMul>FheAdd": 1,
+      "FheAdd>FheMul>FheAdd": 1,
+      "FheMul>FheAdd>FheMul": 1,
+    });
+  });
+});
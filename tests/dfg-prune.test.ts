@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { pruneDfg } from "../src/dfg-prune";
+import { handle } from "./fixtures.ts";
+
+describe("pruneDfg", () => {
+  // 1 -> 2 -> 3 (allowed), 1 -> 4 (dead end), 5 (allowed, standalone), 6 (dead)
+  const nodes = [1, 2, 3, 4, 5, 6].map((nodeId) => ({ nodeId, outputHandle: handle(nodeId) }));
+  const edges = [
+    { fromNodeId: 1, toNodeId: 2 },
+    { fromNodeId: 2, toNodeId: 3 },
+    { fromNodeId: 1, toNodeId: 4 },
+  ];
+
+  test("keeps allowed nodes and their ancestors", () => {
+    const pruned = pruneDfg(nodes, edges, new Set([handle(3), handle(5)]));
+    expect(Array.from(pruned.allowed).sort()).toEqual([3, 5]);
+    expect(Array.from(pruned.kept).sort()).toEqual([1, 2, 3, 5]);
+    expect(pruned.edges).toEqual([
+      { fromNodeId: 1, toNodeId: 2 },
+      { fromNodeId: 2, toNodeId: 3 },
+    ]);
+    expect(pruned.depth).toBe(3);
+  });
+
+  test("matches handles case-insensitively", () => {
+    const upper = `0x${handle(4).slice(2).toUpperCase()}`;
+    const pruned = pruneDfg(
+      nodes.map((node) => (node.nodeId === 4 ? { ...node, outputHandle: upper } : node)),
+      edges,
+      new Set([handle(4)]),
+    );
+    expect(Array.from(pruned.kept).sort()).toEqual([1, 4]);
+    expect(pruned.depth).toBe(2);
+  });
+
+  test("drops everything when nothing is allowed", () => {
+    const pruned = pruneDfg(nodes, edges, new Set());
+    expect(pruned.kept.size).toBe(0);
+    expect(pruned.edges).toEqual([]);
+    expect(pruned.depth).toBe(0);
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, expect, test } from "bun:test";
-import { computeDfgSignature } from "../src/dfg-signature";
+import {
+  computeDfgSignature,
+  computeSchedulerDfgSignature,
+  computeTypedDfgSignature,
+} from "../src/dfg-signature";
 
 describe("computeDfgSignature", () => {
   test("is invariant to absolute node ids", () => {
@@ -58,3 +62,116 @@ describe("computeDfgSignature", () => {
     expect(sigChain).not.toBe(sigStar);
   });
 });
+
+describe("computeSchedulerDfgSignature", () => {
+  const edges = [
+    { fromNodeId: 1, toNodeId: 3 },
+    { fromNodeId: 2, toNodeId: 3 },
+  ];
+
+  test("orders ops by output handle instead of log index", () => {
+    const sig1 = computeSchedulerDfgSignature(
+      [
+        { nodeId: 1, op: "FheAdd", outputHandle: "0xaa" },
+        { nodeId: 2, op: "FheMul", outputHandle: "0xbb" },
+        { nodeId: 3, op: "FheSub", outputHandle: "0xcc" },
+      ],
+      edges,
+    );
+    // Same graph with the two independent ops emitted the other way round.
+    const sig2 = computeSchedulerDfgSignature(
+      [
+        { nodeId: 1, op: "FheMul", outputHandle: "0xbb" },
+        { nodeId: 2, op: "FheAdd", outputHandle: "0xaa" },
+        { nodeId: 3, op: "FheSub", outputHandle: "0xcc" },
+      ],
+      edges,
+    );
+
+    expect(sig1).toBe(sig2);
+    expect(
+      computeDfgSignature(
+        [
+          { nodeId: 1, op: "FheAdd" },
+          { nodeId: 2, op: "FheMul" },
+          { nodeId: 3, op: "FheSub" },
+        ],
+        edges,
+      ),
+    ).not.toBe(
+      computeDfgSignature(
+        [
+          { nodeId: 1, op: "FheMul" },
+          { nodeId: 2, op: "FheAdd" },
+          { nodeId: 3, op: "FheSub" },
+        ],
+        edges,
+      ),
+    );
+  });
+
+  test("ignores VerifyInput nodes", () => {
+    const nodes = [
+      { nodeId: 1, op: "FheAdd", outputHandle: "0xaa" },
+      { nodeId: 2, op: "FheMul", outputHandle: "0xbb" },
+      { nodeId: 3, op: "FheSub", outputHandle: "0xcc" },
+    ];
+    expect(
+      computeSchedulerDfgSignature(
+        [{ nodeId: 0, op: "VerifyInput", outputHandle: "0x01" }, ...nodes],
+        [{ fromNodeId: 0, toNodeId: 1 }, ...edges],
+      ),
+    ).toBe(computeSchedulerDfgSignature(nodes, edges));
+  });
+
+  test("hashes the target type of casts", () => {
+    const cast = (toType: number) => [
+      {
+        nodeId: 1,
+        op: "Cast",
+        outputHandle: "0xaa",
+        typeInfoJson: JSON.stringify({
+          inputs: [
+            { role: "ct", kind: "external", type: 2 },
+            { role: "toType", kind: "scalar", type: toType },
+          ],
+          output: { type: toType },
+        }),
+      },
+    ];
+    expect(computeSchedulerDfgSignature(cast(2), [])).not.toBe(
+      computeSchedulerDfgSignature(cast(5), []),
+    );
+
+    // Other ops keep hashing their bare op.
+    const add = { nodeId: 1, op: "FheAdd", outputHandle: "0xaa" };
+    expect(
+      computeSchedulerDfgSignature([{ ...add, typeInfoJson: cast(5)[0]?.typeInfoJson }], []),
+    ).toBe(computeSchedulerDfgSignature([add], []));
+  });
+});
+
+describe("computeTypedDfgSignature", () => {
+  const typeInfo = (type: number, rhsKind: string) =>
+    JSON.stringify({
+      inputs: [
+        { role: "lhs", kind: "external", type },
+        { role: "rhs", kind: rhsKind, type: rhsKind === "scalar" ? null : type },
+      ],
+      output: { kind: "ciphertext", type },
+    });
+
+  test("separates the same shape on different types and input kinds", () => {
+    const mul = (typeInfoJson: string) =>
+      computeTypedDfgSignature([{ nodeId: 4, op: "FheMul", typeInfoJson }], []);
+
+    expect(mul(typeInfo(2, "external"))).not.toBe(mul(typeInfo(8, "external")));
+    expect(mul(typeInfo(2, "external"))).not.toBe(mul(typeInfo(2, "scalar")));
+    expect(mul(typeInfo(2, "scalar"))).toBe(
+      computeTypedDfgSignature(
+        [{ nodeId: 9, op: "FheMul", typeInfoJson: typeInfo(2, "scalar") }],
+        [],
+      ),
+    );
+  });
+});
@@ -0,0 +1,259 @@
+import { toHex } from "viem";
+
+// In-process JSON-RPC node for end-to-end ingestion tests: serves a scripted chain of
+// blocks and logs over HTTP and injects the failures real providers produce.
+
+type Hex = `0x${string}`;
+
+export type FakeLogInput = {
+  blockNumber: number;
+  address: string;
+  topics: Hex[];
+  data: Hex;
+  /** Position of the emitting tx in its block; logs of one tx share a hash. */
+  txIndex?: number;
+};
+
+export type FakeFailure =
+  | { kind: "html"; status?: number }
+  | { kind: "rpcError"; code: number; message: string };
+
+export type FakeRpcOptions = {
+  chainId: number;
+  head: number;
+  /** `eth_getLogs` answers "query exceeds max results" above this many logs. */
+  maxLogs?: number;
+  /** `eth_getLogs` answers "exceed maximum block range" above this many blocks. */
+  maxBlockRange?: number;
+  /** `eth_getLogs` answers [] to topic-OR filters, like gateways that drop them. */
+  ignoreTopicOr?: boolean;
+};
+
+export type FakeRpc = {
+  url: string;
+  /** Every request served (including failed ones), in order. */
+  requests: Array<{ method: string; params: unknown[] }>;
+  setHead(head: number): void;
+  addLogs(logs: FakeLogInput[]): void;
+  /** Replaces every block from `fromBlock` on with a new fork and drops its logs. */
+  reorg(fromBlock: number): void;
+  /** Fails the next `times` calls of `method` (`*` for any method). */
+  failNext(method: string, failure: FakeFailure, times?: number): void;
+  /** Answers `debug_traceTransaction` for `hash` with this callTracer frame. */
+  setTrace(hash: string, trace: unknown): void;
+  /** Answers `debug_traceTransaction` for `hash` with this JSON-RPC error instead. */
+  failTrace(hash: string, message: string): void;
+  /** Holds every `eth_getLogs` answer for ranges starting at `fromBlock` for `ms`. */
+  delayLogs(fromBlock: number, ms: number): void;
+  /** Answers `eth_getLogs` for ranges starting at `fromBlock` with this JSON-RPC error. */
+  failLogs(fromBlock: number, message: string): void;
+  blockHash(blockNumber: number): Hex;
+  txHash(blockNumber: number, txIndex?: number): Hex;
+  stop(): void;
+};
+
+const GENESIS_TIMESTAMP = 1_700_000_000;
+const BLOCK_TIME = 12;
+
+function word(...parts: number[]): Hex {
+  return `0x${parts.map((part) => part.toString(16).padStart(16, "0")).join("")}`.padEnd(
+    66,
+    "0",
+  ) as Hex;
+}
+
+export function createFakeRpc(options: FakeRpcOptions): FakeRpc {
+  let head = options.head;
+  const logs: FakeLogInput[] = [];
+  const forks: number[] = [];
+  const failures: Array<{ method: string; failure: FakeFailure; remaining: number }> = [];
+  const requests: FakeRpc["requests"] = [];
+  const traces = new Map<string, unknown>();
+  const traceErrors = new Map<string, string>();
+  const logDelays = new Map<number, number>();
+  const logErrors = new Map<number, string>();
+
+  // Each reorg moves the blocks above its fork point onto a new branch.
+  const branchOf = (blockNumber: number) =>
+    forks.reduce((branch, fork, index) => (blockNumber >= fork ? index + 1 : branch), 0);
+  const blockHash = (blockNumber: number) => word(0xb10c, branchOf(blockNumber), blockNumber);
+  const txHash = (blockNumber: number, txIndex: number) =>
+    word(0x7a, branchOf(blockNumber), blockNumber, txIndex);
+
+  const block = (blockNumber: number) => ({
+    number: toHex(blockNumber),
+    hash: blockHash(blockNumber),
+    parentHash: blockNumber === 0 ? word(0) : blockHash(blockNumber - 1),
+    timestamp: toHex(GENESIS_TIMESTAMP + blockNumber * BLOCK_TIME),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    miner: "0x0000000000000000000000000000000000000000",
+    extraData: "0x",
+    logsBloom: `0x${"0".repeat(512)}`,
+    mixHash: word(0),
+    receiptsRoot: word(0),
+    sha3Uncles: word(0),
+    stateRoot: word(0),
+    transactionsRoot: word(0),
+    size: "0x0",
+    transactions: [],
+    uncles: [],
+  });
+
+  const parseBlockTag = (tag: unknown) =>
+    tag === "latest" || tag === "safe" || tag === "finalized" || tag === undefined
+      ? head
+      : Number(tag);
+
+  const getLogs = (filter: Record<string, unknown>) => {
+    const fromBlock = parseBlockTag(filter.fromBlock);
+    const toBlock = parseBlockTag(filter.toBlock);
+    const logError = logErrors.get(fromBlock);
+    if (logError !== undefined) throw { code: -32000, message: logError };
+    if (options.maxBlockRange !== undefined && toBlock - fromBlock + 1 > options.maxBlockRange) {
+      throw { code: -32000, message: `exceed maximum block range: ${options.maxBlockRange}` };
+    }
+    const addresses = (
+      Array.isArray(filter.address) ? filter.address : filter.address ? [filter.address] : []
+    ).map((address) => String(address).toLowerCase());
+    const topic0 = Array.isArray(filter.topics) ? filter.topics[0] : null;
+    const selectors = topic0 === null || topic0 === undefined ? null : [topic0].flat();
+    if (options.ignoreTopicOr && selectors && selectors.length > 1) return [];
+
+    const logIndexes = new Map<number, number>();
+    const matched = [];
+    for (const log of logs) {
+      const logIndex = logIndexes.get(log.blockNumber) ?? 0;
+      logIndexes.set(log.blockNumber, logIndex + 1);
+      if (log.blockNumber < fromBlock || log.blockNumber > toBlock || log.blockNumber > head) {
+        continue;
+      }
+      if (addresses.length > 0 && !addresses.includes(log.address.toLowerCase())) continue;
+      if (selectors && !selectors.includes(log.topics[0])) continue;
+      matched.push({
+        address: log.address.toLowerCase(),
+        blockHash: blockHash(log.blockNumber),
+        blockNumber: toHex(log.blockNumber),
+        data: log.data,
+        logIndex: toHex(logIndex),
+        removed: false,
+        topics: log.topics,
+        transactionHash: txHash(log.blockNumber, log.txIndex ?? 0),
+        transactionIndex: toHex(log.txIndex ?? 0),
+      });
+    }
+    if (options.maxLogs !== undefined && matched.length > options.maxLogs) {
+      throw { code: -32000, message: `query exceeds max results ${options.maxLogs}` };
+    }
+    return matched;
+  };
+
+  const call = (method: string, params: unknown[]): unknown => {
+    switch (method) {
+      case "eth_chainId":
+        return toHex(options.chainId);
+      case "eth_blockNumber":
+        return toHex(head);
+      case "eth_getBlockByNumber": {
+        const blockNumber = parseBlockTag(params[0]);
+        return blockNumber > head ? null : block(blockNumber);
+      }
+      case "eth_getLogs":
+        return getLogs((params[0] ?? {}) as Record<string, unknown>);
+      case "debug_traceTransaction": {
+        const traceError = traceErrors.get(String(params[0]).toLowerCase());
+        if (traceError !== undefined) throw { code: -32000, message: traceError };
+        const trace = traces.get(String(params[0]).toLowerCase());
+        if (trace === undefined) throw { code: -32000, message: "transaction not found" };
+        return trace;
+      }
+      default:
+        throw { code: -32601, message: `the method ${method} does not exist` };
+    }
+  };
+
+  const takeFailure = (method: string) => {
+    const index = failures.findIndex(
+      (entry) => entry.remaining > 0 && (entry.method === method || entry.method === "*"),
+    );
+    const entry = failures[index];
+    if (!entry) return null;
+    entry.remaining -= 1;
+    if (entry.remaining === 0) failures.splice(index, 1);
+    return entry.failure;
+  };
+
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    async fetch(request) {
+      const body = (await request.json()) as {
+        id: number;
+        method: string;
+        params?: unknown[];
+      };
+      const params = body.params ?? [];
+      requests.push({ method: body.method, params });
+      if (body.method === "eth_getLogs") {
+        const filter = (params[0] ?? {}) as Record<string, unknown>;
+        const delayMs = logDelays.get(parseBlockTag(filter.fromBlock));
+        if (delayMs !== undefined) await Bun.sleep(delayMs);
+      }
+      const failure = takeFailure(body.method);
+      if (failure?.kind === "html") {
+        return new Response("<html><body><h1>502 Bad Gateway</h1></body></html>", {
+          status: failure.status ?? 502,
+          headers: { "content-type": "text/html" },
+        });
+      }
+      if (failure?.kind === "rpcError") {
+        return Response.json({ jsonrpc: "2.0", id: body.id, error: failure });
+      }
+      try {
+        return Response.json({ jsonrpc: "2.0", id: body.id, result: call(body.method, params) });
+      } catch (error) {
+        return Response.json({ jsonrpc: "2.0", id: body.id, error });
+      }
+    },
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    requests,
+    setHead: (next) => {
+      head = next;
+    },
+    addLogs: (entries) => {
+      logs.push(...entries);
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || (a.txIndex ?? 0) - (b.txIndex ?? 0));
+    },
+    reorg: (fromBlock) => {
+      forks.push(fromBlock);
+      for (let index = logs.length - 1; index >= 0; index -= 1) {
+        if ((logs[index]?.blockNumber ?? 0) >= fromBlock) logs.splice(index, 1);
+      }
+    },
+    failNext: (method, failure, times = 1) => {
+      failures.push({ method, failure, remaining: times });
+    },
+    setTrace: (hash, trace) => {
+      traces.set(hash.toLowerCase(), trace);
+    },
+    failTrace: (hash, message) => {
+      traceErrors.set(hash.toLowerCase(), message);
+    },
+    delayLogs: (fromBlock, ms) => {
+      logDelays.set(fromBlock, ms);
+    },
+    failLogs: (fromBlock, message) => {
+      logErrors.set(fromBlock, message);
+    },
+    blockHash,
+    txHash: (blockNumber, txIndex = 0) => txHash(blockNumber, txIndex),
+    stop: () => {
+      server.stop(true);
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { encodeAbiParameters, encodeEventTopics, parseAbi, parseAbiParameters } from "viem";
+import type { FakeLogInput } from "./fake-rpc.ts";
+
+// FheAdd logs of one executor, and the decryption requests that read their results, shared
+// by the tests that ingest, store or replay them.
+
+type Hex = `0x${string}`;
+
+export const EXECUTOR = "0x92C920834Ec8941d2C77D188936E1f7A6f49c127";
+export const CALLER = "0x00000000000000000000000000000000000000aa";
+export const DECRYPTION = "0x00000000000000000000000000000000000000dd";
+
+/** Handle `n` of a euint64 (type byte 5). */
+export const handle = (n: number) => `0x${n.toString(16).padStart(60, "0")}0500` as Hex;
+
+/** Handle `n` of a euint64 computed on `chainId`, which decryption requests are linked by. */
+export const chainHandle = (n: number, chainId: number) =>
+  `0x${n.toString(16).padStart(44, "0")}${chainId.toString(16).padStart(16, "0")}0500` as Hex;
+
+export const fheAdd = parseAbi([
+  "event FheAdd(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)",
+]);
+
+export function addTopics(caller: string = CALLER): Hex[] {
+  return encodeEventTopics({
+    abi: fheAdd,
+    eventName: "FheAdd",
+    args: { caller: caller as Hex },
+  }) as Hex[];
+}
+
+/** `handle(1) + handle(2)` into `handle(result)`, or into `result` when it is a handle. */
+export function addData(result: number | Hex): Hex {
+  return encodeAbiParameters(
+    [{ type: "bytes32" }, { type: "bytes32" }, { type: "bytes1" }, { type: "bytes32" }],
+    [handle(1), handle(2), "0x00", typeof result === "number" ? handle(result) : result],
+  );
+}
+
+export function addLog(
+  blockNumber: number,
+  result: number | Hex,
+  txIndex = 0,
+  caller: string = CALLER,
+): FakeLogInput {
+  return {
+    blockNumber,
+    address: EXECUTOR,
+    topics: addTopics(caller),
+    data: addData(result),
+    txIndex,
+  };
+}
+
+export const decryptionEvents = parseAbi([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+  "event UserDecryptionRequest(uint256 indexed decryptionId, (bytes32 ctHandle, uint256 keyId, bytes32 snsCiphertextDigest, address[] coprocessorTxSenderAddresses)[] snsCtMaterials, address userAddress, bytes publicKey, bytes extraData)",
+]);
+
+/** A DecryptionOracle request from `CALLER` to publicly decrypt `handles`. */
+export function decryptionLog(
+  blockNumber: number,
+  requestId: number,
+  handles: Hex[],
+  txIndex = 0,
+): FakeLogInput {
+  return {
+    blockNumber,
+    address: DECRYPTION,
+    topics: encodeEventTopics({
+      abi: decryptionEvents,
+      eventName: "DecryptionRequest",
+      args: { counter: BigInt(requestId) },
+    }) as Hex[],
+    data: encodeAbiParameters(parseAbiParameters("uint256, bytes32[], address, bytes4"), [
+      BigInt(requestId),
+      handles,
+      CALLER,
+      "0x12345678",
+    ]),
+    txIndex,
+  };
+}
+
+/** A gateway request from `user` to decrypt `handles` for themselves. */
+export function userDecryptionLog(
+  blockNumber: number,
+  requestId: number,
+  handles: Hex[],
+  user: Hex,
+  txIndex = 0,
+): FakeLogInput {
+  const materials = handles.map((ctHandle) => ({
+    ctHandle,
+    keyId: 1n,
+    snsCiphertextDigest: ctHandle,
+    coprocessorTxSenderAddresses: [],
+  }));
+  return {
+    blockNumber,
+    address: DECRYPTION,
+    topics: encodeEventTopics({
+      abi: decryptionEvents,
+      eventName: "UserDecryptionRequest",
+      args: { decryptionId: BigInt(requestId) },
+    }) as Hex[],
+    data: encodeAbiParameters(
+      parseAbiParameters(
+        "(bytes32 ctHandle, uint256 keyId, bytes32 snsCiphertextDigest, address[] coprocessorTxSenderAddresses)[], address, bytes, bytes",
+      ),
+      [materials, user, "0x", "0x"],
+    ),
+    txIndex,
+  };
+}
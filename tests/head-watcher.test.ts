@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime, spyOn } from "bun:test";
+import {
+  createHeadWatcher,
+  HEAD_STALE_AFTER_MS,
+  type HeadSource,
+  RESUBSCRIBE_DELAY_MS,
+} from "../src/head-watcher.ts";
+
+type Handlers = Parameters<HeadSource["watchBlockNumber"]>[0];
+
+// Stands in for the WebSocket client: records every subscription so a test can deliver
+// heads or errors to the current one.
+function createFakeSource() {
+  const subscriptions: Array<{ handlers: Handlers; active: boolean }> = [];
+  let closed = false;
+  const source: HeadSource = {
+    watchBlockNumber: (handlers) => {
+      const subscription = { handlers, active: true };
+      subscriptions.push(subscription);
+      return () => {
+        subscription.active = false;
+      };
+    },
+    close: () => {
+      closed = true;
+    },
+  };
+  const current = () => {
+    const subscription = subscriptions[subscriptions.length - 1];
+    if (!subscription) throw new Error("not subscribed");
+    return subscription;
+  };
+  return {
+    source,
+    subscriptions,
+    isClosed: () => closed,
+    head: (blockNumber: number) => current().handlers.onBlockNumber(BigInt(blockNumber)),
+    fail: (message: string) => current().handlers.onError?.(new Error(message)),
+  };
+}
+
+const START = new Date("2026-01-01T00:00:00Z").getTime();
+const silenced: Array<{ mockRestore(): void }> = [];
+
+beforeEach(() => {
+  setSystemTime(START);
+  for (const method of ["log", "warn"] as const) {
+    silenced.push(spyOn(console, method).mockImplementation(() => {}));
+  }
+});
+
+afterEach(() => {
+  setSystemTime();
+  for (const spy of silenced.splice(0)) spy.mockRestore();
+});
+
+describe("head watcher", () => {
+  it("wakes a pending wait on a new head", async () => {
+    const fake = createFakeSource();
+    const watcher = createHeadWatcher("wss://node.example", 1, fake.source);
+    expect(watcher.isLive()).toBe(false);
+
+    const waiting = watcher.wait(60_000);
+    expect(fake.subscriptions).toHaveLength(1);
+    fake.head(10);
+    expect(await waiting).toBe("head");
+    expect(watcher.isLive()).toBe(true);
+
+    // A head that arrives between waits is not lost.
+    fake.head(11);
+    expect(await watcher.wait(60_000)).toBe("head");
+    expect(await watcher.wait(5)).toBe("timeout");
+    watcher.close();
+  });
+
+  it("falls back to polling on a socket error and resubscribes after the delay", async () => {
+    const fake = createFakeSource();
+    const watcher = createHeadWatcher("wss://node.example", 1, fake.source);
+    const waiting = watcher.wait(60_000);
+    fake.head(10);
+    await waiting;
+
+    // The error wakes the loop so it polls right away.
+    const dropped = watcher.wait(60_000);
+    fake.fail("socket closed");
+    expect(await dropped).toBe("head");
+    expect(watcher.isLive()).toBe(false);
+    expect(fake.subscriptions[0]?.active).toBe(false);
+
+    // Until the delay passes, waits are plain poll timeouts.
+    setSystemTime(START + RESUBSCRIBE_DELAY_MS - 1);
+    expect(await watcher.wait(5)).toBe("timeout");
+    expect(fake.subscriptions).toHaveLength(1);
+
+    setSystemTime(START + RESUBSCRIBE_DELAY_MS);
+    const resubscribed = watcher.wait(60_000);
+    expect(fake.subscriptions).toHaveLength(2);
+    fake.head(11);
+    expect(await resubscribed).toBe("head");
+    expect(watcher.isLive()).toBe(true);
+    watcher.close();
+  });
+
+  it("drops a subscription that stopped delivering heads", async () => {
+    const fake = createFakeSource();
+    const watcher = createHeadWatcher("wss://node.example", 1, fake.source);
+    const waiting = watcher.wait(60_000);
+    fake.head(10);
+    await waiting;
+
+    setSystemTime(START + HEAD_STALE_AFTER_MS + 1);
+    expect(await watcher.wait(60_000)).toBe("head");
+    expect(watcher.isLive()).toBe(false);
+    expect(fake.subscriptions[0]?.active).toBe(false);
+    expect(await watcher.wait(5)).toBe("timeout");
+    watcher.close();
+  });
+
+  it("ends a pending wait when closed", async () => {
+    const fake = createFakeSource();
+    const watcher = createHeadWatcher("wss://node.example", 1, fake.source);
+    const waiting = watcher.wait(60_000);
+    watcher.close();
+    expect(await waiting).toBe("head");
+    expect(fake.isClosed()).toBe(true);
+    expect(fake.subscriptions[0]?.active).toBe(false);
+    expect(await watcher.wait(60_000)).toBe("timeout");
+  });
+});
@@ -0,0 +1,486 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { initDatabase, loadConfig, run } from "../src/app.ts";
+import { createDfgBuilder } from "../src/dfg-build.ts";
+import { createSqliteStorage } from "../src/storage.ts";
+import { createFakeRpc, type FakeRpc } from "./fake-rpc.ts";
+import {
+  addLog,
+  CALLER,
+  chainHandle,
+  DECRYPTION,
+  decryptionLog,
+  EXECUTOR,
+  handle,
+  userDecryptionLog,
+} from "./fixtures.ts";
+
+const CHAIN_ID = 31337;
+
+let fake: FakeRpc | null = null;
+let dbPath = "";
+const silenced: Array<{ mockRestore(): void }> = [];
+
+beforeEach(() => {
+  dbPath = join(mkdtempSync(join(tmpdir(), "fhevm-e2e-")), "stats.sqlite");
+  for (const method of ["log", "warn"] as const) {
+    silenced.push(spyOn(console, method).mockImplementation(() => {}));
+  }
+});
+
+afterEach(() => {
+  fake?.stop();
+  fake = null;
+  for (const spy of silenced.splice(0)) spy.mockRestore();
+});
+
+function backfill(rpc: FakeRpc, env: Record<string, string>, signal?: AbortSignal) {
+  return run(
+    loadConfig({
+      NETWORK: "custom",
+      RPC_URL: rpc.url,
+      CHAIN_ID: String(CHAIN_ID),
+      FHEVM_EXECUTOR_ADDRESS: EXECUTOR,
+      MODE: "backfill",
+      DB_PATH: dbPath,
+      ...env,
+    }),
+    { signal },
+  );
+}
+
+function readDb<T>(fn: (db: Database) => T): T {
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+const selectEvents = (db: Database) =>
+  db
+    .prepare(
+      `SELECT block_number AS blockNumber, block_hash AS blockHash, tx_index AS txIndex,
+              log_index AS logIndex, event_name AS eventName, args_json AS argsJson
+       FROM fhe_events ORDER BY block_number, log_index`,
+    )
+    .all() as Array<{
+    blockNumber: number;
+    blockHash: string;
+    txIndex: number;
+    logIndex: number;
+    eventName: string;
+    argsJson: string;
+  }>;
+
+const selectCheckpoint = (db: Database) =>
+  db.prepare("SELECT last_block AS lastBlock, last_block_hash AS hash FROM checkpoints").get() as {
+    lastBlock: number;
+    hash: string | null;
+  };
+
+describe("end-to-end ingestion", () => {
+  it("backfills scripted logs into events, blocks and the checkpoint", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 30 });
+    fake.addLogs([addLog(12, 1), addLog(12, 2, 1), addLog(15, 3), addLog(25, 4)]);
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "20", BATCH_SIZE: "4" });
+
+    const rpc = fake;
+    readDb((db) => {
+      const events = selectEvents(db);
+      expect(events.map((event) => [event.blockNumber, event.txIndex, event.logIndex])).toEqual([
+        [12, 0, 0],
+        [12, 1, 1],
+        [15, 0, 0],
+      ]);
+      expect(events.every((event) => event.eventName === "FheAdd")).toBe(true);
+      expect(events[0]?.blockHash).toBe(rpc.blockHash(12));
+      expect(JSON.parse(events[2]?.argsJson ?? "{}").result).toBe(handle(3));
+      expect(selectCheckpoint(db)).toEqual({ lastBlock: 20, hash: rpc.blockHash(20) });
+      expect(db.prepare("SELECT count FROM op_counts").get()).toEqual({ count: 3 });
+      expect(db.prepare("SELECT count FROM tx_counts").get()).toEqual({ count: 3 });
+      expect(db.prepare("SELECT number, timestamp FROM blocks WHERE number = 12").get()).toEqual({
+        number: 12,
+        timestamp: 1_700_000_000 + 12 * 12,
+      });
+    });
+
+    // A second run resumes after the checkpoint.
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "26", BATCH_SIZE: "4" });
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12, 12, 15, 25]);
+      expect(selectCheckpoint(db).lastBlock).toBe(26);
+    });
+  });
+
+  it("splits ranges on result-size and block-span limits", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 40, maxLogs: 2, maxBlockRange: 4 });
+    fake.addLogs([addLog(21, 1), addLog(22, 2), addLog(22, 3, 1), addLog(23, 4), addLog(28, 5)]);
+    await backfill(fake, { START_BLOCK: "20", END_BLOCK: "29", BATCH_SIZE: "10" });
+
+    const logRequests = fake.requests.filter((request) => request.method === "eth_getLogs");
+    expect(logRequests.length).toBeGreaterThan(10);
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([21, 22, 22, 23, 28]);
+      expect(selectCheckpoint(db).lastBlock).toBe(29);
+    });
+  });
+
+  it("only trusts topic-OR once a probed range had logs", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20, ignoreTopicOr: true });
+    // The first range is empty, so its probe cannot tell the dropped OR filter apart.
+    fake.addLogs([addLog(15, 1), addLog(19, 2)]);
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "20", BATCH_SIZE: "4" });
+
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([15, 19]);
+      expect(selectCheckpoint(db).lastBlock).toBe(20);
+    });
+  });
+
+  it("retries getLogs through HTML error pages and crashed method handlers", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(11, 1), addLog(13, 2)]);
+    fake.failNext("eth_getLogs", { kind: "html", status: 502 }, 2);
+    fake.failNext(
+      "eth_getLogs",
+      { kind: "rpcError", code: -32000, message: "method handler crashed" },
+      2,
+    );
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "14", BATCH_SIZE: "5" });
+
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([11, 13]);
+      expect(selectCheckpoint(db).lastBlock).toBe(14);
+      const stats = db
+        .prepare("SELECT requests, failures, last_error AS lastError FROM rpc_endpoint_stats")
+        .get() as { requests: number; failures: number; lastError: string | null };
+      expect(stats.failures).toBeGreaterThan(0);
+      expect(stats.requests).toBeGreaterThan(stats.failures);
+    });
+  }, 20_000);
+
+  it("rolls back and re-ingests a reorged range", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(12, 1), addLog(16, 2), addLog(18, 3)]);
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "20", BATCH_SIZE: "5" });
+    const oldHash = fake.blockHash(16);
+
+    // Blocks from 15 on are replaced: the event at 16 moves to 17, the one at 18 is gone.
+    // Block 14 (the end of the first range, whose header is stored) is still canonical.
+    fake.reorg(15);
+    fake.addLogs([addLog(17, 2)]);
+    fake.setHead(24);
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "24", BATCH_SIZE: "5" });
+
+    const rpc = fake;
+    readDb((db) => {
+      const events = selectEvents(db);
+      expect(events.map((event) => event.blockNumber)).toEqual([12, 17]);
+      expect(events.map((event) => event.blockHash)).toEqual([
+        rpc.blockHash(12),
+        rpc.blockHash(17),
+      ]);
+      expect(rpc.blockHash(16)).not.toBe(oldHash);
+      expect(selectCheckpoint(db)).toEqual({ lastBlock: 24, hash: rpc.blockHash(24) });
+      expect(db.prepare("SELECT count FROM op_counts").get()).toEqual({ count: 2 });
+      const reorgs = db
+        .prepare(
+          `SELECT fork_block AS forkBlock, checkpoint_block AS checkpointBlock,
+                  removed_events AS removedEvents
+           FROM reorgs`,
+        )
+        .all();
+      expect(reorgs).toEqual([{ forkBlock: 15, checkpointBlock: 20, removedEvents: 2 }]);
+    });
+  });
+
+  it("commits each range atomically with its counters and checkpoint", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(12, 1), addLog(12, 2, 1), addLog(15, 3), addLog(16, 4)]);
+    // Fails the second range after its first event row is written.
+    const db = await initDatabase(dbPath);
+    db.exec(
+      `CREATE TRIGGER fail_tx_caller BEFORE INSERT ON tx_callers
+       WHEN NEW.tx_hash = '${fake.txHash(16)}'
+       BEGIN SELECT RAISE(ABORT, 'injected failure'); END`,
+    );
+    db.close();
+
+    await expect(
+      backfill(fake, { START_BLOCK: "10", END_BLOCK: "20", BATCH_SIZE: "4" }),
+    ).rejects.toThrow("injected failure");
+
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12, 12]);
+      expect(selectCheckpoint(db).lastBlock).toBe(13);
+      expect(db.prepare("SELECT count FROM op_counts").get()).toEqual({ count: 2 });
+      expect(db.prepare("SELECT count FROM tx_counts").get()).toEqual({ count: 2 });
+      expect(db.prepare("SELECT COUNT(*) AS count FROM tx_seen").get()).toEqual({ count: 2 });
+    });
+  });
+
+  it("writes concurrently fetched ranges in block order up to the first failure", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 30 });
+    fake.addLogs([addLog(12, 1), addLog(17, 2), addLog(22, 3)]);
+    // 10-14 answers last, 15-19 fails after 20-24 has already been fetched.
+    fake.delayLogs(10, 20);
+    fake.delayLogs(15, 10);
+    fake.failLogs(15, "backend unavailable");
+    const env = { START_BLOCK: "10", END_BLOCK: "24", BATCH_SIZE: "5", BACKFILL_CONCURRENCY: "3" };
+    await expect(backfill(fake, env)).rejects.toThrow("backend unavailable");
+
+    const fetchedFrom = fake.requests
+      .filter((request) => request.method === "eth_getLogs")
+      .map((request) => Number((request.params[0] as { fromBlock: string }).fromBlock));
+    expect(fetchedFrom).toContain(20);
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12]);
+      expect(selectCheckpoint(db).lastBlock).toBe(14);
+      expect(db.prepare("SELECT MAX(number) AS number FROM blocks").get()).toEqual({
+        number: 14,
+      });
+    });
+
+    // The next run resumes at the failed range and writes the rest in order.
+    fake.stop();
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 30 });
+    fake.addLogs([addLog(12, 1), addLog(17, 2), addLog(22, 3)]);
+    await backfill(fake, env);
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12, 17, 22]);
+      expect(selectCheckpoint(db).lastBlock).toBe(24);
+    });
+  });
+
+  it("stops every network before rethrowing one network's failure", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(12, 1)]);
+    const failing = createFakeRpc({ chainId: CHAIN_ID + 1, head: 20 });
+    failing.failLogs(10, "backend unavailable");
+    const networkConfig = (rpc: FakeRpc, chainId: number) =>
+      loadConfig({
+        NETWORK: "custom",
+        RPC_URL: rpc.url,
+        CHAIN_ID: String(chainId),
+        FHEVM_EXECUTOR_ADDRESS: EXECUTOR,
+        MODE: "stream",
+        START_BLOCK: "10",
+        POLL_INTERVAL_MS: "60000",
+        DB_PATH: dbPath,
+      });
+    try {
+      // Rejects without waiting out the healthy network's 60s poll interval.
+      await expect(
+        run([networkConfig(fake, CHAIN_ID), networkConfig(failing, CHAIN_ID + 1)]),
+      ).rejects.toThrow("backend unavailable");
+    } finally {
+      failing.stop();
+    }
+
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12]);
+      expect(
+        db.prepare("SELECT chain_id AS chainId, last_block AS lastBlock FROM checkpoints").all(),
+      ).toEqual([{ chainId: CHAIN_ID, lastBlock: 20 }]);
+    });
+  });
+
+  it("stops streaming at a range boundary when shutdown is requested", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(12, 1), addLog(19, 2)]);
+    (await initDatabase(dbPath)).close();
+    const shutdown = new AbortController();
+    const running = backfill(
+      fake,
+      { MODE: "stream", START_BLOCK: "10", BATCH_SIZE: "4", POLL_INTERVAL_MS: "60000" },
+      shutdown.signal,
+    );
+    for (let attempt = 0; attempt < 100; attempt += 1) {
+      const checkpoint = readDb(
+        (db) =>
+          db.prepare("SELECT last_block AS lastBlock FROM checkpoints").get() as {
+            lastBlock: number;
+          } | null,
+      );
+      if (checkpoint?.lastBlock === 20) break;
+      await Bun.sleep(20);
+    }
+    shutdown.abort();
+    // Resolves without waiting out the 60s poll interval.
+    await running;
+
+    readDb((db) => {
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12, 19]);
+      expect(selectCheckpoint(db).lastBlock).toBe(20);
+    });
+  });
+  it("builds DFGs inline with each range and advances the build checkpoint", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    // The tx at 15 reads handle 1, produced by the tx at 12.
+    fake.addLogs([addLog(12, 1), addLog(15, 3)]);
+    await backfill(fake, {
+      START_BLOCK: "10",
+      END_BLOCK: "20",
+      BATCH_SIZE: "4",
+      DFG_BUILD_INLINE: "1",
+    });
+
+    const rpc = fake;
+    readDb((db) => {
+      expect(
+        db
+          .prepare(
+            `SELECT t.block_number AS blockNumber, t.node_count AS nodeCount,
+                    d.upstream_txs AS upstreamTxs, d.chain_depth AS chainDepth
+             FROM dfg_txs t
+             JOIN dfg_tx_deps d ON d.chain_id = t.chain_id AND d.tx_hash = t.tx_hash
+             ORDER BY t.block_number`,
+          )
+          .all(),
+      ).toEqual([
+        { blockNumber: 12, nodeCount: 1, upstreamTxs: 0, chainDepth: 0 },
+        { blockNumber: 15, nodeCount: 1, upstreamTxs: 1, chainDepth: 1 },
+      ]);
+      expect(
+        db
+          .prepare(
+            "SELECT last_block AS lastBlock, last_tx_hash AS lastTxHash FROM dfg_build_checkpoints",
+          )
+          .get(),
+      ).toEqual({ lastBlock: 15, lastTxHash: rpc.txHash(15) });
+      // Both txs are a lone FheAdd, so their nodes share every neighborhood hash.
+      expect(
+        db
+          .prepare(
+            `SELECT hops, COUNT(*) AS nodes, COUNT(DISTINCT hash) AS hashes
+             FROM dfg_node_hashes GROUP BY hops ORDER BY hops`,
+          )
+          .all(),
+      ).toEqual([
+        { hops: 1, nodes: 2, hashes: 1 },
+        { hops: 2, nodes: 2, hashes: 1 },
+      ]);
+    });
+  });
+
+  it("leaves the build checkpoint to the batch builder while earlier txs are unbuilt", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(12, 1), addLog(15, 3)]);
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "13" });
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "20", DFG_BUILD_INLINE: "1" });
+
+    readDb((db) => {
+      expect(db.prepare("SELECT block_number AS blockNumber FROM dfg_txs").all()).toEqual([
+        { blockNumber: 15 },
+      ]);
+      expect(db.prepare("SELECT * FROM dfg_build_checkpoints").get()).toBeNull();
+    });
+  });
+
+  it("drops the dfg:rollup checkpoints that already counted a rebuilt tx", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([addLog(12, 1), addLog(15, 3)]);
+    await backfill(fake, { START_BLOCK: "10", END_BLOCK: "20", DFG_BUILD_INLINE: "1" });
+
+    const rpc = fake;
+    const db = new Database(dbPath);
+    try {
+      const insertCheckpoint = (table: string, blockNumber: number) =>
+        db
+          .prepare(`INSERT INTO ${table} (chain_id, last_block, last_tx_hash) VALUES (?, ?, ?)`)
+          .run(CHAIN_ID, blockNumber, rpc.txHash(blockNumber));
+      insertCheckpoint("dfg_rollup_checkpoints", 12);
+      insertCheckpoint("dfg_ngram_checkpoints", 15);
+
+      const builder = createDfgBuilder(createSqliteStorage(db));
+      expect(
+        await builder.buildTx({ chainId: CHAIN_ID, txHash: rpc.txHash(15), blockNumber: 15 }),
+      ).toBe(true);
+      expect(
+        db.prepare("SELECT last_block AS lastBlock FROM dfg_rollup_checkpoints").all(),
+      ).toEqual([{ lastBlock: 12 }]);
+      expect(db.prepare("SELECT * FROM dfg_ngram_checkpoints").all()).toEqual([]);
+
+      await builder.buildTx({ chainId: CHAIN_ID, txHash: rpc.txHash(12), blockNumber: 12 });
+      expect(db.prepare("SELECT * FROM dfg_rollup_checkpoints").all()).toEqual([]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("stores one decryption request row per requested handle", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    const user = "0x00000000000000000000000000000000000000ee";
+    fake.addLogs([
+      addLog(12, chainHandle(1, CHAIN_ID)),
+      decryptionLog(15, 7, [chainHandle(1, CHAIN_ID), handle(9)]),
+      userDecryptionLog(18, 8, [chainHandle(1, CHAIN_ID)], user),
+    ]);
+    await backfill(fake, {
+      START_BLOCK: "10",
+      END_BLOCK: "20",
+      DECRYPTION_CONTRACT_ADDRESS: DECRYPTION,
+    });
+
+    const rpc = fake;
+    readDb((db) => {
+      expect(
+        db
+          .prepare(
+            `SELECT block_number AS blockNumber, tx_hash AS txHash, handle_index AS handleIndex,
+                    event_name AS eventName, kind, request_id AS requestId, requester, handle,
+                    handle_chain_id AS handleChainId
+             FROM decryption_requests ORDER BY block_number, handle_index`,
+          )
+          .all(),
+      ).toEqual([
+        {
+          blockNumber: 15,
+          txHash: rpc.txHash(15),
+          handleIndex: 0,
+          eventName: "DecryptionRequest",
+          kind: "public",
+          requestId: "7",
+          requester: CALLER,
+          handle: chainHandle(1, CHAIN_ID),
+          handleChainId: CHAIN_ID,
+        },
+        {
+          blockNumber: 15,
+          txHash: rpc.txHash(15),
+          handleIndex: 1,
+          eventName: "DecryptionRequest",
+          kind: "public",
+          requestId: "7",
+          requester: CALLER,
+          handle: handle(9),
+          handleChainId: 9,
+        },
+        {
+          blockNumber: 18,
+          txHash: rpc.txHash(18),
+          handleIndex: 0,
+          eventName: "UserDecryptionRequest",
+          kind: "user",
+          requestId: "8",
+          requester: user,
+          handle: chainHandle(1, CHAIN_ID),
+          handleChainId: CHAIN_ID,
+        },
+      ]);
+      // Decryption requests are not FHE events, but their block times are stored.
+      expect(selectEvents(db).map((event) => event.blockNumber)).toEqual([12]);
+      expect(db.prepare("SELECT number FROM blocks ORDER BY number").all()).toEqual([
+        { number: 12 },
+        { number: 15 },
+        { number: 18 },
+        { number: 20 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import { initDatabase, rollbackFromBlock } from "../src/app.ts";
+import { createSqliteStorage } from "../src/storage.ts";
+
+const CHAIN_ID = 11155111;
+
+function seed(db: Awaited<ReturnType<typeof initDatabase>>): void {
+  const insertEvent = db.prepare(
+    `INSERT INTO fhe_events (
+       chain_id, block_number, block_hash, tx_hash, log_index, address, event_name, topic0, data
+     ) VALUES (?, ?, ?, ?, ?, '0xexec', ?, '0xtopic', '0x')`,
+  );
+  insertEvent.run(CHAIN_ID, 100, "0xb100", "0xtx1", 0, "FheAdd");
+  insertEvent.run(CHAIN_ID, 101, "0xb101", "0xtx2", 0, "FheAdd");
+  insertEvent.run(CHAIN_ID, 101, "0xb101", "0xtx2", 1, "FheMul");
+  insertEvent.run(CHAIN_ID, 102, "0xb102", "0xtx3", 0, "FheAdd");
+
+  db.exec(`
+    INSERT INTO op_counts (chain_id, event_name, count) VALUES
+      (${CHAIN_ID}, 'FheAdd', 3), (${CHAIN_ID}, 'FheMul', 1);
+    INSERT INTO tx_seen (chain_id, tx_hash) VALUES
+      (${CHAIN_ID}, '0xtx1'), (${CHAIN_ID}, '0xtx2'), (${CHAIN_ID}, '0xtx3');
+    INSERT INTO tx_counts (chain_id, count) VALUES (${CHAIN_ID}, 3);
+    INSERT INTO tx_callers (chain_id, tx_hash, caller) VALUES
+      (${CHAIN_ID}, '0xtx1', '0xa'), (${CHAIN_ID}, '0xtx2', '0xb');
+    INSERT INTO tx_receipts (
+      chain_id, tx_hash, block_number, from_address, gas_used, status
+    ) VALUES
+      (${CHAIN_ID}, '0xtx1', 100, '0xeoa', 21000, 'success'),
+      (${CHAIN_ID}, '0xtx2', 101, '0xeoa', 42000, 'success');
+    INSERT INTO type_mismatches (
+      chain_id, block_number, tx_hash, log_index, event_name, expected_type, actual_type
+    ) VALUES
+      (${CHAIN_ID}, 100, '0xtx1', 0, 'Cast', 4, 5), (${CHAIN_ID}, 102, '0xtx3', 0, 'Cast', 4, 5);
+    INSERT INTO dfg_txs (chain_id, tx_hash, block_number, node_count, edge_count, depth) VALUES
+      (${CHAIN_ID}, '0xtx1', 100, 1, 0, 1), (${CHAIN_ID}, '0xtx2', 101, 2, 1, 2);
+    INSERT INTO dfg_build_checkpoints (chain_id, last_block, last_tx_hash) VALUES
+      (${CHAIN_ID}, 101, '0xtx2');
+    INSERT INTO rollup_checkpoints (chain_id, last_block) VALUES (${CHAIN_ID}, 101);
+    INSERT INTO op_buckets (chain_id, bucket_start, bucket_seconds, event_name, count) VALUES
+      (${CHAIN_ID}, 1800, 1800, 'FheAdd', 2), (${CHAIN_ID}, 1800, 1800, 'FheMul', 1);
+    INSERT INTO checkpoints (chain_id, last_block, last_block_hash) VALUES
+      (${CHAIN_ID}, 102, '0xb102');
+    INSERT INTO blocks (chain_id, number, hash, timestamp, parent_hash) VALUES
+      (${CHAIN_ID}, 100, '0xb100', 1850, '0xb099'),
+      (${CHAIN_ID}, 101, '0xb101', 1900, '0xb100'),
+      (${CHAIN_ID}, 102, '0xb102', 1950, '0xb101');
+  `);
+}
+
+describe("rollbackFromBlock", () => {
+  it("removes orphaned events and rewinds derived tables", async () => {
+    const db = await initDatabase(":memory:");
+    seed(db);
+
+    const result = await rollbackFromBlock(createSqliteStorage(db), {
+      chainId: CHAIN_ID,
+      forkBlock: 101,
+      checkpointBlock: 102,
+      storedHash: "0xb102",
+      canonicalHash: "0xc102",
+    });
+    expect(result).toEqual({ removedEvents: 3, removedTxs: 2 });
+
+    const events = db.prepare("SELECT tx_hash FROM fhe_events").all() as Array<{
+      tx_hash: string;
+    }>;
+    expect(events.map((row) => row.tx_hash)).toEqual(["0xtx1"]);
+
+    const opCounts = db
+      .prepare("SELECT event_name, count FROM op_counts ORDER BY event_name")
+      .all() as Array<{ event_name: string; count: number }>;
+    expect(opCounts).toEqual([
+      { event_name: "FheAdd", count: 1 },
+      { event_name: "FheMul", count: 0 },
+    ]);
+
+    const buckets = db
+      .prepare("SELECT event_name, count FROM op_buckets ORDER BY event_name")
+      .all() as Array<{ event_name: string; count: number }>;
+    expect(buckets).toEqual([
+      { event_name: "FheAdd", count: 1 },
+      { event_name: "FheMul", count: 0 },
+    ]);
+
+    const blocks = db.prepare("SELECT number FROM blocks").all() as Array<{ number: number }>;
+    expect(blocks.map((row) => row.number)).toEqual([100]);
+
+    const txCount = db.prepare("SELECT count FROM tx_counts").get() as { count: number };
+    expect(txCount.count).toBe(1);
+    const callers = db.prepare("SELECT COUNT(*) AS count FROM tx_callers").get() as {
+      count: number;
+    };
+    expect(callers.count).toBe(1);
+    const receipts = db.prepare("SELECT tx_hash FROM tx_receipts").all() as Array<{
+      tx_hash: string;
+    }>;
+    expect(receipts.map((row) => row.tx_hash)).toEqual(["0xtx1"]);
+    const mismatches = db.prepare("SELECT tx_hash FROM type_mismatches").all() as Array<{
+      tx_hash: string;
+    }>;
+    expect(mismatches.map((row) => row.tx_hash)).toEqual(["0xtx1"]);
+    const dfgTxs = db.prepare("SELECT tx_hash FROM dfg_txs").all() as Array<{ tx_hash: string }>;
+    expect(dfgTxs.map((row) => row.tx_hash)).toEqual(["0xtx1"]);
+
+    const checkpoint = db
+      .prepare("SELECT last_block, last_block_hash FROM checkpoints WHERE chain_id = ?")
+      .get(CHAIN_ID) as { last_block: number; last_block_hash: string | null };
+    expect(checkpoint).toEqual({ last_block: 100, last_block_hash: null });
+    const dfgCheckpoint = db
+      .prepare("SELECT last_block, last_tx_hash FROM dfg_build_checkpoints WHERE chain_id = ?")
+      .get(CHAIN_ID) as { last_block: number; last_tx_hash: string | null };
+    expect(dfgCheckpoint).toEqual({ last_block: 100, last_tx_hash: null });
+    const rollupCheckpoint = db
+      .prepare("SELECT last_block FROM rollup_checkpoints WHERE chain_id = ?")
+      .get(CHAIN_ID) as { last_block: number };
+    expect(rollupCheckpoint.last_block).toBe(100);
+
+    const reorg = db
+      .prepare("SELECT fork_block, checkpoint_block, removed_events, removed_txs FROM reorgs")
+      .get() as Record<string, number>;
+    expect(reorg).toEqual({
+      fork_block: 101,
+      checkpoint_block: 102,
+      removed_events: 3,
+      removed_txs: 2,
+    });
+
+    db.close();
+  });
+
+  it("trims ingestion gaps that reach past the fork", async () => {
+    const db = await initDatabase(":memory:");
+    seed(db);
+    db.exec(`
+      INSERT INTO ingestion_gaps (chain_id, from_block, to_block, next_block) VALUES
+        (${CHAIN_ID}, 50, 60, 55), (${CHAIN_ID}, 90, 105, 95), (${CHAIN_ID}, 101, 102, 101);
+    `);
+
+    await rollbackFromBlock(createSqliteStorage(db), {
+      chainId: CHAIN_ID,
+      forkBlock: 101,
+      checkpointBlock: 102,
+      storedHash: "0xb102",
+      canonicalHash: "0xc102",
+    });
+
+    const gaps = db
+      .prepare("SELECT from_block, to_block, next_block, status FROM ingestion_gaps ORDER BY id")
+      .all();
+    expect(gaps).toEqual([
+      { from_block: 50, to_block: 60, next_block: 55, status: "open" },
+      { from_block: 90, to_block: 100, next_block: 95, status: "open" },
+    ]);
+
+    db.close();
+  });
+});
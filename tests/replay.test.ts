@@ -0,0 +1,171 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { initDatabase, loadConfig, replayLogArchive } from "../src/app.ts";
+import { exportLogArchive } from "../src/log-archive.ts";
+import { createSqliteStorage } from "../src/storage.ts";
+import { addData, addTopics, EXECUTOR } from "./fixtures.ts";
+
+const CHAIN_ID = 11155111;
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+// Logs as `eth_getLogs` returns them, unlike the fake RPC inputs of `fixtures.addLog`.
+function addLog(blockNumber: number, logIndex: number, address = EXECUTOR) {
+  return {
+    address,
+    blockHash: hash(blockNumber),
+    // Raw RPC quantities and viem-style decimal values are both accepted.
+    blockNumber: logIndex === 0 ? `0x${blockNumber.toString(16)}` : String(blockNumber),
+    data: addData(blockNumber * 10 + logIndex),
+    logIndex,
+    transactionHash: hash(0x1000 + blockNumber),
+    transactionIndex: "0x0",
+    topics: addTopics(),
+    removed: false,
+  };
+}
+
+function writeArchive(lines: unknown[], gzip: boolean): string {
+  const dir = mkdtempSync(join(tmpdir(), "fhevm-replay-"));
+  const body = `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+  const path = join(dir, gzip ? "logs.jsonl.gz" : "logs.jsonl");
+  writeFileSync(path, gzip ? gzipSync(body) : body);
+  return path;
+}
+
+function replayConfig(path: string) {
+  return loadConfig({
+    NETWORK: "sepolia",
+    MODE: "replay",
+    REPLAY_PATH: path,
+    BATCH_SIZE: "1",
+    ACL_CONTRACT_ADDRESS: "",
+  });
+}
+
+describe("replayLogArchive", () => {
+  it("ingests a gzipped getLogs archive and resumes from the checkpoint", async () => {
+    const path = writeArchive(
+      [
+        { number: 100, hash: hash(100), timestamp: "0x64", parentHash: hash(99) },
+        // One getLogs result per line works as well as one log per line.
+        [addLog(100, 1), addLog(100, 0)],
+        addLog(101, 0, "0x0000000000000000000000000000000000000001"),
+        addLog(102, 0),
+      ],
+      true,
+    );
+    const db = await initDatabase(":memory:");
+
+    const result = await replayLogArchive(createSqliteStorage(db), replayConfig(path));
+    expect(result).toMatchObject({
+      chainId: CHAIN_ID,
+      ranges: 3,
+      inserted: 3,
+      events: 3,
+      blocks: 1,
+      skipped: 1,
+      lastBlock: 102,
+    });
+
+    const events = db
+      .prepare(
+        `SELECT block_number AS blockNumber, log_index AS logIndex, event_name AS eventName,
+                result_type AS resultType
+         FROM fhe_events ORDER BY id`,
+      )
+      .all();
+    expect(events).toEqual([
+      { blockNumber: 100, logIndex: 0, eventName: "FheAdd", resultType: 5 },
+      { blockNumber: 100, logIndex: 1, eventName: "FheAdd", resultType: 5 },
+      { blockNumber: 102, logIndex: 0, eventName: "FheAdd", resultType: 5 },
+    ]);
+    expect(db.prepare("SELECT count FROM op_counts WHERE event_name = 'FheAdd'").get()).toEqual({
+      count: 3,
+    });
+    expect(db.prepare("SELECT timestamp FROM blocks WHERE number = 100").get()).toEqual({
+      timestamp: 100,
+    });
+    expect(
+      db.prepare("SELECT last_block AS lastBlock, last_block_hash AS hash FROM checkpoints").get(),
+    ).toEqual({ lastBlock: 102, hash: hash(102) });
+
+    const again = await replayLogArchive(createSqliteStorage(db), replayConfig(path));
+    expect(again).toMatchObject({ ranges: 0, inserted: 0, skipped: 5, lastBlock: null });
+    db.close();
+  });
+
+  it("rejects archives that go back in block order", async () => {
+    const path = writeArchive([addLog(200, 0), addLog(150, 0)], false);
+    const db = await initDatabase(":memory:");
+    await expect(replayLogArchive(createSqliteStorage(db), replayConfig(path))).rejects.toThrow(
+      "Replay archive is not ordered by block: 150 after 200.",
+    );
+    db.close();
+  });
+
+  it("reports the archive line of malformed records", async () => {
+    const path = writeArchive([{ ...addLog(10, 0), topics: "nope" }], false);
+    const db = await initDatabase(":memory:");
+    await expect(replayLogArchive(createSqliteStorage(db), replayConfig(path))).rejects.toThrow(
+      `${path}:1: invalid topics`,
+    );
+    db.close();
+  });
+});
+
+describe("exportLogArchive", () => {
+  it("writes an archive that replays into the same rows", async () => {
+    const unknownLog = { ...addLog(101, 3), topics: [hash(0xdead), hash(0xbeef)] };
+    const source = writeArchive(
+      [
+        { number: 100, hash: hash(100), timestamp: 100, parentHash: hash(99) },
+        addLog(100, 0),
+        { ...addLog(101, 2), transactionIndex: 7 },
+        unknownLog,
+      ],
+      false,
+    );
+    const original = await initDatabase(":memory:");
+    await replayLogArchive(createSqliteStorage(original), {
+      ...replayConfig(source),
+      batchSize: 1000,
+    });
+
+    const path = join(mkdtempSync(join(tmpdir(), "fhevm-export-")), "logs.jsonl.gz");
+    const manifest = await exportLogArchive(createSqliteStorage(original), path, {
+      chainId: CHAIN_ID,
+    });
+    expect(manifest).toMatchObject({
+      chainId: CHAIN_ID,
+      fromBlock: 100,
+      toBlock: 101,
+      archive: "logs.jsonl.gz",
+      rows: 3,
+      blocks: 1,
+      partialTopics: 0,
+      executors: [{ address: EXECUTOR, fromBlock: null, toBlock: null, rows: 3 }],
+      abiVersions: { v1: 2, unknown: 1 },
+    });
+    expect(manifest.checksums.rows).toMatch(/^[0-9a-f]{64}$/);
+
+    const copy = await initDatabase(":memory:");
+    await replayLogArchive(createSqliteStorage(copy), replayConfig(path));
+    const selectRows = `SELECT block_number, block_hash, tx_hash, tx_index, log_index, address,
+                               event_name, topic0, data, args_json, result_type, topics_json
+                        FROM fhe_events ORDER BY block_number, log_index`;
+    expect(copy.prepare(selectRows).all()).toEqual(original.prepare(selectRows).all());
+    const selectBlocks = `SELECT chain_id, number, hash, timestamp, parent_hash
+                          FROM blocks ORDER BY chain_id, number`;
+    expect(copy.prepare(selectBlocks).all()).toEqual(original.prepare(selectBlocks).all());
+
+    const again = await exportLogArchive(createSqliteStorage(copy), `${path}.copy.jsonl`, {
+      chainId: CHAIN_ID,
+    });
+    expect(again.checksums.rows).toBe(manifest.checksums.rows);
+    original.close();
+    copy.close();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { decodeFheEvent, FHE_ABI_VERSIONS } from "../src/abi-registry.ts";
+import { initDatabase } from "../src/app.ts";
+import { reprocessUnknownEvents } from "../src/reprocess.ts";
+import { createSqliteStorage } from "../src/storage.ts";
+import { addData, addTopics, CALLER, EXECUTOR, fheAdd } from "./fixtures.ts";
+
+const CHAIN_ID = 11155111;
+const topics = addTopics();
+const topic0 = topics[0] ?? "";
+const data = addData(3);
+
+describe("decodeFheEvent", () => {
+  it("only uses versions scoped to the log's block range", () => {
+    const log = { address: EXECUTOR, blockNumber: 50, topics, data };
+    expect(decodeFheEvent(log)?.eventName).toBe("FheAdd");
+    const later = [{ version: "v9", fromBlock: 100, abi: fheAdd }];
+    expect(decodeFheEvent(log, later)).toBe(null);
+    expect(decodeFheEvent({ ...log, blockNumber: 100 }, later)?.abiVersion).toBe("v9");
+  });
+});
+
+describe("reprocessUnknownEvents", () => {
+  it("re-decodes Unknown rows and moves their counters", async () => {
+    const db = await initDatabase(":memory:");
+    const insert = db.prepare(
+      `INSERT INTO fhe_events (
+         chain_id, block_number, block_hash, tx_hash, log_index, address, event_name, topic0,
+         data, topics_json
+       ) VALUES (?, ?, '0xb', ?, 0, ?, 'Unknown', ?, ?, ?)`,
+    );
+    insert.run(CHAIN_ID, 100, "0xtx1", EXECUTOR, topic0, data, JSON.stringify(topics));
+    // Stored before raw topics were kept: recovered through the lookup.
+    insert.run(CHAIN_ID, 101, "0xtx2", EXECUTOR, topic0, data, null);
+    insert.run(CHAIN_ID, 102, "0xtx3", EXECUTOR, `0x${"ff".repeat(32)}`, "0x", null);
+    db.exec(`
+      INSERT INTO op_counts (chain_id, event_name, count) VALUES (${CHAIN_ID}, 'Unknown', 3);
+      INSERT INTO dfg_build_checkpoints (chain_id, last_block, last_tx_hash) VALUES
+        (${CHAIN_ID}, 105, '0xtx9');
+    `);
+
+    const result = await reprocessUnknownEvents(createSqliteStorage(db), CHAIN_ID, {
+      limit: 10,
+      versions: FHE_ABI_VERSIONS,
+      lookupTopics: async (txHash) =>
+        txHash === "0xtx2" ? topics : [`0x${"ff".repeat(32)}` as `0x${string}`],
+    });
+    expect(result).toMatchObject({ scanned: 3, decoded: 2, stillUnknown: 1, missingTopics: 0 });
+    expect(result.byEvent).toEqual({ FheAdd: 2 });
+
+    const rows = db
+      .prepare(
+        `SELECT tx_hash AS txHash, event_name AS eventName, result_type AS resultType,
+                abi_version AS abiVersion, topics_json IS NOT NULL AS hasTopics
+         FROM fhe_events ORDER BY id`,
+      )
+      .all();
+    expect(rows).toEqual([
+      { txHash: "0xtx1", eventName: "FheAdd", resultType: 5, abiVersion: "v1", hasTopics: 0 },
+      { txHash: "0xtx2", eventName: "FheAdd", resultType: 5, abiVersion: "v1", hasTopics: 0 },
+      { txHash: "0xtx3", eventName: "Unknown", resultType: null, abiVersion: null, hasTopics: 1 },
+    ]);
+    const counts = db
+      .prepare("SELECT event_name AS eventName, count FROM op_counts ORDER BY event_name")
+      .all();
+    expect(counts).toEqual([
+      { eventName: "FheAdd", count: 2 },
+      { eventName: "Unknown", count: 1 },
+    ]);
+    const callers = db.prepare("SELECT caller FROM tx_callers").all();
+    expect(callers).toEqual([{ caller: CALLER }, { caller: CALLER }]);
+    const checkpoint = db
+      .prepare("SELECT last_block AS lastBlock FROM dfg_build_checkpoints")
+      .get() as { lastBlock: number };
+    expect(checkpoint.lastBlock).toBe(99);
+    db.close();
+  });
+});
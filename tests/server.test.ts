@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, run } from "../src/app.ts";
+import { createFakeRpc } from "./fake-rpc.ts";
+import {
+  addLog,
+  chainHandle,
+  DECRYPTION,
+  decryptionLog,
+  EXECUTOR,
+  handle,
+  userDecryptionLog,
+} from "./fixtures.ts";
+
+const CHAIN_ID = 31337;
+
+// The API reads its configuration from the environment when it starts, so it runs as its
+// own process against a database the ingestor filled.
+let server: ReturnType<typeof Bun.spawn> | null = null;
+let baseUrl = "";
+
+async function freePort(): Promise<number> {
+  const probe = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => new Response() });
+  const { port } = probe;
+  await probe.stop(true);
+  if (port === undefined) throw new Error("no free port");
+  return port;
+}
+
+async function get(path: string): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+beforeAll(async () => {
+  const dbPath = join(mkdtempSync(join(tmpdir(), "fhevm-api-")), "stats.sqlite");
+  const fake = createFakeRpc({ chainId: CHAIN_ID, head: 30 });
+  // Handle 1 is computed at block 12 and decrypted at 15 and 18; handle 9 was never computed.
+  fake.addLogs([
+    addLog(12, chainHandle(1, CHAIN_ID)),
+    decryptionLog(15, 7, [chainHandle(1, CHAIN_ID), chainHandle(9, CHAIN_ID)]),
+    userDecryptionLog(
+      18,
+      8,
+      [chainHandle(1, CHAIN_ID)],
+      "0x00000000000000000000000000000000000000ee",
+    ),
+    addLog(25, handle(3)),
+  ]);
+  const silenced = (["log", "warn"] as const).map((method) =>
+    spyOn(console, method).mockImplementation(() => {}),
+  );
+  try {
+    await run(
+      loadConfig({
+        NETWORK: "custom",
+        RPC_URL: fake.url,
+        CHAIN_ID: String(CHAIN_ID),
+        FHEVM_EXECUTOR_ADDRESS: EXECUTOR,
+        DECRYPTION_CONTRACT_ADDRESS: DECRYPTION,
+        MODE: "backfill",
+        DB_PATH: dbPath,
+        START_BLOCK: "10",
+        END_BLOCK: "30",
+        DFG_BUILD_INLINE: "1",
+      }),
+    );
+  } finally {
+    fake.stop();
+    for (const spy of silenced) spy.mockRestore();
+  }
+
+  const port = await freePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  server = Bun.spawn([process.execPath, join(import.meta.dir, "../src/server.ts")], {
+    env: {
+      ...Bun.env,
+      DB_PATH: dbPath,
+      DATABASE_URL: "",
+      HTTP_HOST: "127.0.0.1",
+      HTTP_PORT: String(port),
+      CHAIN_ID: String(CHAIN_ID),
+      RATE_LIMIT_DISABLED: "1",
+      UI_DIST_DIR: join(dbPath, "no-ui"),
+    },
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    const ready = await fetch(`${baseUrl}/health`).then(
+      (response) => response.ok,
+      () => false,
+    );
+    if (ready) return;
+    await Bun.sleep(50);
+  }
+  throw new Error("API did not start");
+});
+
+afterAll(async () => {
+  server?.kill();
+  await server?.exited;
+  server = null;
+});
+
+describe("decryption endpoints", () => {
+  it("reports request volume and compute-to-decrypt latency", async () => {
+    const { status, body } = await get("/stats/decryptions?bucketSize=5");
+    expect(status).toBe(200);
+    expect(body.filters).toEqual({ chainId: CHAIN_ID });
+    expect(body.totals).toEqual({
+      requests: 2,
+      handles: 3,
+      distinctHandles: 2,
+      linkedHandles: 2,
+      unlinkedHandles: 1,
+    });
+    expect(body.byEvent).toEqual([
+      {
+        eventName: "DecryptionRequest",
+        kind: "public",
+        requests: 1,
+        handles: 2,
+        distinctHandles: 2,
+      },
+      {
+        eventName: "UserDecryptionRequest",
+        kind: "user",
+        requests: 1,
+        handles: 1,
+        distinctHandles: 1,
+      },
+    ]);
+    expect(body.latency).toEqual({
+      sameChainHandles: 2,
+      avgBlocks: 4.5,
+      minBlocks: 3,
+      maxBlocks: 6,
+      p50Blocks: 3,
+      p90Blocks: 3,
+      avgSeconds: 54,
+      bucketSize: 5,
+      buckets: [
+        { bucketStart: 0, count: 1 },
+        { bucketStart: 5, count: 1 },
+      ],
+    });
+  });
+
+  it("scopes requests to the blocks they were made in", async () => {
+    const { body } = await get("/stats/decryptions?startBlock=16&endBlock=20");
+    expect(body.filters).toEqual({ chainId: CHAIN_ID, startBlock: 16, endBlock: 20 });
+    expect(body.totals).toMatchObject({ requests: 1, handles: 1, linkedHandles: 1 });
+  });
+
+  it("groups decrypted handles by the op that produced them", async () => {
+    const { status, body } = await get("/stats/decryption-ops");
+    expect(status).toBe(200);
+    expect(body.rows).toEqual([
+      {
+        op: "FheAdd",
+        handles: 2,
+        distinctHandles: 1,
+        requests: 2,
+        userHandles: 1,
+        publicHandles: 1,
+      },
+      {
+        op: "unlinked",
+        handles: 1,
+        distinctHandles: 1,
+        requests: 1,
+        userHandles: 0,
+        publicHandles: 1,
+      },
+    ]);
+  });
+
+  it("rejects an executor address filter", async () => {
+    for (const path of ["/stats/decryptions", "/stats/decryption-ops"]) {
+      const { status, body } = await get(`${path}?address=${EXECUTOR}`);
+      expect(status).toBe(400);
+      expect(body).toEqual({ error: "unsupported_parameter", parameter: "address" });
+    }
+  });
+});
+
+describe("executor address filter", () => {
+  it("matches the stored checksummed address in any casing", async () => {
+    const { status, body } = await get(`/stats/ingestion?address=${EXECUTOR.toLowerCase()}`);
+    expect(status).toBe(200);
+    expect((body.events as { count: number }).count).toBe(2);
+    expect((body.executors as Array<{ address: string }>).map((row) => row.address)).toEqual([
+      EXECUTOR,
+    ]);
+  });
+
+  it("rejects malformed addresses", async () => {
+    const { status, body } = await get("/stats/ingestion?address=0x1234");
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "invalid_address" });
+  });
+});
+
+describe("time buckets", () => {
+  it("buckets events by the timestamp of their block", async () => {
+    const { status, body } = await get("/stats/buckets?bucketSeconds=100");
+    expect(status).toBe(200);
+    // Fake blocks are 12 seconds apart from 1_700_000_000: blocks 12 and 25.
+    expect(body.rows).toEqual([
+      { bucketStart: 1_700_000_100, count: 1 },
+      { bucketStart: 1_700_000_300, count: 1 },
+    ]);
+    expect(body.eventsWithoutBlockTime).toBe(0);
+  });
+});
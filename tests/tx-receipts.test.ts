@@ -0,0 +1,134 @@
+import { describe, expect, it } from "bun:test";
+import { TransactionReceiptNotFoundError } from "viem";
+import { initDatabase } from "../src/app.ts";
+import type { RpcClient, RpcPool } from "../src/rpc-pool.ts";
+import { createSqliteStorage } from "../src/storage.ts";
+import { enrichTxReceiptsOnce } from "../src/tx-receipts.ts";
+
+const CHAIN_ID = 11155111;
+
+function fakePool(receipts: Record<string, Record<string, unknown>>, calls: string[]): RpcPool {
+  const client = {
+    getTransactionReceipt: async ({ hash }: { hash: string }) => {
+      calls.push(hash);
+      const receipt = receipts[hash];
+      if (!receipt) throw new TransactionReceiptNotFoundError({ hash: hash as `0x${string}` });
+      return { transactionHash: hash, ...receipt };
+    },
+  } as unknown as RpcClient;
+  return { request: (fn: (client: RpcClient) => Promise<unknown>) => fn(client) } as RpcPool;
+}
+
+describe("enrichTxReceiptsOnce", () => {
+  it("stores receipts for unseen txs and counts unknown ones", async () => {
+    const db = await initDatabase(":memory:");
+    db.exec(`
+      INSERT INTO tx_seen (chain_id, tx_hash) VALUES
+        (${CHAIN_ID}, '0xtx1'), (${CHAIN_ID}, '0xtx2'), (${CHAIN_ID}, '0xtx3');
+    `);
+    const calls: string[] = [];
+    const rpc = fakePool(
+      {
+        "0xtx1": {
+          blockNumber: 100n,
+          from: "0xAbC0000000000000000000000000000000000001",
+          to: "0xDeF0000000000000000000000000000000000002",
+          gasUsed: 150_000n,
+          effectiveGasPrice: 2_000_000_000n,
+          status: "success",
+        },
+        "0xtx2": {
+          blockNumber: 101n,
+          from: "0xabc0000000000000000000000000000000000001",
+          to: null,
+          gasUsed: 90_000n,
+          effectiveGasPrice: 1_000_000_000n,
+          status: "reverted",
+        },
+      },
+      calls,
+    );
+
+    const result = await enrichTxReceiptsOnce(rpc, createSqliteStorage(db), CHAIN_ID, 10);
+    expect(result).toEqual({ fetched: 2, missing: 1 });
+
+    const rows = db
+      .prepare(
+        `SELECT tx_hash, block_number, from_address, to_address, gas_used, effective_gas_price, status
+         FROM tx_receipts ORDER BY tx_hash`,
+      )
+      .all();
+    expect(rows).toEqual([
+      {
+        tx_hash: "0xtx1",
+        block_number: 100,
+        from_address: "0xabc0000000000000000000000000000000000001",
+        to_address: "0xdef0000000000000000000000000000000000002",
+        gas_used: 150_000,
+        effective_gas_price: 2_000_000_000,
+        status: "success",
+      },
+      {
+        tx_hash: "0xtx2",
+        block_number: 101,
+        from_address: "0xabc0000000000000000000000000000000000001",
+        to_address: null,
+        gas_used: 90_000,
+        effective_gas_price: 1_000_000_000,
+        status: "reverted",
+      },
+    ]);
+
+    // The unknown receipt waits for its retry time, then only it is asked for again.
+    const misses = () =>
+      db.prepare("SELECT tx_hash, attempts, retry_after FROM tx_receipt_misses").all() as Array<{
+        tx_hash: string;
+        attempts: number;
+        retry_after: number;
+      }>;
+    const [miss] = misses();
+    expect(miss).toMatchObject({ tx_hash: "0xtx3", attempts: 1 });
+    calls.length = 0;
+    expect(await enrichTxReceiptsOnce(rpc, createSqliteStorage(db), CHAIN_ID, 10)).toEqual({
+      fetched: 0,
+      missing: 0,
+    });
+    expect(calls).toEqual([]);
+
+    const later = (miss?.retry_after ?? 0) + 1;
+    expect(await enrichTxReceiptsOnce(rpc, createSqliteStorage(db), CHAIN_ID, 10, later)).toEqual({
+      fetched: 0,
+      missing: 1,
+    });
+    expect(calls).toEqual(["0xtx3"]);
+    expect(misses()).toMatchObject([{ tx_hash: "0xtx3", attempts: 2 }]);
+    expect(misses()[0]?.retry_after).toBe(later + 120);
+
+    db.close();
+  });
+
+  it("moves past unknown receipts at the head of the queue", async () => {
+    const db = await initDatabase(":memory:");
+    db.exec(
+      `INSERT INTO tx_seen (chain_id, tx_hash) VALUES (${CHAIN_ID}, '0xa'), (${CHAIN_ID}, '0xb');`,
+    );
+    const calls: string[] = [];
+    const rpc = fakePool(
+      { "0xb": { blockNumber: 5n, from: "0x01", to: null, gasUsed: 1n, status: "success" } },
+      calls,
+    );
+    const storage = createSqliteStorage(db);
+
+    expect(await enrichTxReceiptsOnce(rpc, storage, CHAIN_ID, 1)).toEqual({
+      fetched: 0,
+      missing: 1,
+    });
+    expect(await enrichTxReceiptsOnce(rpc, storage, CHAIN_ID, 1)).toEqual({
+      fetched: 1,
+      missing: 0,
+    });
+    expect(calls).toEqual(["0xa", "0xb"]);
+
+    db.close();
+  });
+});
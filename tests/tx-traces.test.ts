@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { initDatabase, loadConfig, run } from "../src/app.ts";
+import { createRpcPool } from "../src/rpc-pool.ts";
+import { createSqliteStorage } from "../src/storage.ts";
+import { attributeTraceLogs, type CallFrame, enrichTxTracesOnce } from "../src/tx-traces.ts";
+import { createFakeRpc, type FakeRpc } from "./fake-rpc.ts";
+import { addData, addLog, addTopics, EXECUTOR } from "./fixtures.ts";
+
+const CHAIN_ID = 31337;
+const IMPLEMENTATION = "0x00000000000000000000000000000000000000e1";
+const EOA = "0x00000000000000000000000000000000000000ee";
+const DAPP = "0x00000000000000000000000000000000000000a1";
+const TOKEN = "0x00000000000000000000000000000000000000b2";
+const VAULT = "0x00000000000000000000000000000000000000c3";
+const executorLog = (result: number) => ({
+  address: EXECUTOR.toLowerCase(),
+  topics: addTopics(DAPP),
+  data: addData(result),
+  position: "0x0",
+});
+
+// EOA -> DAPP.settle -> TOKEN.transfer -> executor proxy -> implementation (log 1)
+//                    -> executor (log 2)
+//                    -> VAULT (reverted) -> executor (log dropped)
+const trace: CallFrame = {
+  type: "CALL",
+  from: EOA,
+  to: DAPP,
+  input: "0x12345678",
+  logs: [{ address: DAPP, topics: [], data: "0x", position: "0x1" }],
+  calls: [
+    {
+      type: "CALL",
+      from: DAPP,
+      to: TOKEN,
+      input: "0xabcdef010000",
+      calls: [
+        {
+          type: "CALL",
+          from: TOKEN,
+          to: EXECUTOR,
+          input: "0x0a0b0c0d",
+          calls: [
+            {
+              type: "DELEGATECALL",
+              from: EXECUTOR,
+              to: IMPLEMENTATION,
+              input: "0x0a0b0c0d",
+              logs: [executorLog(1)],
+            },
+          ],
+        },
+      ],
+    },
+    { type: "CALL", from: DAPP, to: EXECUTOR, input: "0x0a0b0c0d", logs: [executorLog(2)] },
+    {
+      type: "CALL",
+      from: DAPP,
+      to: VAULT,
+      input: "0xfeedbeef",
+      error: "execution reverted",
+      calls: [{ type: "CALL", from: VAULT, to: EXECUTOR, logs: [executorLog(3)] }],
+    },
+  ],
+};
+
+describe("attributeTraceLogs", () => {
+  it("attributes executor logs to the frame that called the executor", () => {
+    const { frameCount, logs } = attributeTraceLogs(trace, new Set([EXECUTOR.toLowerCase()]));
+    expect(frameCount).toBe(7);
+    expect(
+      logs.map(({ frameId, depth, contract, selector }) => ({
+        frameId,
+        depth,
+        contract,
+        selector,
+      })),
+    ).toEqual([
+      { frameId: 1, depth: 1, contract: TOKEN, selector: "0xabcdef01" },
+      { frameId: 0, depth: 0, contract: DAPP, selector: "0x12345678" },
+    ]);
+  });
+});
+
+describe("enrichTxTracesOnce", () => {
+  let fake: FakeRpc | null = null;
+
+  afterEach(() => {
+    fake?.stop();
+    fake = null;
+  });
+
+  it("stores calling contracts for traced txs and flags mismatches", async () => {
+    const dbPath = join(mkdtempSync(join(tmpdir(), "fhevm-traces-")), "stats.sqlite");
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    fake.addLogs([
+      addLog(12, 1, 0, DAPP),
+      addLog(12, 2, 0, DAPP),
+      addLog(13, 3, 1, DAPP),
+      addLog(15, 4, 0, DAPP),
+    ]);
+    const silenced = ["log", "warn"].map((method) =>
+      spyOn(console, method as "log").mockImplementation(() => {}),
+    );
+    try {
+      await run(
+        loadConfig({
+          NETWORK: "custom",
+          RPC_URL: fake.url,
+          CHAIN_ID: String(CHAIN_ID),
+          FHEVM_EXECUTOR_ADDRESS: EXECUTOR,
+          MODE: "backfill",
+          DB_PATH: dbPath,
+          START_BLOCK: "10",
+          END_BLOCK: "20",
+        }),
+      );
+    } finally {
+      for (const spy of silenced) spy.mockRestore();
+    }
+
+    const traced = fake.txHash(12);
+    const mismatched = fake.txHash(13, 1);
+    fake.setTrace(traced, trace);
+    // A trace without the executor log stored for this tx cannot be attributed.
+    fake.setTrace(mismatched, { type: "CALL", from: EOA, to: EXECUTOR, calls: [] });
+
+    const db = await initDatabase(dbPath);
+    db.prepare(
+      `INSERT INTO dfg_nodes (chain_id, tx_hash, node_id, op, input_count)
+       VALUES (?, ?, 1, 'FheAdd', 2)`,
+    ).run(CHAIN_ID, traced);
+    const rpc = createRpcPool([fake.url], CHAIN_ID);
+
+    const result = await enrichTxTracesOnce(rpc, createSqliteStorage(db), CHAIN_ID, 10);
+    expect(result).toEqual({ traced: 2, missing: 1, mismatched: 1 });
+
+    expect(
+      db
+        .prepare(
+          `SELECT tx_hash AS txHash, status, frame_count AS frameCount,
+                  attributed_events AS attributedEvents
+           FROM tx_traces WHERE status != 'unavailable' ORDER BY tx_hash`,
+        )
+        .all(),
+    ).toEqual([
+      { txHash: traced, status: "ok", frameCount: 7, attributedEvents: 2 },
+      { txHash: mismatched, status: "mismatch", frameCount: 1, attributedEvents: 0 },
+    ]);
+    expect(
+      db
+        .prepare(
+          `SELECT log_index AS logIndex, frame_id AS frameId, call_depth AS callDepth, contract,
+                  selector
+           FROM fhe_event_calls ORDER BY log_index`,
+        )
+        .all(),
+    ).toEqual([
+      { logIndex: 0, frameId: 1, callDepth: 1, contract: TOKEN, selector: "0xabcdef01" },
+      { logIndex: 1, frameId: 0, callDepth: 0, contract: DAPP, selector: "0x12345678" },
+    ]);
+    expect(
+      db
+        .prepare(
+          `SELECT call_frame AS frame, call_contract AS contract, call_selector AS selector
+           FROM dfg_nodes`,
+        )
+        .get(),
+    ).toEqual({ frame: 0, contract: DAPP, selector: "0x12345678" });
+
+    const untraceable = () =>
+      db
+        .prepare(
+          `SELECT tx_hash AS txHash, attempts, retry_after AS retryAfter, error
+           FROM tx_traces WHERE status = 'unavailable'`,
+        )
+        .all() as Array<{ txHash: string; attempts: number; retryAfter: number; error: string }>;
+    const [miss] = untraceable();
+    expect(miss).toMatchObject({
+      txHash: fake.txHash(15),
+      attempts: 1,
+      error: "transaction not found",
+    });
+
+    // The untraceable tx waits for its retry time; traced ones are not requested again.
+    const traceRequests = () =>
+      fake?.requests.filter((entry) => entry.method === "debug_traceTransaction").length;
+    const before = traceRequests();
+    const again = await enrichTxTracesOnce(rpc, createSqliteStorage(db), CHAIN_ID, 10);
+    expect(again).toEqual({ traced: 0, missing: 0, mismatched: 0 });
+    expect(traceRequests()).toBe(before);
+
+    const later = (miss?.retryAfter ?? 0) + 1;
+    fake.setTrace(fake.txHash(15), { type: "CALL", from: EOA, to: DAPP, calls: [] });
+    expect(await enrichTxTracesOnce(rpc, createSqliteStorage(db), CHAIN_ID, 10, later)).toEqual({
+      traced: 1,
+      missing: 0,
+      mismatched: 1,
+    });
+    expect(untraceable()).toEqual([]);
+    db.close();
+  });
+
+  it("records per-tx trace errors without failing the batch", async () => {
+    fake = createFakeRpc({ chainId: CHAIN_ID, head: 20 });
+    const db = await initDatabase(":memory:");
+    const [pruned, timedOut, ok] = [fake.txHash(12), fake.txHash(13), fake.txHash(14)];
+    for (const txHash of [pruned, timedOut, ok]) {
+      db.prepare("INSERT INTO tx_seen (chain_id, tx_hash) VALUES (?, ?)").run(CHAIN_ID, txHash);
+    }
+    fake.failTrace(pruned, "required historical state unavailable (reexec=128)");
+    fake.failTrace(timedOut, "execution timeout");
+    fake.setTrace(ok, { type: "CALL", from: EOA, to: DAPP, calls: [] });
+    const rpc = createRpcPool([fake.url], CHAIN_ID);
+    const storage = createSqliteStorage(db);
+
+    expect(await enrichTxTracesOnce(rpc, storage, CHAIN_ID, 10)).toEqual({
+      traced: 1,
+      missing: 2,
+      mismatched: 0,
+    });
+    expect(
+      db.prepare("SELECT tx_hash AS txHash, status, error FROM tx_traces ORDER BY tx_hash").all(),
+    ).toEqual([
+      {
+        txHash: pruned,
+        status: "unavailable",
+        error: "required historical state unavailable (reexec=128)",
+      },
+      { txHash: timedOut, status: "unavailable", error: "execution timeout" },
+      { txHash: ok, status: "ok", error: null },
+    ]);
+
+    // A node without the debug namespace still fails the call.
+    db.prepare("DELETE FROM tx_traces").run();
+    fake.failNext("debug_traceTransaction", {
+      kind: "rpcError",
+      code: -32601,
+      message: "the method debug_traceTransaction does not exist",
+    });
+    await expect(enrichTxTracesOnce(rpc, storage, CHAIN_ID, 1)).rejects.toThrow("does not exist");
+
+    // So do transport errors, which say nothing about the txs: nothing is recorded.
+    fake.failNext("debug_traceTransaction", { kind: "html", status: 503 }, 100);
+    await expect(enrichTxTracesOnce(rpc, storage, CHAIN_ID, 10)).rejects.toThrow();
+    expect(db.prepare("SELECT COUNT(*) AS count FROM tx_traces").get()).toEqual({ count: 0 });
+
+    db.close();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { deriveEventFields, extractHandleMetadata } from "../src/app.ts";
+import { deriveEventFields, extractHandleChainId, extractHandleMetadata } from "../src/app.ts";
 
 function makeHandle(type: number, version = 1): string {
   const body =
@@ -20,6 +20,14 @@ describe("extractHandleMetadata", () => {
   });
 });
 
+describe("extractHandleChainId", () => {
+  it("parses the host chain id from bytes 22..29", () => {
+    const handle = `0x${"ab".repeat(22)}${(11155111).toString(16).padStart(16, "0")}0501`;
+    expect(extractHandleChainId(handle)).toBe(11155111);
+    expect(extractHandleChainId("0x1234")).toBe(null);
+  });
+});
+
 describe("deriveEventFields", () => {
   it("derives types for binary ops with encrypted rhs", () => {
     const derived = deriveEventFields("FheAdd", {